@@ -21,14 +21,18 @@ const Quotations = lazy(() => import("@/pages/quotations"));
 const Invoices = lazy(() => import("@/pages/invoices"));
 const Attendance = lazy(() => import("@/pages/attendance"));
 const AttendanceManagement = lazy(() => import("@/pages/attendance-management"));
+const TeamAttendance = lazy(() => import("@/pages/team-attendance"));
 const PayrollManagement = lazy(() => import("@/pages/payroll-management"));
 const Leave = lazy(() => import("@/pages/leave"));
 const UserManagement = lazy(() => import("@/pages/user-management"));
 const HRManagement = lazy(() => import("@/pages/hr-management"));
 const Departments = lazy(() => import("@/pages/departments"));
+const ShiftRoster = lazy(() => import("@/pages/shift-roster"));
+const Holidays = lazy(() => import("@/pages/holidays"));
 const OfficeLocations = lazy(() => import("@/pages/office-locations"));
 const SiteVisit = lazy(() => import("@/pages/site-visit"));
 const SiteVisitMonitoring = lazy(() => import("@/pages/site-visit-monitoring"));
+const Kiosk = lazy(() => import("@/pages/kiosk"));
 
 // Simple loading fallback component
 const PageLoader = () => (
@@ -49,6 +53,12 @@ function Router() {
       {/* Public routes - no auth required */}
       <Route path="/login" component={Login} />
       <Route path="/register" component={Register} />
+      {/* Shared attendance kiosk - authenticates with its device token, not a user login */}
+      <Route path="/kiosk">
+        <Suspense fallback={<PageLoader />}>
+          <Kiosk />
+        </Suspense>
+      </Route>
       
       {/* Root route - intelligent redirect based on auth state */}
       <Route path="/" component={RootHandler} />
@@ -125,6 +135,19 @@ function Router() {
         </ProtectedRoute>
       </Route>
       
+      {/* Team attendance - reporting managers and attendance admins */}
+      <Route path="/team-attendance">
+        <ProtectedRoute 
+          requiredPermissions={["attendance.view_team", "attendance.view_all"]}
+        >
+          <DashboardLayout>
+            <Suspense fallback={<PageLoader />}>
+              <TeamAttendance />
+            </Suspense>
+          </DashboardLayout>
+        </ProtectedRoute>
+      </Route>
+      
       {/* Leave management - enterprise permission based */}
       <Route path="/leave">
         <ProtectedRoute 
@@ -209,6 +232,28 @@ function Router() {
           </DashboardLayout>
         </ProtectedRoute>
       </Route>
+
+      {/* Shift definitions and weekly rosters */}
+      <Route path="/shift-roster">
+        <ProtectedRoute requiredRole="master_admin">
+          <DashboardLayout>
+            <Suspense fallback={<PageLoader />}>
+              <ShiftRoster />
+            </Suspense>
+          </DashboardLayout>
+        </ProtectedRoute>
+      </Route>
+
+      {/* Company holiday calendar */}
+      <Route path="/holidays">
+        <ProtectedRoute requiredRole="master_admin">
+          <DashboardLayout>
+            <Suspense fallback={<PageLoader />}>
+              <Holidays />
+            </Suspense>
+          </DashboardLayout>
+        </ProtectedRoute>
+      </Route>
       
       {/* Office Locations - enterprise system administration */}
       <Route path="/office-locations">
@@ -0,0 +1,239 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate } from "@/lib/utils";
+import { TimeDisplay } from "@/components/time/time-display";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CheckCircle, Loader2, ShieldAlert, ShieldCheck, XCircle } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { AttendanceRecord } from "@shared/schema";
+
+type AnomalyRecord = AttendanceRecord & { userName: string; userDepartment: string | null };
+
+const anomalyLabels: Record<string, string> = {
+  impossible_travel: "Impossible travel",
+  reused_coordinates: "Reused coordinates",
+  accuracy_jump: "Accuracy jump",
+  reused_photo: "Reused photo",
+  far_from_customer_site: "Far from customer site",
+  device_change: "Device change",
+  offline_synced: "Synced from offline",
+  face_mismatch: "Face mismatch",
+};
+
+export const getAnomalyScoreBadge = (score?: number) => {
+  if (!score) return null;
+  if (score >= 70) return <Badge variant="destructive">Risk {score}</Badge>;
+  if (score >= 40) return <Badge className="bg-orange-100 text-orange-800">Risk {score}</Badge>;
+  return <Badge variant="secondary">Risk {score}</Badge>;
+};
+
+export function AttendanceAnomaliesPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [status, setStatus] = useState("pending");
+  const [reviewing, setReviewing] = useState<{ record: AnomalyRecord; decision: "cleared" | "confirmed" } | null>(null);
+  const [reviewComment, setReviewComment] = useState("");
+
+  const { data: records = [], isLoading } = useQuery<AnomalyRecord[]>({
+    queryKey: ['/api/attendance/anomalies', status],
+    queryFn: async () => {
+      const response = await apiRequest(`/api/attendance/anomalies?status=${status}`, 'GET');
+      return response.json();
+    },
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, decision, comment }: { id: string; decision: string; comment: string }) => {
+      const response = await apiRequest(`/api/attendance/${id}/anomaly-review`, 'PATCH', {
+        decision,
+        reviewComment: comment
+      });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/attendance/anomalies'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/attendance'] });
+      setReviewing(null);
+      setReviewComment("");
+      toast({
+        title: "Success",
+        description: result.message,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to review anomaly",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getReviewBadge = (value?: string) => {
+    if (value === "cleared") return <Badge className="bg-green-100 text-green-800">Cleared</Badge>;
+    if (value === "confirmed") return <Badge variant="destructive">Confirmed</Badge>;
+    if (value === "pending") return <Badge variant="secondary">Pending review</Badge>;
+    return <Badge variant="outline">Below threshold</Badge>;
+  };
+
+  return (
+    <>
+      <div className="flex justify-end mb-4">
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="pending">Pending review</SelectItem>
+            <SelectItem value="confirmed">Confirmed</SelectItem>
+            <SelectItem value="cleared">Cleared</SelectItem>
+            <SelectItem value="all">All flagged</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      ) : records.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <ShieldCheck className="h-12 w-12 mx-auto mb-4" />
+          <p>No flagged attendance records</p>
+        </div>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Employee</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Punches</TableHead>
+                <TableHead>Score</TableHead>
+                <TableHead>Reasons</TableHead>
+                <TableHead>Review</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {records.map((record) => (
+                <TableRow key={record.id}>
+                  <TableCell className="font-medium">
+                    <div>{record.userName}</div>
+                    <div className="text-xs text-gray-500 capitalize">
+                      {record.userDepartment || 'N/A'} · {(record.attendanceType || 'office').replace('_', ' ')}
+                    </div>
+                  </TableCell>
+                  <TableCell>{formatDate(record.date)}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-col text-sm">
+                      <span>In: {record.checkInTime ? <TimeDisplay time={record.checkInTime} format12Hour={true} /> : '-'}</span>
+                      <span>Out: {record.checkOutTime ? <TimeDisplay time={record.checkOutTime} format12Hour={true} /> : '-'}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell>{getAnomalyScoreBadge(record.anomalyScore)}</TableCell>
+                  <TableCell className="max-w-md">
+                    <ul className="space-y-1 text-sm">
+                      {(record.anomalyFlags || []).map((flag, index) => (
+                        <li key={index}>
+                          <span className="font-medium">
+                            {anomalyLabels[flag.type] || flag.type} ({flag.punch === 'check_in' ? 'in' : 'out'}):
+                          </span>{' '}
+                          <span className="text-muted-foreground">{flag.reason}</span>
+                        </li>
+                      ))}
+                    </ul>
+                    {record.checkInFaceMatchStatus === 'unavailable' && (
+                      <p className="text-xs text-amber-700 mt-1">Check-in face not verified - face check was unavailable</p>
+                    )}
+                    {record.anomalyReviewComment && (
+                      <p className="text-xs text-muted-foreground mt-1">Reviewer: {record.anomalyReviewComment}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>{getReviewBadge(record.anomalyReviewStatus)}</TableCell>
+                  <TableCell className="text-right">
+                    {record.anomalyReviewStatus !== "confirmed" && (
+                      <div className="flex justify-end gap-2">
+                        {record.anomalyReviewStatus !== "cleared" && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="text-green-600"
+                            onClick={() => setReviewing({ record, decision: "cleared" })}
+                          >
+                            <CheckCircle className="h-4 w-4 mr-1" />
+                            Clear
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="text-red-600"
+                          onClick={() => setReviewing({ record, decision: "confirmed" })}
+                        >
+                          <XCircle className="h-4 w-4 mr-1" />
+                          Confirm
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5" />
+              {reviewing?.decision === "cleared" ? "Clear" : "Confirm"} Anomaly
+            </DialogTitle>
+            <DialogDescription>
+              {reviewing?.decision === "cleared"
+                ? "Mark the flags as a false positive. New anomalies on this record will queue it again."
+                : "Record this attendance as fraudulent. The decision is kept in the audit log."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="anomaly-review-comment">
+              Comment{reviewing?.decision === "confirmed" ? "" : " (optional)"}
+            </Label>
+            <Textarea
+              id="anomaly-review-comment"
+              value={reviewComment}
+              onChange={(e) => setReviewComment(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewing(null)} disabled={reviewMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              variant={reviewing?.decision === "confirmed" ? "destructive" : "default"}
+              disabled={reviewMutation.isPending || (reviewing?.decision === "confirmed" && !reviewComment.trim())}
+              onClick={() => reviewing && reviewMutation.mutate({
+                id: reviewing.record.id,
+                decision: reviewing.decision,
+                comment: reviewComment
+              })}
+            >
+              {reviewMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {reviewing?.decision === "cleared" ? "Clear" : "Confirm"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
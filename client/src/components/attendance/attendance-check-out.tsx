@@ -13,6 +13,7 @@ import {
   Loader2, Timer, Zap, Wifi, WifiOff, RefreshCw
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import { queueOfflinePunch } from "@/utils/offline-punch-queue";
 // Removed deprecated formatTime imports - using TimeDisplay component instead
 import { TimeDisplay } from "@/components/time/time-display";
 
@@ -42,7 +43,7 @@ export function AttendanceCheckOut({
   const [isSubmitting, setIsSubmitting] = useState(false);
   
   // Simple location state
-  const [location, setLocation] = useState<{latitude: number, longitude: number} | null>(null);
+  const [location, setLocation] = useState<{latitude: number, longitude: number, accuracy?: number} | null>(null);
   const [locationAddress, setLocationAddress] = useState<string | null>(null);
   const [isLoadingLocation, setIsLoadingLocation] = useState(false);
   const [locationError, setLocationError] = useState<string | null>(null);
@@ -234,8 +235,8 @@ export function AttendanceCheckOut({
         );
       });
       
-      const { latitude, longitude } = position.coords;
-      setLocation({ latitude, longitude });
+      const { latitude, longitude, accuracy } = position.coords;
+      setLocation({ latitude, longitude, accuracy });
       
       // Get readable address using Google Maps API
       try {
@@ -386,7 +387,6 @@ export function AttendanceCheckOut({
   // Simplified validation - only require location and photo
   const validateForm = (): string | null => {
     if (!location) return "Location access is required for check-out";
-    if (!navigator.onLine) return "Internet connection is required";
     if (!capturedPhoto) return "Selfie photo is required for checkout verification";
     
     return null;
@@ -405,6 +405,28 @@ export function AttendanceCheckOut({
 
     setIsSubmitting(true);
     try {
+      // Offline: keep the signed check-out on the device; it syncs with this time on reconnect
+      if (!isOnline) {
+        await queueOfflinePunch(user!.uid, 'attendance_check_out', {
+          latitude: location!.latitude,
+          longitude: location!.longitude,
+          accuracy: location!.accuracy,
+          photo: capturedPhoto,
+          ...(reason.trim() && { reason: reason.trim() }),
+          ...(otReason.trim() && { otReason: otReason.trim() })
+        });
+
+        toast({
+          title: "Check-out saved offline",
+          description: "It will be synced with this time when you're back online.",
+        });
+
+        resetForm();
+        onSuccess();
+        onClose();
+        return;
+      }
+
       let photoUploadUrl = undefined;
 
       // Upload photo to Cloudinary
@@ -438,6 +460,7 @@ export function AttendanceCheckOut({
         userId: user?.uid,
         latitude: location!.latitude,
         longitude: location!.longitude,
+        accuracy: location!.accuracy,
         imageUrl: photoUploadUrl, // Use uploaded Cloudinary URL
       };
 
@@ -699,7 +722,6 @@ export function AttendanceCheckOut({
             disabled={
               isSubmitting || 
               !location || 
-              !navigator.onLine || 
               !capturedPhoto
             }
             className="bg-red-600 hover:bg-red-700"
@@ -712,7 +734,7 @@ export function AttendanceCheckOut({
             ) : (
               <>
                 <CheckCircle className="h-4 w-4 mr-2" />
-                Check Out
+                {isOnline ? 'Check Out' : 'Check Out Offline'}
               </>
             )}
           </Button>
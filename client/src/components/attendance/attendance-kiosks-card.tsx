@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDate } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2, PlusCircle, Tablet, Trash2 } from "lucide-react";
+import type { InsertAttendanceKiosk, InsertOfficeLocation, WithId } from "@shared/schema";
+
+// The device token hash never leaves the server
+type Kiosk = Omit<WithId<InsertAttendanceKiosk>, "deviceTokenHash"> & { lastSeenAt?: string };
+
+interface AttendanceKiosksCardProps {
+  officeLocations: WithId<InsertOfficeLocation>[];
+}
+
+export function AttendanceKiosksCard({ officeLocations }: AttendanceKiosksCardProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState({ name: "", officeLocationId: "" });
+  // Shown once after registration - only its hash is kept on the server
+  const [issuedToken, setIssuedToken] = useState<string | null>(null);
+
+  const { data: kiosks = [], isLoading } = useQuery<Kiosk[]>({
+    queryKey: ["/api/attendance/kiosks"],
+    queryFn: async () => {
+      const response = await apiRequest("/api/attendance/kiosks", "GET");
+      return response.json();
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/attendance/kiosks", "POST", formData);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/attendance/kiosks"] });
+      setIssuedToken(result.deviceToken);
+      setFormData({ name: "", officeLocationId: "" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to register kiosk",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deactivateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest(`/api/attendance/kiosks/${id}`, "DELETE");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/attendance/kiosks"] });
+      toast({ title: "Kiosk deactivated", description: "The device can no longer record attendance" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to deactivate kiosk",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getOfficeName = (id: string) => officeLocations.find((location) => location.id === id)?.name || "Unknown office";
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setIssuedToken(null);
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="text-xl">Attendance Kiosks</CardTitle>
+          <CardDescription>
+            Shared tablets where employees without a phone check in with employee ID + PIN or a QR badge
+          </CardDescription>
+        </div>
+        <Button onClick={() => setIsDialogOpen(true)} disabled={officeLocations.length === 0}>
+          <PlusCircle className="h-4 w-4 mr-2" />
+          Register Kiosk
+        </Button>
+      </CardHeader>
+
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : kiosks.length === 0 ? (
+          <div className="text-center py-8">
+            <Tablet className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+            <p className="text-sm text-gray-500">No kiosks registered</p>
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Office</TableHead>
+                  <TableHead>Last Seen</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {kiosks.map((kiosk) => (
+                  <TableRow key={kiosk.id}>
+                    <TableCell className="font-medium">{kiosk.name}</TableCell>
+                    <TableCell>{getOfficeName(kiosk.officeLocationId)}</TableCell>
+                    <TableCell>{kiosk.lastSeenAt ? formatDate(new Date(kiosk.lastSeenAt)) : "Never paired"}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive"
+                        onClick={() => deactivateMutation.mutate(kiosk.id)}
+                        disabled={deactivateMutation.isPending}
+                        title="Deactivate kiosk"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>{issuedToken ? "Kiosk Registered" : "Register Kiosk"}</DialogTitle>
+            <DialogDescription>
+              {issuedToken
+                ? "Open /kiosk on the tablet and enter this device token. It will not be shown again."
+                : "Attendance punched on the kiosk is recorded at the selected office"}
+            </DialogDescription>
+          </DialogHeader>
+
+          {issuedToken ? (
+            <div className="rounded-md bg-gray-50 p-3 font-mono text-sm break-all select-all">{issuedToken}</div>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="kiosk-name">Name</Label>
+                <Input
+                  id="kiosk-name"
+                  placeholder="e.g. Workshop entrance tablet"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Office</Label>
+                <Select
+                  value={formData.officeLocationId}
+                  onValueChange={(value) => setFormData({ ...formData, officeLocationId: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select office" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {officeLocations.map((location) => (
+                      <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            {issuedToken ? (
+              <Button onClick={closeDialog}>Done</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={closeDialog} disabled={registerMutation.isPending}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() => registerMutation.mutate()}
+                  disabled={registerMutation.isPending || formData.name.trim().length < 2 || !formData.officeLocationId}
+                >
+                  {registerMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Register
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
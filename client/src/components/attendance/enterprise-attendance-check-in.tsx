@@ -5,6 +5,7 @@ import { useGeolocation } from "@/hooks/use-geolocation";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { locationService } from "@/lib/location-service";
+import { queueOfflinePunch } from "@/utils/offline-punch-queue";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
@@ -12,15 +13,16 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { MapPin, Camera, Wifi, WifiOff, Loader2, CheckCircle, AlertTriangle, Timer, Clock, RefreshCw } from "lucide-react";
+import { MapPin, Camera, Wifi, WifiOff, Loader2, CheckCircle, AlertTriangle, Timer, Clock, RefreshCw, QrCode } from "lucide-react";
 
 interface EnterpriseAttendanceCheckInProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
+  officeQrToken?: string | null; // From a scanned office QR code; the server verifies it
 }
 
-export function EnterpriseAttendanceCheckIn({ isOpen, onClose, onSuccess }: EnterpriseAttendanceCheckInProps) {
+export function EnterpriseAttendanceCheckIn({ isOpen, onClose, onSuccess, officeQrToken }: EnterpriseAttendanceCheckInProps) {
   const { user } = useAuthContext();
   const { location, error: locationError, isLoading: locationLoading, getCurrentLocation } = useGeolocation();
   const { toast } = useToast();
@@ -47,6 +49,7 @@ export function EnterpriseAttendanceCheckIn({ isOpen, onClose, onSuccess }: Ente
 
   // Network status
   const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isSavingOffline, setIsSavingOffline] = useState(false);
 
   // Simple location status display
   const getLocationStatus = () => {
@@ -277,7 +280,8 @@ export function EnterpriseAttendanceCheckIn({ isOpen, onClose, onSuccess }: Ente
         accuracy: location.accuracy,
         attendanceType: 'office',
         imageUrl: photoUploadUrl,
-        deviceInfo
+        deviceInfo,
+        ...(officeQrToken && { officeQrToken })
       };
 
       console.log('FRONTEND: Sending simplified check-in request');
@@ -541,17 +545,51 @@ export function EnterpriseAttendanceCheckIn({ isOpen, onClose, onSuccess }: Ente
 
 
 
-  // Enhanced submit handler
-  const handleSubmit = async () => {
-    if (!isOnline) {
+  // Without a connection the check-in is signed and kept on the device until it can be synced
+  const saveOfflineCheckIn = async () => {
+    if (!user?.uid || !location || !capturedPhoto) return;
+
+    setIsSavingOffline(true);
+    try {
+      await queueOfflinePunch(user.uid, 'attendance_check_in', {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        accuracy: location.accuracy,
+        attendanceType: 'office',
+        photo: capturedPhoto,
+        deviceInfo: {
+          type: /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent) ? 'mobile' : 'desktop',
+          locationCapability: location.accuracy <= 10 ? 'excellent' : location.accuracy <= 50 ? 'good' : 'limited'
+        }
+      });
+
+      toast({
+        title: "Check-in saved offline",
+        description: "It will be synced with this time when you're back online.",
+      });
+
+      setCapturedPhoto(null);
+      setCurrentAddress("");
+      if (stream) {
+        stream.getTracks().forEach(track => track.stop());
+        setStream(null);
+        setIsCameraActive(false);
+      }
+      onSuccess();
+      onClose();
+    } catch (error) {
       toast({
-        title: "No Internet Connection",
-        description: "Please check your internet connection and try again.",
+        title: "Check-in Failed",
+        description: error instanceof Error ? error.message : "Could not save the check-in on this device",
         variant: "destructive",
       });
-      return;
+    } finally {
+      setIsSavingOffline(false);
     }
+  };
 
+  // Enhanced submit handler
+  const handleSubmit = async () => {
     if (!location) {
       toast({
         title: "Location Required",
@@ -561,6 +599,11 @@ export function EnterpriseAttendanceCheckIn({ isOpen, onClose, onSuccess }: Ente
       return;
     }
 
+    if (!isOnline) {
+      saveOfflineCheckIn();
+      return;
+    }
+
     checkInMutation.mutate();
   };
 
@@ -623,6 +666,13 @@ export function EnterpriseAttendanceCheckIn({ isOpen, onClose, onSuccess }: Ente
                 </Button>
               </div>
               
+              {officeQrToken && (
+                <div className="flex items-center gap-2 text-sm text-green-700 bg-green-50 p-2 rounded border border-green-200">
+                  <QrCode className="h-4 w-4" />
+                  <span>Office QR code scanned - it will be used as proof of location</span>
+                </div>
+              )}
+
               {/* Simplified Address Display */}
               {location && (
                 <div className="space-y-2">
@@ -789,10 +839,10 @@ export function EnterpriseAttendanceCheckIn({ isOpen, onClose, onSuccess }: Ente
           {/* Submit Button with Context-Aware Messaging */}
           <Button
             onClick={handleSubmit}
-            disabled={!isFormValid() || checkInMutation.isPending || !isOnline}
+            disabled={!isFormValid() || checkInMutation.isPending || isSavingOffline}
             className="w-full"
           >
-            {checkInMutation.isPending ? (
+            {checkInMutation.isPending || isSavingOffline ? (
               <>
                 <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                 Processing Check-in...
@@ -806,8 +856,8 @@ export function EnterpriseAttendanceCheckIn({ isOpen, onClose, onSuccess }: Ente
           </Button>
 
           {!isOnline && (
-            <div className="text-center text-sm text-red-600">
-              Internet connection required for check-in
+            <div className="text-center text-sm text-amber-600">
+              You're offline - the check-in will be saved on this device and synced when you reconnect
             </div>
           )}
 
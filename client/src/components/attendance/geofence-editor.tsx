@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Crosshair, Trash2 } from "lucide-react";
+
+export interface GeofencePoint {
+  latitude: number;
+  longitude: number;
+}
+
+interface GeofenceEditorProps {
+  value: GeofencePoint[] | null;
+  onChange: (value: GeofencePoint[] | null) => void;
+}
+
+// Accepts a Polygon geometry, a Feature wrapping one, the first polygon of a FeatureCollection
+// or a bare [[lng, lat], ...] ring. Only the outer ring is used.
+export function parseGeoJsonPolygon(text: string): GeofencePoint[] {
+  let geometry = JSON.parse(text);
+  if (geometry?.type === "FeatureCollection") {
+    geometry = geometry.features?.find((feature: any) => feature?.geometry?.type === "Polygon");
+  }
+  if (geometry?.type === "Feature") {
+    geometry = geometry.geometry;
+  }
+
+  let ring: any;
+  if (Array.isArray(geometry)) {
+    ring = Array.isArray(geometry[0]?.[0]) ? geometry[0] : geometry;
+  } else if (geometry?.type === "Polygon") {
+    ring = geometry.coordinates?.[0];
+  } else {
+    throw new Error("Expected a GeoJSON Polygon");
+  }
+
+  if (!Array.isArray(ring)) {
+    throw new Error("Polygon has no coordinates");
+  }
+
+  const points = ring.map((position: any) => {
+    const [longitude, latitude] = position || [];
+    if (typeof latitude !== "number" || typeof longitude !== "number" ||
+        Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      throw new Error("Coordinates must be [longitude, latitude] numbers");
+    }
+    return { latitude, longitude };
+  });
+
+  // GeoJSON rings repeat the first position at the end
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (points.length > 1 && first.latitude === last.latitude && first.longitude === last.longitude) {
+    points.pop();
+  }
+
+  if (points.length < 3) {
+    throw new Error("A polygon needs at least 3 corners");
+  }
+  return points;
+}
+
+export function toGeoJsonPolygon(points: GeofencePoint[]): string {
+  const ring = points.map((point) => [point.longitude, point.latitude]);
+  return JSON.stringify({ type: "Polygon", coordinates: [[...ring, ring[0]]] });
+}
+
+export function GeofenceEditor({ value, onChange }: GeofenceEditorProps) {
+  const { toast } = useToast();
+  const [text, setText] = useState(value && value.length >= 3 ? toGeoJsonPolygon(value) : "");
+  const [error, setError] = useState<string | null>(null);
+  // Corners captured by walking the perimeter, before there are enough for a polygon
+  const [walkedCorners, setWalkedCorners] = useState<GeofencePoint[]>([]);
+
+  const handleTextChange = (next: string) => {
+    setText(next);
+    if (!next.trim()) {
+      setError(null);
+      onChange(null);
+      return;
+    }
+    try {
+      const points = parseGeoJsonPolygon(next);
+      setError(null);
+      setWalkedCorners([]);
+      onChange(points);
+    } catch (err: any) {
+      setError(err.message || "Invalid GeoJSON");
+    }
+  };
+
+  const addCurrentPosition = () => {
+    if (!navigator.geolocation) {
+      toast({
+        title: "Geolocation Error",
+        description: "Geolocation is not supported by your browser",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        const corner = { latitude: position.coords.latitude, longitude: position.coords.longitude };
+        const corners = [...(value && value.length >= 3 ? value : walkedCorners), corner];
+        if (corners.length >= 3) {
+          setWalkedCorners([]);
+          setText(toGeoJsonPolygon(corners));
+          setError(null);
+          onChange(corners);
+        } else {
+          setWalkedCorners(corners);
+        }
+        toast({
+          title: `Corner ${corners.length} added`,
+          description: `GPS accuracy: ±${position.coords.accuracy.toFixed(0)}m`,
+        });
+      },
+      () => {
+        toast({
+          title: "Location Error",
+          description: "Unable to retrieve your location",
+          variant: "destructive",
+        });
+      },
+      { enableHighAccuracy: true, timeout: 15000, maximumAge: 0 }
+    );
+  };
+
+  const clear = () => {
+    setWalkedCorners([]);
+    setText("");
+    setError(null);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="geofence-geojson">Boundary polygon (optional)</Label>
+      <Textarea
+        id="geofence-geojson"
+        rows={4}
+        className="font-mono text-xs"
+        placeholder='{"type":"Polygon","coordinates":[[[78.13,9.96],[78.14,9.96],[78.14,9.97],[78.13,9.96]]]}'
+        value={text}
+        onChange={(e) => handleTextChange(e.target.value)}
+      />
+      {error ? (
+        <p className="text-xs text-destructive">{error}</p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          {value && value.length >= 3
+            ? `${value.length} corners - the radius is ignored while a boundary is set`
+            : walkedCorners.length > 0
+              ? `${walkedCorners.length} of at least 3 corners captured`
+              : "Paste GeoJSON, or walk the perimeter and add each corner"}
+        </p>
+      )}
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" className="flex-1" onClick={addCurrentPosition}>
+          <Crosshair className="h-4 w-4 mr-2" />
+          Add My Position as Corner
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={clear}
+          disabled={!text && walkedCorners.length === 0}
+          title="Remove boundary"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertTriangle, Loader2, QrCode } from "lucide-react";
+
+interface KioskCredentialsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  employee: any;
+}
+
+export function KioskCredentialsDialog({ isOpen, onClose, employee }: KioskCredentialsDialogProps) {
+  const { toast } = useToast();
+  const [pin, setPin] = useState("");
+  const [badgeCode, setBadgeCode] = useState<string | null>(null);
+
+  const credentialsMutation = useMutation({
+    mutationFn: async (data: { pin?: string; issueBadge?: boolean }) => {
+      const response = await apiRequest(`/api/users/${employee.id}/kiosk-credentials`, "PUT", data);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      setPin("");
+      if (result.badgeCode) {
+        setBadgeCode(result.badgeCode);
+      }
+      toast({ title: "Kiosk access updated", description: result.message });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update kiosk access",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleClose = () => {
+    setPin("");
+    setBadgeCode(null);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Kiosk Access - {employee?.displayName}</DialogTitle>
+          <DialogDescription>
+            For checking in on a shared kiosk with employee ID {employee?.employeeId || "(not assigned)"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!employee?.employeeId && (
+            <div className="flex items-center text-amber-600 text-sm">
+              <AlertTriangle className="h-4 w-4 mr-2" />
+              Assign an employee ID before setting a PIN. Badges work without one.
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="kiosk-pin-input">New PIN (4-6 digits)</Label>
+            <div className="flex gap-2">
+              <Input
+                id="kiosk-pin-input"
+                type="password"
+                inputMode="numeric"
+                maxLength={6}
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+                disabled={!employee?.employeeId}
+              />
+              <Button
+                onClick={() => credentialsMutation.mutate({ pin })}
+                disabled={credentialsMutation.isPending || pin.length < 4 || !employee?.employeeId}
+              >
+                Set PIN
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => credentialsMutation.mutate({ issueBadge: true })}
+              disabled={credentialsMutation.isPending}
+            >
+              {credentialsMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <QrCode className="h-4 w-4 mr-2" />}
+              Issue New Badge
+            </Button>
+            {badgeCode && (
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">
+                  Print this code as a QR code on the employee's badge. Any earlier badge no longer works.
+                </p>
+                <div className="rounded-md bg-gray-50 p-3 font-mono text-sm break-all select-all">{badgeCode}</div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
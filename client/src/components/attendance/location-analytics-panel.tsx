@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, MapPin } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { AccuracyBreakdown, AccuracyGrade, InsertOfficeLocation, LocationAnalyticsDashboard, WithId } from "@shared/schema";
+
+const periods = [
+  { value: "7", label: "Last 7 days" },
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+];
+
+const grades: { key: AccuracyGrade; label: string; color: string }[] = [
+  { key: "excellent", label: "Excellent", color: "bg-green-500" },
+  { key: "good", label: "Good", color: "bg-lime-400" },
+  { key: "fair", label: "Fair", color: "bg-yellow-400" },
+  { key: "poor", label: "Poor", color: "bg-orange-500" },
+  { key: "very_poor", label: "Very poor", color: "bg-red-500" },
+];
+
+const validationTypeLabels: Record<string, string> = {
+  exact: "On site",
+  indoor_compensation: "Indoor compensation",
+  proximity_based: "Proximity",
+  qr_code: "QR verified",
+  simplified: "Unverified (remote / field)",
+  failed: "Outside office",
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+function AccuracyTable({ title, rows }: { title: string; rows: AccuracyBreakdown[] }) {
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium">{title}</h4>
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead className="text-right">Check-ins</TableHead>
+              <TableHead className="text-right">Accepted</TableHead>
+              <TableHead className="text-right">Median / Avg accuracy</TableHead>
+              <TableHead className="w-[35%]">Accuracy grades</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.key}>
+                <TableCell className="font-medium">{row.label}</TableCell>
+                <TableCell className="text-right">{row.total}</TableCell>
+                <TableCell className="text-right">{percent(row.acceptanceRate)}</TableCell>
+                <TableCell className="text-right">±{row.medianAccuracy}m / ±{row.averageAccuracy}m</TableCell>
+                <TableCell>
+                  <div
+                    className="flex h-3 w-full overflow-hidden rounded-full bg-gray-100"
+                    title={grades.map((grade) => `${grade.label}: ${row.grades[grade.key]}`).join("\n")}
+                  >
+                    {grades.map((grade) => row.grades[grade.key] > 0 && (
+                      <div
+                        key={grade.key}
+                        className={grade.color}
+                        style={{ width: `${(row.grades[grade.key] / row.total) * 100}%` }}
+                      />
+                    ))}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
+
+export function LocationAnalyticsPanel() {
+  const [period, setPeriod] = useState("30");
+  const [officeLocationId, setOfficeLocationId] = useState("all");
+
+  const { data: dashboard, isLoading } = useQuery<LocationAnalyticsDashboard>({
+    queryKey: ['/api/attendance/location-analytics', period, officeLocationId],
+    queryFn: async () => {
+      const endDate = new Date();
+      const startDate = new Date(endDate.getFullYear(), endDate.getMonth(), endDate.getDate() - (parseInt(period) - 1));
+      const params = new URLSearchParams({
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+      });
+      if (officeLocationId !== "all") params.set("officeLocationId", officeLocationId);
+      const response = await apiRequest(`/api/attendance/location-analytics?${params.toString()}`, 'GET');
+      return response.json();
+    },
+  });
+
+  const { data: officeLocations = [] } = useQuery<WithId<InsertOfficeLocation>[]>({
+    queryKey: ['/api/office-locations'],
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={period} onValueChange={setPeriod}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {periods.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={officeLocationId} onValueChange={setOfficeLocationId}>
+          <SelectTrigger className="w-44">
+            <SelectValue placeholder="Office" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Offices</SelectItem>
+            {officeLocations.map((office) => (
+              <SelectItem key={office.id} value={office.id}>{office.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-3 ml-auto text-xs text-muted-foreground">
+          {grades.map((grade) => (
+            <span key={grade.key} className="flex items-center gap-1">
+              <span className={`h-2 w-2 rounded-full ${grade.color}`} />
+              {grade.label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : !dashboard || dashboard.totalValidations === 0 ? (
+        <div className="text-center py-8">
+          <MapPin className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+          <p className="text-sm text-gray-500">No check-in location data for this period</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="rounded-md border p-4">
+              <p className="text-xs text-muted-foreground">Check-ins measured</p>
+              <p className="text-2xl font-semibold">{dashboard.totalValidations}</p>
+            </div>
+            <div className="rounded-md border p-4">
+              <p className="text-xs text-muted-foreground">Accepted</p>
+              <p className="text-2xl font-semibold">{percent(dashboard.acceptanceRate)}</p>
+            </div>
+            <div className="rounded-md border p-4">
+              <p className="text-xs text-muted-foreground">Indoor compensation</p>
+              <p className="text-2xl font-semibold">
+                {dashboard.byValidationType.find((row) => row.validationType === "indoor_compensation")?.accepted || 0}
+              </p>
+            </div>
+            <div className="rounded-md border p-4">
+              <p className="text-xs text-muted-foreground">Offices</p>
+              <p className="text-2xl font-semibold">{dashboard.byOffice.length}</p>
+            </div>
+          </div>
+
+          <AccuracyTable title="Accuracy by office" rows={dashboard.byOffice} />
+          <AccuracyTable title="Accuracy by device capability" rows={dashboard.byDeviceCapability} />
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Acceptance by validation type</h4>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Validation type</TableHead>
+                      <TableHead className="text-right">Check-ins</TableHead>
+                      <TableHead className="text-right">Accepted</TableHead>
+                      <TableHead className="text-right">Avg confidence</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {dashboard.byValidationType.map((row) => (
+                      <TableRow key={row.validationType}>
+                        <TableCell>{validationTypeLabels[row.validationType] || row.validationType}</TableCell>
+                        <TableCell className="text-right">{row.total}</TableCell>
+                        <TableCell className="text-right">{percent(row.acceptanceRate)}</TableCell>
+                        <TableCell className="text-right">{percent(row.averageConfidence)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Most frequent indoor compensation</h4>
+              {dashboard.indoorCompensationUsers.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-4">No check-ins relied on indoor compensation</p>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Employee</TableHead>
+                        <TableHead className="text-right">Indoor</TableHead>
+                        <TableHead className="text-right">Share</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {dashboard.indoorCompensationUsers.map((row) => (
+                        <TableRow key={row.userId}>
+                          <TableCell>
+                            <div>{row.displayName}</div>
+                            <div className="text-xs text-muted-foreground capitalize">{row.department || "No department"}</div>
+                          </TableCell>
+                          <TableCell className="text-right">{row.indoorCompensated} of {row.total}</TableCell>
+                          <TableCell className="text-right">{percent(row.share)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { defaultLocationValidationSettings, LocationValidationSettings } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+
+interface LocationValidationSettingsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  office: any;
+}
+
+type SettingKey = keyof LocationValidationSettings;
+
+const SETTING_GROUPS: { title: string; fields: { key: SettingKey; label: string; unit: string }[] }[] = [
+  {
+    title: "GPS accuracy grades",
+    fields: [
+      { key: "precisionExcellent", label: "Excellent up to", unit: "m" },
+      { key: "precisionGood", label: "Good up to", unit: "m" },
+      { key: "precisionFair", label: "Fair up to", unit: "m" },
+      { key: "precisionPoor", label: "Poor up to", unit: "m" },
+    ],
+  },
+  {
+    title: "Indoor compensation (radius offices)",
+    fields: [
+      { key: "indoorAccuracyThreshold", label: "Indoor mode from accuracy", unit: "m" },
+      { key: "indoorDistanceMultiplier", label: "Indoor radius multiplier", unit: "x" },
+      { key: "poorGpsThreshold", label: "Poor GPS mode from accuracy", unit: "m" },
+      { key: "poorGpsMultiplier", label: "Poor GPS radius multiplier", unit: "x" },
+    ],
+  },
+  {
+    title: "Boundary polygon offices",
+    fields: [
+      { key: "geofenceMaxAccuracyBuffer", label: "Max GPS error forgiven", unit: "m" },
+    ],
+  },
+];
+
+const toFormValues = (settings?: LocationValidationSettings | null) =>
+  Object.fromEntries(
+    Object.keys(defaultLocationValidationSettings).map((key) => [key, settings?.[key as SettingKey]?.toString() ?? ""])
+  ) as Record<SettingKey, string>;
+
+export function LocationValidationSettingsDialog({ isOpen, onClose, office }: LocationValidationSettingsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // Blank fields fall back to the default shown as the placeholder
+  const [values, setValues] = useState<Record<SettingKey, string>>(toFormValues());
+
+  useEffect(() => {
+    if (isOpen) {
+      setValues(toFormValues(office?.validationSettings));
+    }
+  }, [isOpen, office]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (validationSettings: LocationValidationSettings | null) => {
+      const response = await apiRequest(`/api/office-locations/${office.id}`, "PATCH", { validationSettings });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/office-locations"] });
+      toast({ title: "Validation settings saved", description: `New check-ins at ${office.name} use these thresholds` });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save validation settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    const overrides: LocationValidationSettings = {};
+    for (const [key, value] of Object.entries(values)) {
+      if (value.trim() === "") continue;
+      const number = Number(value);
+      if (isNaN(number) || number < 0) {
+        toast({
+          title: "Validation Error",
+          description: "Thresholds must be positive numbers.",
+          variant: "destructive",
+        });
+        return;
+      }
+      overrides[key as SettingKey] = number;
+    }
+    saveMutation.mutate(Object.keys(overrides).length > 0 ? overrides : null);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Location Validation - {office?.name}</DialogTitle>
+          <DialogDescription>
+            Override how strictly check-ins are matched to this office. Leave a field blank to use the default.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+          {SETTING_GROUPS.map((group) => (
+            <div key={group.title} className="space-y-2">
+              <h4 className="text-sm font-medium">{group.title}</h4>
+              <div className="grid grid-cols-2 gap-3">
+                {group.fields.map((field) => (
+                  <div key={field.key} className="space-y-1">
+                    <Label htmlFor={`validation-${field.key}`} className="text-xs">
+                      {field.label} ({field.unit})
+                    </Label>
+                    <Input
+                      id={`validation-${field.key}`}
+                      type="number"
+                      min="0"
+                      step={field.unit === "x" ? "0.5" : "1"}
+                      placeholder={defaultLocationValidationSettings[field.key].toString()}
+                      value={values[field.key]}
+                      onChange={(e) => setValues({ ...values, [field.key]: e.target.value })}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <Button
+            variant="ghost"
+            onClick={() => setValues(toFormValues())}
+            disabled={saveMutation.isPending}
+          >
+            Reset to Defaults
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose} disabled={saveMutation.isPending}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { Download, FileText, Loader2, Users } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { departments, type InsertOfficeLocation, type MusterRoll, type WithId } from "@shared/schema";
+
+const months = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December"
+];
+
+const codeStyles: Record<string, string> = {
+  P: "text-green-700",
+  A: "text-red-600 font-semibold",
+  L: "text-blue-700",
+  HD: "text-orange-600",
+  H: "text-purple-700",
+  WO: "text-gray-400",
+  R: "text-amber-600 font-semibold",
+};
+
+export function MusterRollPanel() {
+  const { toast } = useToast();
+  const now = new Date();
+
+  const [month, setMonth] = useState(String(now.getMonth() + 1));
+  const [year, setYear] = useState(String(now.getFullYear()));
+  const [department, setDepartment] = useState("all");
+  const [officeLocationId, setOfficeLocationId] = useState("all");
+  const [downloading, setDownloading] = useState<"xlsx" | "pdf" | null>(null);
+
+  const buildQuery = (format: string) => {
+    const params = new URLSearchParams({ month, year, format });
+    if (department !== "all") params.set("department", department);
+    if (officeLocationId !== "all") params.set("officeLocationId", officeLocationId);
+    return `/api/attendance/muster-roll?${params.toString()}`;
+  };
+
+  const { data: roll, isLoading } = useQuery<MusterRoll>({
+    queryKey: ['/api/attendance/muster-roll', month, year, department, officeLocationId],
+    queryFn: async () => {
+      const response = await apiRequest(buildQuery("json"), 'GET');
+      return response.json();
+    },
+  });
+
+  const { data: officeLocations = [] } = useQuery<WithId<InsertOfficeLocation>[]>({
+    queryKey: ['/api/office-locations'],
+  });
+
+  const download = async (format: "xlsx" | "pdf") => {
+    setDownloading(format);
+    try {
+      const response = await apiRequest(buildQuery(format), 'GET');
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.style.display = 'none';
+      a.href = url;
+      a.download = `muster-roll-${year}-${month.padStart(2, "0")}${department !== "all" ? `-${department}` : ""}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error: any) {
+      toast({
+        title: "Export Failed",
+        description: error.message || "Unable to export the muster roll. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const years = Array.from({ length: 5 }, (_, i) => String(now.getFullYear() - i));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={month} onValueChange={setMonth}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {months.map((name, index) => (
+              <SelectItem key={name} value={String(index + 1)}>{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={year} onValueChange={setYear}>
+          <SelectTrigger className="w-24">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {years.map(value => (
+              <SelectItem key={value} value={value}>{value}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={department} onValueChange={setDepartment}>
+          <SelectTrigger className="w-40">
+            <SelectValue placeholder="Department" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Departments</SelectItem>
+            {departments.map(dept => (
+              <SelectItem key={dept} value={dept} className="capitalize">{dept}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={officeLocationId} onValueChange={setOfficeLocationId}>
+          <SelectTrigger className="w-44">
+            <SelectValue placeholder="Office" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Offices</SelectItem>
+            {officeLocations.map((office) => (
+              <SelectItem key={office.id} value={office.id}>{office.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="ml-auto flex gap-2">
+          <Button variant="outline" onClick={() => download("xlsx")} disabled={!!downloading}>
+            {downloading === "xlsx" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            Excel
+          </Button>
+          <Button variant="outline" onClick={() => download("pdf")} disabled={!!downloading}>
+            {downloading === "pdf" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileText className="h-4 w-4 mr-2" />}
+            PDF
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      ) : !roll || roll.rows.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <Users className="h-12 w-12 mx-auto mb-4" />
+          <p>No employees match the selected filters</p>
+        </div>
+      ) : (
+        <>
+          <div className="rounded-md border overflow-x-auto">
+            <Table className="text-xs">
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="sticky left-0 bg-background min-w-[160px]">Employee</TableHead>
+                  {roll.days.map((day) => (
+                    <TableHead key={day.date} className="px-1 text-center">
+                      <div>{day.day}</div>
+                      <div className="font-normal text-muted-foreground">{day.weekday}</div>
+                    </TableHead>
+                  ))}
+                  <TableHead className="text-center">P</TableHead>
+                  <TableHead className="text-center">A</TableHead>
+                  <TableHead className="text-center">L</TableHead>
+                  <TableHead className="text-center">HD</TableHead>
+                  <TableHead className="text-center">Late</TableHead>
+                  <TableHead className="text-center">OT</TableHead>
+                  <TableHead className="text-center">Worked</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {roll.rows.map((row) => (
+                  <TableRow key={row.userId}>
+                    <TableCell className="sticky left-0 bg-background font-medium">
+                      <div>{row.name}</div>
+                      <div className="text-muted-foreground capitalize">
+                        {row.employeeId || 'No ID'} · {row.department || 'N/A'}
+                      </div>
+                    </TableCell>
+                    {row.days.map((day) => (
+                      <TableCell
+                        key={day.date}
+                        className={cn("px-1 text-center", codeStyles[day.code])}
+                        title={day.overtimeHours > 0 ? `${day.overtimeHours}h approved overtime` : undefined}
+                      >
+                        {day.code}{day.late && <span className="text-red-600">*</span>}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-center">{row.totals.present}</TableCell>
+                    <TableCell className="text-center">{row.totals.absent}</TableCell>
+                    <TableCell className="text-center">{row.totals.leave}</TableCell>
+                    <TableCell className="text-center">{row.totals.halfDay}</TableCell>
+                    <TableCell className="text-center">{row.totals.lateMarks}</TableCell>
+                    <TableCell className="text-center">{row.totals.overtimeHours}</TableCell>
+                    <TableCell className="text-center font-medium">{row.totals.daysWorked}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            P Present · A Absent · L Leave · HD Half day · H Holiday · WO Weekly off · R Regularization pending (not counted as worked) · * Late mark. Overtime counts approved hours only.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
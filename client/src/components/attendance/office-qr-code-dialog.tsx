@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2, Printer, ShieldOff } from "lucide-react";
+
+interface OfficeQrCodeDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  office: any;
+}
+
+export function OfficeQrCodeDialog({ isOpen, onClose, office }: OfficeQrCodeDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [mode, setMode] = useState<"display" | "print">("display");
+  const [printDays, setPrintDays] = useState("30");
+
+  // Display codes are re-fetched before they expire so the screen always shows a valid code
+  const { data: qrCode, isFetching } = useQuery({
+    queryKey: ["/api/office-locations", office?.id, "qr-code", mode, mode === "print" ? printDays : null],
+    queryFn: async () => {
+      const query = mode === "print" ? `mode=print&days=${printDays}` : "mode=display";
+      const response = await apiRequest(`/api/office-locations/${office.id}/qr-code?${query}`, "GET");
+      return response.json();
+    },
+    enabled: isOpen && !!office?.id && (mode === "display" || parseInt(printDays) >= 1),
+    refetchInterval: (query) => {
+      const seconds = (query.state.data as any)?.refreshAfterSeconds;
+      return mode === "display" && seconds ? seconds * 1000 : false;
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/office-locations/${office.id}/qr-code/revoke`, "POST");
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/office-locations", office.id, "qr-code"] });
+      toast({ title: "QR codes revoked", description: result.message });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to revoke QR codes",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handlePrint = () => {
+    if (!qrCode) return;
+    const printWindow = window.open("", "_blank");
+    if (!printWindow) return;
+    printWindow.document.write(`
+      <html><head><title>${office.name} - Attendance QR</title></head>
+      <body style="font-family: sans-serif; text-align: center; padding: 40px;">
+        <h1>${office.name}</h1>
+        <p>Scan with your phone camera to check in</p>
+        <img src="${qrCode.imageDataUrl}" style="width: 400px; height: 400px;" />
+        <p style="color: #666;">Valid until ${new Date(qrCode.expiresAt).toLocaleDateString()}</p>
+      </body></html>
+    `);
+    printWindow.document.close();
+    printWindow.onload = () => printWindow.print();
+  };
+
+  const qrImage = (
+    <div className="flex flex-col items-center space-y-2">
+      {qrCode && !isFetching ? (
+        <img src={qrCode.imageDataUrl} alt={`Check-in QR code for ${office?.name}`} className="w-64 h-64" />
+      ) : (
+        <div className="w-64 h-64 flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      )}
+      {qrCode && (
+        <p className="text-xs text-muted-foreground">
+          Valid until {new Date(qrCode.expiresAt).toLocaleString()}
+        </p>
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Check-in QR Code - {office?.name}</DialogTitle>
+          <DialogDescription>
+            Employees scan this with their phone camera; a valid code counts as proof they are at this office.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={mode} onValueChange={(value) => setMode(value as "display" | "print")}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="display">Display</TabsTrigger>
+            <TabsTrigger value="print">Print</TabsTrigger>
+          </TabsList>
+          <TabsContent value="display" className="space-y-2 pt-2">
+            <p className="text-sm text-muted-foreground">
+              Keep this open on a screen at the office. The code changes every few minutes, so photos of it stop working quickly.
+            </p>
+            {qrImage}
+          </TabsContent>
+          <TabsContent value="print" className="space-y-4 pt-2">
+            <div className="space-y-2">
+              <Label htmlFor="qr-print-days">Valid for (days)</Label>
+              <Input
+                id="qr-print-days"
+                type="number"
+                min="1"
+                max="90"
+                value={printDays}
+                onChange={(e) => setPrintDays(e.target.value)}
+              />
+            </div>
+            {qrImage}
+            <Button variant="outline" className="w-full" onClick={handlePrint} disabled={!qrCode || isFetching}>
+              <Printer className="h-4 w-4 mr-2" />
+              Print
+            </Button>
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter className="sm:justify-between">
+          <Button
+            variant="ghost"
+            className="text-destructive"
+            onClick={() => revokeMutation.mutate()}
+            disabled={revokeMutation.isPending}
+          >
+            {revokeMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ShieldOff className="h-4 w-4 mr-2" />}
+            Revoke All Codes
+          </Button>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,141 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2, Zap } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDate } from "@/lib/utils";
+
+interface OvertimeRequestDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Worked day for a post-facto request; omit to plan overtime for an upcoming day
+  attendance?: any;
+}
+
+const toDateInput = (value: Date) =>
+  `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, "0")}-${String(value.getDate()).padStart(2, "0")}`;
+
+export function OvertimeRequestDialog({ isOpen, onClose, attendance }: OvertimeRequestDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [workDate, setWorkDate] = useState("");
+  const [requestedHours, setRequestedHours] = useState("");
+  const [otReason, setOtReason] = useState("");
+
+  const isPostFacto = !!attendance;
+  const recordedHours = attendance ? (attendance.recordedOvertimeHours ?? attendance.overtimeHours ?? 0) : 0;
+
+  useEffect(() => {
+    if (isOpen) {
+      setWorkDate(toDateInput(new Date()));
+      setRequestedHours(isPostFacto && recordedHours > 0 ? String(Number(recordedHours.toFixed(2))) : "");
+      setOtReason(attendance?.otReason || "");
+    }
+  }, [isOpen, attendance, isPostFacto, recordedHours]);
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('/api/overtime-requests', 'POST', {
+        requestType: isPostFacto ? "post_facto" : "planned",
+        ...(isPostFacto ? { attendanceId: attendance.id } : { workDate: new Date(`${workDate}T00:00:00`).toISOString() }),
+        requestedHours: parseFloat(requestedHours),
+        otReason
+      });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/overtime-requests'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/attendance'] });
+      toast({
+        title: "Request submitted",
+        description: result.message,
+      });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not submit request",
+        description: error.message || "Failed to submit overtime request",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const hours = parseFloat(requestedHours);
+  const canSubmit = !isNaN(hours) && hours >= 0.25 && otReason.trim().length >= 10 && (isPostFacto || !!workDate);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Zap className="h-5 w-5" />
+            {isPostFacto ? "Request Overtime Approval" : "Plan Overtime"}
+          </DialogTitle>
+          <DialogDescription>
+            {isPostFacto
+              ? `${formatDate(attendance.checkInTime || attendance.date)} - ${recordedHours.toFixed(1)}h overtime recorded`
+              : "Get overtime approved before the work day so it is paid as soon as you check out"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!isPostFacto && (
+            <div className="space-y-2">
+              <Label htmlFor="overtime-work-date">Work Date</Label>
+              <Input
+                id="overtime-work-date"
+                type="date"
+                min={toDateInput(new Date())}
+                value={workDate}
+                onChange={(e) => setWorkDate(e.target.value)}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="overtime-hours">Overtime Hours</Label>
+            <Input
+              id="overtime-hours"
+              type="number"
+              min="0.25"
+              step="0.25"
+              max={isPostFacto ? recordedHours : undefined}
+              value={requestedHours}
+              onChange={(e) => setRequestedHours(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="overtime-reason">Reason</Label>
+            <Textarea
+              id="overtime-reason"
+              placeholder="What work needs the extra time (minimum 10 characters)"
+              value={otReason}
+              onChange={(e) => setOtReason(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={onClose} variant="outline" disabled={submitMutation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => submitMutation.mutate()}
+            disabled={submitMutation.isPending || !canSubmit}
+          >
+            {submitMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Submit Request
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
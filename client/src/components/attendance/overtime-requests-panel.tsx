@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertCircle, CheckCircle, Loader2, XCircle } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { InsertOvertimeRequest, InsertUserEnhanced, WithId } from "@shared/schema";
+
+interface OvertimeRequestsPanelProps {
+  scope: "mine" | "review";
+  status?: string;
+}
+
+const requestTypeLabels: Record<string, string> = {
+  planned: "Planned",
+  post_facto: "Post-facto",
+};
+
+export function OvertimeRequestsPanel({ scope, status = "all" }: OvertimeRequestsPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [reviewing, setReviewing] = useState<{ request: WithId<InsertOvertimeRequest>; decision: "approved" | "rejected" } | null>(null);
+  const [approvedHours, setApprovedHours] = useState("");
+  const [reviewComment, setReviewComment] = useState("");
+
+  const { data: requests = [], isLoading } = useQuery<WithId<InsertOvertimeRequest>[]>({
+    queryKey: ['/api/overtime-requests', scope, status],
+    queryFn: async () => {
+      const response = await apiRequest(`/api/overtime-requests?scope=${scope}&status=${status}`, 'GET');
+      return response.json();
+    },
+  });
+
+  // Reviewers need requester names; employees only see their own requests
+  const { data: users = [] } = useQuery<WithId<InsertUserEnhanced>[]>({
+    queryKey: ['/api/users'],
+    enabled: scope === "review",
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, decision, hours, comment }: { id: string; decision: string; hours?: number; comment: string }) => {
+      const response = await apiRequest(`/api/overtime-requests/${id}/review`, 'PATCH', {
+        decision,
+        ...(hours !== undefined && { approvedHours: hours }),
+        reviewComment: comment
+      });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/overtime-requests'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/attendance'] });
+      setReviewing(null);
+      setReviewComment("");
+      toast({
+        title: "Success",
+        description: result.message,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to review overtime request",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openReview = (request: WithId<InsertOvertimeRequest>, decision: "approved" | "rejected") => {
+    setApprovedHours(String(request.requestedHours));
+    setReviewComment("");
+    setReviewing({ request, decision });
+  };
+
+  const getUserName = (userId: string) =>
+    users.find((u) => u.id === userId)?.displayName || `User #${userId}`;
+
+  const getStatusBadge = (value: string) => {
+    if (value === "approved") return <Badge className="bg-green-100 text-green-800">Approved</Badge>;
+    if (value === "rejected") return <Badge variant="destructive">Rejected</Badge>;
+    return <Badge variant="secondary">Pending</Badge>;
+  };
+
+  const hours = parseFloat(approvedHours);
+  const invalidHours = reviewing?.decision === "approved" &&
+    (isNaN(hours) || hours <= 0 || hours > reviewing.request.requestedHours);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (requests.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        <AlertCircle className="h-12 w-12 mx-auto mb-4" />
+        <p>{scope === "review" ? "No overtime requests to review" : "You have not raised any overtime requests"}</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {scope === "review" && <TableHead>Employee</TableHead>}
+              <TableHead>Work Date</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Requested</TableHead>
+              <TableHead>Approved</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead>Status</TableHead>
+              {scope === "review" && <TableHead className="text-right">Actions</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {requests.map((request) => (
+              <TableRow key={request.id}>
+                {scope === "review" && (
+                  <TableCell className="font-medium">{getUserName(request.userId)}</TableCell>
+                )}
+                <TableCell>{formatDate(request.workDate)}</TableCell>
+                <TableCell>{requestTypeLabels[request.requestType] || request.requestType}</TableCell>
+                <TableCell>{request.requestedHours}h</TableCell>
+                <TableCell>{request.approvedHours !== undefined && request.approvedHours !== null ? `${request.approvedHours}h` : '-'}</TableCell>
+                <TableCell className="max-w-xs">
+                  <p className="truncate" title={request.otReason}>{request.otReason}</p>
+                  {request.reviewComment && (
+                    <p className="text-xs text-muted-foreground truncate" title={request.reviewComment}>
+                      Reviewer: {request.reviewComment}
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell>{getStatusBadge(request.status)}</TableCell>
+                {scope === "review" && (
+                  <TableCell className="text-right">
+                    {request.status === "pending" && (
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="text-green-600"
+                          onClick={() => openReview(request, "approved")}
+                        >
+                          <CheckCircle className="h-4 w-4 mr-1" />
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="text-red-600"
+                          onClick={() => openReview(request, "rejected")}
+                        >
+                          <XCircle className="h-4 w-4 mr-1" />
+                          Reject
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {reviewing?.decision === "approved" ? "Approve" : "Reject"} Overtime Request
+            </DialogTitle>
+            <DialogDescription>
+              {reviewing?.decision === "approved"
+                ? "Approved hours are capped by the attendance policy and by the overtime actually recorded."
+                : "The overtime will not be paid. The employee will see your reason."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {reviewing?.decision === "approved" && (
+              <div className="space-y-2">
+                <Label htmlFor="approved-hours">Approved Hours</Label>
+                <Input
+                  id="approved-hours"
+                  type="number"
+                  min="0.25"
+                  step="0.25"
+                  max={reviewing.request.requestedHours}
+                  value={approvedHours}
+                  onChange={(e) => setApprovedHours(e.target.value)}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="overtime-review-comment">
+                Comment{reviewing?.decision === "rejected" ? "" : " (optional)"}
+              </Label>
+              <Textarea
+                id="overtime-review-comment"
+                value={reviewComment}
+                onChange={(e) => setReviewComment(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewing(null)} disabled={reviewMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              variant={reviewing?.decision === "rejected" ? "destructive" : "default"}
+              disabled={
+                reviewMutation.isPending ||
+                invalidHours ||
+                (reviewing?.decision === "rejected" && !reviewComment.trim())
+              }
+              onClick={() => reviewing && reviewMutation.mutate({
+                id: reviewing.request.id,
+                decision: reviewing.decision,
+                hours: reviewing.decision === "approved" ? hours : undefined,
+                comment: reviewComment
+              })}
+            >
+              {reviewMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {reviewing?.decision === "approved" ? "Approve" : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
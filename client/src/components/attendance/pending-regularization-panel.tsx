@@ -0,0 +1,75 @@
+import { useQuery } from "@tanstack/react-query";
+import { formatDate } from "@/lib/utils";
+import { TimeDisplay } from "@/components/time/time-display";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { AttendanceRecord, InsertUserEnhanced, WithId } from "@shared/schema";
+
+// Days auto-closed under the flag_for_regularization policy. They stay unpaid until the
+// employee's correction request is approved, which clears the flag.
+export function PendingRegularizationPanel() {
+  const { data: records = [], isLoading } = useQuery<AttendanceRecord[]>({
+    queryKey: ['/api/attendance/regularizations', 'flagged'],
+    queryFn: async () => {
+      const response = await apiRequest('/api/attendance/regularizations?scope=flagged', 'GET');
+      return response.json();
+    },
+  });
+
+  const { data: users = [] } = useQuery<WithId<InsertUserEnhanced>[]>({
+    queryKey: ['/api/users'],
+  });
+
+  const getUserName = (userId: string) =>
+    users.find((u) => u.id === userId)?.displayName || `User #${userId}`;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  if (records.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <h4 className="text-sm font-medium">Awaiting correction</h4>
+        <Badge variant="outline" className="bg-amber-50 text-amber-800 border-amber-200">{records.length}</Badge>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Closed automatically without a check-out. These days are not paid until the employee's correction is approved.
+      </p>
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Employee</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Check In</TableHead>
+              <TableHead>Remarks</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {records.map((record) => (
+              <TableRow key={record.id}>
+                <TableCell className="font-medium">{getUserName(record.userId)}</TableCell>
+                <TableCell>{formatDate(record.date)}</TableCell>
+                <TableCell>
+                  {record.checkInTime ? <TimeDisplay time={record.checkInTime} format12Hour={true} /> : '-'}
+                </TableCell>
+                <TableCell className="max-w-xs">
+                  <p className="truncate text-sm" title={record.remarks}>{record.remarks || '-'}</p>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Hourglass, Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+interface PermissionRequestDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const toDateInput = (value: Date) =>
+  `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, "0")}-${String(value.getDate()).padStart(2, "0")}`;
+
+export function PermissionRequestDialog({ isOpen, onClose }: PermissionRequestDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [date, setDate] = useState("");
+  const [permissionType, setPermissionType] = useState("late_arrival");
+  const [minutes, setMinutes] = useState("30");
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (isOpen) {
+      setDate(toDateInput(new Date()));
+      setPermissionType("late_arrival");
+      setMinutes("30");
+      setReason("");
+    }
+  }, [isOpen]);
+
+  // Allowance follows the month of the selected day
+  const { data: allowance } = useQuery({
+    queryKey: ['/api/permission-requests/allowance', date.slice(0, 7)],
+    queryFn: async () => {
+      const response = await apiRequest(`/api/permission-requests/allowance?date=${date}`, 'GET');
+      return response.json();
+    },
+    enabled: isOpen && !!date,
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('/api/permission-requests', 'POST', {
+        date: new Date(`${date}T00:00:00`).toISOString(),
+        permissionType,
+        minutes: parseInt(minutes),
+        reason
+      });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/permission-requests'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/permission-requests/allowance'] });
+      toast({
+        title: "Request submitted",
+        description: result.message,
+      });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not submit request",
+        description: error.message || "Failed to submit permission request",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const requestedMinutes = parseInt(minutes);
+  const exceedsAllowance = !!allowance && requestedMinutes > allowance.remainingMinutes;
+  const canSubmit = !!date && !isNaN(requestedMinutes) && requestedMinutes >= 15 && requestedMinutes <= 240 &&
+    reason.trim().length >= 10 && !exceedsAllowance;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Hourglass className="h-5 w-5" />
+            Request Permission
+          </DialogTitle>
+          <DialogDescription>
+            {allowance
+              ? `${allowance.remainingMinutes} of ${allowance.allowanceMinutes} minutes left for the month (${allowance.usedMinutes} used, ${allowance.pendingMinutes} pending)`
+              : "Short late arrival or early leave, drawn from your monthly allowance"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="permission-date">Date</Label>
+              <Input
+                id="permission-date"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={permissionType} onValueChange={setPermissionType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="late_arrival">Late arrival</SelectItem>
+                  <SelectItem value="early_leave">Early leave</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="permission-minutes">Minutes</Label>
+            <Input
+              id="permission-minutes"
+              type="number"
+              min="15"
+              max="240"
+              step="15"
+              value={minutes}
+              onChange={(e) => setMinutes(e.target.value)}
+            />
+            {exceedsAllowance && (
+              <p className="text-xs text-red-600">
+                Only {allowance.remainingMinutes} minutes of permission are left for that month
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="permission-reason">Reason</Label>
+            <Textarea
+              id="permission-reason"
+              placeholder="Why you need the time (minimum 10 characters)"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={onClose} variant="outline" disabled={submitMutation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => submitMutation.mutate()}
+            disabled={submitMutation.isPending || !canSubmit}
+          >
+            {submitMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Submit Request
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,241 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertCircle, CheckCircle, Loader2, XCircle } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { InsertPermissionRequest, InsertUserEnhanced, WithId } from "@shared/schema";
+
+interface PermissionRequestsPanelProps {
+  scope: "mine" | "review";
+  status?: string;
+}
+
+const permissionTypeLabels: Record<string, string> = {
+  late_arrival: "Late arrival",
+  early_leave: "Early leave",
+};
+
+export function PermissionRequestsPanel({ scope, status = "all" }: PermissionRequestsPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [reviewing, setReviewing] = useState<{ request: WithId<InsertPermissionRequest>; decision: "approved" | "rejected" } | null>(null);
+  const [reviewComment, setReviewComment] = useState("");
+
+  const { data: requests = [], isLoading } = useQuery<WithId<InsertPermissionRequest>[]>({
+    queryKey: ['/api/permission-requests', scope, status],
+    queryFn: async () => {
+      const response = await apiRequest(`/api/permission-requests?scope=${scope}&status=${status}`, 'GET');
+      return response.json();
+    },
+  });
+
+  // Reviewers need requester names; employees only see their own requests
+  const { data: users = [] } = useQuery<WithId<InsertUserEnhanced>[]>({
+    queryKey: ['/api/users'],
+    enabled: scope === "review",
+  });
+
+  const onSettled = (result: any) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/permission-requests'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/permission-requests/allowance'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/attendance'] });
+    toast({
+      title: "Success",
+      description: result.message,
+    });
+  };
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, decision, comment }: { id: string; decision: string; comment: string }) => {
+      const response = await apiRequest(`/api/permission-requests/${id}/review`, 'PATCH', {
+        decision,
+        reviewComment: comment
+      });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      setReviewing(null);
+      setReviewComment("");
+      onSettled(result);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to review permission request",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest(`/api/permission-requests/${id}/cancel`, 'PATCH');
+      return response.json();
+    },
+    onSuccess: onSettled,
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to cancel permission request",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getUserName = (userId: string) =>
+    users.find((u) => u.id === userId)?.displayName || `User #${userId}`;
+
+  const getStatusBadge = (value: string) => {
+    if (value === "approved") return <Badge className="bg-green-100 text-green-800">Approved</Badge>;
+    if (value === "rejected") return <Badge variant="destructive">Rejected</Badge>;
+    if (value === "cancelled") return <Badge variant="outline">Cancelled</Badge>;
+    return <Badge variant="secondary">Pending</Badge>;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (requests.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        <AlertCircle className="h-12 w-12 mx-auto mb-4" />
+        <p>{scope === "review" ? "No permission requests to review" : "You have not requested any permission"}</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {scope === "review" && <TableHead>Employee</TableHead>}
+              <TableHead>Date</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Minutes</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {requests.map((request) => (
+              <TableRow key={request.id}>
+                {scope === "review" && (
+                  <TableCell className="font-medium">{getUserName(request.userId)}</TableCell>
+                )}
+                <TableCell>{formatDate(request.date)}</TableCell>
+                <TableCell>{permissionTypeLabels[request.permissionType] || request.permissionType}</TableCell>
+                <TableCell>
+                  {request.minutes} min
+                  {request.minutesApplied !== undefined && request.minutesApplied !== null && (
+                    <div className="text-xs text-muted-foreground">{request.minutesApplied} min used</div>
+                  )}
+                </TableCell>
+                <TableCell className="max-w-xs">
+                  <p className="truncate" title={request.reason}>{request.reason}</p>
+                  {request.reviewComment && (
+                    <p className="text-xs text-muted-foreground truncate" title={request.reviewComment}>
+                      Reviewer: {request.reviewComment}
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell>{getStatusBadge(request.status)}</TableCell>
+                <TableCell className="text-right">
+                  {request.status === "pending" && scope === "review" && (
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-green-600"
+                        onClick={() => setReviewing({ request, decision: "approved" })}
+                      >
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-red-600"
+                        onClick={() => setReviewing({ request, decision: "rejected" })}
+                      >
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                    </div>
+                  )}
+                  {request.status === "pending" && scope === "mine" && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => cancelMutation.mutate(request.id)}
+                      disabled={cancelMutation.isPending}
+                    >
+                      Withdraw
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {reviewing?.decision === "approved" ? "Approve" : "Reject"} Permission Request
+            </DialogTitle>
+            <DialogDescription>
+              {reviewing?.decision === "approved"
+                ? "The minutes are taken from the employee's monthly allowance and excused from their lateness or early leave."
+                : "The minutes go back to the employee's allowance. The employee will see your reason."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="permission-review-comment">
+              Comment{reviewing?.decision === "rejected" ? "" : " (optional)"}
+            </Label>
+            <Textarea
+              id="permission-review-comment"
+              value={reviewComment}
+              onChange={(e) => setReviewComment(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewing(null)} disabled={reviewMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              variant={reviewing?.decision === "rejected" ? "destructive" : "default"}
+              disabled={reviewMutation.isPending || (reviewing?.decision === "rejected" && !reviewComment.trim())}
+              onClick={() => reviewing && reviewMutation.mutate({
+                id: reviewing.request.id,
+                decision: reviewing.decision,
+                comment: reviewComment
+              })}
+            >
+              {reviewMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {reviewing?.decision === "approved" ? "Approve" : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
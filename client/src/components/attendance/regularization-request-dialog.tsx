@@ -0,0 +1,165 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Edit, Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDate } from "@/lib/utils";
+
+interface RegularizationRequestDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  attendance: any;
+}
+
+const toTimeInput = (value?: string | Date | null) => {
+  if (!value) return "";
+  const date = new Date(value);
+  return `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
+};
+
+// Combine the attendance date with an HH:MM value from the time input
+const combineDateAndTime = (baseDate: string | Date, time: string) => {
+  const date = new Date(baseDate);
+  const [hours, minutes] = time.split(":");
+  date.setHours(parseInt(hours), parseInt(minutes), 0, 0);
+  return date.toISOString();
+};
+
+export function RegularizationRequestDialog({ isOpen, onClose, attendance }: RegularizationRequestDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [requestType, setRequestType] = useState<string>("forgot_checkout");
+  const [checkInTime, setCheckInTime] = useState("");
+  const [checkOutTime, setCheckOutTime] = useState("");
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (isOpen && attendance) {
+      setRequestType(attendance.checkOutTime ? "wrong_time" : "forgot_checkout");
+      setCheckInTime(toTimeInput(attendance.checkInTime));
+      setCheckOutTime(toTimeInput(attendance.checkOutTime));
+      setReason("");
+    }
+  }, [isOpen, attendance]);
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const baseDate = attendance.checkInTime || attendance.date;
+      const originalCheckIn = toTimeInput(attendance.checkInTime);
+      const originalCheckOut = toTimeInput(attendance.checkOutTime);
+
+      const response = await apiRequest('/api/attendance/regularizations', 'POST', {
+        attendanceId: attendance.id,
+        requestType,
+        ...(checkInTime && checkInTime !== originalCheckIn && {
+          requestedCheckInTime: combineDateAndTime(baseDate, checkInTime)
+        }),
+        ...(checkOutTime && checkOutTime !== originalCheckOut && {
+          requestedCheckOutTime: combineDateAndTime(baseDate, checkOutTime)
+        }),
+        reason
+      });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/attendance/regularizations'] });
+      toast({
+        title: "Request submitted",
+        description: result.message,
+      });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not submit request",
+        description: error.message || "Failed to submit regularization request",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!attendance) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Edit className="h-5 w-5" />
+            Request Attendance Correction
+          </DialogTitle>
+          <DialogDescription>
+            {formatDate(attendance.checkInTime || attendance.date)} - your reporting manager will review this request
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Request Type</Label>
+            <Select value={requestType} onValueChange={setRequestType}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="forgot_checkout">Forgot to check out</SelectItem>
+                <SelectItem value="missed_punch">Missed punch</SelectItem>
+                <SelectItem value="wrong_time">Wrong time recorded</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="regularization-check-in">Check In</Label>
+              <Input
+                id="regularization-check-in"
+                type="time"
+                value={checkInTime}
+                onChange={(e) => setCheckInTime(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="regularization-check-out">Check Out</Label>
+              <Input
+                id="regularization-check-out"
+                type="time"
+                value={checkOutTime}
+                onChange={(e) => setCheckOutTime(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="regularization-reason">Reason</Label>
+            <Textarea
+              id="regularization-reason"
+              placeholder="Explain what happened (minimum 10 characters)"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={onClose} variant="outline" disabled={submitMutation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => submitMutation.mutate()}
+            disabled={submitMutation.isPending || reason.trim().length < 10}
+          >
+            {submitMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Submit Request
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
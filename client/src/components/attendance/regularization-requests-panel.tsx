@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate } from "@/lib/utils";
+import { TimeDisplay } from "@/components/time/time-display";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertCircle, CheckCircle, Loader2, XCircle } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { InsertAttendanceRegularization, InsertUserEnhanced, WithId } from "@shared/schema";
+
+type RegularizationRequest = WithId<InsertAttendanceRegularization> & { createdAt: Date };
+
+interface RegularizationRequestsPanelProps {
+  scope: "mine" | "review";
+  status?: string;
+}
+
+const requestTypeLabels: Record<string, string> = {
+  missed_punch: "Missed punch",
+  wrong_time: "Wrong time",
+  forgot_checkout: "Forgot check-out",
+};
+
+export function RegularizationRequestsPanel({ scope, status = "all" }: RegularizationRequestsPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [reviewing, setReviewing] = useState<{ request: RegularizationRequest; decision: "approved" | "rejected" } | null>(null);
+  const [reviewComment, setReviewComment] = useState("");
+
+  const { data: requests = [], isLoading } = useQuery<RegularizationRequest[]>({
+    queryKey: ['/api/attendance/regularizations', scope, status],
+    queryFn: async () => {
+      const response = await apiRequest(`/api/attendance/regularizations?scope=${scope}&status=${status}`, 'GET');
+      return response.json();
+    },
+  });
+
+  // Reviewers need requester names; employees only see their own requests
+  const { data: users = [] } = useQuery<WithId<InsertUserEnhanced>[]>({
+    queryKey: ['/api/users'],
+    enabled: scope === "review",
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, decision, comment }: { id: string; decision: string; comment: string }) => {
+      const response = await apiRequest(`/api/attendance/regularizations/${id}/review`, 'PATCH', {
+        decision,
+        reviewComment: comment
+      });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/attendance/regularizations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/attendance'] });
+      setReviewing(null);
+      setReviewComment("");
+      toast({
+        title: "Success",
+        description: result.message,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to review regularization request",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getUserName = (userId: string) =>
+    users.find((u) => u.id === userId)?.displayName || `User #${userId}`;
+
+  const getStatusBadge = (value: string) => {
+    if (value === "approved") return <Badge className="bg-green-100 text-green-800">Approved</Badge>;
+    if (value === "rejected") return <Badge variant="destructive">Rejected</Badge>;
+    return <Badge variant="secondary">Pending</Badge>;
+  };
+
+  const renderTimeChange = (original?: Date | null, requested?: Date | null) => (
+    <div className="flex flex-col text-sm">
+      {requested ? (
+        <>
+          <span className="text-muted-foreground line-through">
+            {original ? <TimeDisplay time={original} format12Hour={true} /> : '-'}
+          </span>
+          <span className="font-medium"><TimeDisplay time={requested} format12Hour={true} /></span>
+        </>
+      ) : (
+        <span>{original ? <TimeDisplay time={original} format12Hour={true} /> : '-'}</span>
+      )}
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (requests.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        <AlertCircle className="h-12 w-12 mx-auto mb-4" />
+        <p>{scope === "review" ? "No correction requests to review" : "You have not raised any correction requests"}</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {scope === "review" && <TableHead>Employee</TableHead>}
+              <TableHead>Date</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Check In</TableHead>
+              <TableHead>Check Out</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead>Status</TableHead>
+              {scope === "review" && <TableHead className="text-right">Actions</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {requests.map((request) => (
+              <TableRow key={request.id}>
+                {scope === "review" && (
+                  <TableCell className="font-medium">{getUserName(request.userId)}</TableCell>
+                )}
+                <TableCell>
+                  {formatDate(request.originalCheckInTime || request.requestedCheckInTime || request.createdAt)}
+                </TableCell>
+                <TableCell>{requestTypeLabels[request.requestType] || request.requestType}</TableCell>
+                <TableCell>{renderTimeChange(request.originalCheckInTime, request.requestedCheckInTime)}</TableCell>
+                <TableCell>{renderTimeChange(request.originalCheckOutTime, request.requestedCheckOutTime)}</TableCell>
+                <TableCell className="max-w-xs">
+                  <p className="truncate" title={request.reason}>{request.reason}</p>
+                  {request.reviewComment && (
+                    <p className="text-xs text-muted-foreground truncate" title={request.reviewComment}>
+                      Reviewer: {request.reviewComment}
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell>{getStatusBadge(request.status)}</TableCell>
+                {scope === "review" && (
+                  <TableCell className="text-right">
+                    {request.status === "pending" && (
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="text-green-600"
+                          onClick={() => setReviewing({ request, decision: "approved" })}
+                        >
+                          <CheckCircle className="h-4 w-4 mr-1" />
+                          Approve
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="text-red-600"
+                          onClick={() => setReviewing({ request, decision: "rejected" })}
+                        >
+                          <XCircle className="h-4 w-4 mr-1" />
+                          Reject
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {reviewing?.decision === "approved" ? "Approve" : "Reject"} Correction Request
+            </DialogTitle>
+            <DialogDescription>
+              {reviewing?.decision === "approved"
+                ? "The attendance record will be updated and working hours recalculated."
+                : "The employee will see your reason for rejecting this request."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="review-comment">
+              Comment{reviewing?.decision === "rejected" ? "" : " (optional)"}
+            </Label>
+            <Textarea
+              id="review-comment"
+              value={reviewComment}
+              onChange={(e) => setReviewComment(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewing(null)} disabled={reviewMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              variant={reviewing?.decision === "rejected" ? "destructive" : "default"}
+              disabled={reviewMutation.isPending || (reviewing?.decision === "rejected" && !reviewComment.trim())}
+              onClick={() => reviewing && reviewMutation.mutate({
+                id: reviewing.request.id,
+                decision: reviewing.decision,
+                comment: reviewComment
+              })}
+            >
+              {reviewMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {reviewing?.decision === "approved" ? "Approve" : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
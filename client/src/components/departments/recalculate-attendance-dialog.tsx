@@ -0,0 +1,214 @@
+/**
+ * Recalculate Attendance Dialog
+ * Previews how existing attendance changes under the current department timing before applying it
+ */
+
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { formatDate } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2, RefreshCw } from 'lucide-react';
+import type { AttendanceFieldChange, RecalculationSummary } from '@shared/schema';
+
+interface RecalculateAttendanceDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  department: any;
+}
+
+const fieldLabels: Record<string, string> = {
+  status: 'Status',
+  isLate: 'Late',
+  lateMinutes: 'Late minutes',
+  grossLateMinutes: 'Gross late minutes',
+  permissionMinutesApplied: 'Permission applied',
+  workingHours: 'Working hours',
+  recordedOvertimeHours: 'Recorded OT',
+  overtimeHours: 'Payable OT',
+  overtimeApproved: 'OT approved'
+};
+
+const toInputDate = (value: Date) =>
+  `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`;
+
+const formatValue = (value: AttendanceFieldChange['before']) => {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (value === null || value === '') return '-';
+  return String(value).replace('_', ' ');
+};
+
+export function RecalculateAttendanceDialog({ isOpen, onClose, department }: RecalculateAttendanceDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const today = new Date();
+  const [startDate, setStartDate] = useState(toInputDate(new Date(today.getFullYear(), today.getMonth(), 1)));
+  const [endDate, setEndDate] = useState(toInputDate(today));
+  const [preview, setPreview] = useState<RecalculationSummary | null>(null);
+
+  const recalculateMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const response = await apiRequest('/api/attendance/recalculate', 'POST', {
+        startDate,
+        endDate,
+        department: department?.name,
+        dryRun,
+        // Apply exactly what was reviewed, even if new punches arrived since the preview
+        attendanceIds: dryRun ? undefined : preview?.diffs.map((diff) => diff.attendanceId)
+      });
+      return response.json();
+    },
+    onSuccess: (result, dryRun) => {
+      if (dryRun) {
+        setPreview(result.summary);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/attendance'] });
+      toast({
+        title: 'Attendance recalculated',
+        description: result.message
+      });
+      handleClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to recalculate attendance',
+        variant: 'destructive'
+      });
+    }
+  });
+
+  const handleClose = () => {
+    setPreview(null);
+    onClose();
+  };
+
+  const diffs = preview?.diffs || [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <RefreshCw className="h-5 w-5" />
+            Recalculate Attendance - {department?.name?.toUpperCase()}
+          </DialogTitle>
+          <DialogDescription>
+            Re-run lateness, working hours and overtime against the current timing. Nothing is saved until you apply the preview.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="recalculate-start">From</Label>
+            <Input
+              id="recalculate-start"
+              type="date"
+              value={startDate}
+              max={endDate}
+              onChange={(e) => {
+                setStartDate(e.target.value);
+                setPreview(null);
+              }}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="recalculate-end">To</Label>
+            <Input
+              id="recalculate-end"
+              type="date"
+              value={endDate}
+              min={startDate}
+              onChange={(e) => {
+                setEndDate(e.target.value);
+                setPreview(null);
+              }}
+            />
+          </div>
+        </div>
+
+        {preview && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="outline">{preview.scanned} scanned</Badge>
+              <Badge variant="secondary">{preview.changed} would change</Badge>
+              {preview.skipped.length > 0 && (
+                <Badge variant="outline">{preview.skipped.length} skipped</Badge>
+              )}
+            </div>
+
+            {diffs.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4 text-center">
+                All records already match the current timing.
+              </p>
+            ) : (
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Employee</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Changes</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {diffs.map((diff) => (
+                      <TableRow key={diff.attendanceId}>
+                        <TableCell className="font-medium">{diff.userName}</TableCell>
+                        <TableCell>{formatDate(diff.date)}</TableCell>
+                        <TableCell>
+                          <div className="space-y-1 text-sm">
+                            {diff.changes.map((change) => (
+                              <div key={change.field}>
+                                <span className="text-muted-foreground">{fieldLabels[change.field] || change.field}:</span>{' '}
+                                <span className="line-through text-red-600">{formatValue(change.before)}</span>{' '}
+                                <span className="text-green-700">{formatValue(change.after)}</span>
+                              </div>
+                            ))}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={recalculateMutation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => recalculateMutation.mutate(true)}
+            disabled={recalculateMutation.isPending || !startDate || !endDate}
+          >
+            {recalculateMutation.isPending && recalculateMutation.variables === true && (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            )}
+            Preview
+          </Button>
+          <Button
+            onClick={() => recalculateMutation.mutate(false)}
+            disabled={recalculateMutation.isPending || diffs.length === 0}
+          >
+            {recalculateMutation.isPending && recalculateMutation.variables === false && (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            )}
+            Apply {diffs.length > 0 ? `${diffs.length} change${diffs.length === 1 ? '' : 's'}` : ''}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
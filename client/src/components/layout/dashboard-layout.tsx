@@ -4,6 +4,10 @@ import { Sidebar } from "./sidebar";
 import { MobileSidebar } from "./mobile-sidebar";
 import { Header } from "./header";
 import { useAuthContext } from "@/contexts/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { OfflineHandler } from "@/utils/offline-handler";
+import { OfflinePunchSyncSummary, offlinePunchLabels } from "@/utils/offline-punch-queue";
 import { Loader2 } from "lucide-react";
 
 interface DashboardLayoutProps {
@@ -14,6 +18,7 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const { user, loading } = useAuthContext();
   const [, setLocation] = useLocation();
+  const { toast } = useToast();
 
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -22,6 +27,41 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
     }
   }, [user, loading, setLocation]);
 
+  // Keep this device ready to capture punches offline, and upload any still queued
+  useEffect(() => {
+    if (user?.uid) {
+      OfflineHandler.getInstance().prepareOfflinePunches(user.uid);
+    }
+  }, [user?.uid]);
+
+  useEffect(() => {
+    const handleSynced = (event: Event) => {
+      const { synced, rejected } = (event as CustomEvent<OfflinePunchSyncSummary>).detail;
+      if (synced > 0) {
+        toast({
+          title: "Offline punches synced",
+          description: `${synced} punch${synced > 1 ? "es" : ""} captured offline ${synced > 1 ? "were" : "was"} recorded with the original time`,
+        });
+      }
+      rejected.forEach(({ kind, message }) => {
+        toast({
+          title: `${offlinePunchLabels[kind]} not recorded`,
+          description: message,
+          variant: "destructive",
+        });
+      });
+      queryClient.invalidateQueries({
+        predicate: (query) => {
+          const queryKey = query.queryKey[0];
+          return typeof queryKey === 'string' && (queryKey.includes('/api/attendance') || queryKey.includes('/api/site-visits'));
+        }
+      });
+    };
+
+    window.addEventListener('offline-punches-synced', handleSynced);
+    return () => window.removeEventListener('offline-punches-synced', handleSynced);
+  }, [toast]);
+
   // Close mobile menu when clicking outside of it
   useEffect(() => {
     const handleClickOutside = () => {
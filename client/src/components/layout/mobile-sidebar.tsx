@@ -48,6 +48,7 @@ export function MobileSidebar({ isOpen, setIsOpen }: MobileSidebarProps) {
     { href: "/quotations", label: "Quotations", icon: "ri-file-list-3-line", requiredPermissions: ["quotations.view", "quotations.create"] },
     { href: "/invoices", label: "Invoices", icon: "ri-bill-line", requiredPermissions: ["invoices.view", "invoices.create"] },
     { href: "/attendance", label: "Attendance", icon: "ri-time-line", requiredPermissions: ["attendance.view_own", "attendance.view_team", "attendance.view_all"] },
+    { href: "/team-attendance", label: "Team Attendance", icon: "ri-group-line", requiredPermissions: ["attendance.view_team", "attendance.view_all"] },
     { href: "/leave", label: "Leave", icon: "ri-calendar-check-line", requiredPermissions: ["leave.view_own", "leave.view_team", "leave.view_all"] },
     { href: "/site-visit", label: "Site Visit", icon: "ri-map-pin-line", requiredPermissions: ["site_visit.view", "site_visit.create"] },
     { href: "/site-visit-monitoring", label: "Visit Monitor", icon: "ri-dashboard-line", roles: ["master_admin", "admin"], requiredPermissions: ["site_visit.view_all", "site_visit.reports"] },
@@ -55,6 +56,8 @@ export function MobileSidebar({ isOpen, setIsOpen }: MobileSidebarProps) {
     { href: "/hr-management", label: "HR Mgmt", icon: "ri-team-line", roles: ["master_admin", "admin"], requiredPermissions: ["users.view"] },
     { href: "/departments", label: "Departments", icon: "ri-building-line", roles: ["master_admin"], requiredPermissions: ["departments.view", "departments.create"] },
     { href: "/attendance-management", label: "Attendance Mgmt", icon: "ri-shield-user-line", roles: ["master_admin"] },
+    { href: "/shift-roster", label: "Shift Roster", icon: "ri-calendar-schedule-line", roles: ["master_admin"] },
+    { href: "/holidays", label: "Holidays", icon: "ri-calendar-event-line", roles: ["master_admin"] },
     { href: "/payroll-management", label: "Payroll Mgmt", icon: "ri-money-dollar-circle-line", roles: ["master_admin"] },
     { href: "/office-locations", label: "Offices", icon: "ri-map-pin-line", roles: ["master_admin"], requiredPermissions: "system.settings" },
     { href: "/settings", label: "Settings", icon: "ri-settings-4-line" },
@@ -78,6 +78,12 @@ export function Sidebar() {
       icon: <i className="ri-time-line mr-3 text-xl"></i>,
       requiredPermissions: ["attendance.view_own", "attendance.view_team", "attendance.view_all"]
     },
+    { 
+      href: "/team-attendance", 
+      label: "Team Attendance", 
+      icon: <i className="ri-group-line mr-3 text-xl"></i>,
+      requiredPermissions: ["attendance.view_team", "attendance.view_all"]
+    },
     { 
       href: "/leave", 
       label: "Leave Management", 
@@ -124,6 +130,18 @@ export function Sidebar() {
       icon: <i className="ri-shield-user-line mr-3 text-xl"></i>,
       roles: ["master_admin"]
     },
+    { 
+      href: "/shift-roster", 
+      label: "Shift Roster", 
+      icon: <i className="ri-calendar-schedule-line mr-3 text-xl"></i>,
+      roles: ["master_admin"]
+    },
+    { 
+      href: "/holidays", 
+      label: "Holiday Calendar", 
+      icon: <i className="ri-calendar-event-line mr-3 text-xl"></i>,
+      roles: ["master_admin"]
+    },
     { 
       href: "/payroll-management", 
       label: "Payroll Management", 
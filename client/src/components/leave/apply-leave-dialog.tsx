@@ -0,0 +1,239 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CalendarPlus, Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDays } from "./leave-balance-cards";
+import type { LeaveTypeConfig, LeaveBalanceSummary, LeaveCoverageWarning } from "@shared/schema";
+
+interface ApplyLeaveDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const toDateInput = (value: Date) =>
+  `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, "0")}-${String(value.getDate()).padStart(2, "0")}`;
+
+export function ApplyLeaveDialog({ isOpen, onClose }: ApplyLeaveDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [leaveType, setLeaveType] = useState("casual");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [durationType, setDurationType] = useState("full_day");
+  const [session, setSession] = useState("first_half");
+  const [hours, setHours] = useState("2");
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (isOpen) {
+      const today = toDateInput(new Date());
+      setLeaveType("casual");
+      setStartDate(today);
+      setEndDate(today);
+      setDurationType("full_day");
+      setSession("first_half");
+      setHours("2");
+      setReason("");
+    }
+  }, [isOpen]);
+
+  const { data: leaveTypes = [] } = useQuery<LeaveTypeConfig[]>({
+    queryKey: ['/api/leave-types'],
+    queryFn: async () => {
+      const response = await apiRequest('/api/leave-types', 'GET');
+      return response.json();
+    },
+    enabled: isOpen,
+  });
+
+  // Balance follows the year of the first day of leave
+  const year = startDate ? parseInt(startDate.slice(0, 4)) : new Date().getFullYear();
+  const { data: balances = [] } = useQuery<LeaveBalanceSummary[]>({
+    queryKey: ['/api/leave-balances', 'me', year],
+    queryFn: async () => {
+      const response = await apiRequest(`/api/leave-balances?year=${year}`, 'GET');
+      return response.json();
+    },
+    enabled: isOpen && !!startDate,
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('/api/leaves', 'POST', {
+        leaveType,
+        startDate: new Date(`${startDate}T00:00:00`).toISOString(),
+        // Half-day and hourly leave cover a single day
+        endDate: new Date(`${isFullDay ? endDate : startDate}T00:00:00`).toISOString(),
+        durationType,
+        ...(durationType === "half_day" && { session }),
+        ...(durationType === "hourly" && { hours: Number(hours) }),
+        reason
+      });
+      return response.json();
+    },
+    onSuccess: (leave) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leaves'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/leave-balances'] });
+      toast({
+        title: "Leave applied",
+        description: `${formatDays(leave.days)} day${leave.days === 1 ? "" : "s"} charged to your balance` +
+          (leave.coverageWarnings?.length
+            ? `. Your department would be short-staffed on ${new Set(leave.coverageWarnings.map((warning: LeaveCoverageWarning) => warning.date)).size} of these days - your approver will see this`
+            : ""),
+      });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not apply leave",
+        description: error.message || "Failed to submit leave application",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const activeTypes = leaveTypes.filter((type) => type.isActive);
+  const selectedBalance = balances.find((balance) => balance.leaveType === leaveType);
+  const isFullDay = durationType === "full_day";
+  const canSubmit = !!startDate && (!isFullDay || (!!endDate && endDate >= startDate)) &&
+    (durationType !== "hourly" || Number(hours) > 0) &&
+    reason.trim().length >= 5;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarPlus className="h-5 w-5" />
+            Apply for Leave
+          </DialogTitle>
+          <DialogDescription>
+            Weekly offs and holidays are not charged. Hourly leave is charged as a share of your shift.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Leave type</Label>
+            <Select value={leaveType} onValueChange={setLeaveType}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {activeTypes.map((type) => (
+                  <SelectItem key={type.code} value={type.code}>{type.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {selectedBalance && (
+              <p className="text-xs text-muted-foreground">
+                {selectedBalance.requiresBalance
+                  ? `${formatDays(selectedBalance.balance)} days available in ${year}`
+                  : `Unpaid - ${formatDays(selectedBalance.used)} days taken in ${year}`}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Duration</Label>
+            <Select value={durationType} onValueChange={setDurationType}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="full_day">Full day(s)</SelectItem>
+                <SelectItem value="half_day">Half day</SelectItem>
+                <SelectItem value="hourly">Hours</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="leave-start">{isFullDay ? "From" : "Date"}</Label>
+              <Input
+                id="leave-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => {
+                  setStartDate(e.target.value);
+                  if (e.target.value > endDate) setEndDate(e.target.value);
+                }}
+              />
+            </div>
+            {isFullDay && (
+              <div className="space-y-2">
+                <Label htmlFor="leave-end">To</Label>
+                <Input
+                  id="leave-end"
+                  type="date"
+                  min={startDate}
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                />
+              </div>
+            )}
+            {durationType === "half_day" && (
+              <div className="space-y-2">
+                <Label>Session</Label>
+                <Select value={session} onValueChange={setSession}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="first_half">First half</SelectItem>
+                    <SelectItem value="second_half">Second half</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {durationType === "hourly" && (
+              <div className="space-y-2">
+                <Label htmlFor="leave-hours">Hours</Label>
+                <Input
+                  id="leave-hours"
+                  type="number"
+                  min={0.5}
+                  step={0.5}
+                  value={hours}
+                  onChange={(e) => setHours(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="leave-reason">Reason</Label>
+            <Textarea
+              id="leave-reason"
+              placeholder="Reason for leave"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={onClose} variant="outline" disabled={submitMutation.isPending}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => submitMutation.mutate()}
+            disabled={submitMutation.isPending || !canSubmit}
+          >
+            {submitMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
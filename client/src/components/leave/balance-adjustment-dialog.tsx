@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import type { LeaveTypeConfig } from "@shared/schema";
+
+interface BalanceAdjustmentDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  mode: "adjust" | "encash";
+  employee: { id: string; displayName?: string } | null;
+  year: number;
+}
+
+export function BalanceAdjustmentDialog({ isOpen, onClose, mode, employee, year }: BalanceAdjustmentDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [leaveType, setLeaveType] = useState("earned");
+  const [days, setDays] = useState("");
+  const [note, setNote] = useState("");
+
+  useEffect(() => {
+    if (isOpen) {
+      setLeaveType("earned");
+      setDays("");
+      setNote("");
+    }
+  }, [isOpen]);
+
+  const { data: leaveTypes = [] } = useQuery<LeaveTypeConfig[]>({
+    queryKey: ['/api/leave-types'],
+    queryFn: async () => {
+      const response = await apiRequest('/api/leave-types', 'GET');
+      return response.json();
+    },
+    enabled: isOpen,
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const response = mode === "adjust"
+        ? await apiRequest('/api/leave-balances/adjustments', 'POST', {
+            userId: employee!.id, leaveType, year, days: Number(days), note
+          })
+        : await apiRequest('/api/leave-balances/encashments', 'POST', {
+            userId: employee!.id, leaveType, year, days: Number(days)
+          });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leave-balances'] });
+      toast({
+        title: mode === "adjust" ? "Balance adjusted" : "Leave encashed",
+        description: `${employee?.displayName || "Employee"}'s ${year} balance has been updated`,
+      });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || (mode === "adjust" ? "Failed to adjust balance" : "Failed to encash leave"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Encashment only makes sense for types that allow it
+  const selectableTypes = leaveTypes.filter((type) =>
+    type.requiresBalance && (mode === "adjust" || type.encashmentCap > 0)
+  );
+  const daysValue = Number(days);
+  const canSubmit = !!employee && !!days && !isNaN(daysValue) && daysValue !== 0 &&
+    (mode === "adjust" ? note.trim().length >= 5 : daysValue > 0);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{mode === "adjust" ? "Adjust Leave Balance" : "Encash Leave"}</DialogTitle>
+          <DialogDescription>
+            {mode === "adjust"
+              ? `Credit (positive) or debit (negative) days for ${employee?.displayName || "the employee"} in ${year}`
+              : `Pay out unused days for ${employee?.displayName || "the employee"} in ${year}, up to the type's yearly cap`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Leave type</Label>
+              <Select value={leaveType} onValueChange={setLeaveType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {selectableTypes.map((type) => (
+                    <SelectItem key={type.code} value={type.code}>{type.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="adjustment-days">Days</Label>
+              <Input
+                id="adjustment-days"
+                type="number"
+                step="0.5"
+                min={mode === "encash" ? 0.5 : undefined}
+                value={days}
+                onChange={(e) => setDays(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {mode === "adjust" && (
+            <div className="space-y-2">
+              <Label htmlFor="adjustment-note">Note</Label>
+              <Textarea
+                id="adjustment-note"
+                placeholder="e.g. Comp-off for working on 15 Aug"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={onClose} variant="outline" disabled={submitMutation.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={() => submitMutation.mutate()} disabled={submitMutation.isPending || !canSubmit}>
+            {submitMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {mode === "adjust" ? "Adjust" : "Encash"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,142 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { departments, designations, type InsertLeaveCoverageRule, type WithId } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+
+interface CoverageRuleDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  rule: WithId<InsertLeaveCoverageRule> | null; // null creates a new rule
+}
+
+const ANY = "any";
+
+export function CoverageRuleDialog({ isOpen, onClose, rule }: CoverageRuleDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [department, setDepartment] = useState<string>(departments[0]);
+  const [designation, setDesignation] = useState(ANY);
+  const [minimumPresent, setMinimumPresent] = useState("1");
+  const [isActive, setIsActive] = useState(true);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDepartment(rule?.department || departments[0]);
+      setDesignation(rule?.designation || ANY);
+      setMinimumPresent(String(rule?.minimumPresent ?? 1));
+      setIsActive(rule?.isActive ?? true);
+    }
+  }, [isOpen, rule]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        department,
+        designation: designation === ANY ? null : designation,
+        minimumPresent: parseInt(minimumPresent),
+        isActive,
+      };
+      const response = rule
+        ? await apiRequest(`/api/leave-coverage-rules/${rule.id}`, "PATCH", data)
+        : await apiRequest("/api/leave-coverage-rules", "POST", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leave-coverage-rules"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leaves"] });
+      toast({ title: "Coverage rule saved", description: "Leave requests and the leave calendar use it from now on" });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save coverage rule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const minimum = parseInt(minimumPresent);
+  const canSubmit = !isNaN(minimum) && minimum >= 1;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{rule ? "Edit Coverage Rule" : "Add Coverage Rule"}</DialogTitle>
+          <DialogDescription>
+            Leave that would leave fewer people at work than this is flagged to the employee and approvers
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Department</Label>
+              <Select value={department} onValueChange={setDepartment}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {departments.map((dept) => (
+                    <SelectItem key={dept} value={dept} className="capitalize">{dept}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Designation</Label>
+              <Select value={designation} onValueChange={setDesignation}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Everyone</SelectItem>
+                  {designations.map((value) => (
+                    <SelectItem key={value} value={value} className="capitalize">{value.replace(/_/g, " ")}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="coverage-minimum">Minimum present</Label>
+            <Input
+              id="coverage-minimum"
+              type="number"
+              min={1}
+              step={1}
+              value={minimumPresent}
+              onChange={(e) => setMinimumPresent(e.target.value)}
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch id="coverage-active" checked={isActive} onCheckedChange={setIsActive} />
+            <Label htmlFor="coverage-active">Active</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={onClose} variant="outline" disabled={saveMutation.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || !canSubmit}>
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,275 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Pencil, Plus, Scale, Trash2, Wallet } from "lucide-react";
+import { LeaveBalanceCards, formatDays } from "./leave-balance-cards";
+import { LeaveTypeDialog } from "./leave-type-dialog";
+import { BalanceAdjustmentDialog } from "./balance-adjustment-dialog";
+import { CoverageRuleDialog } from "./coverage-rule-dialog";
+import type { InsertLeaveCoverageRule, InsertUserEnhanced, LeaveTypeConfig, WithId } from "@shared/schema";
+
+interface LeaveAdminPanelProps {
+  canManageTypes: boolean; // Master admin: leave type settings and encashment
+  canAdjust: boolean; // Master admin and HR: manual balance adjustments and coverage rules
+}
+
+export function LeaveAdminPanel({ canManageTypes, canAdjust }: LeaveAdminPanelProps) {
+  const currentYear = new Date().getFullYear();
+  const [employeeId, setEmployeeId] = useState<string>("");
+  const [year, setYear] = useState(currentYear);
+  const [editingType, setEditingType] = useState<LeaveTypeConfig | null>(null);
+  const [balanceAction, setBalanceAction] = useState<"adjust" | "encash" | null>(null);
+  const [editingRule, setEditingRule] = useState<WithId<InsertLeaveCoverageRule> | null | undefined>(undefined); // null = new rule
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: users = [] } = useQuery<WithId<InsertUserEnhanced>[]>({
+    queryKey: ['/api/users'],
+  });
+
+  const { data: leaveTypes = [] } = useQuery<LeaveTypeConfig[]>({
+    queryKey: ['/api/leave-types'],
+    queryFn: async () => {
+      const response = await apiRequest('/api/leave-types', 'GET');
+      return response.json();
+    },
+    enabled: canManageTypes,
+  });
+
+  const { data: coverageRules = [] } = useQuery<WithId<InsertLeaveCoverageRule>[]>({
+    queryKey: ['/api/leave-coverage-rules'],
+    queryFn: async () => {
+      const response = await apiRequest('/api/leave-coverage-rules', 'GET');
+      return response.json();
+    },
+    enabled: canAdjust,
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest(`/api/leave-coverage-rules/${id}`, 'DELETE');
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leave-coverage-rules'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/leaves'] });
+      toast({ title: "Coverage rule deleted" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete coverage rule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const employee = users.find((candidate) => candidate.id === employeeId) || null;
+
+  const describeEntitlements = (type: LeaveTypeConfig) => {
+    if (!type.requiresBalance) return "No balance needed";
+    if (!type.entitlements?.length) return "HR credits only";
+    return type.entitlements.map((entitlement) => {
+      const scope = [entitlement.employmentType?.replace(/_/g, " "), entitlement.payrollGrade].filter(Boolean).join(" / ") || "Everyone";
+      return `${scope}: ${formatDays(entitlement.daysPerYear)}`;
+    }).join(", ");
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="px-6 py-4">
+        <CardTitle className="text-xl">Leave Administration</CardTitle>
+        <CardDescription>Employee balances, leave type rules and minimum staffing</CardDescription>
+      </CardHeader>
+      <CardContent className="px-6">
+        <Tabs defaultValue="balances" className="w-full">
+          <TabsList>
+            <TabsTrigger value="balances">Employee Balances</TabsTrigger>
+            {canManageTypes && <TabsTrigger value="types">Leave Types</TabsTrigger>}
+            {canAdjust && <TabsTrigger value="coverage">Coverage</TabsTrigger>}
+          </TabsList>
+
+          <TabsContent value="balances" className="space-y-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2 w-full md:w-72">
+                <Label>Employee</Label>
+                <Select value={employeeId} onValueChange={setEmployeeId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select employee" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {users.map((candidate) => (
+                      <SelectItem key={candidate.id} value={candidate.id}>
+                        {candidate.displayName || candidate.email}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 w-32">
+                <Label>Year</Label>
+                <Select value={String(year)} onValueChange={(value) => setYear(parseInt(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[currentYear - 1, currentYear, currentYear + 1].map((option) => (
+                      <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {employee && canAdjust && (
+                <Button variant="outline" onClick={() => setBalanceAction("adjust")}>
+                  <Scale className="h-4 w-4 mr-2" />
+                  Adjust
+                </Button>
+              )}
+              {employee && canManageTypes && (
+                <Button variant="outline" onClick={() => setBalanceAction("encash")}>
+                  <Wallet className="h-4 w-4 mr-2" />
+                  Encash
+                </Button>
+              )}
+            </div>
+
+            {employee ? (
+              <LeaveBalanceCards userId={employee.id} year={year} />
+            ) : (
+              <p className="text-sm text-muted-foreground py-4">Select an employee to see their balances</p>
+            )}
+          </TabsContent>
+
+          {canManageTypes && (
+            <TabsContent value="types">
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Leave Type</TableHead>
+                      <TableHead>Accrual</TableHead>
+                      <TableHead>Entitlement (days/year)</TableHead>
+                      <TableHead>Carry Forward</TableHead>
+                      <TableHead>Encashment</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {leaveTypes.map((type) => (
+                      <TableRow key={type.code}>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">{type.name}</span>
+                            {!type.isPaid && <Badge variant="outline">Unpaid</Badge>}
+                            {!type.isActive && <Badge variant="secondary">Inactive</Badge>}
+                            {type.isCustomized && <Badge variant="outline" className="text-blue-700 border-blue-200">Customized</Badge>}
+                          </div>
+                        </TableCell>
+                        <TableCell className="capitalize">{type.accrualFrequency}</TableCell>
+                        <TableCell className="max-w-xs text-sm capitalize">{describeEntitlements(type)}</TableCell>
+                        <TableCell>{type.carryForwardCap ? `Up to ${formatDays(type.carryForwardCap)}` : "Lapses"}</TableCell>
+                        <TableCell>{type.encashmentCap ? `Up to ${formatDays(type.encashmentCap)}` : "-"}</TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setEditingType(type)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </TabsContent>
+          )}
+
+          {canAdjust && (
+            <TabsContent value="coverage" className="space-y-4">
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-muted-foreground">
+                  Minimum headcount that has to stay at work; leave below it is flagged, not blocked
+                </p>
+                <Button variant="outline" onClick={() => setEditingRule(null)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Rule
+                </Button>
+              </div>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Department</TableHead>
+                      <TableHead>Designation</TableHead>
+                      <TableHead>Minimum Present</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {coverageRules.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center text-sm text-muted-foreground py-6">
+                          No coverage rules yet
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    {coverageRules.map((rule) => (
+                      <TableRow key={rule.id}>
+                        <TableCell className="capitalize">
+                          <div className="flex items-center gap-2">
+                            {rule.department}
+                            {!rule.isActive && <Badge variant="secondary">Inactive</Badge>}
+                          </div>
+                        </TableCell>
+                        <TableCell className="capitalize">{rule.designation ? rule.designation.replace(/_/g, " ") : "Everyone"}</TableCell>
+                        <TableCell>{rule.minimumPresent}</TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => setEditingRule(rule)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0 text-red-600"
+                            disabled={deleteRuleMutation.isPending}
+                            onClick={() => deleteRuleMutation.mutate(rule.id)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </TabsContent>
+          )}
+        </Tabs>
+      </CardContent>
+
+      <LeaveTypeDialog
+        isOpen={!!editingType}
+        onClose={() => setEditingType(null)}
+        leaveType={editingType}
+      />
+      <BalanceAdjustmentDialog
+        isOpen={!!balanceAction}
+        onClose={() => setBalanceAction(null)}
+        mode={balanceAction || "adjust"}
+        employee={employee}
+        year={year}
+      />
+      <CoverageRuleDialog
+        isOpen={editingRule !== undefined}
+        onClose={() => setEditingRule(undefined)}
+        rule={editingRule ?? null}
+      />
+    </Card>
+  );
+}
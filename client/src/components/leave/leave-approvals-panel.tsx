@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertCircle, AlertTriangle, CheckCircle, Loader2, XCircle } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDays } from "./leave-balance-cards";
+import type {
+  InsertUserEnhanced,
+  LeaveApprovalStep,
+  LeaveCoverageWarning,
+  LeaveDurationType,
+  LeaveSession,
+  LeaveTypeCode,
+  WithId
+} from "@shared/schema";
+
+interface LeaveRequest {
+  id: string;
+  userId: string;
+  leaveType?: LeaveTypeCode;
+  startDate: string;
+  endDate: string;
+  durationType?: LeaveDurationType;
+  session?: LeaveSession;
+  hours?: number;
+  days?: number;
+  reason: string;
+  status: "pending" | "approved" | "rejected";
+  approvalSteps?: LeaveApprovalStep[];
+  currentApprovalStep?: number;
+  coverageWarnings?: LeaveCoverageWarning[];
+}
+
+export const approvalLevelLabels: Record<string, string> = {
+  reporting_manager: "Reporting manager",
+  department_head: "Department head",
+};
+
+export function LeaveApprovalsPanel() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [reviewing, setReviewing] = useState<{ leave: LeaveRequest; decision: "approved" | "rejected" } | null>(null);
+  const [comment, setComment] = useState("");
+
+  const { data: leaves = [], isLoading } = useQuery<LeaveRequest[]>({
+    queryKey: ['/api/leaves', 'review'],
+    queryFn: async () => {
+      const response = await apiRequest('/api/leaves?scope=review', 'GET');
+      return response.json();
+    },
+  });
+
+  const { data: users = [] } = useQuery<WithId<InsertUserEnhanced>[]>({
+    queryKey: ['/api/users'],
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, decision, comment }: { id: string; decision: string; comment: string }) => {
+      const response = await apiRequest(`/api/leaves/${id}/review`, 'PATCH', {
+        decision,
+        ...(comment.trim() && { comment: comment.trim() })
+      });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/leaves'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/leave-balances'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/attendance'] });
+      setReviewing(null);
+      setComment("");
+      toast({
+        title: "Success",
+        description: result.message,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to review leave request",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openReview = (leave: LeaveRequest, decision: "approved" | "rejected") => {
+    setComment("");
+    setReviewing({ leave, decision });
+  };
+
+  const getUserName = (userId: string) =>
+    users.find((u) => u.id === userId)?.displayName || `User #${userId}`;
+
+  // Earlier decisions in the chain, so a department head sees what the manager said
+  const getPreviousDecisions = (leave: LeaveRequest) =>
+    (leave.approvalSteps || []).filter((step) => step.status === "approved");
+
+  // Days on which approving would leave the department below a coverage rule's minimum
+  const getShortDays = (leave: LeaveRequest): string[] =>
+    Array.from(new Set((leave.coverageWarnings || []).map((warning) => warning.date)));
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (leaves.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        <AlertCircle className="h-12 w-12 mx-auto mb-4" />
+        <p>No leave requests waiting for your approval</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Employee</TableHead>
+              <TableHead>Leave Period</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Days</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead>Approving As</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {leaves.map((leave) => {
+              const step = leave.approvalSteps?.[leave.currentApprovalStep ?? 0];
+              return (
+                <TableRow key={leave.id}>
+                  <TableCell className="font-medium">{getUserName(leave.userId)}</TableCell>
+                  <TableCell>{formatDate(leave.startDate)} - {formatDate(leave.endDate)}</TableCell>
+                  <TableCell className="capitalize">{leave.leaveType ? leave.leaveType.replace(/_/g, " ") : "-"}</TableCell>
+                  <TableCell>
+                    {leave.days !== undefined ? formatDays(leave.days) : "-"}
+                    {leave.durationType === "half_day" && (
+                      <p className="text-xs text-muted-foreground">{leave.session === "second_half" ? "Second half" : "First half"}</p>
+                    )}
+                    {leave.durationType === "hourly" && (
+                      <p className="text-xs text-muted-foreground">{leave.hours} hours</p>
+                    )}
+                    {getShortDays(leave).length > 0 && (
+                      <p
+                        className="text-xs text-red-600 flex items-center gap-1 mt-1"
+                        title={(leave.coverageWarnings || []).map((warning) =>
+                          `${formatDate(warning.date)}: ${warning.available} of ${warning.minimumPresent} ${warning.designation ? warning.designation.replace(/_/g, " ") + "s" : "staff"} present`
+                        ).join("\n")}
+                      >
+                        <AlertTriangle className="h-3 w-3" />
+                        Short-staffed on {getShortDays(leave).length} day{getShortDays(leave).length === 1 ? "" : "s"}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell className="max-w-xs">
+                    <p className="truncate" title={leave.reason}>{leave.reason}</p>
+                    {getPreviousDecisions(leave).map((previous) => (
+                      <p key={previous.level} className="text-xs text-muted-foreground truncate" title={previous.comment}>
+                        {approvalLevelLabels[previous.level]} approved{previous.comment ? `: ${previous.comment}` : ""}
+                      </p>
+                    ))}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="secondary">
+                      {step ? approvalLevelLabels[step.level] : approvalLevelLabels.reporting_manager}
+                    </Badge>
+                    {step && !step.approverId && (
+                      <p className="text-xs text-muted-foreground mt-1">No approver assigned</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-green-600"
+                        onClick={() => openReview(leave, "approved")}
+                      >
+                        <CheckCircle className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="text-red-600"
+                        onClick={() => openReview(leave, "rejected")}
+                      >
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {reviewing?.decision === "approved" ? "Approve" : "Reject"} Leave Request
+            </DialogTitle>
+            <DialogDescription>
+              {reviewing?.decision === "approved"
+                ? "Longer leaves move on to the department head after your approval."
+                : "The days go back to the employee's balance. The employee will see your reason."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="leave-review-comment">
+              Comment{reviewing?.decision === "rejected" ? "" : " (optional)"}
+            </Label>
+            <Textarea
+              id="leave-review-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewing(null)} disabled={reviewMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              variant={reviewing?.decision === "rejected" ? "destructive" : "default"}
+              disabled={reviewMutation.isPending || (reviewing?.decision === "rejected" && !comment.trim())}
+              onClick={() => reviewing && reviewMutation.mutate({
+                id: reviewing.leave.id,
+                decision: reviewing.decision,
+                comment
+              })}
+            >
+              {reviewMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {reviewing?.decision === "approved" ? "Approve" : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,67 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Loader2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { LeaveBalanceSummary } from "@shared/schema";
+
+interface LeaveBalanceCardsProps {
+  userId?: string; // Defaults to the signed-in employee
+  year: number;
+}
+
+export const formatDays = (days: number) => Number.isInteger(days) ? String(days) : days.toFixed(2).replace(/0$/, "");
+
+export function LeaveBalanceCards({ userId, year }: LeaveBalanceCardsProps) {
+  const { data: balances = [], isLoading } = useQuery<LeaveBalanceSummary[]>({
+    queryKey: ['/api/leave-balances', userId || 'me', year],
+    queryFn: async () => {
+      const params = new URLSearchParams({ year: String(year) });
+      if (userId) params.set("userId", userId);
+      const response = await apiRequest(`/api/leave-balances?${params.toString()}`, 'GET');
+      return response.json();
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+      {balances.map((balance) => (
+        <div
+          key={balance.leaveType}
+          className="rounded-md border p-3"
+          title={[
+            `Entitlement: ${formatDays(balance.entitlement)} days/year`,
+            `Accrued: ${formatDays(balance.accrued)}`,
+            balance.carriedForward ? `Carried forward: ${formatDays(balance.carriedForward)}` : null,
+            balance.adjusted ? `Adjusted: ${formatDays(balance.adjusted)}` : null,
+            `Used: ${formatDays(balance.used)}`,
+            balance.encashed ? `Encashed: ${formatDays(balance.encashed)}` : null,
+          ].filter(Boolean).join("\n")}
+        >
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-muted-foreground truncate">{balance.name}</p>
+            {!balance.isPaid && <Badge variant="outline" className="text-[10px] px-1">Unpaid</Badge>}
+          </div>
+          {balance.requiresBalance ? (
+            <>
+              <p className="text-2xl font-semibold">{formatDays(balance.balance)}</p>
+              <p className="text-xs text-muted-foreground">{formatDays(balance.used)} used</p>
+            </>
+          ) : (
+            <>
+              <p className="text-2xl font-semibold">{formatDays(balance.used)}</p>
+              <p className="text-xs text-muted-foreground">days taken</p>
+            </>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { departments, type LeaveCalendar as LeaveCalendarData, type LeaveCalendarEntry, type LeaveCoverageWarning } from "@shared/schema";
+
+interface LeaveCalendarProps {
+  canViewDepartment: boolean; // Department-level approvers, HR and master admin
+  canPickDepartment: boolean; // HR and master admin can look at any department
+  defaultDepartment?: string | null;
+}
+
+const weekdays = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const describeWarning = (warning: LeaveCoverageWarning) =>
+  `${warning.designation ? warning.designation.replace(/_/g, " ") : warning.department}: ` +
+  `${warning.available} of ${warning.minimumPresent} needed${warning.atRisk ? " if pending leaves are approved" : ""}`;
+
+export function LeaveCalendar({ canViewDepartment, canPickDepartment, defaultDepartment }: LeaveCalendarProps) {
+  const [view, setView] = useState<"month" | "week">("month");
+  const [scope, setScope] = useState<"team" | "department">("team");
+  const [department, setDepartment] = useState(defaultDepartment || departments[0]);
+  const [anchor, setAnchor] = useState(() => startOfDay(new Date()));
+
+  // Month view pads to whole weeks so the grid starts on a Monday
+  const rangeStart = startOfWeek(view === "month" ? startOfMonth(anchor) : anchor, { weekStartsOn: 1 });
+  const rangeEnd = endOfWeek(view === "month" ? endOfMonth(anchor) : anchor, { weekStartsOn: 1 });
+  const days = eachDayOfInterval({ start: rangeStart, end: rangeEnd });
+  const from = format(rangeStart, "yyyy-MM-dd");
+  const to = format(rangeEnd, "yyyy-MM-dd");
+
+  const { data: calendar, isLoading } = useQuery<LeaveCalendarData>({
+    queryKey: ['/api/leaves', 'calendar', scope, scope === "department" ? department : null, from, to],
+    queryFn: async () => {
+      const params = new URLSearchParams({ startDate: from, endDate: to, scope });
+      if (scope === "department") params.set("department", department);
+      const response = await apiRequest(`/api/leaves/calendar?${params.toString()}`, 'GET');
+      return response.json();
+    },
+  });
+
+  const entries = calendar?.entries || [];
+  const warnings = calendar?.coverageWarnings || [];
+
+  const entriesOn = (day: Date) => entries.filter((entry) =>
+    startOfDay(new Date(entry.startDate)) <= day && startOfDay(new Date(entry.endDate)) >= day);
+  const warningsOn = (day: Date) => warnings.filter((warning) => warning.date === format(day, "yyyy-MM-dd"));
+
+  const shift = (direction: 1 | -1) =>
+    setAnchor((current) => view === "month" ? addMonths(current, direction) : addWeeks(current, direction));
+
+  const describeEntry = (entry: LeaveCalendarEntry) => {
+    const type = entry.leaveType ? entry.leaveType.replace(/_/g, " ") : "leave";
+    const duration = entry.durationType === "half_day"
+      ? `, ${entry.session === "second_half" ? "second" : "first"} half`
+      : entry.durationType === "hourly" ? `, ${entry.hours}h` : "";
+    return `${entry.displayName} - ${type}${duration} (${entry.status})`;
+  };
+
+  const maxShown = view === "month" ? 3 : 10;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={view} onValueChange={(value) => setView(value as "month" | "week")}>
+          <SelectTrigger className="w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="month">Month</SelectItem>
+            <SelectItem value="week">Week</SelectItem>
+          </SelectContent>
+        </Select>
+        {canViewDepartment && (
+          <Select value={scope} onValueChange={(value) => setScope(value as "team" | "department")}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="team">My team</SelectItem>
+              <SelectItem value="department">Department</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+        {scope === "department" && canPickDepartment && (
+          <Select value={department} onValueChange={setDepartment}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {departments.map((dept) => (
+                <SelectItem key={dept} value={dept} className="capitalize">{dept}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <div className="flex items-center gap-1 ml-auto">
+          <Button variant="outline" size="sm" className="h-9 w-9 p-0" onClick={() => shift(-1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setAnchor(startOfDay(new Date()))}>
+            Today
+          </Button>
+          <Button variant="outline" size="sm" className="h-9 w-9 p-0" onClick={() => shift(1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <span className="text-sm font-medium ml-2 min-w-36">
+            {view === "month"
+              ? format(anchor, "MMMM yyyy")
+              : `${format(rangeStart, "d MMM")} - ${format(rangeEnd, "d MMM yyyy")}`}
+          </span>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      ) : (
+        <div className="rounded-md border overflow-x-auto">
+          <div className="grid grid-cols-7 min-w-[640px]">
+            {weekdays.map((weekday) => (
+              <div key={weekday} className="px-2 py-1 text-xs font-medium text-muted-foreground border-b bg-muted/50">
+                {weekday}
+              </div>
+            ))}
+            {days.map((day) => {
+              const dayEntries = entriesOn(day);
+              const dayWarnings = warningsOn(day);
+              const isShort = dayWarnings.some((warning) => !warning.atRisk);
+              return (
+                <div
+                  key={day.toISOString()}
+                  className={cn(
+                    "border-b border-r p-1 space-y-1",
+                    view === "month" ? "min-h-24" : "min-h-40",
+                    view === "month" && !isSameMonth(day, anchor) && "bg-muted/30 text-muted-foreground",
+                    isShort && "bg-red-50"
+                  )}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className={cn("text-xs", isToday(day) && "rounded-full bg-primary text-primary-foreground px-1.5")}>
+                      {format(day, "d")}
+                    </span>
+                    {dayWarnings.length > 0 && (
+                      <span title={dayWarnings.map(describeWarning).join("\n")}>
+                        <AlertTriangle className={cn("h-3.5 w-3.5", isShort ? "text-red-600" : "text-amber-500")} />
+                      </span>
+                    )}
+                  </div>
+                  {dayEntries.slice(0, maxShown).map((entry) => (
+                    <div
+                      key={entry.leaveId}
+                      title={describeEntry(entry)}
+                      className={cn(
+                        "truncate rounded px-1 text-xs",
+                        entry.status === "approved"
+                          ? "bg-blue-100 text-blue-800"
+                          : "border border-dashed border-amber-400 text-amber-800"
+                      )}
+                    >
+                      {entry.displayName}
+                      {entry.durationType === "half_day" && " (½)"}
+                      {entry.durationType === "hourly" && ` (${entry.hours}h)`}
+                    </div>
+                  ))}
+                  {dayEntries.length > maxShown && (
+                    <div
+                      className="text-xs text-muted-foreground"
+                      title={dayEntries.slice(maxShown).map(describeEntry).join("\n")}
+                    >
+                      +{dayEntries.length - maxShown} more
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-blue-100" /> Approved</span>
+        <span className="flex items-center gap-1"><span className="h-3 w-3 rounded border border-dashed border-amber-400" /> Pending</span>
+        <span className="flex items-center gap-1"><AlertTriangle className="h-3 w-3 text-red-600" /> Below minimum staffing</span>
+        <span className="flex items-center gap-1"><AlertTriangle className="h-3 w-3 text-amber-500" /> Short if pending leaves are approved</span>
+        {scope === "team" && calendar?.members?.length === 0 && <span>Nobody reports to you</span>}
+      </div>
+    </div>
+  );
+}
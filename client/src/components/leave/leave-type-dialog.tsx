@@ -0,0 +1,233 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { employmentTypes, payrollGrades, type LeaveTypeConfig } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+
+interface LeaveTypeDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  leaveType: LeaveTypeConfig | null;
+}
+
+interface EntitlementRow {
+  employmentType: string; // "any" matches every employee
+  payrollGrade: string;
+  daysPerYear: string;
+}
+
+const ANY = "any";
+
+export function LeaveTypeDialog({ isOpen, onClose, leaveType }: LeaveTypeDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [name, setName] = useState("");
+  const [isPaid, setIsPaid] = useState(true);
+  const [requiresBalance, setRequiresBalance] = useState(true);
+  const [isActive, setIsActive] = useState(true);
+  const [accrualFrequency, setAccrualFrequency] = useState("yearly");
+  const [carryForwardCap, setCarryForwardCap] = useState("0");
+  const [encashmentCap, setEncashmentCap] = useState("0");
+  const [entitlements, setEntitlements] = useState<EntitlementRow[]>([]);
+
+  useEffect(() => {
+    if (isOpen && leaveType) {
+      setName(leaveType.name);
+      setIsPaid(leaveType.isPaid);
+      setRequiresBalance(leaveType.requiresBalance);
+      setIsActive(leaveType.isActive);
+      setAccrualFrequency(leaveType.accrualFrequency);
+      setCarryForwardCap(String(leaveType.carryForwardCap ?? 0));
+      setEncashmentCap(String(leaveType.encashmentCap ?? 0));
+      setEntitlements((leaveType.entitlements || []).map((entitlement) => ({
+        employmentType: entitlement.employmentType || ANY,
+        payrollGrade: entitlement.payrollGrade || ANY,
+        daysPerYear: String(entitlement.daysPerYear),
+      })));
+    }
+  }, [isOpen, leaveType]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(`/api/leave-types/${leaveType!.code}`, "PUT", {
+        name,
+        isPaid,
+        requiresBalance,
+        isActive,
+        accrualFrequency,
+        carryForwardCap: Number(carryForwardCap) || 0,
+        encashmentCap: Number(encashmentCap) || 0,
+        entitlements: entitlements.map((row) => ({
+          employmentType: row.employmentType === ANY ? null : row.employmentType,
+          payrollGrade: row.payrollGrade === ANY ? null : row.payrollGrade,
+          daysPerYear: Number(row.daysPerYear) || 0,
+        })),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/leave-types"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leave-balances"] });
+      toast({ title: "Leave type saved", description: `${name} applies to accruals from now on` });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save leave type",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateRow = (index: number, changes: Partial<EntitlementRow>) =>
+    setEntitlements((rows) => rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  if (!leaveType) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit {leaveType.name}</DialogTitle>
+          <DialogDescription>
+            The most specific entitlement row matching an employee's employment type and payroll grade is used
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="leave-type-name">Name</Label>
+              <Input id="leave-type-name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Accrual</Label>
+              <Select value={accrualFrequency} onValueChange={setAccrualFrequency}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="yearly">Yearly - full entitlement on 1 January</SelectItem>
+                  <SelectItem value="monthly">Monthly - 1/12 each month</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="leave-type-carry">Carry forward cap (days)</Label>
+              <Input
+                id="leave-type-carry"
+                type="number"
+                min={0}
+                value={carryForwardCap}
+                onChange={(e) => setCarryForwardCap(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="leave-type-encash">Encashment cap per year (days)</Label>
+              <Input
+                id="leave-type-encash"
+                type="number"
+                min={0}
+                value={encashmentCap}
+                onChange={(e) => setEncashmentCap(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-6">
+            <div className="flex items-center gap-2">
+              <Switch id="leave-type-paid" checked={isPaid} onCheckedChange={setIsPaid} />
+              <Label htmlFor="leave-type-paid">Paid</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="leave-type-balance" checked={requiresBalance} onCheckedChange={setRequiresBalance} />
+              <Label htmlFor="leave-type-balance">Requires balance</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="leave-type-active" checked={isActive} onCheckedChange={setIsActive} />
+              <Label htmlFor="leave-type-active">Active</Label>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Entitlements (days per year)</Label>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setEntitlements((rows) => [...rows, { employmentType: ANY, payrollGrade: ANY, daysPerYear: "0" }])}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add row
+              </Button>
+            </div>
+            {entitlements.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                No entitlement - balance comes only from HR adjustments
+              </p>
+            )}
+            {entitlements.map((row, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1fr_100px_auto] gap-2 items-center">
+                <Select value={row.employmentType} onValueChange={(value) => updateRow(index, { employmentType: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any employment type</SelectItem>
+                    {employmentTypes.map((type) => (
+                      <SelectItem key={type} value={type} className="capitalize">{type.replace(/_/g, " ")}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={row.payrollGrade} onValueChange={(value) => updateRow(index, { payrollGrade: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any grade</SelectItem>
+                    {payrollGrades.map((grade) => (
+                      <SelectItem key={grade} value={grade}>{grade}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min={0}
+                  value={row.daysPerYear}
+                  onChange={(e) => updateRow(index, { daysPerYear: e.target.value })}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 text-destructive"
+                  onClick={() => setEntitlements((rows) => rows.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={onClose} variant="outline" disabled={saveMutation.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending || name.trim().length < 2}>
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlarmClock, Loader2, Plus, Trash2 } from "lucide-react";
+import type { InsertLatePenaltyRule, WithId } from "@shared/schema";
+
+const departmentOptions = ["operations", "admin", "hr", "marketing", "sales", "technical", "housekeeping"];
+
+const emptyRule = {
+  name: "",
+  trigger: "late_count",
+  threshold: "3",
+  deductionDays: "0.5",
+  repeatEveryThreshold: true,
+  department: "all",
+};
+
+const describeRule = (rule: WithId<InsertLatePenaltyRule>) => {
+  const days = `${rule.deductionDays} day${rule.deductionDays === 1 ? "" : "s"}`;
+  if (rule.trigger === "late_minutes") {
+    return `${days} for each day more than ${rule.threshold} minutes late`;
+  }
+  return rule.repeatEveryThreshold
+    ? `${days} for every ${rule.threshold} late marks in the month`
+    : `${days} once ${rule.threshold} late marks are reached in the month`;
+};
+
+export function LatePenaltyRulesTable() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState(emptyRule);
+
+  const { data: rules = [], isLoading } = useQuery<WithId<InsertLatePenaltyRule>[]>({
+    queryKey: ["/api/late-penalty-rules"],
+    queryFn: async () => {
+      const response = await apiRequest("/api/late-penalty-rules", "GET");
+      return response.json();
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("/api/late-penalty-rules", "POST", {
+        name: formData.name,
+        trigger: formData.trigger,
+        threshold: parseInt(formData.threshold),
+        deductionDays: parseFloat(formData.deductionDays),
+        repeatEveryThreshold: formData.trigger === "late_count" ? formData.repeatEveryThreshold : false,
+        department: formData.department === "all" ? null : formData.department,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/late-penalty-rules"] });
+      toast({ title: "Rule added", description: "It applies from the next payroll run" });
+      setIsDialogOpen(false);
+      setFormData(emptyRule);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add late penalty rule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deactivateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest(`/api/late-penalty-rules/${id}`, "DELETE");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/late-penalty-rules"] });
+      toast({ title: "Rule deactivated" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to deactivate late penalty rule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const threshold = parseInt(formData.threshold);
+  const deductionDays = parseFloat(formData.deductionDays);
+  const canSubmit = formData.name.trim().length >= 2 && threshold >= 1 && deductionDays > 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button size="sm" onClick={() => setIsDialogOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin" />
+        </div>
+      ) : rules.length === 0 ? (
+        <div className="text-center py-8">
+          <AlarmClock className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <h3 className="text-lg font-semibold mb-2">No late penalty rules</h3>
+          <p className="text-muted-foreground">
+            Late arrivals are recorded but nothing is deducted from payroll.
+          </p>
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Rule</TableHead>
+              <TableHead>Deduction</TableHead>
+              <TableHead>Department</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rules.map((rule) => (
+              <TableRow key={rule.id}>
+                <TableCell className="font-medium">{rule.name}</TableCell>
+                <TableCell>{describeRule(rule)}</TableCell>
+                <TableCell>
+                  <Badge variant="outline" className="text-xs">
+                    {rule.department ? rule.department.toUpperCase() : "All Departments"}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deactivateMutation.mutate(rule.id)}
+                    disabled={deactivateMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add Late Penalty Rule</DialogTitle>
+            <DialogDescription>
+              Penalty days are deducted at the per-day salary when payroll is processed
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="late-rule-name">Name</Label>
+              <Input
+                id="late-rule-name"
+                placeholder="e.g. 3 late marks = half day"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Trigger</Label>
+                <Select value={formData.trigger} onValueChange={(value) => setFormData({ ...formData, trigger: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="late_count">Late marks in month</SelectItem>
+                    <SelectItem value="late_minutes">Minutes late in a day</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="late-rule-threshold">
+                  {formData.trigger === "late_count" ? "Late marks" : "More than (minutes)"}
+                </Label>
+                <Input
+                  id="late-rule-threshold"
+                  type="number"
+                  min="1"
+                  value={formData.threshold}
+                  onChange={(e) => setFormData({ ...formData, threshold: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="late-rule-days">Deduct (days)</Label>
+                <Input
+                  id="late-rule-days"
+                  type="number"
+                  min="0.25"
+                  step="0.25"
+                  value={formData.deductionDays}
+                  onChange={(e) => setFormData({ ...formData, deductionDays: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Department</Label>
+                <Select value={formData.department} onValueChange={(value) => setFormData({ ...formData, department: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Departments</SelectItem>
+                    {departmentOptions.map(department => (
+                      <SelectItem key={department} value={department} className="capitalize">{department}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {formData.trigger === "late_count" && (
+              <div className="flex items-center justify-between rounded-lg bg-gray-50 p-3">
+                <div>
+                  <p className="text-sm font-medium">Repeat for every block</p>
+                  <p className="text-xs text-muted-foreground">Off deducts only once per month</p>
+                </div>
+                <Switch
+                  checked={formData.repeatEveryThreshold}
+                  onCheckedChange={(checked) => setFormData({ ...formData, repeatEveryThreshold: checked })}
+                />
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)} disabled={createMutation.isPending}>
+              Cancel
+            </Button>
+            <Button onClick={() => createMutation.mutate()} disabled={createMutation.isPending || !canSubmit}>
+              {createMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Add Rule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -168,6 +168,12 @@ export function PayrollTable({ payrolls, users, earningsFields, deductionsFields
                               </div>
                             );
                           })}
+                          {(payroll.latePenaltyBreakdown || []).map((application: any) => (
+                            <div key={application.ruleId} className="text-xs text-muted-foreground pl-2">
+                              {application.ruleName} ({application.deductionDays} day{application.deductionDays === 1 ? '' : 's'}):{' '}
+                              {application.dates.map((date: string) => new Date(`${date}T00:00:00`).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })).join(', ')}
+                            </div>
+                          ))}
                         </>
                       )}
                       <hr className="my-2" />
@@ -15,6 +15,7 @@ import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { getAuth } from 'firebase/auth';
+import { queueOfflinePunch } from "@/utils/offline-punch-queue";
 import { 
   MapPin, 
   Camera, 
@@ -476,6 +477,33 @@ export function SiteVisitCheckoutModal({ isOpen, onClose, siteVisit }: SiteVisit
         selfie: capturedPhotos.selfie ? 'present' : 'none',
         sitePhotos: capturedPhotos.sitePhotos.length
       });
+
+      // Offline: store the signed checkout with its photos; it completes the visit on reconnect
+      if (!navigator.onLine) {
+        const userId = getAuth().currentUser?.uid;
+        if (siteVisit.isFollowUp || !userId) {
+          throw new Error("Follow-up checkout needs an internet connection");
+        }
+        const siteOutLocation = {
+          latitude: currentLocation?.latitude || 0,
+          longitude: currentLocation?.longitude || 0,
+          accuracy: currentLocation?.accuracy,
+          address: currentLocation?.formattedAddress || currentLocation?.address || 'Address not available'
+        };
+        await queueOfflinePunch(userId, 'site_visit_checkout', {
+          siteVisitId: siteVisit.id,
+          siteOutLocation,
+          ...(capturedPhotos.selfie && { selfie: capturedPhotos.selfie }),
+          sitePhotos: capturedPhotos.sitePhotos.map((photo, i) => ({
+            photo,
+            location: siteOutLocation,
+            timestamp: new Date(),
+            description: `Site photo ${i + 1} captured during checkout`
+          })),
+          notes
+        });
+        return { offline: true };
+      }
       
       // Upload photos to Cloudinary if provided
       let selfiePhotoUrl: string | undefined = undefined;
@@ -633,8 +661,12 @@ export function SiteVisitCheckoutModal({ isOpen, onClose, siteVisit }: SiteVisit
       
       return result;
     },
-    onSuccess: () => {
-      toast({
+    onSuccess: (result) => {
+      toast(result?.offline ? {
+        title: "Checkout Saved Offline",
+        description: "The visit will be completed with this time when you're back online.",
+        variant: "default",
+      } : {
         title: "Site Visit Completed",
         description: "Site visit has been successfully completed.",
         variant: "default",
@@ -15,6 +15,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { useAuthContext } from "@/contexts/auth-context";
+import { queueOfflinePunch } from "@/utils/offline-punch-queue";
 import { 
   MapPin, 
   Camera, 
@@ -63,6 +65,7 @@ const propertyTypes = [
 ];
 
 export function SiteVisitStartModal({ isOpen, onClose, userDepartment }: SiteVisitStartModalProps) {
+  const { user } = useAuthContext();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   
@@ -531,6 +534,37 @@ export function SiteVisitStartModal({ isOpen, onClose, userDepartment }: SiteVis
         selfie: capturedPhotos.selfie ? 'present' : 'none',
         sitePhotos: capturedPhotos.sitePhotos.length
       });
+
+      // Offline: the visit is signed and stored with its photos, then started on reconnect
+      // with the time captured here
+      if (!navigator.onLine && user?.uid) {
+        const siteInLocation = {
+          latitude: currentLocation?.latitude || 0,
+          longitude: currentLocation?.longitude || 0,
+          accuracy: currentLocation?.accuracy,
+          address: currentLocation?.formattedAddress || currentLocation?.address || 'Address not available'
+        };
+        await queueOfflinePunch(user.uid, 'site_visit_start', {
+          visitPurpose: data.visitPurpose,
+          siteInLocation,
+          ...(capturedPhotos.selfie && { selfie: capturedPhotos.selfie }),
+          sitePhotos: capturedPhotos.sitePhotos.map((photo, i) => ({
+            photo,
+            location: siteInLocation,
+            timestamp: new Date(),
+            description: `Site photo ${i + 1} captured during check-in`
+          })),
+          customer: {
+            ...data.customer,
+            ebServiceNumber: data.customer.ebServiceNumber || '',
+          },
+          ...(data.technicalData && { technicalData: data.technicalData }),
+          ...(data.marketingData && { marketingData: data.marketingData }),
+          ...(data.adminData && { adminData: data.adminData }),
+          notes: data.notes || ''
+        });
+        return { offline: true };
+      }
       
       // Upload photos to Cloudinary if provided
       let selfiePhotoUrl: string | undefined = undefined;
@@ -657,7 +691,10 @@ export function SiteVisitStartModal({ isOpen, onClose, userDepartment }: SiteVis
     onSuccess: (result) => {
       console.log("=== MUTATION SUCCESS ===");
       console.log("Result:", result);
-      toast({
+      toast((result as any)?.offline ? {
+        title: "Site Visit Saved Offline",
+        description: "It will be started with this time when you're back online",
+      } : {
         title: "Site Visit Started",
         description: "Your site visit has been started successfully",
       });
@@ -23,10 +23,16 @@ import { cn } from "@/lib/utils";
 import { 
   CalendarIcon, Search, Loader2, FileText, BarChart, UserCheck, Clock, 
   Plus, Edit, Trash2, Eye, Download, Upload, Settings, Users, 
-  CheckCircle, XCircle, AlertCircle, MapPin, Camera
+  CheckCircle, XCircle, AlertCircle, MapPin, Camera, Zap, ShieldAlert, Sheet, Crosshair
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { departments } from "@shared/schema";
+import { RegularizationRequestsPanel } from "@/components/attendance/regularization-requests-panel";
+import { PendingRegularizationPanel } from "@/components/attendance/pending-regularization-panel";
+import { OvertimeRequestsPanel } from "@/components/attendance/overtime-requests-panel";
+import { AttendanceAnomaliesPanel, getAnomalyScoreBadge } from "@/components/attendance/attendance-anomalies-panel";
+import { MusterRollPanel } from "@/components/attendance/muster-roll-panel";
+import { LocationAnalyticsPanel } from "@/components/attendance/location-analytics-panel";
 
 export default function AttendanceManagement() {
   const { user } = useAuthContext();
@@ -219,7 +225,8 @@ export default function AttendanceManagement() {
     const matchesDepartment = selectedDepartment === "all" || 
       record.userDepartment === selectedDepartment;
     
-    const matchesStatus = selectedStatus === "all" || record.status === selectedStatus;
+    const matchesStatus = selectedStatus === "all" ||
+      (selectedStatus === "needs_regularization" ? !!record.requiresRegularization : record.status === selectedStatus);
     
     return matchesSearch && matchesDepartment && matchesStatus;
   });
@@ -406,6 +413,68 @@ export default function AttendanceManagement() {
     );
   };
 
+  // How the check-in location was accepted; hover shows the factors recorded at check-in
+  const getLocationValidationBadge = (record: any) => {
+    if (!record.locationValidationType) return null;
+    const labels: Record<string, string> = {
+      exact: "On site",
+      indoor_compensation: "Indoor compensation",
+      proximity_based: "Proximity",
+      qr_code: "QR verified",
+      simplified: "Unverified",
+      failed: "Outside office"
+    };
+    const details = [
+      record.locationValidationMessage,
+      record.locationConfidence !== undefined ? `Confidence: ${Math.round(record.locationConfidence * 100)}%` : null,
+      record.locationConfidenceFactors?.length ? `Factors: ${record.locationConfidenceFactors.join(', ')}` : null
+    ].filter(Boolean).join('\n');
+
+    return (
+      <Badge
+        variant={record.locationValidationType === 'failed' ? 'destructive' : 'outline'}
+        className={record.locationValidationType === 'indoor_compensation' ? 'bg-amber-50 text-amber-800 border-amber-200' : undefined}
+        title={details}
+      >
+        {labels[record.locationValidationType] || record.locationValidationType}
+        {record.locationConfidence !== undefined && ` ${Math.round(record.locationConfidence * 100)}%`}
+      </Badge>
+    );
+  };
+
+  // Check-in selfie compared with the employee's profile photo
+  const getFaceMatchBadge = (record: any) => {
+    switch (record.checkInFaceMatchStatus) {
+      case 'matched':
+        return <Badge variant="outline" className="bg-green-50 text-green-800 border-green-200">Face {Math.round(record.checkInFaceMatchScore * 100)}%</Badge>;
+      case 'low_confidence':
+        return <Badge variant="destructive">Face {Math.round(record.checkInFaceMatchScore * 100)}%</Badge>;
+      case 'no_face':
+        return <Badge variant="destructive">No face</Badge>;
+      case 'no_reference':
+        return <Badge variant="outline" title="Add a profile photo to the employee record to verify check-in selfies">No profile photo</Badge>;
+      default:
+        return null;
+    }
+  };
+
+  // Auto-closed without a check-out under the flag_for_regularization policy - unpaid until corrected
+  const getRegularizationBadge = (record: any) => {
+    if (!record.requiresRegularization) return null;
+    return (
+      <Badge variant="outline" className="bg-amber-50 text-amber-800 border-amber-200" title="Auto-closed without a check-out; not paid until a correction is approved">
+        Needs correction
+      </Badge>
+    );
+  };
+
+  // Checked in on a day covered by approved leave - HR decides whether to credit the leave back
+  const getLeaveConflictBadge = (record: any) => {
+    if (!record.leaveConflict) return null;
+    const leaveType = record.leaveType ? record.leaveType.replace(/_/g, ' ') : 'approved';
+    return <Badge variant="destructive" title={`Checked in during ${leaveType} leave`}>On leave</Badge>;
+  };
+
   // Check if user is master admin
   if (user?.role !== "master_admin") {
     return (
@@ -480,6 +549,22 @@ export default function AttendanceManagement() {
               <Edit className="h-4 w-4" />
               Corrections
             </TabsTrigger>
+            <TabsTrigger value="overtime" className="flex items-center gap-2">
+              <Zap className="h-4 w-4" />
+              Overtime
+            </TabsTrigger>
+            <TabsTrigger value="anomalies" className="flex items-center gap-2">
+              <ShieldAlert className="h-4 w-4" />
+              Anomalies
+            </TabsTrigger>
+            <TabsTrigger value="muster" className="flex items-center gap-2">
+              <Sheet className="h-4 w-4" />
+              Muster Roll
+            </TabsTrigger>
+            <TabsTrigger value="location" className="flex items-center gap-2">
+              <Crosshair className="h-4 w-4" />
+              Location Accuracy
+            </TabsTrigger>
           </TabsList>
           
           {/* Filters */}
@@ -521,6 +606,7 @@ export default function AttendanceManagement() {
                     <SelectItem value="late">Late</SelectItem>
                     <SelectItem value="leave">Leave</SelectItem>
                     <SelectItem value="holiday">Holiday</SelectItem>
+                    <SelectItem value="needs_regularization">Needs correction</SelectItem>
                   </SelectContent>
                 </Select>
 
@@ -595,11 +681,19 @@ export default function AttendanceManagement() {
                           <TableCell>
                             {record.checkInTime ? <TimeDisplay time={record.checkInTime} format12Hour={true} /> : '-'}
                           </TableCell>
-                          <TableCell className="capitalize">
-                            {record.location || 'office'}
+                          <TableCell>
+                            <div className="flex flex-col items-start gap-1">
+                              <span className="capitalize">{record.location || 'office'}</span>
+                              {getLocationValidationBadge(record)}
+                              {getFaceMatchBadge(record)}
+                            </div>
                           </TableCell>
                           <TableCell>
-                            {getStatusBadge(record.status)}
+                            <div className="flex flex-col items-start gap-1">
+                              {getStatusBadge(record.status)}
+                              {getLeaveConflictBadge(record)}
+                              {getRegularizationBadge(record)}
+                            </div>
                           </TableCell>
                           <TableCell>
                             <div className="flex space-x-2">
@@ -694,7 +788,18 @@ export default function AttendanceManagement() {
                             {record.overtimeHours ? `${record.overtimeHours.toFixed(1)}h` : '-'}
                           </TableCell>
                           <TableCell>
-                            {getStatusBadge(record.status)}
+                            <div className="flex flex-col items-start gap-1">
+                              {getStatusBadge(record.status)}
+                              {getLeaveConflictBadge(record)}
+                              {getRegularizationBadge(record)}
+                              {getLocationValidationBadge(record)}
+                              {getFaceMatchBadge(record)}
+                              {record.anomalyFlags?.length > 0 && (
+                                <span title={record.anomalyFlags.map((flag: any) => flag.reason).join('\n')}>
+                                  {getAnomalyScoreBadge(record.anomalyScore)}
+                                </span>
+                              )}
+                            </div>
                           </TableCell>
                           <TableCell>
                             <div className="flex space-x-2">
@@ -744,11 +849,67 @@ export default function AttendanceManagement() {
                 Review and approve attendance correction requests
               </CardDescription>
             </CardHeader>
+            <CardContent className="space-y-6">
+              <PendingRegularizationPanel />
+              <RegularizationRequestsPanel scope="review" status="pending" />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Overtime Tab */}
+        <TabsContent value="overtime" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Overtime Approvals</CardTitle>
+              <CardDescription>
+                Planned and post-facto overtime requests; only approved hours are paid in payroll
+              </CardDescription>
+            </CardHeader>
             <CardContent>
-              <div className="text-center py-8 text-gray-500">
-                <AlertCircle className="h-12 w-12 mx-auto mb-4" />
-                <p>No pending correction requests</p>
-              </div>
+              <OvertimeRequestsPanel scope="review" status="pending" />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Anomalies Tab */}
+        <TabsContent value="anomalies" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Attendance Anomalies</CardTitle>
+              <CardDescription>
+                Punches flagged for impossible travel, reused GPS fixes or photos, customer site mismatches and device changes
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <AttendanceAnomaliesPanel />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="muster" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Monthly Muster Roll</CardTitle>
+              <CardDescription>
+                Employee-by-day attendance register with late marks, approved overtime and monthly totals
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <MusterRollPanel />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="location" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Location Accuracy</CardTitle>
+              <CardDescription>
+                GPS accuracy of check-ins per office and device, acceptance by validation type, and who relies on indoor compensation
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <LocationAnalyticsPanel />
             </CardContent>
           </Card>
         </TabsContent>
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuthContext } from "@/contexts/auth-context";
 import { useToast } from "@/hooks/use-toast";
 import { formatDate } from "@/lib/utils";
@@ -15,15 +15,21 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { cn } from "@/lib/utils";
 import { 
   CalendarIcon, Search, Loader2, UserCheck, Clock, 
-  MapPin, Timer, Users, TrendingUp, Activity, RefreshCw, Zap
+  MapPin, Timer, Users, TrendingUp, Activity, RefreshCw, Zap, Edit, Coffee, Hourglass
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { OvertimeExplanationCard } from "@/components/attendance/overtime-explanation-card";
 import { EnterpriseAttendanceCheckIn } from "@/components/attendance/enterprise-attendance-check-in";
 import { AttendanceCheckOut } from "@/components/attendance/attendance-check-out";
+import { RegularizationRequestDialog } from "@/components/attendance/regularization-request-dialog";
+import { RegularizationRequestsPanel } from "@/components/attendance/regularization-requests-panel";
+import { OvertimeRequestDialog } from "@/components/attendance/overtime-request-dialog";
+import { OvertimeRequestsPanel } from "@/components/attendance/overtime-requests-panel";
+import { PermissionRequestDialog } from "@/components/attendance/permission-request-dialog";
+import { PermissionRequestsPanel } from "@/components/attendance/permission-requests-panel";
 
 export default function Attendance() {
-  const { user } = useAuthContext();
+  const { user, hasPermission } = useAuthContext();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   
@@ -34,6 +40,12 @@ export default function Attendance() {
   // Check-in/out modal states
   const [showCheckInModal, setShowCheckInModal] = useState(false);
   const [showCheckOutModal, setShowCheckOutModal] = useState(false);
+  const [regularizingRecord, setRegularizingRecord] = useState<any>(null);
+  // null = closed, {} = plan overtime, attendance record = post-facto request for that day
+  const [overtimeRequestTarget, setOvertimeRequestTarget] = useState<any>(null);
+  const [showPermissionDialog, setShowPermissionDialog] = useState(false);
+  // Set when the page is opened from an office check-in QR code
+  const [officeQrToken, setOfficeQrToken] = useState<string | null>(null);
 
   // Fetch current user's attendance records
   const { data: attendanceRecords = [], isLoading, refetch } = useQuery({
@@ -113,6 +125,16 @@ export default function Attendance() {
     refetchOnMount: true,
   });
 
+  // Remaining permission minutes for the current month
+  const { data: permissionAllowance } = useQuery({
+    queryKey: ["/api/permission-requests/allowance"],
+    queryFn: async () => {
+      const response = await apiRequest('/api/permission-requests/allowance', 'GET');
+      return response.json();
+    },
+    enabled: !!user?.uid && activeTab === "permission",
+  });
+
   // Enhanced refresh functions with comprehensive invalidation
   const refreshAttendance = () => {
     console.log('ATTENDANCE: Refreshing all attendance data');
@@ -132,6 +154,36 @@ export default function Attendance() {
     refetch();
   };
 
+  // Break punches on today's open record
+  const breakMutation = useMutation({
+    mutationFn: async (action: "start" | "end") => {
+      const response = await apiRequest(`/api/attendance/break-${action}`, 'POST', {});
+      return response.json();
+    },
+    onSuccess: (result) => {
+      refreshAttendance();
+      toast({
+        title: result.summary?.onBreak ? "On break" : "Back to work",
+        description: result.message,
+        variant: result.summary?.excessBreakMinutes > 0 ? "destructive" : "default",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Break punch failed",
+        description: error.message || "Could not record break",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const todayBreaks: any[] = todayAttendance?.breaks || [];
+  const openBreak = todayBreaks.find((entry: any) => !entry.endTime);
+  const todayBreakMinutes = todayBreaks.reduce((sum: number, entry: any) => {
+    const end = entry.endTime ? new Date(entry.endTime) : new Date();
+    return sum + Math.max(0, Math.round((end.getTime() - new Date(entry.startTime).getTime()) / 60000));
+  }, 0);
+
   // Enhanced timing refresh with cache clearing
   const refreshTiming = () => {
     console.log('ATTENDANCE: Refreshing department timing');
@@ -173,6 +225,17 @@ export default function Attendance() {
     };
   }, [refetchTiming]);
 
+  // Phone cameras open the link in an office QR code; take the token and go straight to check-in
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const token = params.get('officeQr');
+    if (!token) return;
+    setOfficeQrToken(token);
+    setShowCheckInModal(true);
+    params.delete('officeQr');
+    window.history.replaceState(null, '', `${window.location.pathname}${params.toString() ? `?${params}` : ''}`);
+  }, []);
+
   // Add visibility change listener for better real-time updates
   useEffect(() => {
     const handleVisibilityChange = () => {
@@ -228,6 +291,8 @@ export default function Attendance() {
     }
     
     if (!todayAttendance) return { state: 'not_started', canCheckIn: true, canCheckOut: false };
+    // Approved leave puts a record on the day before anyone punches; checking in is still allowed and flags it for HR
+    if (todayAttendance.status === 'leave' && !todayAttendance.checkInTime) return { state: 'on_leave', canCheckIn: true, canCheckOut: false };
     if (todayAttendance.checkInTime && !todayAttendance.checkOutTime) return { state: 'checked_in', canCheckIn: false, canCheckOut: true };
     if (todayAttendance.checkInTime && todayAttendance.checkOutTime) return { state: 'completed', canCheckIn: false, canCheckOut: false };
     return { state: 'unknown', canCheckIn: false, canCheckOut: false };
@@ -256,7 +321,7 @@ export default function Attendance() {
               variant={
                 attendanceState.state === 'completed' ? "default" : 
                 attendanceState.state === 'checked_in' ? "secondary" : 
-                attendanceState.state === 'not_started' ? "outline" : "destructive"
+                attendanceState.state === 'not_started' || attendanceState.state === 'on_leave' ? "outline" : "destructive"
               } 
               className="text-xs"
             >
@@ -264,6 +329,7 @@ export default function Attendance() {
                 attendanceState.state === 'completed' ? "Day Complete" :
                 attendanceState.state === 'checked_in' ? "Currently Working" :
                 attendanceState.state === 'not_started' ? "Ready to Start" :
+                attendanceState.state === 'on_leave' ? "On Leave" :
                 attendanceState.state === 'no_timing' ? "Timing Not Set" : "Unknown State"
               }
             </Badge>
@@ -298,7 +364,17 @@ export default function Attendance() {
           </CardHeader>
           <CardContent className="space-y-4">
             {/* Current Status Display */}
-            {todayAttendance ? (
+            {attendanceState.state === 'on_leave' ? (
+              <div className="text-center py-8">
+                <CalendarIcon className="h-12 w-12 text-blue-500 mx-auto mb-4" />
+                <h3 className="font-semibold mb-2">
+                  On {(todayAttendance.leaveType || 'approved').replace(/_/g, ' ')} leave today
+                </h3>
+                <p className="text-sm text-muted-foreground mb-4">
+                  If you are working after all, check in - the day will be flagged for HR review
+                </p>
+              </div>
+            ) : todayAttendance ? (
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div className="flex items-center gap-3 p-3 bg-white rounded-lg border">
                   <div className="p-2 bg-green-100 rounded-full">
@@ -338,7 +414,15 @@ export default function Attendance() {
                     <div>
                       <p className="text-xs text-muted-foreground">Check Out</p>
                       <p className="font-semibold text-gray-400">Pending</p>
-                      <p className="text-xs text-muted-foreground">Still working</p>
+                      <p className="text-xs text-muted-foreground">
+                        {openBreak ? (
+                          <>On break since <TimeDisplay time={openBreak.startTime} format12Hour={true} /></>
+                        ) : todayBreaks.length > 0 ? (
+                          `Still working - ${todayBreakMinutes}m on breaks`
+                        ) : (
+                          "Still working"
+                        )}
+                      </p>
                     </div>
                   </div>
                 )}
@@ -421,6 +505,22 @@ export default function Attendance() {
                       Check In Now
                     </Button>
                   )}
+                  {canCheckOut && (
+                    <Button
+                      onClick={() => breakMutation.mutate(openBreak ? "end" : "start")}
+                      variant="outline"
+                      className="flex-1 h-12"
+                      size="lg"
+                      disabled={breakMutation.isPending}
+                    >
+                      {breakMutation.isPending ? (
+                        <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                      ) : (
+                        <Coffee className="h-5 w-5 mr-2" />
+                      )}
+                      {openBreak ? "End Break" : "Start Break"}
+                    </Button>
+                  )}
                   {canCheckOut && (
                     <Button 
                       onClick={() => setShowCheckOutModal(true)} 
@@ -532,10 +632,13 @@ export default function Attendance() {
             <h2 className="text-xl font-semibold">Attendance History</h2>
             <p className="text-sm text-muted-foreground">Track your daily attendance records and patterns</p>
           </div>
-          <TabsList className="grid w-full sm:w-auto grid-cols-3">
+          <TabsList className="grid w-full sm:w-auto grid-cols-6">
             <TabsTrigger value="today">Today</TabsTrigger>
             <TabsTrigger value="week">This Week</TabsTrigger>
             <TabsTrigger value="month">This Month</TabsTrigger>
+            <TabsTrigger value="corrections">Corrections</TabsTrigger>
+            <TabsTrigger value="overtime">Overtime</TabsTrigger>
+            <TabsTrigger value="permission">Permission</TabsTrigger>
           </TabsList>
         </div>
 
@@ -755,6 +858,7 @@ export default function Attendance() {
                         <TableHead>Hours</TableHead>
                         <TableHead>Type</TableHead>
                         <TableHead>Status</TableHead>
+                        <TableHead></TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
@@ -799,12 +903,46 @@ export default function Attendance() {
                             </Badge>
                           </TableCell>
                           <TableCell>
-                            <Badge variant={
-                              record.status === 'present' ? 'default' :
-                              record.status === 'late' ? 'secondary' : 'destructive'
-                            }>
-                              {record.status}
-                            </Badge>
+                            <div className="flex flex-col items-start gap-1">
+                              <Badge variant={
+                                record.status === 'present' ? 'default' :
+                                record.status === 'late' ? 'secondary' : 'destructive'
+                              }>
+                                {record.status}
+                              </Badge>
+                              {record.requiresRegularization && (
+                                <Badge
+                                  variant="outline"
+                                  className="bg-amber-50 text-amber-800 border-amber-200"
+                                  title="You did not check out and the day was closed automatically. Request a correction to have it counted."
+                                >
+                                  Needs correction
+                                </Badge>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setRegularizingRecord(record)}
+                                title="Request correction"
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              {record.checkOutTime && (record.recordedOvertimeHours || 0) > 0 &&
+                                !record.overtimeApproved && !record.overtimeRequestId && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setOvertimeRequestTarget(record)}
+                                  title="Request overtime approval"
+                                >
+                                  <Zap className="h-4 w-4 text-orange-600" />
+                                </Button>
+                              )}
+                            </div>
                           </TableCell>
                         </TableRow>
                       ))}
@@ -815,14 +953,129 @@ export default function Attendance() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="corrections" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">My Correction Requests</CardTitle>
+              <CardDescription>
+                Regularization requests for missed punches or wrong times, raised from the monthly view
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <RegularizationRequestsPanel scope="mine" />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Team Requests</CardTitle>
+              <CardDescription>
+                Correction requests from employees reporting to you
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <RegularizationRequestsPanel scope="review" />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="overtime" className="space-y-4">
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle className="text-lg">My Overtime Requests</CardTitle>
+                <CardDescription>
+                  Only approved overtime is paid. Plan ahead, or request approval for a worked day from the monthly view
+                </CardDescription>
+              </div>
+              <Button size="sm" onClick={() => setOvertimeRequestTarget({})}>
+                <Zap className="h-4 w-4 mr-2" />
+                Plan Overtime
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <OvertimeRequestsPanel scope="mine" />
+            </CardContent>
+          </Card>
+          {hasPermission(["approve.overtime.team", "approve.overtime.department"]) && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Team Overtime</CardTitle>
+                <CardDescription>
+                  Overtime requests awaiting your approval
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <OvertimeRequestsPanel scope="review" />
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        <TabsContent value="permission" className="space-y-4">
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle className="text-lg">My Permission</CardTitle>
+                <CardDescription>
+                  {permissionAllowance
+                    ? `${permissionAllowance.remainingMinutes} of ${permissionAllowance.allowanceMinutes} minutes left this month for late arrival or early leave`
+                    : "Short late arrival or early leave, drawn from a monthly allowance"}
+                </CardDescription>
+              </div>
+              <Button size="sm" onClick={() => setShowPermissionDialog(true)}>
+                <Hourglass className="h-4 w-4 mr-2" />
+                Request Permission
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <PermissionRequestsPanel scope="mine" />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Team Requests</CardTitle>
+              <CardDescription>
+                Permission requests from employees reporting to you
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <PermissionRequestsPanel scope="review" />
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
 
+      {/* Permission Request Modal */}
+      <PermissionRequestDialog
+        isOpen={showPermissionDialog}
+        onClose={() => setShowPermissionDialog(false)}
+      />
+
+      {/* Overtime Request Modal */}
+      <OvertimeRequestDialog
+        isOpen={!!overtimeRequestTarget}
+        onClose={() => setOvertimeRequestTarget(null)}
+        attendance={overtimeRequestTarget?.id ? overtimeRequestTarget : undefined}
+      />
+
+      {/* Regularization Request Modal */}
+      <RegularizationRequestDialog
+        isOpen={!!regularizingRecord}
+        onClose={() => setRegularizingRecord(null)}
+        attendance={regularizingRecord}
+      />
+
       {/* Check-in Modal */}
       <EnterpriseAttendanceCheckIn
         isOpen={showCheckInModal}
-        onClose={() => setShowCheckInModal(false)}
+        onClose={() => {
+          setShowCheckInModal(false);
+          setOfficeQrToken(null);
+        }}
         onSuccess={refreshAttendance}
         officeLocations={officeLocations}
+        officeQrToken={officeQrToken}
       />
 
       {/* Check-out Modal */}
@@ -5,6 +5,7 @@ import { formatDate } from "@/lib/utils";
 import { TimeInput } from "@/components/time/time-input";
 import { TimeDisplay, formatTimeFor12Hour } from "@/components/time/time-display";
 import { TimingDialog } from "@/components/departments/timing-dialog";
+import { RecalculateAttendanceDialog } from "@/components/departments/recalculate-attendance-dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { apiRequest } from "@/lib/queryClient";
@@ -48,7 +49,7 @@ import {
   AlertDialogHeader,
   AlertDialogTitle
 } from "@/components/ui/alert-dialog";
-import { Search, PlusCircle, Pencil, Trash2, UserCog, Users, Loader2, Check, Clock, Timer, Play, Square, Coffee, Shield, Home, Building, MapPin } from "lucide-react";
+import { Search, PlusCircle, Pencil, Trash2, UserCog, Users, Loader2, Check, Clock, Timer, Play, Square, Coffee, Shield, Home, Building, MapPin, RefreshCw } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
 
@@ -61,6 +62,7 @@ export default function Departments() {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [showTimingDialog, setShowTimingDialog] = useState(false);
+  const [showRecalculateDialog, setShowRecalculateDialog] = useState(false);
   const [currentDepartment, setCurrentDepartment] = useState<any>(null);
   const [formState, setFormState] = useState({
     name: "",
@@ -74,7 +76,11 @@ export default function Departments() {
     lateThresholdMinutes: 15,
     allowEarlyCheckOut: false,
     allowRemoteWork: true,
-    allowFieldWork: true
+    allowFieldWork: true,
+    breakDurationMinutes: 60,
+    autoCheckOutGraceMinutes: 120,
+    autoCheckOutPolicy: "cap_at_shift_end",
+    permissionMinutesPerMonth: 120
   });
   
   // Only master_admin can access this page
@@ -407,6 +413,18 @@ export default function Departments() {
                           >
                             <Clock className="h-4 w-4" />
                           </Button>
+                          <Button 
+                            variant="ghost" 
+                            size="sm" 
+                            className="h-8 w-8 p-0"
+                            onClick={() => {
+                              setCurrentDepartment(department);
+                              setShowRecalculateDialog(true);
+                            }}
+                            title="Recalculate Attendance"
+                          >
+                            <RefreshCw className="h-4 w-4" />
+                          </Button>
                           <Button 
                             variant="ghost" 
                             size="sm" 
@@ -554,6 +572,12 @@ export default function Departments() {
         </AlertDialogContent>
       </AlertDialog>
 
+      <RecalculateAttendanceDialog
+        isOpen={showRecalculateDialog}
+        onClose={() => setShowRecalculateDialog(false)}
+        department={currentDepartment}
+      />
+
       {/* Advanced Department Timing Configuration Dialog */}
       <Dialog open={showTimingDialog} onOpenChange={setShowTimingDialog}>
         <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
@@ -769,6 +793,81 @@ export default function Departments() {
                       <span className="text-sm text-muted-foreground">minutes</span>
                     </div>
                   </div>
+
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Break Allowance Per Day</label>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min="0"
+                        value={timingFormState.breakDurationMinutes}
+                        onChange={(e) => setTimingFormState({
+                          ...timingFormState,
+                          breakDurationMinutes: parseInt(e.target.value) || 0
+                        })}
+                        className="w-32"
+                        placeholder="Enter minutes"
+                      />
+                      <span className="text-sm text-muted-foreground">minutes</span>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Auto Check-out After Shift End</label>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min="0"
+                        value={timingFormState.autoCheckOutGraceMinutes}
+                        onChange={(e) => setTimingFormState({
+                          ...timingFormState,
+                          autoCheckOutGraceMinutes: parseInt(e.target.value) || 0
+                        })}
+                        className="w-32"
+                        placeholder="Enter minutes"
+                      />
+                      <span className="text-sm text-muted-foreground">minutes</span>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Permission Allowance per Month</label>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min="0"
+                        step="15"
+                        value={timingFormState.permissionMinutesPerMonth}
+                        onChange={(e) => setTimingFormState({
+                          ...timingFormState,
+                          permissionMinutesPerMonth: parseInt(e.target.value) || 0
+                        })}
+                        className="w-32"
+                        placeholder="Enter minutes"
+                      />
+                      <span className="text-sm text-muted-foreground">minutes</span>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Missed Check-out Policy</label>
+                    <Select
+                      value={timingFormState.autoCheckOutPolicy}
+                      onValueChange={(value) => setTimingFormState({
+                        ...timingFormState,
+                        autoCheckOutPolicy: value
+                      })}
+                    >
+                      <SelectTrigger className="w-64">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="cap_at_shift_end">Close at shift end</SelectItem>
+                        <SelectItem value="mark_half_day">Mark as half day</SelectItem>
+                        <SelectItem value="flag_for_regularization">Flag for regularization</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
 
                 <div className="space-y-4">
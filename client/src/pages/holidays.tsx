@@ -0,0 +1,414 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuthContext } from "@/contexts/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDate } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronLeft, ChevronRight, Loader2, Pencil, PlusCircle, Trash2, UserCog } from "lucide-react";
+import type { InsertHoliday, InsertOfficeLocation, WithId } from "@shared/schema";
+
+const holidayTypeLabels: Record<string, string> = {
+  national: "National",
+  state: "State",
+  company: "Company",
+  optional: "Optional",
+};
+
+const emptyHolidayForm = {
+  name: "",
+  date: "",
+  type: "national",
+  state: "Tamil Nadu",
+  officeLocationIds: [] as string[],
+  isPaid: true,
+  checkInPolicy: "warn",
+  description: "",
+};
+
+const toDateInput = (value: string | Date) => {
+  const date = new Date(value);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+};
+
+export default function Holidays() {
+  const { user } = useAuthContext();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showDialog, setShowDialog] = useState(false);
+  const [holidayForm, setHolidayForm] = useState(emptyHolidayForm);
+
+  const { data: holidays = [], isLoading } = useQuery<WithId<InsertHoliday>[]>({
+    queryKey: ['/api/holidays', year],
+    queryFn: async () => {
+      const response = await apiRequest(`/api/holidays?year=${year}`, 'GET');
+      return response.json();
+    },
+  });
+
+  const { data: officeLocations = [] } = useQuery<WithId<InsertOfficeLocation>[]>({
+    queryKey: ['/api/office-locations'],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const [y, m, d] = holidayForm.date.split("-").map(Number);
+      const payload = {
+        ...holidayForm,
+        date: new Date(y, m - 1, d).toISOString(),
+        state: holidayForm.type === "state" ? holidayForm.state : null,
+        // Optional holidays are taken by choice and never paid automatically
+        isPaid: holidayForm.type === "optional" ? false : holidayForm.isPaid,
+      };
+      const response = editingId
+        ? await apiRequest(`/api/holidays/${editingId}`, 'PATCH', payload)
+        : await apiRequest('/api/holidays', 'POST', payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/holidays'] });
+      closeDialog();
+      toast({
+        title: "Success",
+        description: editingId ? "Holiday updated" : "Holiday added to the calendar",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save holiday",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest(`/api/holidays/${id}`, 'DELETE');
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/holidays'] });
+      toast({
+        title: "Success",
+        description: result.message,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete holiday",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (user?.role !== "master_admin") {
+    return (
+      <Card>
+        <CardContent className="py-10">
+          <div className="text-center">
+            <UserCog className="h-10 w-10 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium">Access Denied</h3>
+            <p className="text-sm text-gray-500 mt-2">
+              You don't have permission to access this page. This area is restricted to master administrators.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const openCreate = () => {
+    setEditingId(null);
+    setHolidayForm(emptyHolidayForm);
+    setShowDialog(true);
+  };
+
+  const openEdit = (holiday: WithId<InsertHoliday>) => {
+    setEditingId(holiday.id);
+    setHolidayForm({
+      name: holiday.name,
+      date: toDateInput(holiday.date),
+      type: holiday.type,
+      state: holiday.state || "Tamil Nadu",
+      officeLocationIds: holiday.officeLocationIds || [],
+      isPaid: holiday.isPaid,
+      checkInPolicy: holiday.checkInPolicy,
+      description: holiday.description || "",
+    });
+    setShowDialog(true);
+  };
+
+  const closeDialog = () => {
+    setShowDialog(false);
+    setEditingId(null);
+  };
+
+  const toggleOffice = (officeId: string, checked: boolean) => {
+    setHolidayForm({
+      ...holidayForm,
+      officeLocationIds: checked
+        ? [...holidayForm.officeLocationIds, officeId]
+        : holidayForm.officeLocationIds.filter(id => id !== officeId),
+    });
+  };
+
+  const getOfficeNames = (ids: string[]) => {
+    if (!ids || ids.length === 0) return "All offices";
+    return ids
+      .map(id => officeLocations.find((o) => o.id === id)?.name || id)
+      .join(", ");
+  };
+
+  return (
+    <>
+      <Card className="mb-6">
+        <CardHeader className="flex flex-row items-center justify-between px-6 py-4">
+          <div>
+            <CardTitle className="text-xl">Holiday Calendar</CardTitle>
+            <CardDescription>
+              Holidays are skipped as business days, flagged at check-in and paid in payroll
+            </CardDescription>
+          </div>
+          <Button className="bg-primary hover:bg-primary-dark text-white" onClick={openCreate}>
+            <PlusCircle className="h-4 w-4 mr-2" />
+            Add Holiday
+          </Button>
+        </CardHeader>
+
+        <CardContent className="px-6">
+          <div className="mb-4 flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => setYear(year - 1)}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="w-16 text-center font-medium">{year}</span>
+            <Button variant="outline" size="icon" onClick={() => setYear(year + 1)}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Holiday</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Offices</TableHead>
+                  <TableHead>Paid</TableHead>
+                  <TableHead>Check-in</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-8">
+                      <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+                    </TableCell>
+                  </TableRow>
+                ) : holidays.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-8 text-gray-500">
+                      No holidays configured for {year}
+                    </TableCell>
+                  </TableRow>
+                ) : holidays.map((holiday) => (
+                  <TableRow key={holiday.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {formatDate(holiday.date)}
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(holiday.date).toLocaleDateString('en-IN', { weekday: 'long' })}
+                      </p>
+                    </TableCell>
+                    <TableCell className="font-medium">
+                      {holiday.name}
+                      {holiday.description && (
+                        <p className="text-xs text-muted-foreground">{holiday.description}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={holiday.type === "optional" ? "secondary" : "outline"}>
+                        {holidayTypeLabels[holiday.type] || holiday.type}
+                        {holiday.type === "state" && holiday.state ? ` (${holiday.state})` : ""}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="max-w-xs truncate">{getOfficeNames(holiday.officeLocationIds)}</TableCell>
+                    <TableCell>{holiday.isPaid ? "Yes" : "No"}</TableCell>
+                    <TableCell>
+                      {holiday.checkInPolicy === "block" ? (
+                        <Badge variant="destructive">Blocked</Badge>
+                      ) : (
+                        <Badge variant="secondary">Warn</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button size="sm" variant="ghost" onClick={() => openEdit(holiday)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="text-red-600"
+                          disabled={deleteMutation.isPending}
+                          onClick={() => deleteMutation.mutate(holiday.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={showDialog} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Holiday" : "Add Holiday"}</DialogTitle>
+            <DialogDescription>
+              Leave all offices unchecked for a company-wide holiday.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="holiday-name">Name</Label>
+              <Input
+                id="holiday-name"
+                placeholder="Pongal"
+                value={holidayForm.name}
+                onChange={(e) => setHolidayForm({ ...holidayForm, name: e.target.value })}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="holiday-date">Date</Label>
+                <Input
+                  id="holiday-date"
+                  type="date"
+                  value={holidayForm.date}
+                  onChange={(e) => setHolidayForm({ ...holidayForm, date: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={holidayForm.type}
+                  onValueChange={(value) => setHolidayForm({ ...holidayForm, type: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(holidayTypeLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {holidayForm.type === "state" && (
+              <div className="space-y-2">
+                <Label htmlFor="holiday-state">State</Label>
+                <Input
+                  id="holiday-state"
+                  value={holidayForm.state}
+                  onChange={(e) => setHolidayForm({ ...holidayForm, state: e.target.value })}
+                />
+              </div>
+            )}
+
+            {officeLocations.length > 0 && (
+              <div className="space-y-2">
+                <Label>Office Locations</Label>
+                <div className="space-y-2 rounded-md border p-3">
+                  {officeLocations.map((office) => (
+                    <div key={office.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`holiday-office-${office.id}`}
+                        checked={holidayForm.officeLocationIds.includes(office.id)}
+                        onCheckedChange={(checked) => toggleOffice(office.id, checked === true)}
+                      />
+                      <Label htmlFor={`holiday-office-${office.id}`} className="font-normal">
+                        {office.name}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="flex items-center justify-between rounded-md border p-3">
+                <Label htmlFor="holiday-paid">Paid</Label>
+                <Switch
+                  id="holiday-paid"
+                  checked={holidayForm.type !== "optional" && holidayForm.isPaid}
+                  disabled={holidayForm.type === "optional"}
+                  onCheckedChange={(checked) => setHolidayForm({ ...holidayForm, isPaid: checked })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Check-in</Label>
+                <Select
+                  value={holidayForm.checkInPolicy}
+                  onValueChange={(value) => setHolidayForm({ ...holidayForm, checkInPolicy: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="warn">Allow check-in with warning</SelectItem>
+                    <SelectItem value="block">Block check-in</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="holiday-description">Description (optional)</Label>
+              <Input
+                id="holiday-description"
+                value={holidayForm.description}
+                onChange={(e) => setHolidayForm({ ...holidayForm, description: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog} disabled={saveMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || holidayForm.name.trim().length < 2 || !holidayForm.date}
+            >
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingId ? "Save Changes" : "Add Holiday"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
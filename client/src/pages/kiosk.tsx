@@ -0,0 +1,326 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Building, CheckCircle, Loader2, LogIn, LogOut, QrCode, XCircle } from "lucide-react";
+
+// The kiosk is not a logged-in user; it sends the device token issued when it was registered
+const KIOSK_TOKEN_KEY = "attendanceKioskToken";
+const RESULT_DISPLAY_MS = 5000;
+
+async function kioskRequest(url: string, token: string, method: string = "GET", data?: unknown) {
+  const res = await fetch(url, {
+    method,
+    headers: {
+      "X-Kiosk-Token": token,
+      ...(data ? { "Content-Type": "application/json" } : {}),
+    },
+    body: data ? JSON.stringify(data) : undefined,
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(body.message || body.errors?.[0]?.message || `Request failed (${res.status})`);
+  }
+  return body;
+}
+
+export default function Kiosk() {
+  const [token, setToken] = useState<string | null>(() => localStorage.getItem(KIOSK_TOKEN_KEY));
+  const [session, setSession] = useState<{ kioskName: string; officeName: string } | null>(null);
+  const [pairingToken, setPairingToken] = useState("");
+  const [pairingError, setPairingError] = useState("");
+
+  const [mode, setMode] = useState<"pin" | "badge">("pin");
+  const [employeeId, setEmployeeId] = useState("");
+  const [pin, setPin] = useState("");
+  const [badgeCode, setBadgeCode] = useState("");
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [result, setResult] = useState<{ success: boolean; message: string; employeeName?: string } | null>(null);
+  const [cameraError, setCameraError] = useState("");
+  const [now, setNow] = useState(new Date());
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const badgeInputRef = useRef<HTMLInputElement>(null);
+
+  // Confirm the stored token still belongs to an active kiosk
+  useEffect(() => {
+    if (!token) return;
+    kioskRequest("/api/kiosk/session", token)
+      .then(setSession)
+      .catch((error) => {
+        localStorage.removeItem(KIOSK_TOKEN_KEY);
+        setToken(null);
+        setPairingError(error.message);
+      });
+  }, [token]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // The camera stays on while the kiosk is paired; each punch captures the current frame
+  useEffect(() => {
+    if (!session) return;
+    let stream: MediaStream | null = null;
+    navigator.mediaDevices?.getUserMedia({ video: { facingMode: "user", width: { ideal: 640 }, height: { ideal: 480 } } })
+      .then((mediaStream) => {
+        stream = mediaStream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream;
+        }
+        setCameraError("");
+      })
+      .catch(() => setCameraError("Camera unavailable - attendance cannot be recorded without a photo"));
+    return () => stream?.getTracks().forEach(track => track.stop());
+  }, [session]);
+
+  // Camera QR scanning where the browser supports it; handheld scanners type into the badge field instead
+  useEffect(() => {
+    const BarcodeDetector = (window as any).BarcodeDetector;
+    if (!session || mode !== "badge" || !BarcodeDetector || result) return;
+    const detector = new BarcodeDetector({ formats: ["qr_code"] });
+    const timer = setInterval(async () => {
+      if (!videoRef.current || videoRef.current.readyState < 2) return;
+      try {
+        const codes = await detector.detect(videoRef.current);
+        if (codes.length > 0 && codes[0].rawValue) {
+          setBadgeCode(codes[0].rawValue);
+        }
+      } catch {
+        // Ignore frames the detector cannot read
+      }
+    }, 500);
+    return () => clearInterval(timer);
+  }, [session, mode, result]);
+
+  useEffect(() => {
+    if (!result) return;
+    const timer = setTimeout(() => {
+      setResult(null);
+      setEmployeeId("");
+      setPin("");
+      setBadgeCode("");
+      setReason("");
+      if (mode === "badge") badgeInputRef.current?.focus();
+    }, RESULT_DISPLAY_MS);
+    return () => clearTimeout(timer);
+  }, [result, mode]);
+
+  const capturePhoto = (): string | null => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (!video || !canvas || video.readyState < 2) return null;
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext("2d")?.drawImage(video, 0, 0);
+    return canvas.toDataURL("image/jpeg", 0.8);
+  };
+
+  const handlePair = async () => {
+    setPairingError("");
+    try {
+      const pairedSession = await kioskRequest("/api/kiosk/session", pairingToken.trim());
+      localStorage.setItem(KIOSK_TOKEN_KEY, pairingToken.trim());
+      setToken(pairingToken.trim());
+      setSession(pairedSession);
+      setPairingToken("");
+    } catch (error: any) {
+      setPairingError(error.message);
+    }
+  };
+
+  const handlePunch = async (action: "check_in" | "check_out") => {
+    if (!token) return;
+    const photo = capturePhoto();
+    if (!photo) {
+      setResult({ success: false, message: "Could not capture a photo. Please face the camera and try again." });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await kioskRequest("/api/kiosk/punch", token, "POST", {
+        action,
+        photo,
+        ...(mode === "badge" ? { badgeCode } : { employeeId, pin }),
+        ...(action === "check_out" && reason.trim() ? { reason: reason.trim() } : {}),
+      });
+      setResult(response);
+    } catch (error: any) {
+      setResult({ success: false, message: error.message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const canPunch = !isSubmitting && !cameraError && !result &&
+    (mode === "badge" ? badgeCode.trim().length > 0 : employeeId.trim().length > 0 && pin.length >= 4);
+
+  if (!token || !session) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Building className="h-5 w-5" />
+              Pair Attendance Kiosk
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {token && !pairingError ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-8 w-8 animate-spin" />
+              </div>
+            ) : (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  Enter the device token shown when this kiosk was registered under Office Locations.
+                </p>
+                <div className="space-y-2">
+                  <Label htmlFor="kiosk-token">Device token</Label>
+                  <Input
+                    id="kiosk-token"
+                    value={pairingToken}
+                    onChange={(e) => setPairingToken(e.target.value)}
+                  />
+                </div>
+                {pairingError && <p className="text-sm text-red-600">{pairingError}</p>}
+                <Button className="w-full" onClick={handlePair} disabled={!pairingToken.trim()}>
+                  Pair Kiosk
+                </Button>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 md:p-8">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">{session.officeName}</h1>
+            <p className="text-muted-foreground">{session.kioskName}</p>
+          </div>
+          <div className="text-right">
+            <div className="text-3xl font-semibold tabular-nums">
+              {now.toLocaleTimeString("en-IN", { hour: "numeric", minute: "2-digit", second: "2-digit", hour12: true })}
+            </div>
+            <div className="text-muted-foreground">
+              {now.toLocaleDateString("en-IN", { weekday: "long", day: "numeric", month: "long" })}
+            </div>
+          </div>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <Card>
+            <CardContent className="p-4">
+              <video ref={videoRef} autoPlay playsInline muted className="w-full rounded-lg bg-black aspect-[4/3] object-cover" />
+              <canvas ref={canvasRef} className="hidden" />
+              {cameraError && <p className="mt-2 text-sm text-red-600">{cameraError}</p>}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="p-4 space-y-4">
+              {result ? (
+                <div className="flex flex-col items-center text-center py-8 space-y-3">
+                  {result.success
+                    ? <CheckCircle className="h-16 w-16 text-green-600" />
+                    : <XCircle className="h-16 w-16 text-red-600" />}
+                  {result.employeeName && <p className="text-xl font-semibold">{result.employeeName}</p>}
+                  <p className={result.success ? "text-green-700" : "text-red-700"}>{result.message}</p>
+                </div>
+              ) : (
+                <>
+                  <Tabs value={mode} onValueChange={(value) => setMode(value as "pin" | "badge")}>
+                    <TabsList className="grid w-full grid-cols-2">
+                      <TabsTrigger value="pin">Employee ID + PIN</TabsTrigger>
+                      <TabsTrigger value="badge">
+                        <QrCode className="h-4 w-4 mr-2" />
+                        Badge
+                      </TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="pin" className="space-y-4 pt-2">
+                      <div className="space-y-2">
+                        <Label htmlFor="kiosk-employee-id">Employee ID</Label>
+                        <Input
+                          id="kiosk-employee-id"
+                          className="text-lg h-12"
+                          value={employeeId}
+                          onChange={(e) => setEmployeeId(e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="kiosk-pin">PIN</Label>
+                        <Input
+                          id="kiosk-pin"
+                          type="password"
+                          inputMode="numeric"
+                          maxLength={6}
+                          className="text-lg h-12"
+                          value={pin}
+                          onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+                        />
+                      </div>
+                    </TabsContent>
+                    <TabsContent value="badge" className="space-y-2 pt-2">
+                      <Label htmlFor="kiosk-badge">Scan your badge</Label>
+                      <Input
+                        id="kiosk-badge"
+                        ref={badgeInputRef}
+                        autoFocus
+                        className="text-lg h-12"
+                        value={badgeCode}
+                        onChange={(e) => setBadgeCode(e.target.value)}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Hold the QR code up to the camera or use the badge scanner
+                      </p>
+                    </TabsContent>
+                  </Tabs>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="kiosk-reason">Reason (early or overtime check-out)</Label>
+                    <Input
+                      id="kiosk-reason"
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                    />
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <Button
+                      className="h-16 text-lg bg-green-600 hover:bg-green-700"
+                      onClick={() => handlePunch("check_in")}
+                      disabled={!canPunch}
+                    >
+                      {isSubmitting ? <Loader2 className="h-5 w-5 mr-2 animate-spin" /> : <LogIn className="h-5 w-5 mr-2" />}
+                      Check In
+                    </Button>
+                    <Button
+                      className="h-16 text-lg"
+                      variant="outline"
+                      onClick={() => handlePunch("check_out")}
+                      disabled={!canPunch}
+                    >
+                      {isSubmitting ? <Loader2 className="h-5 w-5 mr-2 animate-spin" /> : <LogOut className="h-5 w-5 mr-2" />}
+                      Check Out
+                    </Button>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -19,35 +19,39 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import {
-  Dialog,
-  DialogContent,
-  DialogHeader,
-  DialogTitle,
-  DialogDescription,
-} from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
+import { apiRequest } from "@/lib/queryClient";
 import { Search, PlusCircle, Loader2, Calendar, X } from "lucide-react";
+import { LeaveBalanceCards, formatDays } from "@/components/leave/leave-balance-cards";
+import { ApplyLeaveDialog } from "@/components/leave/apply-leave-dialog";
+import { LeaveAdminPanel } from "@/components/leave/leave-admin-panel";
+import { LeaveApprovalsPanel, approvalLevelLabels } from "@/components/leave/leave-approvals-panel";
+import { LeaveCalendar } from "@/components/leave/leave-calendar";
 
 export default function Leave() {
-  const { user } = useAuthContext();
+  const { user, hasPermission } = useAuthContext();
   const [searchQuery, setSearchQuery] = useState("");
   const [showApplyLeaveDialog, setShowApplyLeaveDialog] = useState(false);
   
-  // Fetch leaves from Firestore
+  const currentYear = new Date().getFullYear();
+  const canManageTypes = user?.role === "master_admin";
+  const canAdjustBalances = canManageTypes || user?.department === "hr";
+  const canApproveLeaves = hasPermission(["approve.leave.team", "approve.leave.department", "leave.approve"]);
+  const canPickCalendarDepartment = canAdjustBalances || hasPermission("leave.approve");
+  const canViewDepartmentCalendar = canPickCalendarDepartment || hasPermission("approve.leave.department");
+
+  // Fetch the signed-in employee's leaves
   const { data: leaves, isLoading } = useQuery({
-    queryKey: ["/api/leaves"],
+    queryKey: ["/api/leaves", user?.uid],
     queryFn: async () => {
-      const response = await fetch('/api/leaves');
-      if (!response.ok) {
-        throw new Error('Failed to fetch leaves');
-      }
+      const response = await apiRequest(`/api/leaves?userId=${user!.uid}`, 'GET');
       return response.json();
-    }
+    },
+    enabled: !!user?.uid
   });
 
-  // Calculate total leave days
+  // Calendar days, for leaves applied before working days were charged
   const calculateLeaveDays = (startDate: string, endDate: string) => {
     const start = new Date(startDate);
     const end = new Date(endDate);
@@ -62,10 +66,28 @@ export default function Leave() {
     const query = searchQuery.toLowerCase();
     return (
       leave.reason?.toLowerCase().includes(query) ||
-      leave.status?.toLowerCase().includes(query)
+      leave.status?.toLowerCase().includes(query) ||
+      leave.leaveType?.replace(/_/g, " ").includes(query)
     );
   });
 
+  const getDurationLabel = (leave: any): string | undefined => {
+    if (leave.durationType === "half_day") return leave.session === "second_half" ? "Second half" : "First half";
+    if (leave.durationType === "hourly") return `${leave.hours} hours`;
+    return undefined;
+  };
+
+  // Where a pending leave sits in the approval chain, or why it was rejected
+  const getApprovalNote = (leave: any): string | undefined => {
+    const steps = leave.approvalSteps || [];
+    if (leave.status === "pending" && steps.length > 0) {
+      const step = steps[leave.currentApprovalStep ?? 0];
+      return step ? `Awaiting ${approvalLevelLabels[step.level].toLowerCase()}` : undefined;
+    }
+    const rejected = steps.find((step: any) => step.status === "rejected");
+    return rejected?.comment ? `${approvalLevelLabels[rejected.level]}: ${rejected.comment}` : undefined;
+  };
+
   // Status badge styles
   const statusStyles = {
     pending: "bg-yellow-100 text-yellow-800",
@@ -86,6 +108,19 @@ export default function Leave() {
 
   return (
     <>
+      <Card className="mb-6">
+        <CardHeader className="px-6 py-4">
+          <CardTitle className="text-xl flex items-center gap-2">
+            <Calendar className="h-5 w-5" />
+            Leave Balance {currentYear}
+          </CardTitle>
+          <CardDescription>Hover a leave type for accrued, carried forward and used days</CardDescription>
+        </CardHeader>
+        <CardContent className="px-6">
+          <LeaveBalanceCards year={currentYear} />
+        </CardContent>
+      </Card>
+
       <Card className="mb-6">
         <CardHeader className="flex flex-row items-center justify-between px-6 py-4">
           <div>
@@ -105,7 +140,7 @@ export default function Leave() {
             <div className="relative w-full md:w-96">
               <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
               <Input
-                placeholder="Search by reason or status"
+                placeholder="Search by type, reason or status"
                 className="pl-10"
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
@@ -118,6 +153,7 @@ export default function Leave() {
               <TableHeader>
                 <TableRow>
                   <TableHead>Leave Period</TableHead>
+                  <TableHead>Type</TableHead>
                   <TableHead>Days</TableHead>
                   <TableHead>Reason</TableHead>
                   <TableHead>Status</TableHead>
@@ -128,7 +164,7 @@ export default function Leave() {
               <TableBody>
                 {filteredLeaves?.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                    <TableCell colSpan={7} className="text-center py-8 text-gray-500">
                       {searchQuery ? "No leave records match your search" : "No leave records found"}
                     </TableCell>
                   </TableRow>
@@ -142,8 +178,14 @@ export default function Leave() {
                           </div>
                         </div>
                       </TableCell>
+                      <TableCell className="capitalize">
+                        {leave.leaveType ? leave.leaveType.replace(/_/g, " ") : "-"}
+                      </TableCell>
                       <TableCell>
-                        {calculateLeaveDays(leave.startDate, leave.endDate)} days
+                        {leave.days !== undefined ? formatDays(leave.days) : calculateLeaveDays(leave.startDate, leave.endDate)} days
+                        {getDurationLabel(leave) && (
+                          <p className="text-xs text-muted-foreground">{getDurationLabel(leave)}</p>
+                        )}
                       </TableCell>
                       <TableCell className="max-w-xs">
                         <div className="truncate" title={leave.reason}>
@@ -158,6 +200,11 @@ export default function Leave() {
                         )}>
                           {leave.status}
                         </Badge>
+                        {getApprovalNote(leave) && (
+                          <p className="text-xs text-muted-foreground mt-1 max-w-[200px] truncate" title={getApprovalNote(leave)}>
+                            {getApprovalNote(leave)}
+                          </p>
+                        )}
                       </TableCell>
                       <TableCell>{formatDate(leave.createdAt)}</TableCell>
                       <TableCell className="text-right">
@@ -182,20 +229,42 @@ export default function Leave() {
         </CardContent>
       </Card>
 
-      {/* Apply Leave Dialog */}
-      <Dialog open={showApplyLeaveDialog} onOpenChange={setShowApplyLeaveDialog}>
-        <DialogContent className="sm:max-w-[600px]">
-          <DialogHeader>
-            <DialogTitle>Apply for Leave</DialogTitle>
-            <DialogDescription>
-              Fill in the details to submit your leave application.
-            </DialogDescription>
-          </DialogHeader>
-          <div className="p-4">
-            <p>Leave application form will be implemented here.</p>
-          </div>
-        </DialogContent>
-      </Dialog>
+      {canApproveLeaves && (
+        <Card className="mb-6">
+          <CardHeader className="px-6 py-4">
+            <CardTitle className="text-xl">Leave Approvals</CardTitle>
+            <CardDescription>Leave requests awaiting your approval</CardDescription>
+          </CardHeader>
+          <CardContent className="px-6">
+            <LeaveApprovalsPanel />
+          </CardContent>
+        </Card>
+      )}
+
+      {(canApproveLeaves || canViewDepartmentCalendar) && (
+        <Card className="mb-6">
+          <CardHeader className="px-6 py-4">
+            <CardTitle className="text-xl">Leave Calendar</CardTitle>
+            <CardDescription>Who is away, and days that fall below minimum staffing</CardDescription>
+          </CardHeader>
+          <CardContent className="px-6">
+            <LeaveCalendar
+              canViewDepartment={canViewDepartmentCalendar}
+              canPickDepartment={canPickCalendarDepartment}
+              defaultDepartment={user?.department}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {(canManageTypes || canAdjustBalances) && (
+        <LeaveAdminPanel canManageTypes={canManageTypes} canAdjust={canAdjustBalances} />
+      )}
+
+      <ApplyLeaveDialog
+        isOpen={showApplyLeaveDialog}
+        onClose={() => setShowApplyLeaveDialog(false)}
+      />
     </>
   );
 }
\ No newline at end of file
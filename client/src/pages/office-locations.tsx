@@ -31,10 +31,14 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { MapPin, PlusCircle, Trash2, Edit, Loader2, AlertCircle } from "lucide-react";
+import { MapPin, PlusCircle, Trash2, Edit, Loader2, AlertCircle, QrCode, SlidersHorizontal } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { formatDate } from "@/lib/utils";
 import { apiRequest } from "@/lib/queryClient";
+import { AttendanceKiosksCard } from "@/components/attendance/attendance-kiosks-card";
+import { OfficeQrCodeDialog } from "@/components/attendance/office-qr-code-dialog";
+import { GeofenceEditor, GeofencePoint } from "@/components/attendance/geofence-editor";
+import { LocationValidationSettingsDialog } from "@/components/attendance/location-validation-settings-dialog";
 
 export default function OfficeLocations() {
   const { user } = useAuthContext();
@@ -43,11 +47,14 @@ export default function OfficeLocations() {
   const [isAddLocationOpen, setIsAddLocationOpen] = useState(false);
   const [isEditLocationOpen, setIsEditLocationOpen] = useState(false);
   const [editingLocation, setEditingLocation] = useState<any>(null);
+  const [qrCodeLocation, setQrCodeLocation] = useState<any>(null);
+  const [validationSettingsLocation, setValidationSettingsLocation] = useState<any>(null);
   const [formData, setFormData] = useState({
     name: "Prakash Greens Energy Head Office",
     latitude: "9.966844592415782",
     longitude: "78.1338405791111",
     radius: "100", // Default radius in meters
+    geofence: null as GeofencePoint[] | null, // Optional boundary polygon, replaces the radius check
   });
 
   // Only master_admin can access this page
@@ -75,6 +82,7 @@ export default function OfficeLocations() {
       latitude: string;
       longitude: string;
       radius: number;
+      geofence?: GeofencePoint[] | null;
       createdAt: string;
       updatedAt: string;
     }>,
@@ -163,6 +171,7 @@ export default function OfficeLocations() {
   // Handle create form submission
   const handleCreateSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    const formData = withGeofenceCenter();
     
     // Validate form data
     if (!formData.name || !formData.latitude || !formData.longitude || !formData.radius) {
@@ -213,12 +222,25 @@ export default function OfficeLocations() {
       latitude: formData.latitude,
       longitude: formData.longitude,
       radius: parseInt(formData.radius),
+      geofence: formData.geofence,
     });
   };
 
+  // A pasted boundary can stand in for the center point; its vertex average is close enough for display and QR distance
+  const withGeofenceCenter = () => {
+    if (!formData.geofence || (formData.latitude && formData.longitude)) return formData;
+    const points = formData.geofence;
+    return {
+      ...formData,
+      latitude: (points.reduce((sum, p) => sum + p.latitude, 0) / points.length).toFixed(8),
+      longitude: (points.reduce((sum, p) => sum + p.longitude, 0) / points.length).toFixed(8),
+    };
+  };
+
   // Handle edit form submission
   const handleEditSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    const formData = withGeofenceCenter();
     
     // Validate form data
     if (!formData.name || !formData.latitude || !formData.longitude || !formData.radius) {
@@ -271,6 +293,7 @@ export default function OfficeLocations() {
         latitude: formData.latitude,
         longitude: formData.longitude,
         radius: parseInt(formData.radius),
+        geofence: formData.geofence,
       },
     });
   };
@@ -282,6 +305,7 @@ export default function OfficeLocations() {
       latitude: "",
       longitude: "",
       radius: "100",
+      geofence: null,
     });
     setEditingLocation(null);
   };
@@ -294,6 +318,7 @@ export default function OfficeLocations() {
       latitude: location.latitude,
       longitude: location.longitude,
       radius: location.radius.toString(),
+      geofence: location.geofence || null,
     });
     setIsEditLocationOpen(true);
   };
@@ -477,7 +502,7 @@ export default function OfficeLocations() {
                   <TableRow>
                     <TableHead>Name</TableHead>
                     <TableHead>Coordinates</TableHead>
-                    <TableHead>Radius</TableHead>
+                    <TableHead>Boundary</TableHead>
                     <TableHead>Created</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
@@ -489,7 +514,11 @@ export default function OfficeLocations() {
                       <TableCell>
                         {location.latitude}, {location.longitude}
                       </TableCell>
-                      <TableCell>{location.radius} meters</TableCell>
+                      <TableCell>
+                        {location.geofence?.length >= 3
+                          ? `Polygon (${location.geofence.length} corners)`
+                          : `${location.radius} meters`}
+                      </TableCell>
                       <TableCell>{formatDate(new Date(location.createdAt))}</TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end space-x-2">
@@ -501,6 +530,22 @@ export default function OfficeLocations() {
                           >
                             <MapPin className="h-4 w-4" />
                           </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setQrCodeLocation(location)}
+                            title="Check-in QR code"
+                          >
+                            <QrCode className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setValidationSettingsLocation(location)}
+                            title="Location validation settings"
+                          >
+                            <SlidersHorizontal className="h-4 w-4" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="sm"
@@ -527,9 +572,23 @@ export default function OfficeLocations() {
         </CardContent>
       </Card>
 
+      <AttendanceKiosksCard officeLocations={(officeLocations as any[]) || []} />
+
+      <OfficeQrCodeDialog
+        isOpen={!!qrCodeLocation}
+        onClose={() => setQrCodeLocation(null)}
+        office={qrCodeLocation}
+      />
+
+      <LocationValidationSettingsDialog
+        isOpen={!!validationSettingsLocation}
+        onClose={() => setValidationSettingsLocation(null)}
+        office={validationSettingsLocation}
+      />
+
       {/* Add Office Location Dialog */}
       <Dialog open={isAddLocationOpen} onOpenChange={setIsAddLocationOpen}>
-        <DialogContent className="sm:max-w-[425px]">
+        <DialogContent className="sm:max-w-[480px]">
           <form onSubmit={handleCreateSubmit}>
             <DialogHeader>
               <DialogTitle>Add Office Location</DialogTitle>
@@ -609,6 +668,11 @@ export default function OfficeLocations() {
                   Use Current Location
                 </Button>
               </div>
+
+              <GeofenceEditor
+                value={formData.geofence}
+                onChange={(geofence) => setFormData((current) => ({ ...current, geofence }))}
+              />
             </div>
             
             <DialogFooter>
@@ -640,7 +704,7 @@ export default function OfficeLocations() {
 
       {/* Edit Office Location Dialog */}
       <Dialog open={isEditLocationOpen} onOpenChange={setIsEditLocationOpen}>
-        <DialogContent className="sm:max-w-[425px]">
+        <DialogContent className="sm:max-w-[480px]">
           <form onSubmit={handleEditSubmit}>
             <DialogHeader>
               <DialogTitle>Edit Office Location</DialogTitle>
@@ -720,6 +784,11 @@ export default function OfficeLocations() {
                   Use Current Location
                 </Button>
               </div>
+
+              <GeofenceEditor
+                value={formData.geofence}
+                onChange={(geofence) => setFormData((current) => ({ ...current, geofence }))}
+              />
             </div>
             
             <DialogFooter>
@@ -17,6 +17,7 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { useAuthContext } from "@/contexts/auth-context";
 import { TimeDisplay } from "@/components/time/time-display";
+import { LatePenaltyRulesTable } from "@/components/payroll/late-penalty-rules-table";
 import { 
   Calculator, 
   Settings, 
@@ -32,7 +33,8 @@ import {
   Building2,
   CheckCircle,
   AlertCircle,
-  Clock
+  Clock,
+  AlarmClock
 } from "lucide-react";
 
 // Types
@@ -618,7 +620,7 @@ export default function EnhancedPayrollManagement() {
 
       {/* Main Content Tabs */}
       <Tabs defaultValue="payroll" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-3 lg:w-auto lg:grid-cols-none lg:flex">
+        <TabsList className="grid w-full grid-cols-4 lg:w-auto lg:grid-cols-none lg:flex">
           <TabsTrigger value="payroll" className="text-xs sm:text-sm">
             <span className="hidden sm:inline">Payroll Processing</span>
             <span className="sm:hidden">Payroll</span>
@@ -631,6 +633,10 @@ export default function EnhancedPayrollManagement() {
             <span className="hidden sm:inline">Field Configuration</span>
             <span className="sm:hidden">Fields</span>
           </TabsTrigger>
+          <TabsTrigger value="late-penalties" className="text-xs sm:text-sm">
+            <span className="hidden sm:inline">Late Penalties</span>
+            <span className="sm:hidden">Late</span>
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="payroll" className="space-y-4">
@@ -694,6 +700,23 @@ export default function EnhancedPayrollManagement() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="late-penalties" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <AlarmClock className="h-5 w-5" />
+                Late Penalty Rules
+              </CardTitle>
+              <CardDescription>
+                Deductions for repeated or long late arrivals, added to payroll as "Late Penalty"
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <LatePenaltyRulesTable />
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,505 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuthContext } from "@/contexts/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { departments, type InsertShift, type InsertShiftRoster, type InsertUserEnhanced, type WithId } from "@shared/schema";
+import { TimeInput } from "@/components/time/time-input";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronLeft, ChevronRight, Loader2, PlusCircle, Save, Trash2, UserCog } from "lucide-react";
+
+// isOvernight is derived by the server from the start and end times
+type Shift = WithId<InsertShift> & { isOvernight: boolean };
+
+// Roster columns run Monday to Sunday; values are JS getDay() numbers
+const weekDays = [
+  { dayOfWeek: 1, label: "Mon" },
+  { dayOfWeek: 2, label: "Tue" },
+  { dayOfWeek: 3, label: "Wed" },
+  { dayOfWeek: 4, label: "Thu" },
+  { dayOfWeek: 5, label: "Fri" },
+  { dayOfWeek: 6, label: "Sat" },
+  { dayOfWeek: 0, label: "Sun" },
+];
+
+const DEPARTMENT_TIMING = "department";
+const WEEKLY_OFF = "off";
+
+const getWeekStart = (date: Date) => {
+  const weekStart = new Date(date);
+  weekStart.setHours(0, 0, 0, 0);
+  weekStart.setDate(weekStart.getDate() - ((weekStart.getDay() + 6) % 7));
+  return weekStart;
+};
+
+const toDateParam = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+const emptyShiftForm = {
+  name: "",
+  code: "",
+  department: "all",
+  startTime: "9:00 AM",
+  endTime: "6:00 PM",
+  breakDurationMinutes: 60,
+};
+
+export default function ShiftRoster() {
+  const { user } = useAuthContext();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [showShiftDialog, setShowShiftDialog] = useState(false);
+  const [shiftForm, setShiftForm] = useState(emptyShiftForm);
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()));
+  const [departmentFilter, setDepartmentFilter] = useState("all");
+  // userId -> dayOfWeek -> shiftId | DEPARTMENT_TIMING | WEEKLY_OFF
+  const [draft, setDraft] = useState<Record<string, Record<number, string>>>({});
+  const [savingUserId, setSavingUserId] = useState<string | null>(null);
+
+  const { data: shifts = [], isLoading: shiftsLoading } = useQuery<Shift[]>({
+    queryKey: ['/api/shifts'],
+  });
+
+  const { data: users = [] } = useQuery<WithId<InsertUserEnhanced>[]>({
+    queryKey: ['/api/users'],
+  });
+
+  const weekParam = toDateParam(weekStart);
+  const { data: rosters = [], isLoading: rostersLoading } = useQuery<WithId<InsertShiftRoster>[]>({
+    queryKey: ['/api/shift-rosters', weekParam],
+    queryFn: async () => {
+      const response = await apiRequest(`/api/shift-rosters?weekStart=${weekParam}`, 'GET');
+      return response.json();
+    },
+  });
+
+  // Reset unsaved edits whenever a different week is loaded
+  useEffect(() => {
+    setDraft({});
+  }, [weekParam]);
+
+  const createShiftMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('/api/shifts', 'POST', {
+        ...shiftForm,
+        department: shiftForm.department === "all" ? null : shiftForm.department,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/shifts'] });
+      setShowShiftDialog(false);
+      setShiftForm(emptyShiftForm);
+      toast({
+        title: "Shift created",
+        description: "The shift is now available for rostering",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create shift",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deactivateShiftMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest(`/api/shifts/${id}`, 'DELETE');
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/shifts'] });
+      toast({
+        title: "Success",
+        description: result.message,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to deactivate shift",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveRosterMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      setSavingUserId(userId);
+      const assignments = weekDays
+        .map(({ dayOfWeek }) => ({ dayOfWeek, value: getCellValue(userId, dayOfWeek) }))
+        .filter(({ value }) => value !== DEPARTMENT_TIMING)
+        .map(({ dayOfWeek, value }) => ({ dayOfWeek, shiftId: value === WEEKLY_OFF ? null : value }));
+
+      const response = await apiRequest('/api/shift-rosters', 'PUT', {
+        userId,
+        weekStartDate: weekParam,
+        assignments,
+      });
+      return response.json();
+    },
+    onSuccess: (_, userId) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/shift-rosters', weekParam] });
+      setDraft(prev => {
+        const { [userId]: _saved, ...rest } = prev;
+        return rest;
+      });
+      toast({
+        title: "Roster saved",
+        description: `Shifts updated for ${getUserName(userId)}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save roster",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => setSavingUserId(null),
+  });
+
+  if (user?.role !== "master_admin") {
+    return (
+      <Card>
+        <CardContent className="py-10">
+          <div className="text-center">
+            <UserCog className="h-10 w-10 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium">Access Denied</h3>
+            <p className="text-sm text-gray-500 mt-2">
+              You don't have permission to access this page. This area is restricted to master administrators.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const getUserName = (userId: string) =>
+    users.find((u) => u.id === userId)?.displayName || `User #${userId}`;
+
+  const getCellValue = (userId: string, dayOfWeek: number) => {
+    const edited = draft[userId]?.[dayOfWeek];
+    if (edited) return edited;
+
+    const roster = rosters.find((r) => r.userId === userId);
+    const assignment = roster?.assignments?.find((a) => a.dayOfWeek === dayOfWeek);
+    if (!assignment) return DEPARTMENT_TIMING;
+    return assignment.shiftId || WEEKLY_OFF;
+  };
+
+  const setCellValue = (userId: string, dayOfWeek: number, value: string) => {
+    setDraft(prev => ({
+      ...prev,
+      [userId]: { ...prev[userId], [dayOfWeek]: value },
+    }));
+  };
+
+  const changeWeek = (weeks: number) => {
+    const next = new Date(weekStart);
+    next.setDate(next.getDate() + weeks * 7);
+    setWeekStart(next);
+  };
+
+  const weekEnd = new Date(weekStart);
+  weekEnd.setDate(weekEnd.getDate() + 6);
+
+  const rosterUsers = users.filter((u) =>
+    u.isActive !== false &&
+    u.department &&
+    (departmentFilter === "all" || u.department === departmentFilter)
+  );
+
+  // Department-specific shifts only apply to that department's employees
+  const getShiftsForUser = (rosterUser: WithId<InsertUserEnhanced>) =>
+    shifts.filter((s) => !s.department || s.department === rosterUser.department);
+
+  return (
+    <>
+      <Card className="mb-6">
+        <CardHeader className="px-6 py-4">
+          <CardTitle className="text-xl">Shift Roster</CardTitle>
+          <CardDescription>
+            Define shifts and assign them per employee per week. Days without a rostered shift use department timing.
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="px-6">
+          <Tabs defaultValue="roster">
+            <TabsList className="grid w-full grid-cols-2 md:w-96">
+              <TabsTrigger value="roster">Weekly Roster</TabsTrigger>
+              <TabsTrigger value="shifts">Shifts</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="roster" className="space-y-4">
+              <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="icon" onClick={() => changeWeek(-1)}>
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <span className="min-w-[220px] text-center font-medium">
+                    {weekStart.toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })} - {weekEnd.toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' })}
+                  </span>
+                  <Button variant="outline" size="icon" onClick={() => changeWeek(1)}>
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+                <Select value={departmentFilter} onValueChange={setDepartmentFilter}>
+                  <SelectTrigger className="w-full md:w-48">
+                    <SelectValue placeholder="Department" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Departments</SelectItem>
+                    {departments.map((dept) => (
+                      <SelectItem key={dept} value={dept}>
+                        {dept.charAt(0).toUpperCase() + dept.slice(1)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {rostersLoading ? (
+                <div className="flex items-center justify-center py-8">
+                  <Loader2 className="h-8 w-8 animate-spin" />
+                </div>
+              ) : (
+                <div className="rounded-md border overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Employee</TableHead>
+                        {weekDays.map(({ dayOfWeek, label }) => (
+                          <TableHead key={dayOfWeek}>{label}</TableHead>
+                        ))}
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rosterUsers.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={9} className="text-center py-8 text-gray-500">
+                            No employees found
+                          </TableCell>
+                        </TableRow>
+                      ) : rosterUsers.map((rosterUser) => (
+                        <TableRow key={rosterUser.id}>
+                          <TableCell className="font-medium whitespace-nowrap">
+                            {rosterUser.displayName}
+                            <p className="text-xs text-muted-foreground capitalize">{rosterUser.department}</p>
+                          </TableCell>
+                          {weekDays.map(({ dayOfWeek }) => (
+                            <TableCell key={dayOfWeek} className="min-w-[120px]">
+                              <Select
+                                value={getCellValue(rosterUser.id, dayOfWeek)}
+                                onValueChange={(value) => setCellValue(rosterUser.id, dayOfWeek, value)}
+                              >
+                                <SelectTrigger className="h-8">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value={DEPARTMENT_TIMING}>Default</SelectItem>
+                                  <SelectItem value={WEEKLY_OFF}>Off</SelectItem>
+                                  {getShiftsForUser(rosterUser).map((shift) => (
+                                    <SelectItem key={shift.id} value={shift.id}>
+                                      {shift.code}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
+                          ))}
+                          <TableCell className="text-right">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={!draft[rosterUser.id] || saveRosterMutation.isPending}
+                              onClick={() => saveRosterMutation.mutate(rosterUser.id)}
+                            >
+                              {savingUserId === rosterUser.id ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <Save className="h-4 w-4" />
+                              )}
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="shifts" className="space-y-4">
+              <div className="flex justify-end">
+                <Button
+                  className="bg-primary hover:bg-primary-dark text-white"
+                  onClick={() => setShowShiftDialog(true)}
+                >
+                  <PlusCircle className="h-4 w-4 mr-2" />
+                  Add Shift
+                </Button>
+              </div>
+
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Code</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Department</TableHead>
+                      <TableHead>Timing</TableHead>
+                      <TableHead>Break</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {shiftsLoading ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-8">
+                          <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+                        </TableCell>
+                      </TableRow>
+                    ) : shifts.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                          No shifts defined yet
+                        </TableCell>
+                      </TableRow>
+                    ) : shifts.map((shift) => (
+                      <TableRow key={shift.id}>
+                        <TableCell><Badge variant="outline">{shift.code}</Badge></TableCell>
+                        <TableCell className="font-medium">{shift.name}</TableCell>
+                        <TableCell className="capitalize">{shift.department || "All"}</TableCell>
+                        <TableCell>
+                          {shift.startTime} - {shift.endTime}
+                          {shift.isOvernight && <Badge variant="secondary" className="ml-2">Overnight</Badge>}
+                        </TableCell>
+                        <TableCell>{shift.breakDurationMinutes} min</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="text-red-600"
+                            disabled={deactivateShiftMutation.isPending}
+                            onClick={() => deactivateShiftMutation.mutate(shift.id)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+
+      <Dialog open={showShiftDialog} onOpenChange={setShowShiftDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add Shift</DialogTitle>
+            <DialogDescription>
+              An end time earlier than the start time creates an overnight shift.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2 space-y-2">
+                <Label htmlFor="shift-name">Name</Label>
+                <Input
+                  id="shift-name"
+                  placeholder="Night Shift"
+                  value={shiftForm.name}
+                  onChange={(e) => setShiftForm({ ...shiftForm, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="shift-code">Code</Label>
+                <Input
+                  id="shift-code"
+                  placeholder="NIGHT"
+                  maxLength={10}
+                  value={shiftForm.code}
+                  onChange={(e) => setShiftForm({ ...shiftForm, code: e.target.value.toUpperCase() })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Department</Label>
+              <Select
+                value={shiftForm.department}
+                onValueChange={(value) => setShiftForm({ ...shiftForm, department: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Departments</SelectItem>
+                  {departments.map((dept) => (
+                    <SelectItem key={dept} value={dept}>
+                      {dept.charAt(0).toUpperCase() + dept.slice(1)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <TimeInput
+                label="Start Time"
+                value={shiftForm.startTime}
+                onChange={(value) => setShiftForm({ ...shiftForm, startTime: value })}
+              />
+              <TimeInput
+                label="End Time"
+                value={shiftForm.endTime}
+                onChange={(value) => setShiftForm({ ...shiftForm, endTime: value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="shift-break">Break Duration (minutes)</Label>
+              <Input
+                id="shift-break"
+                type="number"
+                min={0}
+                value={shiftForm.breakDurationMinutes}
+                onChange={(e) => setShiftForm({ ...shiftForm, breakDurationMinutes: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowShiftDialog(false)} disabled={createShiftMutation.isPending}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createShiftMutation.mutate()}
+              disabled={createShiftMutation.isPending || shiftForm.name.trim().length < 2 || !shiftForm.code.trim()}
+            >
+              {createShiftMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Create Shift
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
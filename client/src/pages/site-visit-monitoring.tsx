@@ -15,7 +15,7 @@ import {
   MapPin, Search, Download, Eye, Calendar, Clock, Users, Building, 
   Camera, FileText, Filter, RefreshCw, TrendingUp, BarChart3,
   CheckCircle, XCircle, AlertTriangle, Navigation, Phone, Mail,
-  User, Zap, ChevronDown, History, LogOut, Plus
+  User, Zap, ChevronDown, History, LogOut, Plus, WifiOff
 } from "lucide-react";
 import { format } from "date-fns";
 import { SiteVisitDetailsModal } from "@/components/site-visit/site-visit-details-modal";
@@ -70,6 +70,8 @@ interface SiteVisit {
   };
   siteInPhotoUrl?: string;
   siteOutPhotoUrl?: string;
+  // Set when the visit was captured offline and synced later
+  syncStatus?: 'offline_synced';
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -872,6 +874,12 @@ export default function SiteVisitMonitoring() {
                                 {visit.followUpCount} Follow-up{visit.followUpCount !== 1 ? 's' : ''}
                               </Badge>
                             )}
+                            {visit.syncStatus === 'offline_synced' && (
+                              <Badge variant="outline" className="text-xs border-amber-500 text-amber-700">
+                                <WifiOff className="h-3 w-3 mr-1" />
+                                Synced offline
+                              </Badge>
+                            )}
                           </div>
                         </div>
                         <div className="flex flex-col gap-1">
@@ -0,0 +1,288 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuthContext } from "@/contexts/auth-context";
+import { apiRequest } from "@/lib/queryClient";
+import type { TeamLiveStatus, TeamMonthlySummary } from "@shared/schema";
+import { TimeDisplay } from "@/components/time/time-display";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronLeft, ChevronRight, Loader2, RefreshCw, UserCog, Users } from "lucide-react";
+
+const months = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December"
+];
+
+const stateBadges: Record<string, { label: string; className: string }> = {
+  checked_in: { label: "Working", className: "bg-green-100 text-green-800" },
+  on_break: { label: "On break", className: "bg-yellow-100 text-yellow-800" },
+  checked_out: { label: "Checked out", className: "bg-gray-100 text-gray-800" },
+  not_checked_in: { label: "Not checked in", className: "bg-red-100 text-red-800" },
+  on_leave: { label: "On leave", className: "bg-blue-100 text-blue-800" },
+  holiday: { label: "Holiday", className: "bg-purple-100 text-purple-800" },
+  weekly_off: { label: "Weekly off", className: "bg-gray-100 text-gray-500" },
+};
+
+export default function TeamAttendance() {
+  const { hasPermission } = useAuthContext();
+  const canViewAll = hasPermission("attendance.view_all");
+  const canViewTeam = canViewAll || hasPermission("attendance.view_team");
+
+  const now = new Date();
+  const [scope, setScope] = useState<"team" | "all">("team");
+  const [month, setMonth] = useState(now.getMonth() + 1);
+  const [year, setYear] = useState(now.getFullYear());
+
+  const { data: live, isLoading: isLoadingLive, refetch: refetchLive } = useQuery<{ scope: string; members: TeamLiveStatus[] }>({
+    queryKey: ['/api/attendance/team/live', scope],
+    queryFn: async () => {
+      const response = await apiRequest(`/api/attendance/team/live?scope=${scope}`, 'GET');
+      return response.json();
+    },
+    enabled: canViewTeam,
+    refetchInterval: 60000,
+  });
+
+  const { data: summary, isLoading: isLoadingSummary } = useQuery<{ scope: string; month: number; year: number; members: TeamMonthlySummary[] }>({
+    queryKey: ['/api/attendance/team/summary', scope, month, year],
+    queryFn: async () => {
+      const response = await apiRequest(`/api/attendance/team/summary?scope=${scope}&month=${month}&year=${year}`, 'GET');
+      return response.json();
+    },
+    enabled: canViewTeam,
+  });
+
+  if (!canViewTeam) {
+    return (
+      <Card>
+        <CardContent className="py-10">
+          <div className="text-center">
+            <UserCog className="h-10 w-10 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium">Access Denied</h3>
+            <p className="text-sm text-gray-500 mt-2">
+              You don't have permission to view team attendance.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const liveMembers = live?.members || [];
+  const summaryMembers = summary?.members || [];
+  const countState = (...states: string[]) => liveMembers.filter(m => states.includes(m.state)).length;
+
+  const shiftMonth = (delta: number) => {
+    const next = new Date(year, month - 1 + delta, 1);
+    setMonth(next.getMonth() + 1);
+    setYear(next.getFullYear());
+  };
+
+  const getReportLabel = (level: number) => {
+    if (level === 0) return null;
+    return level === 1
+      ? <Badge variant="outline">Direct</Badge>
+      : <Badge variant="secondary">Level {level}</Badge>;
+  };
+
+  const stats = [
+    { label: "Team Size", value: liveMembers.length },
+    { label: "Working", value: countState("checked_in", "on_break", "checked_out") },
+    { label: "Late Today", value: liveMembers.filter(m => m.isLate).length },
+    { label: "Not Checked In", value: countState("not_checked_in") },
+    { label: "On Leave", value: countState("on_leave") },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Team Attendance</h1>
+          <p className="text-sm text-muted-foreground">
+            {scope === "team"
+              ? "Live status and monthly totals for your direct and indirect reports"
+              : "Live status and monthly totals for all active employees"}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {canViewAll && (
+            <Select value={scope} onValueChange={(value) => setScope(value as "team" | "all")}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="team">My reports</SelectItem>
+                <SelectItem value="all">All employees</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          <Button variant="outline" size="icon" onClick={() => refetchLive()}>
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {stats.map(stat => (
+          <Card key={stat.label}>
+            <CardContent className="p-4">
+              <p className="text-sm text-muted-foreground">{stat.label}</p>
+              <p className="text-2xl font-bold">{stat.value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Tabs defaultValue="live" className="w-full">
+        <TabsList>
+          <TabsTrigger value="live">Today</TabsTrigger>
+          <TabsTrigger value="summary">Monthly Summary</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="live">
+          <Card>
+            <CardHeader>
+              <CardTitle>Live Status</CardTitle>
+              <CardDescription>Refreshed every minute</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoadingLive ? (
+                <div className="flex items-center justify-center py-8">
+                  <Loader2 className="h-8 w-8 animate-spin" />
+                </div>
+              ) : liveMembers.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  <Users className="h-12 w-12 mx-auto mb-4" />
+                  <p>No one reports to you yet</p>
+                </div>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Employee</TableHead>
+                        <TableHead>Reports</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Check In</TableHead>
+                        <TableHead>Check Out</TableHead>
+                        <TableHead>Lateness</TableHead>
+                        <TableHead>Hours</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {liveMembers.map((member) => (
+                        <TableRow key={member.userId}>
+                          <TableCell className="font-medium">
+                            <div>{member.name}</div>
+                            <div className="text-xs text-gray-500 capitalize">
+                              {member.department || 'N/A'}{member.designation ? ` · ${member.designation.replace('_', ' ')}` : ''}
+                            </div>
+                          </TableCell>
+                          <TableCell>{getReportLabel(member.reportLevel)}</TableCell>
+                          <TableCell>
+                            <Badge className={stateBadges[member.state]?.className}>
+                              {stateBadges[member.state]?.label || member.state}
+                            </Badge>
+                            {member.attendanceType && member.attendanceType !== 'office' && (
+                              <span className="ml-2 text-xs text-gray-500 capitalize">{member.attendanceType.replace('_', ' ')}</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {member.checkInTime ? <TimeDisplay time={member.checkInTime} format12Hour={true} /> : '-'}
+                          </TableCell>
+                          <TableCell>
+                            {member.checkOutTime ? <TimeDisplay time={member.checkOutTime} format12Hour={true} /> : '-'}
+                          </TableCell>
+                          <TableCell>
+                            {member.isLate
+                              ? <span className="text-red-600">{member.lateMinutes ? `${member.lateMinutes} min late` : 'Late'}</span>
+                              : member.checkInTime ? <span className="text-green-600">On time</span> : '-'}
+                          </TableCell>
+                          <TableCell>{member.currentWorkingHours ? `${member.currentWorkingHours.toFixed(1)}h` : '-'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="summary">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle>Monthly Summary</CardTitle>
+                <CardDescription>Overtime shows approved hours only</CardDescription>
+              </div>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="icon" onClick={() => shiftMonth(-1)}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span className="w-36 text-center font-medium">{months[month - 1]} {year}</span>
+                <Button variant="outline" size="icon" onClick={() => shiftMonth(1)}>
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoadingSummary ? (
+                <div className="flex items-center justify-center py-8">
+                  <Loader2 className="h-8 w-8 animate-spin" />
+                </div>
+              ) : summaryMembers.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  <Users className="h-12 w-12 mx-auto mb-4" />
+                  <p>No attendance to summarise for this month</p>
+                </div>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Employee</TableHead>
+                        <TableHead className="text-center">Present</TableHead>
+                        <TableHead className="text-center">Half Day</TableHead>
+                        <TableHead className="text-center">Absent</TableHead>
+                        <TableHead className="text-center">Leave</TableHead>
+                        <TableHead className="text-center">Late Marks</TableHead>
+                        <TableHead className="text-center">OT Hours</TableHead>
+                        <TableHead className="text-center">Days Worked</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {summaryMembers.map((member) => (
+                        <TableRow key={member.userId}>
+                          <TableCell className="font-medium">
+                            <div>{member.name}</div>
+                            <div className="text-xs text-gray-500 capitalize">{member.department || 'N/A'}</div>
+                          </TableCell>
+                          <TableCell className="text-center">{member.totals.present}</TableCell>
+                          <TableCell className="text-center">{member.totals.halfDay}</TableCell>
+                          <TableCell className={`text-center ${member.totals.absent > 0 ? 'text-red-600 font-medium' : ''}`}>
+                            {member.totals.absent}
+                          </TableCell>
+                          <TableCell className="text-center">{member.totals.leave}</TableCell>
+                          <TableCell className={`text-center ${member.totals.lateMarks > 0 ? 'text-orange-600 font-medium' : ''}`}>
+                            {member.totals.lateMarks}
+                          </TableCell>
+                          <TableCell className="text-center">{member.totals.overtimeHours}</TableCell>
+                          <TableCell className="text-center font-medium">{member.totals.daysWorked}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
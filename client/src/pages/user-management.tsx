@@ -39,6 +39,7 @@ import {
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { getInitials } from "@/lib/utils";
+import { KioskCredentialsDialog } from "@/components/attendance/kiosk-credentials-dialog";
 import {
   Search,
   PlusCircle,
@@ -47,6 +48,7 @@ import {
   Loader2,
   AlertTriangle,
   RefreshCw,
+  KeyRound,
 } from "lucide-react";
 
 export default function UserManagement() {
@@ -58,6 +60,7 @@ export default function UserManagement() {
   const [editUser, setEditUser] = useState<any>(null);
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
+  const [kioskEmployee, setKioskEmployee] = useState<any>(null);
 
   // Only master_admin and admin can access this page
   if (user?.role !== "master_admin" && user?.role !== "admin") {
@@ -427,6 +430,15 @@ export default function UserManagement() {
                           <Pencil className="h-4 w-4 mr-1" />
                           Edit
                         </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 p-2"
+                          onClick={() => setKioskEmployee(userData)}
+                          title="Kiosk PIN and badge"
+                        >
+                          <KeyRound className="h-4 w-4" />
+                        </Button>
                       </TableCell>
                     </TableRow>
                   ))
@@ -465,6 +477,12 @@ export default function UserManagement() {
         </DialogContent>
       </Dialog>
 
+      <KioskCredentialsDialog
+        isOpen={!!kioskEmployee}
+        onClose={() => setKioskEmployee(null)}
+        employee={kioskEmployee}
+      />
+
       {/* Edit User Dialog */}
       <Dialog open={showEditDialog} onOpenChange={setShowEditDialog}>
         <DialogContent className="sm:max-w-[500px]">
@@ -4,11 +4,19 @@
  */
 
 import { useToast } from "@/hooks/use-toast";
+import {
+  ensureOfflinePunchKey,
+  listOfflinePunches,
+  syncOfflinePunches,
+  OfflinePunchSyncSummary,
+  OFFLINE_PUNCHES_CHANGED_EVENT
+} from "./offline-punch-queue";
 
 export interface OfflineState {
   isOnline: boolean;
   wasOffline: boolean;
   retryQueue: Array<() => Promise<any>>;
+  pendingPunches: number; // Punches captured offline and stored on this device
 }
 
 export class OfflineHandler {
@@ -17,6 +25,8 @@ export class OfflineHandler {
   private wasOffline = false;
   private retryQueue: Array<() => Promise<any>> = [];
   private listeners: Array<(state: OfflineState) => void> = [];
+  private pendingPunches = 0;
+  private punchSync: Promise<OfflinePunchSyncSummary> | null = null;
 
   static getInstance(): OfflineHandler {
     if (!OfflineHandler.instance) {
@@ -29,6 +39,8 @@ export class OfflineHandler {
     // Listen for online/offline events
     window.addEventListener('online', this.handleOnline.bind(this));
     window.addEventListener('offline', this.handleOffline.bind(this));
+    window.addEventListener(OFFLINE_PUNCHES_CHANGED_EVENT, this.refreshPendingPunches.bind(this));
+    this.refreshPendingPunches();
     
     // Check connection periodically
     setInterval(this.checkConnection.bind(this), 30000);
@@ -67,6 +79,7 @@ export class OfflineHandler {
     if (wasOfflineBeforeReconnect) {
       this.showReconnectedMessage();
       this.processRetryQueue();
+      this.syncOfflinePunches();
     }
   }
 
@@ -126,6 +139,50 @@ export class OfflineHandler {
     }
   }
 
+  private async refreshPendingPunches(): Promise<void> {
+    try {
+      this.pendingPunches = (await listOfflinePunches()).length;
+      this.notifyListeners();
+    } catch (error) {
+      console.error('Failed to read offline punches:', error);
+    }
+  }
+
+  /**
+   * Upload punches captured offline. Concurrent calls share one run.
+   */
+  public syncOfflinePunches(): Promise<OfflinePunchSyncSummary> {
+    if (!this.punchSync) {
+      this.punchSync = syncOfflinePunches()
+        .then(summary => {
+          if (summary.synced > 0 || summary.rejected.length > 0) {
+            window.dispatchEvent(new CustomEvent('offline-punches-synced', { detail: summary }));
+          }
+          return summary;
+        })
+        .catch(error => {
+          console.error('Offline punch sync failed:', error);
+          return { synced: 0, rejected: [], remaining: this.pendingPunches };
+        })
+        .finally(() => {
+          this.punchSync = null;
+        });
+    }
+    return this.punchSync;
+  }
+
+  /**
+   * Called once a user is signed in: renew the device's signing key and flush anything left
+   * from an earlier offline session
+   */
+  public prepareOfflinePunches(userId: string): void {
+    if (!this.isOnline) return;
+    ensureOfflinePunchKey(userId).catch(error => {
+      console.error('Failed to enable offline punches:', error);
+    });
+    this.syncOfflinePunches();
+  }
+
   public addToRetryQueue(retryFn: () => Promise<any>): void {
     this.retryQueue.push(retryFn);
   }
@@ -146,7 +203,8 @@ export class OfflineHandler {
     const state: OfflineState = {
       isOnline: this.isOnline,
       wasOffline: this.wasOffline,
-      retryQueue: [...this.retryQueue]
+      retryQueue: [...this.retryQueue],
+      pendingPunches: this.pendingPunches
     };
     
     this.listeners.forEach(listener => listener(state));
@@ -156,7 +214,8 @@ export class OfflineHandler {
     return {
       isOnline: this.isOnline,
       wasOffline: this.wasOffline,
-      retryQueue: [...this.retryQueue]
+      retryQueue: [...this.retryQueue],
+      pendingPunches: this.pendingPunches
     };
   }
 
@@ -165,14 +224,15 @@ export class OfflineHandler {
   }
 
   public getOfflineMessage(): string {
+    const pending = this.retryQueue.length + this.pendingPunches;
     if (this.isOnline) {
-      return this.retryQueue.length > 0 
+      return pending > 0 
         ? "Syncing your changes..." 
         : "Connected";
     }
     
-    return this.retryQueue.length > 0
-      ? `You're offline - ${this.retryQueue.length} changes will sync when you reconnect`
+    return pending > 0
+      ? `You're offline - ${pending} changes will sync when you reconnect`
       : "You're offline - changes will be saved when you reconnect";
   }
 }
@@ -184,6 +244,7 @@ export function useOfflineHandler() {
   return {
     state: offlineHandler.getState(),
     addToRetryQueue: offlineHandler.addToRetryQueue.bind(offlineHandler),
+    syncOfflinePunches: offlineHandler.syncOfflinePunches.bind(offlineHandler),
     subscribe: offlineHandler.subscribe.bind(offlineHandler),
     isHealthy: offlineHandler.isConnectionHealthy(),
     message: offlineHandler.getOfflineMessage()
@@ -0,0 +1,243 @@
+/**
+ * Offline Punch Queue
+ * Persists check-in/check-out and site visit punches captured without signal in IndexedDB,
+ * signed with a per-user key fetched while online, and uploads them when the connection returns.
+ * The server keeps the device capture time and marks synced punches for review.
+ */
+
+import { getAuth } from "firebase/auth";
+
+export type OfflinePunchKind =
+  | "attendance_check_in"
+  | "attendance_check_out"
+  | "site_visit_start"
+  | "site_visit_checkout";
+
+export interface QueuedOfflinePunch {
+  clientId: string;
+  userId: string;
+  kind: OfflinePunchKind;
+  capturedAt: string; // ISO device time - part of the signed string
+  keyId: string;
+  payloadJson: string;
+  signature: string;
+  attempts: number;
+  lastError?: string;
+}
+
+interface StoredPunchKey {
+  userId: string;
+  keyId: string;
+  secret: string;
+  expiresAt: string;
+}
+
+export interface OfflinePunchSyncSummary {
+  synced: number;
+  rejected: { kind: OfflinePunchKind; message: string }[];
+  remaining: number;
+}
+
+const DB_NAME = "offline-punches";
+const DB_VERSION = 1;
+const PUNCH_STORE = "punches";
+const KEY_STORE = "keys";
+// Refresh the signing key while online well before it expires, so a long stretch offline stays covered
+const KEY_REFRESH_BEFORE_MS = 3 * 24 * 60 * 60 * 1000;
+
+export const OFFLINE_PUNCHES_CHANGED_EVENT = "offline-punches-changed";
+
+export const offlinePunchLabels: Record<OfflinePunchKind, string> = {
+  attendance_check_in: "Check-in",
+  attendance_check_out: "Check-out",
+  site_visit_start: "Site visit start",
+  site_visit_checkout: "Site visit checkout",
+};
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PUNCH_STORE)) {
+        db.createObjectStore(PUNCH_STORE, { keyPath: "clientId" });
+      }
+      if (!db.objectStoreNames.contains(KEY_STORE)) {
+        db.createObjectStore(KEY_STORE, { keyPath: "userId" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = action(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+const notifyChanged = () => window.dispatchEvent(new CustomEvent(OFFLINE_PUNCHES_CHANGED_EVENT));
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map((byte) => byte.toString(16).padStart(2, "0")).join("");
+
+// HMAC-SHA256 over `${clientId}.${kind}.${capturedAt}.${sha256(payloadJson)}`, matching the server
+async function signPunch(secret: string, clientId: string, kind: OfflinePunchKind, capturedAt: string, payloadJson: string) {
+  const encoder = new TextEncoder();
+  const payloadHash = toHex(await crypto.subtle.digest("SHA-256", encoder.encode(payloadJson)));
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${clientId}.${kind}.${capturedAt}.${payloadHash}`));
+  return toHex(signature);
+}
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const currentUser = getAuth().currentUser;
+  if (!currentUser) {
+    throw new Error("User not authenticated");
+  }
+  const token = await currentUser.getIdToken();
+  return { "Content-Type": "application/json", Authorization: `Bearer ${token}` };
+}
+
+/**
+ * Make sure this device holds a current signing key for the user. Call while online.
+ */
+export async function ensureOfflinePunchKey(userId: string): Promise<void> {
+  const stored = await withStore<StoredPunchKey | undefined>(KEY_STORE, "readonly", (store) => store.get(userId));
+  if (stored && new Date(stored.expiresAt).getTime() - Date.now() > KEY_REFRESH_BEFORE_MS) {
+    return;
+  }
+
+  const response = await fetch("/api/offline-punches/key", {
+    method: "POST",
+    headers: await authHeaders(),
+    credentials: "include",
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to enable offline punches (${response.status})`);
+  }
+
+  const issued = await response.json();
+  const key: StoredPunchKey = {
+    userId,
+    keyId: issued.keyId,
+    secret: issued.secret,
+    expiresAt: issued.expiresAt,
+  };
+  await withStore(KEY_STORE, "readwrite", (store) => store.put(key));
+}
+
+/**
+ * Save a punch captured without a connection. Photos stay in the payload as data URLs.
+ */
+export async function queueOfflinePunch(userId: string, kind: OfflinePunchKind, payload: Record<string, any>): Promise<QueuedOfflinePunch> {
+  const key = await withStore<StoredPunchKey | undefined>(KEY_STORE, "readonly", (store) => store.get(userId));
+  if (!key) {
+    throw new Error("Offline punches are not set up on this device yet. Connect to the internet once and try again.");
+  }
+  if (new Date(key.expiresAt).getTime() < Date.now()) {
+    throw new Error("Offline punches have expired on this device. Connect to the internet to renew them.");
+  }
+
+  const clientId = crypto.randomUUID();
+  const capturedAt = new Date().toISOString();
+  const payloadJson = JSON.stringify(payload);
+  const punch: QueuedOfflinePunch = {
+    clientId,
+    userId,
+    kind,
+    capturedAt,
+    keyId: key.keyId,
+    payloadJson,
+    signature: await signPunch(key.secret, clientId, kind, capturedAt, payloadJson),
+    attempts: 0,
+  };
+
+  await withStore(PUNCH_STORE, "readwrite", (store) => store.put(punch));
+  notifyChanged();
+  return punch;
+}
+
+export async function listOfflinePunches(userId?: string): Promise<QueuedOfflinePunch[]> {
+  const punches = await withStore<QueuedOfflinePunch[]>(PUNCH_STORE, "readonly", (store) => store.getAll());
+  return punches
+    .filter((punch) => !userId || punch.userId === userId)
+    .sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+}
+
+/**
+ * Upload the signed-in user's queued punches in capture order. Punches the server accepts or
+ * rejects for good are removed; a network error or server failure stops the run so the rest
+ * are retried later in the same order.
+ */
+export async function syncOfflinePunches(): Promise<OfflinePunchSyncSummary> {
+  const summary: OfflinePunchSyncSummary = { synced: 0, rejected: [], remaining: 0 };
+  const currentUser = getAuth().currentUser;
+  if (!currentUser) return summary;
+
+  const punches = await listOfflinePunches(currentUser.uid);
+  for (let index = 0; index < punches.length; index++) {
+    const punch = punches[index];
+    let response: Response;
+    try {
+      response = await fetch("/api/offline-punches/sync", {
+        method: "POST",
+        headers: await authHeaders(),
+        credentials: "include",
+        body: JSON.stringify({
+          clientId: punch.clientId,
+          kind: punch.kind,
+          capturedAt: punch.capturedAt,
+          keyId: punch.keyId,
+          payloadJson: punch.payloadJson,
+          signature: punch.signature,
+        }),
+      });
+    } catch (error) {
+      // Still offline - keep this and every later punch
+      summary.remaining = punches.length - index;
+      break;
+    }
+
+    const result = await response.json().catch(() => ({}));
+    if (response.ok || (response.status >= 400 && response.status < 500 && ![401, 408, 409, 429].includes(response.status))) {
+      await withStore(PUNCH_STORE, "readwrite", (store) => store.delete(punch.clientId));
+      if (response.ok && result.success !== false) {
+        summary.synced++;
+      } else {
+        summary.rejected.push({ kind: punch.kind, message: result.message || "Punch was rejected" });
+      }
+    } else {
+      await withStore(PUNCH_STORE, "readwrite", (store) => store.put({
+        ...punch,
+        attempts: punch.attempts + 1,
+        lastError: result.message || `HTTP ${response.status}`,
+      }));
+      summary.remaining = punches.length - index;
+      break;
+    }
+  }
+
+  notifyChanged();
+  return summary;
+}
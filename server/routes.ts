@@ -935,6 +935,239 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Signed check-in QR code for an office - rotating for screens, long-lived for print
+  app.get("/api/office-locations/:id/qr-code", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || (user.role !== "master_admin" && user.role !== "admin")) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { mode, days } = z.object({
+        mode: z.enum(["display", "print"]).default("display"),
+        days: z.coerce.number().int().min(1).max(90).default(30)
+      }).parse(req.query);
+
+      const { OfficeQrCodeService } = await import("./services/office-qr-code-service");
+      const baseUrl = (req.headers.origin as string) || `${req.protocol}://${req.get("host")}`;
+      const qrCode = await OfficeQrCodeService.issue(req.params.id, mode, baseUrl, days);
+      res.json(qrCode);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof Error && error.message === "Office location not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error issuing office QR code:", error);
+      res.status(500).json({ message: "Failed to issue office QR code" });
+    }
+  });
+
+  app.post("/api/office-locations/:id/qr-code/revoke", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || user.role !== "master_admin") {
+        return res.status(403).json({ message: "Access denied - Master Admin only" });
+      }
+
+      const { OfficeQrCodeService } = await import("./services/office-qr-code-service");
+      const key = await OfficeQrCodeService.revokeAll(user, req.params.id);
+      res.json({ message: "All QR codes for this office have been revoked", version: key.version });
+    } catch (error) {
+      if (error instanceof Error && error.message === "Office location not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error revoking office QR codes:", error);
+      res.status(500).json({ message: "Failed to revoke office QR codes" });
+    }
+  });
+
+  // ===================== Attendance Kiosks (shared devices) =====================
+
+  app.get("/api/attendance/kiosks", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || user.role !== "master_admin") {
+        return res.status(403).json({ message: "Access denied - Master Admin only" });
+      }
+
+      const kiosks = await storage.listAttendanceKiosks({
+        officeLocationId: req.query.officeLocationId as string | undefined,
+        isActive: req.query.includeInactive === "true" ? undefined : true
+      });
+      res.json(kiosks.map(({ deviceTokenHash, ...kiosk }) => kiosk));
+    } catch (error) {
+      console.error("Error fetching kiosks:", error);
+      res.status(500).json({ message: "Failed to fetch kiosks" });
+    }
+  });
+
+  app.post("/api/attendance/kiosks", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || user.role !== "master_admin") {
+        return res.status(403).json({ message: "Access denied - Master Admin only" });
+      }
+
+      const { name, officeLocationId } = z.object({
+        name: z.string().trim().min(2),
+        officeLocationId: z.string().min(1)
+      }).parse(req.body);
+
+      const { AttendanceKioskService } = await import("./services/attendance-kiosk-service");
+      const result = await AttendanceKioskService.registerKiosk(user, name, officeLocationId);
+      if (!result.success || !result.kiosk) {
+        return res.status(400).json({ message: result.message });
+      }
+
+      const { deviceTokenHash, ...kiosk } = result.kiosk;
+      res.status(201).json({ message: result.message, kiosk, deviceToken: result.deviceToken });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error registering kiosk:", error);
+      res.status(500).json({ message: "Failed to register kiosk" });
+    }
+  });
+
+  app.delete("/api/attendance/kiosks/:id", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || user.role !== "master_admin") {
+        return res.status(403).json({ message: "Access denied - Master Admin only" });
+      }
+
+      const kiosk = await storage.getAttendanceKiosk(req.params.id);
+      if (!kiosk) {
+        return res.status(404).json({ message: "Kiosk not found" });
+      }
+
+      await storage.deleteAttendanceKiosk(kiosk.id);
+      await storage.createAuditLog({
+        userId: user.id,
+        action: "attendance_kiosk_deactivated",
+        entityType: "attendance_kiosk",
+        entityId: kiosk.id,
+        changes: { name: kiosk.name, officeLocationId: kiosk.officeLocationId },
+        department: user.department,
+        designation: user.designation
+      });
+      res.json({ message: "Kiosk deactivated" });
+    } catch (error) {
+      console.error("Error deactivating kiosk:", error);
+      res.status(500).json({ message: "Failed to deactivate kiosk" });
+    }
+  });
+
+  // Kiosk PIN and QR badge for an employee
+  app.put("/api/users/:id/kiosk-credentials", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || user.role !== "master_admin") {
+        return res.status(403).json({ message: "Access denied - Master Admin only" });
+      }
+
+      const { pin, issueBadge } = z.object({
+        pin: z.string().regex(/^\d{4,6}$/, "PIN must be 4 to 6 digits").optional(),
+        issueBadge: z.boolean().default(false)
+      }).refine(data => data.pin || data.issueBadge, { message: "Provide a PIN or issue a badge" })
+        .parse(req.body);
+
+      const { AttendanceKioskService } = await import("./services/attendance-kiosk-service");
+      const result = await AttendanceKioskService.setCredentials(user, req.params.id, { pin, issueBadge });
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error updating kiosk credentials:", error);
+      res.status(500).json({ message: "Failed to update kiosk credentials" });
+    }
+  });
+
+  // Kiosk devices authenticate with their device token instead of a user login
+  const verifyKiosk = async (req: any, res: any, next: any) => {
+    const deviceToken = req.headers["x-kiosk-token"];
+    if (!deviceToken || typeof deviceToken !== "string") {
+      return res.status(401).json({ message: "Kiosk token required" });
+    }
+    try {
+      const { AttendanceKioskService } = await import("./services/attendance-kiosk-service");
+      const session = await AttendanceKioskService.authenticate(deviceToken);
+      if (!session) {
+        return res.status(401).json({ message: "Kiosk not registered or deactivated" });
+      }
+      req.kioskSession = session;
+      next();
+    } catch (error) {
+      console.error("Error verifying kiosk:", error);
+      res.status(500).json({ message: "Failed to verify kiosk" });
+    }
+  };
+
+  app.get("/api/kiosk/session", verifyKiosk, async (req: any, res) => {
+    const { kiosk, office } = req.kioskSession;
+    res.json({
+      kioskId: kiosk.id,
+      kioskName: kiosk.name,
+      officeLocationId: office.id,
+      officeName: office.name
+    });
+  });
+
+  app.post("/api/kiosk/punch", createRateLimitMiddleware(generalRateLimiter), verifyKiosk, async (req: any, res) => {
+    try {
+      const punchRequest = z.object({
+        action: z.enum(["check_in", "check_out"]),
+        employeeId: z.string().optional(),
+        pin: z.string().optional(),
+        badgeCode: z.string().optional(),
+        photo: z.string().min(1),
+        reason: z.string().max(500).optional()
+      }).parse(req.body);
+
+      const { AttendanceKioskService } = await import("./services/attendance-kiosk-service");
+      const result = await AttendanceKioskService.punch(req.kioskSession, {
+        ...punchRequest,
+        userAgent: req.headers["user-agent"]
+      });
+
+      if (!result.success) {
+        return res.status(400).json(result);
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error processing kiosk punch:", error);
+      res.status(500).json({ message: "Failed to record attendance" });
+    }
+  });
+
   // Attendance
   app.get("/api/attendance", verifyAuth, async (req, res) => {
     try {
@@ -1007,7 +1240,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         attendanceType = "office",
         customerName,
         reason,
-        imageUrl
+        imageUrl,
+        deviceInfo,
+        officeQrToken
       } = req.body;
       
       if (!userId || userId !== req.user.uid) {
@@ -1040,7 +1275,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         attendanceType: attendanceType as 'office' | 'remote' | 'field_work',
         reason,
         customerName,
-        imageUrl
+        imageUrl,
+        officeQrToken: typeof officeQrToken === 'string' && officeQrToken ? officeQrToken : undefined,
+        // The request header is authoritative for the device fingerprint; the client only reports capability
+        deviceInfo: {
+          type: deviceInfo?.type || 'mobile',
+          locationCapability: deviceInfo?.locationCapability || 'limited',
+          userAgent: req.headers['user-agent']
+        }
       };
 
       console.log('ENTERPRISE CHECK-IN: Processing request with advanced location validation');
@@ -1193,7 +1435,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/attendance/check-out", createRateLimitMiddleware(attendanceRateLimiter), verifyAuth, async (req, res) => {
     try {
-      const { userId, latitude, longitude, imageUrl, reason, otReason } = req.body;
+      const { userId, latitude, longitude, accuracy, imageUrl, reason, otReason } = req.body;
       
       if (!userId || userId !== req.user.uid) {
         return res.status(403).json({ message: "Access denied" });
@@ -1204,147 +1446,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "User not found" });
       }
 
-      // Handle midnight boundary: look for attendance record from today OR yesterday
-      // This covers cases where someone checked in late and is checking out after midnight
-      const now = new Date();
-      const today = new Date(now);
-      today.setHours(0, 0, 0, 0);
-      
-      const yesterday = new Date(today);
-      yesterday.setDate(yesterday.getDate() - 1);
-      
-      // First try to find attendance record for today
-      let attendanceRecord = await storage.getAttendanceByUserAndDate(userId, today);
-      
-      // If not found today and it's early hours (before 6 AM), check yesterday
-      if (!attendanceRecord && now.getHours() < 6) {
-        attendanceRecord = await storage.getAttendanceByUserAndDate(userId, yesterday);
-      }
-      
-      if (!attendanceRecord) {
-        return res.status(400).json({ message: "No check-in record found for today" });
-      }
-
-      if (attendanceRecord.checkOutTime) {
-        return res.status(400).json({ message: "You have already checked out today" });
-      }
-
-      // CRITICAL FIX: Use Enterprise Time Service for all time operations
-      const { EnterpriseTimeService } = await import("./services/enterprise-time-service");
-      const finalCheckOutTime = new Date();
-
-      // Get department timing through Enterprise Time Service for consistency
-      const departmentTiming = user.department 
-        ? await EnterpriseTimeService.getDepartmentTiming(user.department)
-        : null;
-
-      if (!departmentTiming) {
-        return res.status(400).json({ 
-          message: "Department timing not configured. Please contact administrator." 
-        });
-      }
-      
-      // CRITICAL FIX: Use Enterprise Time Service for time calculations
-      const checkInTime = new Date(attendanceRecord.checkInTime || new Date());
-      
-      // Calculate comprehensive time metrics using Enterprise Time Service
-      const timeMetrics = await EnterpriseTimeService.calculateTimeMetrics(
+      // Same check-out as the kiosk and offline sync, so a punch is handled alike wherever it comes from
+      const { UnifiedAttendanceService } = await import("./services/unified-attendance-service");
+      const result = await UnifiedAttendanceService.processCheckOut({
         userId,
-        user.department || 'operations',
-        checkInTime,
-        finalCheckOutTime
-      );
-      
-      const { workingHours, overtimeHours } = timeMetrics;
-
-      // Use department-specific working hours from timing
-      const standardWorkingHours = departmentTiming.workingHours || 8;
-      const overtimeThresholdMinutes = departmentTiming.overtimeThresholdMinutes || 30;
-      
-      // Check if overtime meets the threshold
-      const overtimeMinutes = overtimeHours * 60;
-      const hasOvertimeThreshold = overtimeMinutes >= overtimeThresholdMinutes;
-      
-      // Check if overtime requires approval and photo
-      if (hasOvertimeThreshold) {
-        if (!otReason) {
-          return res.status(400).json({
-            message: `Overtime exceeds ${overtimeThresholdMinutes} minute threshold. Please provide a reason.`,
-            overtimeHours: Math.round(overtimeHours * 100) / 100,
-            overtimeMinutes: Math.round(overtimeMinutes),
-            threshold: overtimeThresholdMinutes,
-            requiresOTReason: true
-          });
-        }
-        if (!imageUrl) {
-          return res.status(400).json({
-            message: `Overtime exceeds ${overtimeThresholdMinutes} minute threshold. Photo verification required.`,
-            overtimeHours: Math.round(overtimeHours * 100) / 100,
-            overtimeMinutes: Math.round(overtimeMinutes),
-            threshold: overtimeThresholdMinutes,
-            requiresPhoto: true
-          });
-        }
-      }
-
-      // CRITICAL FIX: Use time metrics for early/overtime detection
-      const isOvertimeCheckout = overtimeHours > 0;
-      const earlyCheckout = !isOvertimeCheckout && workingHours < standardWorkingHours;
-      const earlyMinutes = earlyCheckout ? Math.floor((standardWorkingHours - workingHours) * 60) : 0;
-      
-      // Early checkout reason requirement (simplified - just ask for reason, no policy blocking)
-      if (!isOvertimeCheckout && earlyCheckout) {
-        console.log(`CHECKOUT: Early checkout detected - Department: ${user.department}, earlyMinutes: ${earlyMinutes}`);
-        
-        // Only require reason for early checkout, don't block based on department policy
-        if (!reason || reason.trim().length < 10) {
-          return res.status(400).json({
-            message: `Early checkout (${earlyMinutes} minutes early) requires a detailed reason (minimum 10 characters)`,
-            expectedHours: standardWorkingHours,
-            actualHours: workingHours,
-            requiresReason: true,
-            isEarlyCheckout: true,
-            earlyMinutes
-          });
-        }
-      }
-
-      // Update attendance record with checkout details
-      const updatedAttendance = await storage.updateAttendance(attendanceRecord.id, {
-        checkOutTime: finalCheckOutTime,
-        checkOutLatitude: String(latitude),
-        checkOutLongitude: String(longitude),
-        checkOutImageUrl: imageUrl,
-        workingHours: Math.round(workingHours * 100) / 100,
-        overtimeHours: Math.round(overtimeHours * 100) / 100,
-        otReason: hasOvertimeThreshold ? otReason : undefined,
-        remarks: reason || (hasOvertimeThreshold ? `Overtime: ${otReason}` : undefined)
-      });
-
-      // Log activity
-      await storage.createActivityLog({
-        type: 'attendance',
-        title: `Check-out ${hasOvertimeThreshold ? 'with Overtime' : ''}`,
-        description: `${user.displayName} checked out at ${finalCheckOutTime.toLocaleTimeString('en-IN', { hour: 'numeric', minute: '2-digit', hour12: true, timeZone: 'Asia/Kolkata' })}${hasOvertimeThreshold ? ` with ${Math.round(overtimeHours * 100) / 100} hours overtime` : ''}${earlyCheckout ? ' (early checkout)' : ''}`,
-        entityId: attendanceRecord.id,
-        entityType: 'attendance',
-        userId: user.uid
+        latitude: latitude !== undefined ? Number(latitude) : undefined,
+        longitude: longitude !== undefined ? Number(longitude) : undefined,
+        accuracy: typeof accuracy === 'number' ? accuracy : undefined,
+        imageUrl,
+        reason,
+        otReason,
+        userAgent: req.headers['user-agent']
       });
 
-      res.json({
-        message: `Checked out successfully${hasOvertimeThreshold ? ` with ${Math.round(overtimeHours * 100) / 100} hours overtime` : ''}`,
-        attendance: updatedAttendance,
-        workingHours: Math.round(workingHours * 100) / 100,
-        overtimeHours: Math.round(overtimeHours * 100) / 100,
-        hasOvertime: hasOvertimeThreshold,
-        checkOutTime: finalCheckOutTime,
-        departmentSettings: {
-          expectedCheckOut: departmentTiming.checkOutTime,
-          standardHours: standardWorkingHours,
-          overtimeThreshold: overtimeThresholdMinutes
-        },
-        timeMetrics
-      });
+      if (!result.success) {
+        return res.status(400).json(result);
+      }
+      res.json(result);
     } catch (error: any) {
       console.error("Error checking out:", error);
       res.status(500).json({ message: "Failed to process check-out" });
@@ -1470,7 +1588,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         weeklyOffDays,
         allowRemoteWork,
         allowFieldWork,
-        allowEarlyCheckOut
+        allowEarlyCheckOut,
+        autoCheckOutGraceMinutes,
+        autoCheckOutPolicy,
+        permissionMinutesPerMonth
       } = req.body;
       
       console.log('BACKEND: Policy values received:', {
@@ -1498,6 +1619,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         allowRemoteWork: allowRemoteWork !== undefined ? Boolean(allowRemoteWork) : true,
         allowFieldWork: allowFieldWork !== undefined ? Boolean(allowFieldWork) : true,
         allowEarlyCheckOut: allowEarlyCheckOut !== undefined ? Boolean(allowEarlyCheckOut) : false,
+        ...(autoCheckOutGraceMinutes !== undefined && { autoCheckOutGraceMinutes: parseInt(autoCheckOutGraceMinutes) || 0 }),
+        ...(autoCheckOutPolicy && { autoCheckOutPolicy }),
+        ...(permissionMinutesPerMonth !== undefined && { permissionMinutesPerMonth: parseInt(permissionMinutesPerMonth) || 0 }),
         updatedBy: user.uid
       };
       
@@ -1666,6 +1790,137 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Monthly muster roll (employee x day register) as JSON, XLSX or PDF
+  app.get("/api/attendance/muster-roll", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      // Admins and the HR department maintain the statutory registers
+      const hasAccess = ["master_admin", "admin"].includes(user.role) || user.department === "hr";
+      if (!hasAccess) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const now = new Date();
+      const month = req.query.month ? parseInt(req.query.month as string) : now.getMonth() + 1;
+      const year = req.query.year ? parseInt(req.query.year as string) : now.getFullYear();
+      const format = (req.query.format as string) || "json";
+
+      if (isNaN(month) || month < 1 || month > 12 || isNaN(year) || year < 2000 || year > 2100) {
+        return res.status(400).json({ message: "Invalid month or year" });
+      }
+      if (!["json", "xlsx", "pdf"].includes(format)) {
+        return res.status(400).json({ message: "Format must be json, xlsx or pdf" });
+      }
+
+      const { MusterRollService } = await import("./services/muster-roll-service");
+      const roll = await MusterRollService.generate({
+        month,
+        year,
+        department: req.query.department ? (req.query.department as string) : undefined,
+        officeLocationId: req.query.officeLocationId ? (req.query.officeLocationId as string) : undefined
+      });
+
+      const filename = `muster-roll-${year}-${String(month).padStart(2, "0")}${roll.department ? `-${roll.department}` : ""}`;
+
+      if (format === "xlsx") {
+        const excelBuffer = await MusterRollService.exportToExcel(roll);
+        res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+        res.setHeader('Content-Disposition', `attachment; filename=${filename}.xlsx`);
+        return res.send(excelBuffer);
+      }
+
+      if (format === "pdf") {
+        const pdfBuffer = MusterRollService.exportToPdf(roll);
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename=${filename}.pdf`);
+        return res.send(pdfBuffer);
+      }
+
+      res.json(roll);
+    } catch (error) {
+      console.error("Error generating muster roll:", error);
+      res.status(500).json({ message: "Failed to generate muster roll" });
+    }
+  });
+
+  // Team attendance for reporting managers (direct and indirect reports)
+  app.get("/api/attendance/team/live", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      const { TeamAttendanceService } = await import("./services/team-attendance-service");
+      const scope = TeamAttendanceService.resolveScope(
+        user,
+        req.authenticatedUser.permissions || [],
+        req.query.scope as string | undefined
+      );
+      if (!scope) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const members = await TeamAttendanceService.getMembers(user, scope);
+      const statuses = await TeamAttendanceService.getLiveStatus(members);
+
+      res.json({ scope, members: statuses });
+    } catch (error) {
+      console.error("Error fetching team live attendance:", error);
+      res.status(500).json({ message: "Failed to fetch team attendance" });
+    }
+  });
+
+  app.get("/api/attendance/team/summary", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      const { TeamAttendanceService } = await import("./services/team-attendance-service");
+      const scope = TeamAttendanceService.resolveScope(
+        user,
+        req.authenticatedUser.permissions || [],
+        req.query.scope as string | undefined
+      );
+      if (!scope) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const now = new Date();
+      const month = req.query.month ? parseInt(req.query.month as string) : now.getMonth() + 1;
+      const year = req.query.year ? parseInt(req.query.year as string) : now.getFullYear();
+      if (isNaN(month) || month < 1 || month > 12 || isNaN(year) || year < 2000 || year > 2100) {
+        return res.status(400).json({ message: "Invalid month or year" });
+      }
+
+      const members = await TeamAttendanceService.getMembers(user, scope);
+      const summary = await TeamAttendanceService.getMonthlySummary(members, month, year);
+
+      res.json({ scope, month, year, members: summary });
+    } catch (error) {
+      console.error("Error fetching team attendance summary:", error);
+      res.status(500).json({ message: "Failed to fetch team attendance summary" });
+    }
+  });
+
   // Live attendance tracking API
   app.get("/api/attendance/live", verifyAuth, async (req, res) => {
     try {
@@ -1855,20 +2110,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update attendance record API
-  app.patch("/api/attendance/:id", verifyAuth, async (req, res) => {
+  // Show how a check-in punch would be classified under an attendance policy, without saving anything
+  app.post("/api/attendance/policies/dry-run", verifyAuth, async (req, res) => {
     try {
-      const { id } = req.params;
-      const { user } = req.authenticatedUser;
-      const updateData = req.body;
-      
-      // Only admin/master_admin can update attendance records
-      if (user.role !== "master_admin" && user.role !== "admin") {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || (user.role !== "master_admin" && user.role !== "admin")) {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      // Get existing attendance record
-      const existingRecord = await storage.getAttendance(id);
+      const input = z.object({
+        checkInTime: z.coerce.date(),
+        userId: z.string().optional(),
+        department: z.enum(departments).optional(),
+        designation: z.string().optional(),
+        policyId: z.string().optional(),
+        permissionMinutes: z.number().int().min(0).optional()
+      }).parse(req.body);
+
+      const { AttendancePolicyService } = await import("./services/attendance-policy-service");
+      const result = await AttendancePolicyService.dryRun(input);
+      res.json(result);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error?.message?.includes("not found")) {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error("Error running attendance policy dry run:", error);
+      res.status(500).json({ message: "Failed to run attendance policy dry run" });
+    }
+  });
+
+  // Update attendance record API
+  app.patch("/api/attendance/:id", verifyAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { user } = req.authenticatedUser;
+      const updateData = req.body;
+      
+      // Only admin/master_admin can update attendance records
+      if (user.role !== "master_admin" && user.role !== "admin") {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      // Get existing attendance record
+      const existingRecord = await storage.getAttendance(id);
       if (!existingRecord) {
         return res.status(404).json({ message: "Attendance record not found" });
       }
@@ -1892,6 +2183,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       if (updateData.status) {
         updates.status = updateData.status;
+        updates.statusOverriddenBy = user.uid;
       }
 
       if (updateData.overtimeHours !== undefined) {
@@ -1956,31 +2248,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
           
           switch (action) {
             case 'approve_overtime':
-              result = await storage.updateAttendance(attendanceId, {
-                overtimeApproved: true,
-                overtimeApprovedBy: user.uid,
-                overtimeApprovedAt: new Date()
-              });
-              break;
-              
-            case 'reject_overtime':
-              result = await storage.updateAttendance(attendanceId, {
-                overtimeApproved: false,
-                overtimeRejectedBy: user.uid,
-                overtimeRejectedAt: new Date(),
-                overtimeRejectionReason: data?.reason || 'No reason provided'
-              });
+            case 'reject_overtime': {
+              // Goes through the overtime request so approver routing and policy caps apply
+              const { OvertimeRequestService } = await import("./services/overtime-request-service");
+              const review = await OvertimeRequestService.reviewForAttendance(
+                user,
+                attendanceId,
+                action === 'approve_overtime' ? 'approved' : 'rejected',
+                action === 'reject_overtime' ? (data?.reason || 'No reason provided') : data?.reason
+              );
+              if (!review.success) {
+                throw new Error(review.message);
+              }
+              result = review.request;
               break;
+            }
               
             case 'mark_present':
               result = await storage.updateAttendance(attendanceId, {
-                status: 'present'
+                status: 'present',
+                statusOverriddenBy: user.uid
               });
               break;
               
             case 'mark_absent':
               result = await storage.updateAttendance(attendanceId, {
-                status: 'absent'
+                status: 'absent',
+                statusOverriddenBy: user.uid
               });
               break;
               
@@ -2018,8 +2312,987 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       });
     } catch (error) {
-      console.error("Error performing bulk action:", error);
-      res.status(500).json({ message: "Failed to perform bulk action" });
+      console.error("Error performing bulk action:", error);
+      res.status(500).json({ message: "Failed to perform bulk action" });
+    }
+  });
+
+  // ===================== Attendance Regularization =====================
+
+  // List regularization requests - own, awaiting my review, or all (admin)
+  app.get("/api/attendance/regularizations", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { scope = "mine", status } = req.query;
+      const statusFilter = status && status !== "all" ? (status as string) : undefined;
+
+      if (scope === "mine") {
+        const requests = await storage.listAttendanceRegularizations({ userId: user.id, status: statusFilter });
+        return res.json(requests);
+      }
+
+      if (scope === "review") {
+        const isAdmin = user.role === "master_admin" || user.role === "admin";
+        const requests = await storage.listAttendanceRegularizations(
+          isAdmin ? { status: statusFilter } : { approverId: user.id, status: statusFilter }
+        );
+        // Admins also pick up requests from employees without a reporting manager
+        return res.json(requests.filter(r => r.userId !== user.id));
+      }
+
+      // Auto-closed days still waiting for the employee to raise a correction
+      if (scope === "flagged") {
+        const isAdmin = user.role === "master_admin" || user.role === "admin" || user.department === "hr";
+        const reportIds = isAdmin ? undefined : (await storage.getUsersByReportingManager(user.id)).map(report => report.id);
+        const records = await storage.listAttendanceRequiringRegularization(reportIds);
+        return res.json(records);
+      }
+
+      res.status(400).json({ message: "Invalid scope. Use 'mine', 'review' or 'flagged'" });
+    } catch (error) {
+      console.error("Error fetching attendance regularizations:", error);
+      res.status(500).json({ message: "Failed to fetch regularization requests" });
+    }
+  });
+
+  // Raise a regularization request against an attendance record
+  app.post("/api/attendance/regularizations", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { regularizationRequestTypes } = await import("@shared/schema");
+      const requestSchema = z.object({
+        attendanceId: z.string().min(1),
+        requestType: z.enum(regularizationRequestTypes),
+        requestedCheckInTime: z.coerce.date().optional(),
+        requestedCheckOutTime: z.coerce.date().optional(),
+        reason: z.string().min(10, "Reason must be at least 10 characters")
+      });
+      const requestData = requestSchema.parse(req.body);
+
+      const { AttendanceRegularizationService } = await import("./services/attendance-regularization-service");
+      const result = await AttendanceRegularizationService.submitRequest(user, requestData);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+
+      await storage.createActivityLog({
+        type: 'attendance',
+        title: 'Attendance Regularization Requested',
+        description: `${user.displayName} requested attendance regularization (${requestData.requestType.replace('_', ' ')})`,
+        entityId: result.regularization!.id,
+        entityType: 'attendance_regularization',
+        userId: user.id
+      });
+
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error creating attendance regularization:", error);
+      res.status(500).json({ message: "Failed to submit regularization request" });
+    }
+  });
+
+  // Approve or reject a regularization request
+  app.patch("/api/attendance/regularizations/:id/review", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { decision, reviewComment } = z.object({
+        decision: z.enum(["approved", "rejected"]),
+        reviewComment: z.string().optional()
+      }).parse(req.body);
+
+      const { AttendanceRegularizationService } = await import("./services/attendance-regularization-service");
+      const result = await AttendanceRegularizationService.reviewRequest(user, req.params.id, decision, reviewComment);
+      if (!result.success) {
+        const statusCode = result.message.includes("not authorized") ? 403
+          : result.message.includes("not found") ? 404 : 400;
+        return res.status(statusCode).json({ message: result.message });
+      }
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error reviewing attendance regularization:", error);
+      res.status(500).json({ message: "Failed to review regularization request" });
+    }
+  });
+
+  // ===================== Attendance Anomalies =====================
+
+  // Admin review queue of punches flagged by the anomaly analyzer
+  app.get("/api/attendance/anomalies", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || !["master_admin", "admin"].includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { status = "pending", startDate, endDate } = req.query;
+      const records = await storage.listFlaggedAttendance({
+        reviewStatus: status && status !== "all" ? (status as string) : undefined,
+        startDate: startDate ? new Date(startDate as string) : undefined,
+        endDate: endDate ? new Date(endDate as string) : undefined
+      });
+
+      const users = new Map<string, any>();
+      const enriched = [];
+      for (const record of records) {
+        if (!users.has(record.userId)) {
+          users.set(record.userId, await storage.getUser(record.userId));
+        }
+        const employee = users.get(record.userId);
+        enriched.push({
+          ...record,
+          userName: employee?.displayName || 'Unknown',
+          userDepartment: employee?.department || record.userDepartment || null
+        });
+      }
+
+      res.json(enriched);
+    } catch (error) {
+      console.error("Error fetching attendance anomalies:", error);
+      res.status(500).json({ message: "Failed to fetch attendance anomalies" });
+    }
+  });
+
+  // Clear a false positive or confirm a flagged record
+  app.patch("/api/attendance/:id/anomaly-review", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || !["master_admin", "admin"].includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { decision, reviewComment } = z.object({
+        decision: z.enum(["cleared", "confirmed"]),
+        reviewComment: z.string().optional()
+      }).parse(req.body);
+
+      const { AttendanceAnomalyService } = await import("./services/attendance-anomaly-service");
+      const result = await AttendanceAnomalyService.reviewAnomaly(user, req.params.id, decision, reviewComment);
+      if (!result.success) {
+        return res.status(result.message.includes("not found") ? 404 : 400).json({ message: result.message });
+      }
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error reviewing attendance anomaly:", error);
+      res.status(500).json({ message: "Failed to review attendance anomaly" });
+    }
+  });
+
+  // ===================== Overtime Requests =====================
+
+  // List overtime requests - own, or awaiting my review
+  app.get("/api/overtime-requests", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { scope = "mine", status } = req.query;
+      const statusFilter = status && status !== "all" ? (status as string) : undefined;
+
+      if (scope === "mine") {
+        const requests = await storage.listOvertimeRequests({ userId: user.id, status: statusFilter });
+        return res.json(requests);
+      }
+
+      if (scope === "review") {
+        const permissions = req.authenticatedUser.permissions || [];
+        const canReviewDepartment = user.role === "master_admin" || permissions.includes("approve.overtime.department");
+        if (!canReviewDepartment && !permissions.includes("approve.overtime.team")) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+
+        const requests = await storage.listOvertimeRequests(
+          canReviewDepartment ? { status: statusFilter } : { approverId: user.id, status: statusFilter }
+        );
+
+        // Department approvers only see their own department's requests
+        const { OvertimeRequestService } = await import("./services/overtime-request-service");
+        const requesters = new Map<string, any>();
+        const visible = [];
+        for (const request of requests) {
+          if (!requesters.has(request.userId)) {
+            requesters.set(request.userId, await storage.getUser(request.userId));
+          }
+          if (OvertimeRequestService.canReview(user, request, requesters.get(request.userId))) {
+            visible.push(request);
+          }
+        }
+        return res.json(visible);
+      }
+
+      res.status(400).json({ message: "Invalid scope. Use 'mine' or 'review'" });
+    } catch (error) {
+      console.error("Error fetching overtime requests:", error);
+      res.status(500).json({ message: "Failed to fetch overtime requests" });
+    }
+  });
+
+  // Raise a planned or post-facto overtime request
+  app.post("/api/overtime-requests", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { overtimeRequestTypes } = await import("@shared/schema");
+      const requestData = z.object({
+        requestType: z.enum(overtimeRequestTypes),
+        workDate: z.coerce.date().optional(),
+        attendanceId: z.string().optional(),
+        requestedHours: z.number().min(0.25).max(24),
+        otReason: z.string().min(10, "Reason must be at least 10 characters"),
+        otImageUrl: z.string().optional()
+      }).parse(req.body);
+
+      const { OvertimeRequestService } = await import("./services/overtime-request-service");
+      const result = await OvertimeRequestService.submitRequest(user, requestData);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+
+      await storage.createActivityLog({
+        type: 'attendance',
+        title: 'Overtime Requested',
+        description: `${user.displayName} requested ${result.request!.requestedHours}h ${requestData.requestType.replace('_', '-')} overtime`,
+        entityId: result.request!.id,
+        entityType: 'overtime_request',
+        userId: user.id
+      });
+
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error creating overtime request:", error);
+      res.status(500).json({ message: "Failed to submit overtime request" });
+    }
+  });
+
+  // Approve or reject an overtime request
+  app.patch("/api/overtime-requests/:id/review", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { decision, approvedHours, reviewComment } = z.object({
+        decision: z.enum(["approved", "rejected"]),
+        approvedHours: z.number().min(0).optional(),
+        reviewComment: z.string().optional()
+      }).parse(req.body);
+
+      const { OvertimeRequestService } = await import("./services/overtime-request-service");
+      const result = await OvertimeRequestService.reviewRequest(user, req.params.id, decision, { approvedHours, reviewComment });
+      if (!result.success) {
+        const statusCode = result.message.includes("not authorized") ? 403
+          : result.message.includes("not found") ? 404 : 400;
+        return res.status(statusCode).json({ message: result.message });
+      }
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error reviewing overtime request:", error);
+      res.status(500).json({ message: "Failed to review overtime request" });
+    }
+  });
+
+  // Permission hours (short leave) - own requests, or requests awaiting the reviewer
+  app.get("/api/permission-requests", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { scope = "mine", status } = req.query;
+      const statusFilter = status && status !== "all" ? (status as string) : undefined;
+
+      if (scope === "mine") {
+        const requests = await storage.listPermissionRequests({ userId: user.id, status: statusFilter });
+        return res.json(requests);
+      }
+
+      if (scope === "review") {
+        const isAdmin = user.role === "master_admin" || user.role === "admin";
+        const requests = await storage.listPermissionRequests(
+          isAdmin ? { status: statusFilter } : { approverId: user.id, status: statusFilter }
+        );
+        return res.json(requests.filter(r => r.userId !== user.id));
+      }
+
+      res.status(400).json({ message: "Invalid scope. Use 'mine' or 'review'" });
+    } catch (error) {
+      console.error("Error fetching permission requests:", error);
+      res.status(500).json({ message: "Failed to fetch permission requests" });
+    }
+  });
+
+  // Monthly permission allowance, used and remaining minutes
+  app.get("/api/permission-requests/allowance", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const date = req.query.date ? new Date(req.query.date as string) : new Date();
+      if (isNaN(date.getTime())) {
+        return res.status(400).json({ message: "Invalid date" });
+      }
+
+      const { PermissionHourService } = await import("./services/permission-hour-service");
+      res.json(await PermissionHourService.getAllowance(user, date));
+    } catch (error) {
+      console.error("Error fetching permission allowance:", error);
+      res.status(500).json({ message: "Failed to fetch permission allowance" });
+    }
+  });
+
+  // Request late-arrival or early-leave permission
+  app.post("/api/permission-requests", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { permissionRequestTypes } = await import("@shared/schema");
+      const requestData = z.object({
+        date: z.coerce.date(),
+        permissionType: z.enum(permissionRequestTypes),
+        minutes: z.number().int().min(15).max(240),
+        reason: z.string().min(10, "Reason must be at least 10 characters")
+      }).parse(req.body);
+
+      const { PermissionHourService } = await import("./services/permission-hour-service");
+      const result = await PermissionHourService.submitRequest(user, requestData);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+
+      await storage.createActivityLog({
+        type: 'attendance',
+        title: 'Permission Requested',
+        description: `${user.displayName} requested ${requestData.minutes} minutes ${requestData.permissionType.replace('_', ' ')} permission`,
+        entityId: result.request!.id,
+        entityType: 'permission_request',
+        userId: user.id
+      });
+
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error creating permission request:", error);
+      res.status(500).json({ message: "Failed to submit permission request" });
+    }
+  });
+
+  // Approve or reject a permission request
+  app.patch("/api/permission-requests/:id/review", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { decision, reviewComment } = z.object({
+        decision: z.enum(["approved", "rejected"]),
+        reviewComment: z.string().optional()
+      }).parse(req.body);
+
+      const { PermissionHourService } = await import("./services/permission-hour-service");
+      const result = await PermissionHourService.reviewRequest(user, req.params.id, decision, reviewComment);
+      if (!result.success) {
+        const statusCode = result.message.includes("not authorized") ? 403
+          : result.message.includes("not found") ? 404 : 400;
+        return res.status(statusCode).json({ message: result.message });
+      }
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error reviewing permission request:", error);
+      res.status(500).json({ message: "Failed to review permission request" });
+    }
+  });
+
+  // Withdraw a pending permission request
+  app.patch("/api/permission-requests/:id/cancel", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { PermissionHourService } = await import("./services/permission-hour-service");
+      const result = await PermissionHourService.cancelRequest(user, req.params.id);
+      if (!result.success) {
+        return res.status(result.message.includes("not found") ? 404 : 400).json({ message: result.message });
+      }
+
+      res.json(result);
+    } catch (error) {
+      console.error("Error cancelling permission request:", error);
+      res.status(500).json({ message: "Failed to cancel permission request" });
+    }
+  });
+
+  // Run end-of-day auto close-out on demand (backfills and previews)
+  app.post("/api/attendance/auto-close", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || user.role !== "master_admin") {
+        return res.status(403).json({ message: "Access denied - Master Admin only" });
+      }
+
+      const { startDate, endDate, department, dryRun } = z.object({
+        startDate: z.coerce.date().optional(),
+        endDate: z.coerce.date().optional(),
+        department: z.enum(departments).optional(),
+        dryRun: z.boolean().default(false)
+      }).parse(req.body);
+
+      const { AttendanceAutoCloseService } = await import("./services/attendance-auto-close-service");
+      const summary = await AttendanceAutoCloseService.runAutoClose({
+        startDate,
+        endDate: endDate || startDate,
+        department,
+        dryRun,
+        triggeredBy: user.id
+      });
+
+      res.json({
+        message: dryRun
+          ? `Preview: ${summary.closed} record(s) would be closed`
+          : `Auto close-out completed: ${summary.closed} record(s) closed`,
+        summary
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof Error && (error.message.includes("Date range") || error.message.includes("already in progress") || error.message.includes("Start date"))) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error running attendance auto close-out:", error);
+      res.status(500).json({ message: "Failed to run auto close-out" });
+    }
+  });
+
+  // Recalculate attendance after a timing or policy change - preview by default
+  app.post("/api/attendance/recalculate", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || user.role !== "master_admin") {
+        return res.status(403).json({ message: "Access denied - Master Admin only" });
+      }
+
+      const { startDate, endDate, department, dryRun, attendanceIds } = z.object({
+        startDate: z.coerce.date(),
+        endDate: z.coerce.date(),
+        department: z.enum(departments).optional(),
+        dryRun: z.boolean().default(true),
+        attendanceIds: z.array(z.string()).optional()
+      }).parse(req.body);
+
+      const { AttendanceRecalculationService } = await import("./services/attendance-recalculation-service");
+      const summary = await AttendanceRecalculationService.recalculate({
+        startDate,
+        endDate,
+        department,
+        dryRun,
+        attendanceIds,
+        triggeredBy: user.id
+      });
+
+      res.json({
+        message: dryRun
+          ? `Preview: ${summary.changed} of ${summary.scanned} record(s) would change`
+          : `Recalculation completed: ${summary.changed} record(s) updated`,
+        summary
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof Error && (error.message.includes("Date range") || error.message.includes("already in progress") || error.message.includes("Start date"))) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error recalculating attendance:", error);
+      res.status(500).json({ message: "Failed to recalculate attendance" });
+    }
+  });
+
+  // ===================== Shift Definitions & Weekly Rosters =====================
+
+  app.get("/api/shifts", verifyAuth, async (req, res) => {
+    try {
+      const { department, includeInactive } = req.query;
+      const shifts = await storage.listShifts({
+        department: department as string | undefined,
+        isActive: includeInactive === "true" ? undefined : true
+      });
+      res.json(shifts);
+    } catch (error) {
+      console.error("Error fetching shifts:", error);
+      res.status(500).json({ message: "Failed to fetch shifts" });
+    }
+  });
+
+  app.post("/api/shifts", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || !["master_admin", "admin"].includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { insertShiftSchema } = await import("@shared/schema");
+      const shiftData = insertShiftSchema.parse({ ...req.body, createdBy: user.id });
+      const shift = await storage.createShift(shiftData);
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: 'shift_created',
+        entityType: 'shift',
+        entityId: shift.id,
+        changes: shiftData,
+        department: user.department,
+        designation: user.designation
+      });
+
+      res.status(201).json(shift);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error creating shift:", error);
+      res.status(500).json({ message: "Failed to create shift" });
+    }
+  });
+
+  app.patch("/api/shifts/:id", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || !["master_admin", "admin"].includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const existing = await storage.getShift(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Shift not found" });
+      }
+
+      const { insertShiftSchema } = await import("@shared/schema");
+      const shiftData = insertShiftSchema.partial().omit({ createdBy: true }).parse(req.body);
+      const shift = await storage.updateShift(req.params.id, shiftData);
+
+      const { ShiftRosterService } = await import("./services/shift-roster-service");
+      ShiftRosterService.invalidateShift(req.params.id);
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: 'shift_updated',
+        entityType: 'shift',
+        entityId: shift.id,
+        changes: shiftData,
+        department: user.department,
+        designation: user.designation
+      });
+
+      res.json(shift);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error updating shift:", error);
+      res.status(500).json({ message: "Failed to update shift" });
+    }
+  });
+
+  app.delete("/api/shifts/:id", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || !["master_admin", "admin"].includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const existing = await storage.getShift(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Shift not found" });
+      }
+
+      await storage.deleteShift(req.params.id);
+      const { ShiftRosterService } = await import("./services/shift-roster-service");
+      ShiftRosterService.invalidateShift(req.params.id);
+
+      res.json({ message: "Shift deactivated successfully" });
+    } catch (error) {
+      console.error("Error deleting shift:", error);
+      res.status(500).json({ message: "Failed to delete shift" });
+    }
+  });
+
+  // Weekly rosters - admins see everyone, employees only their own week
+  app.get("/api/shift-rosters", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { ShiftRosterService } = await import("./services/shift-roster-service");
+      const weekStart = ShiftRosterService.getWeekStart(
+        req.query.weekStart ? new Date(req.query.weekStart as string) : new Date()
+      );
+
+      if (!["master_admin", "admin"].includes(user.role)) {
+        const roster = await storage.getShiftRoster(user.id, weekStart);
+        return res.json(roster ? [roster] : []);
+      }
+
+      const rosters = await storage.listShiftRosters(weekStart);
+      res.json(rosters);
+    } catch (error) {
+      console.error("Error fetching shift rosters:", error);
+      res.status(500).json({ message: "Failed to fetch shift rosters" });
+    }
+  });
+
+  app.put("/api/shift-rosters", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || !["master_admin", "admin"].includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { insertShiftRosterSchema } = await import("@shared/schema");
+      const rosterData = insertShiftRosterSchema.parse({
+        ...req.body,
+        weekStartDate: req.body.weekStartDate ? new Date(req.body.weekStartDate) : undefined,
+        createdBy: user.id
+      });
+
+      const { ShiftRosterService } = await import("./services/shift-roster-service");
+      const result = await ShiftRosterService.saveRoster(rosterData, user);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+
+      res.json(result.roster);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error saving shift roster:", error);
+      res.status(500).json({ message: "Failed to save shift roster" });
+    }
+  });
+
+  // ===================== Holiday Calendar =====================
+
+  app.get("/api/holidays", verifyAuth, async (req, res) => {
+    try {
+      const year = req.query.year ? parseInt(req.query.year as string) : new Date().getFullYear();
+      if (isNaN(year)) {
+        return res.status(400).json({ message: "Invalid year" });
+      }
+
+      const holidays = await storage.listHolidays({
+        startDate: new Date(year, 0, 1),
+        endDate: new Date(year, 11, 31),
+        type: req.query.type as string | undefined,
+        isActive: req.query.includeInactive === "true" ? undefined : true
+      });
+      res.json(holidays);
+    } catch (error) {
+      console.error("Error fetching holidays:", error);
+      res.status(500).json({ message: "Failed to fetch holidays" });
+    }
+  });
+
+  app.post("/api/holidays", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || !["master_admin", "admin"].includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { insertHolidaySchema } = await import("@shared/schema");
+      const holidayData = insertHolidaySchema.parse({
+        ...req.body,
+        date: req.body.date ? new Date(req.body.date) : undefined,
+        createdBy: user.id
+      });
+
+      const sameDay = await storage.listHolidays({ startDate: holidayData.date, endDate: holidayData.date, isActive: true });
+      if (sameDay.some(h => h.name.toLowerCase() === holidayData.name.toLowerCase())) {
+        return res.status(400).json({ message: `${holidayData.name} already exists on this date` });
+      }
+
+      const holiday = await storage.createHoliday(holidayData);
+      const { HolidayService } = await import("./services/holiday-service");
+      HolidayService.invalidateCache();
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: 'holiday_created',
+        entityType: 'holiday',
+        entityId: holiday.id,
+        changes: holidayData,
+        department: user.department,
+        designation: user.designation
+      });
+
+      res.status(201).json(holiday);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error creating holiday:", error);
+      res.status(500).json({ message: "Failed to create holiday" });
+    }
+  });
+
+  app.patch("/api/holidays/:id", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || !["master_admin", "admin"].includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const existing = await storage.getHoliday(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Holiday not found" });
+      }
+
+      const { insertHolidaySchema } = await import("@shared/schema");
+      const holidayData = insertHolidaySchema.partial().omit({ createdBy: true }).parse({
+        ...req.body,
+        ...(req.body.date && { date: new Date(req.body.date) })
+      });
+      const holiday = await storage.updateHoliday(req.params.id, holidayData);
+      const { HolidayService } = await import("./services/holiday-service");
+      HolidayService.invalidateCache();
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: 'holiday_updated',
+        entityType: 'holiday',
+        entityId: holiday.id,
+        changes: { before: existing, after: holidayData },
+        department: user.department,
+        designation: user.designation
+      });
+
+      res.json(holiday);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error updating holiday:", error);
+      res.status(500).json({ message: "Failed to update holiday" });
+    }
+  });
+
+  app.delete("/api/holidays/:id", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || !["master_admin", "admin"].includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const existing = await storage.getHoliday(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Holiday not found" });
+      }
+
+      await storage.deleteHoliday(req.params.id);
+      const { HolidayService } = await import("./services/holiday-service");
+      HolidayService.invalidateCache();
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: 'holiday_deleted',
+        entityType: 'holiday',
+        entityId: req.params.id,
+        changes: existing,
+        department: user.department,
+        designation: user.designation
+      });
+
+      res.json({ message: "Holiday deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting holiday:", error);
+      res.status(500).json({ message: "Failed to delete holiday" });
+    }
+  });
+
+  // ===================== Attendance Break Punches =====================
+
+  app.post("/api/attendance/break-start", createRateLimitMiddleware(attendanceRateLimiter), verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const { AttendanceBreakService } = await import("./services/attendance-break-service");
+      const result = await AttendanceBreakService.startBreak(user.id, req.body?.reason);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+
+      await storage.createActivityLog({
+        type: 'attendance',
+        title: 'Break Started',
+        description: `${user.displayName} started a break${req.body?.reason ? ` (${req.body.reason})` : ''}`,
+        entityId: result.attendance!.id,
+        entityType: 'attendance',
+        userId: user.id
+      });
+
+      res.json(result);
+    } catch (error) {
+      console.error("Error starting break:", error);
+      res.status(500).json({ message: "Failed to start break" });
+    }
+  });
+
+  app.post("/api/attendance/break-end", createRateLimitMiddleware(attendanceRateLimiter), verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const { AttendanceBreakService } = await import("./services/attendance-break-service");
+      const result = await AttendanceBreakService.endBreak(user.id);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+
+      await storage.createActivityLog({
+        type: 'attendance',
+        title: 'Break Ended',
+        description: `${user.displayName} ended a break - ${result.summary!.totalBreakMinutes} min of breaks today${result.summary!.excessBreakMinutes > 0 ? ` (${result.summary!.excessBreakMinutes} min over allowance)` : ''}`,
+        entityId: result.attendance!.id,
+        entityType: 'attendance',
+        userId: user.id
+      });
+
+      res.json(result);
+    } catch (error) {
+      console.error("Error ending break:", error);
+      res.status(500).json({ message: "Failed to end break" });
     }
   });
 
@@ -3319,12 +4592,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Leaves
   app.get("/api/leaves", verifyAuth, async (req, res) => {
     try {
-      const { userId, status } = req.query;
+      const { userId, status, scope } = req.query;
       const requestingUser = await storage.getUser(req.user.uid);
       if (!requestingUser) {
         return res.status(403).json({ message: "Access denied" });
       }
 
+      // Leaves waiting on the requesting user's decision at the current approval step
+      if (scope === "review") {
+        const { LeaveApprovalService } = await import("./services/leave-approval-service");
+        const { LeaveCalendarService } = await import("./services/leave-calendar-service");
+        const leaves = await LeaveApprovalService.listAwaitingReview(requestingUser);
+        const withCoverage = await Promise.all(leaves.map(async leave => ({
+          ...leave,
+          coverageWarnings: await LeaveCalendarService.checkLeaveCoverage(leave)
+        })));
+        return res.json(withCoverage);
+      }
+
       if (userId) {
         if (
           requestingUser.role !== "master_admin" &&
@@ -3337,97 +4622,536 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.json(leaves);
       }
 
-      if (status === "pending") {
-        if (
-          requestingUser.role !== "master_admin" &&
-          requestingUser.role !== "admin" &&
-          requestingUser.department !== "hr"
-        ) {
-          return res.status(403).json({ message: "Access denied" });
-        }
-        const leaves = await storage.listPendingLeaves();
-        return res.json(leaves);
+      if (status === "pending") {
+        if (
+          requestingUser.role !== "master_admin" &&
+          requestingUser.role !== "admin" &&
+          requestingUser.department !== "hr"
+        ) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+        const leaves = await storage.listPendingLeaves();
+        return res.json(leaves);
+      }
+
+      res.status(400).json({ message: "Missing required query parameters" });
+    } catch (error) {
+      console.error("Error fetching leaves:", error);
+      res.status(500).json({ message: "Failed to fetch leaves" });
+    }
+  });
+
+  // Who is on leave in the viewer's team or a department, with coverage warnings
+  app.get("/api/leaves/calendar", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { startDate, endDate, scope, department } = z.object({
+        startDate: z.coerce.date(),
+        endDate: z.coerce.date(),
+        scope: z.enum(["team", "department"]).default("team"),
+        department: z.string().optional()
+      }).refine(range => range.endDate >= range.startDate, "End date must be on or after start date")
+        .parse(req.query);
+
+      const { LeaveCalendarService } = await import("./services/leave-calendar-service");
+      const rangeDays = (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24);
+      if (rangeDays > LeaveCalendarService.MAX_RANGE_DAYS) {
+        return res.status(400).json({ message: `Calendar range cannot exceed ${LeaveCalendarService.MAX_RANGE_DAYS} days` });
+      }
+
+      const calendarDepartment = department || user.department;
+      if (scope === "department" && (!calendarDepartment || !LeaveCalendarService.canViewDepartment(user, calendarDepartment))) {
+        return res.status(403).json({ message: "Access denied - department calendar needs department-level leave approval" });
+      }
+
+      endDate.setHours(23, 59, 59, 999);
+      const calendar = await LeaveCalendarService.getCalendar(user, scope, startDate, endDate, calendarDepartment || undefined);
+      res.json(calendar);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error fetching leave calendar:", error);
+      res.status(500).json({ message: "Failed to fetch leave calendar" });
+    }
+  });
+
+  app.get("/api/leaves/:id", verifyAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user.uid);
+      const leave = await storage.getLeave(req.params.id);
+      if (!leave) {
+        return res.status(404).json({ message: "Leave record not found" });
+      }
+      if (!user) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (
+        user.role !== "master_admin" &&
+        user.role !== "admin" &&
+        user.department !== "hr" &&
+        leave.userId !== user.id
+      ) {
+        const { LeaveApprovalService } = await import("./services/leave-approval-service");
+        if (!LeaveApprovalService.canReview(user, leave, await storage.getUser(leave.userId))) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+      }
+      res.json(leave);
+    } catch (error) {
+      console.error("Error fetching leave:", error);
+      res.status(500).json({ message: "Failed to fetch leave" });
+    }
+  });
+
+  app.post("/api/leaves", verifyAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user.uid);
+      if (!user) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      const leaveData = insertLeaveSchema.pick({
+        leaveType: true,
+        startDate: true,
+        endDate: true,
+        durationType: true,
+        session: true,
+        hours: true,
+        reason: true
+      }).parse(req.body);
+      const { LeaveBalanceService } = await import("./services/leave-balance-service");
+      const result = await LeaveBalanceService.applyLeave(user, leaveData);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      res.status(201).json({ ...result.leave, coverageWarnings: result.coverageWarnings || [] });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error creating leave:", error);
+      res.status(500).json({ message: "Failed to create leave" });
+    }
+  });
+
+  app.patch("/api/leaves/:id", verifyAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user.uid);
+      const leave = await storage.getLeave(req.params.id);
+      if (!leave) {
+        return res.status(404).json({ message: "Leave record not found" });
+      }
+      if (!user || leave.userId !== user.id) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+      if (leave.status !== "pending") {
+        return res.status(400).json({ message: `Leave has already been ${leave.status}` });
+      }
+      // Status changes go through the approval chain, and dates and type are fixed once the
+      // balance has been charged - the owner can only correct the reason
+      const leaveData = insertLeaveSchema.pick({ reason: true }).parse(req.body);
+      const updatedLeave = await storage.updateLeave(req.params.id, leaveData);
+      res.json(updatedLeave);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error updating leave:", error);
+      res.status(500).json({ message: "Failed to update leave" });
+    }
+  });
+
+  // Approve or reject the current step of a leave request
+  app.patch("/api/leaves/:id/review", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { decision, comment } = z.object({
+        decision: z.enum(["approved", "rejected"]),
+        comment: z.string().optional()
+      }).parse(req.body);
+
+      const { LeaveApprovalService } = await import("./services/leave-approval-service");
+      const result = await LeaveApprovalService.reviewLeave(user, req.params.id, decision, comment);
+      if (!result.success) {
+        const statusCode = result.message.includes("not authorized") ? 403
+          : result.message.includes("not found") ? 404 : 400;
+        return res.status(statusCode).json({ message: result.message });
+      }
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error reviewing leave:", error);
+      res.status(500).json({ message: "Failed to review leave request" });
+    }
+  });
+
+  // Write attendance for approved leaves in a date range - backfill and repair before payroll
+  app.post("/api/leaves/reconcile", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || (user.role !== "master_admin" && user.department !== "hr")) {
+        return res.status(403).json({ message: "Access denied - HR or Master Admin only" });
+      }
+
+      const { startDate, endDate } = z.object({
+        startDate: z.coerce.date(),
+        endDate: z.coerce.date()
+      }).refine(range => range.endDate >= range.startDate, "End date must be on or after start date")
+        .parse(req.body);
+
+      const { LeaveAttendanceService } = await import("./services/leave-attendance-service");
+      const rangeDays = (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24);
+      if (rangeDays > LeaveAttendanceService.MAX_RANGE_DAYS) {
+        return res.status(400).json({ message: `Reconciliation range cannot exceed ${LeaveAttendanceService.MAX_RANGE_DAYS} days` });
+      }
+      const summary = await LeaveAttendanceService.reconcile(startDate, endDate);
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: 'leave_attendance_reconciled',
+        entityType: 'attendance',
+        entityId: `${startDate.toISOString().split('T')[0]}_${endDate.toISOString().split('T')[0]}`,
+        changes: summary,
+        department: user.department,
+        designation: user.designation
+      });
+
+      res.json({
+        ...summary,
+        message: `${summary.created} leave days recorded, ${summary.linked} linked, ${summary.conflicts.length} conflicts across ${summary.leaves} leaves`
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error reconciling leave attendance:", error);
+      res.status(500).json({ message: "Failed to reconcile leave attendance" });
+    }
+  });
+
+  // Leave types - entitlements, accrual and year-end rules
+  app.get("/api/leave-types", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      const { LeaveBalanceService } = await import("./services/leave-balance-service");
+      res.json(await LeaveBalanceService.getLeaveTypes());
+    } catch (error) {
+      console.error("Error fetching leave types:", error);
+      res.status(500).json({ message: "Failed to fetch leave types" });
+    }
+  });
+
+  app.put("/api/leave-types/:code", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || user.role !== "master_admin") {
+        return res.status(403).json({ message: "Access denied - Master Admin only" });
+      }
+
+      const { insertLeaveTypeSchema } = await import("@shared/schema");
+      const leaveTypeData = insertLeaveTypeSchema.parse({ ...req.body, code: req.params.code, updatedBy: user.id });
+
+      const { LeaveBalanceService } = await import("./services/leave-balance-service");
+      const leaveType = await LeaveBalanceService.saveLeaveType(leaveTypeData, user);
+      res.json(leaveType);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error saving leave type:", error);
+      res.status(500).json({ message: "Failed to save leave type" });
+    }
+  });
+
+  // Leave coverage rules - minimum headcount per department and designation
+  app.get("/api/leave-coverage-rules", verifyAuth, async (req, res) => {
+    try {
+      const { department } = req.query;
+      const rules = await storage.listLeaveCoverageRules({ department: department as string | undefined });
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching leave coverage rules:", error);
+      res.status(500).json({ message: "Failed to fetch leave coverage rules" });
+    }
+  });
+
+  app.post("/api/leave-coverage-rules", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || (user.role !== "master_admin" && user.department !== "hr")) {
+        return res.status(403).json({ message: "Access denied - HR or Master Admin only" });
+      }
+
+      const { insertLeaveCoverageRuleSchema } = await import("@shared/schema");
+      const ruleData = insertLeaveCoverageRuleSchema.parse({ ...req.body, createdBy: user.id });
+      const rule = await storage.createLeaveCoverageRule(ruleData);
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: 'leave_coverage_rule_created',
+        entityType: 'leave_coverage_rule',
+        entityId: rule.id,
+        changes: ruleData,
+        department: user.department,
+        designation: user.designation
+      });
+
+      res.status(201).json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error creating leave coverage rule:", error);
+      res.status(500).json({ message: "Failed to create leave coverage rule" });
+    }
+  });
+
+  app.patch("/api/leave-coverage-rules/:id", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || (user.role !== "master_admin" && user.department !== "hr")) {
+        return res.status(403).json({ message: "Access denied - HR or Master Admin only" });
+      }
+
+      const existing = await storage.getLeaveCoverageRule(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Leave coverage rule not found" });
+      }
+
+      const { insertLeaveCoverageRuleSchema } = await import("@shared/schema");
+      const ruleData = insertLeaveCoverageRuleSchema.partial().omit({ createdBy: true }).parse(req.body);
+      const rule = await storage.updateLeaveCoverageRule(req.params.id, ruleData);
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: 'leave_coverage_rule_updated',
+        entityType: 'leave_coverage_rule',
+        entityId: rule.id,
+        changes: ruleData,
+        department: user.department,
+        designation: user.designation
+      });
+
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error updating leave coverage rule:", error);
+      res.status(500).json({ message: "Failed to update leave coverage rule" });
+    }
+  });
+
+  app.delete("/api/leave-coverage-rules/:id", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || (user.role !== "master_admin" && user.department !== "hr")) {
+        return res.status(403).json({ message: "Access denied - HR or Master Admin only" });
+      }
+
+      const existing = await storage.getLeaveCoverageRule(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Leave coverage rule not found" });
+      }
+
+      await storage.deleteLeaveCoverageRule(req.params.id);
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: 'leave_coverage_rule_deleted',
+        entityType: 'leave_coverage_rule',
+        entityId: req.params.id,
+        changes: existing,
+        department: user.department,
+        designation: user.designation
+      });
+
+      res.json({ message: "Leave coverage rule deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting leave coverage rule:", error);
+      res.status(500).json({ message: "Failed to delete leave coverage rule" });
+    }
+  });
+
+  // Leave balances - own balances, or any employee's for HR and admins
+  app.get("/api/leave-balances", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const { userId, year } = z.object({
+        userId: z.string().optional(),
+        year: z.coerce.number().int().min(2000).max(2100).default(new Date().getFullYear())
+      }).parse(req.query);
+
+      const employeeId = userId || user.id;
+      if (
+        employeeId !== user.id &&
+        user.role !== "master_admin" &&
+        user.role !== "admin" &&
+        user.department !== "hr"
+      ) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const employee = employeeId === user.id ? user : await storage.getUser(employeeId);
+      if (!employee) {
+        return res.status(404).json({ message: "Employee not found" });
       }
 
-      res.status(400).json({ message: "Missing required query parameters" });
+      const { LeaveBalanceService } = await import("./services/leave-balance-service");
+      res.json(await LeaveBalanceService.getBalanceSummary(employee, year));
     } catch (error) {
-      console.error("Error fetching leaves:", error);
-      res.status(500).json({ message: "Failed to fetch leaves" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error fetching leave balances:", error);
+      res.status(500).json({ message: "Failed to fetch leave balances" });
     }
   });
 
-  app.get("/api/leaves/:id", verifyAuth, async (req, res) => {
+  app.get("/api/leave-balances/ledger", verifyAuth, async (req, res) => {
     try {
-      const user = await storage.getUser(req.user.uid);
-      const leave = await storage.getLeave(req.params.id);
-      if (!leave) {
-        return res.status(404).json({ message: "Leave record not found" });
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user) {
+        return res.status(403).json({ message: "Access denied" });
       }
+
+      const { leaveTypeCodes } = await import("@shared/schema");
+      const { userId, year, leaveType } = z.object({
+        userId: z.string().optional(),
+        year: z.coerce.number().int().min(2000).max(2100).default(new Date().getFullYear()),
+        leaveType: z.enum(leaveTypeCodes).optional()
+      }).parse(req.query);
+
+      const employeeId = userId || user.id;
       if (
-        !user ||
-        (user.role !== "master_admin" &&
-          user.role !== "admin" &&
-          user.department !== "hr" &&
-          leave.userId !== user.id)
+        employeeId !== user.id &&
+        user.role !== "master_admin" &&
+        user.role !== "admin" &&
+        user.department !== "hr"
       ) {
         return res.status(403).json({ message: "Access denied" });
       }
-      res.json(leave);
+
+      const entries = await storage.listLeaveLedgerEntries({ userId: employeeId, year, leaveType });
+      res.json(entries);
     } catch (error) {
-      console.error("Error fetching leave:", error);
-      res.status(500).json({ message: "Failed to fetch leave" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error fetching leave ledger:", error);
+      res.status(500).json({ message: "Failed to fetch leave ledger" });
     }
   });
 
-  app.post("/api/leaves", verifyAuth, async (req, res) => {
+  app.post("/api/leave-balances/adjustments", verifyAuth, async (req, res) => {
     try {
-      const user = await storage.getUser(req.user.uid);
-      if (!user) {
-        return res.status(403).json({ message: "Access denied" });
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
       }
-      const leaveData = insertLeaveSchema.parse({
-        ...req.body,
-        userId: user.id,
-      });
-      const leave = await storage.createLeave(leaveData);
-      res.status(201).json(leave);
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || (user.role !== "master_admin" && user.department !== "hr")) {
+        return res.status(403).json({ message: "Access denied - HR or Master Admin only" });
+      }
+
+      const { leaveTypeCodes } = await import("@shared/schema");
+      const adjustment = z.object({
+        userId: z.string(),
+        leaveType: z.enum(leaveTypeCodes),
+        year: z.number().int().min(2000).max(2100),
+        days: z.number().refine(days => days !== 0, "Days cannot be zero"),
+        note: z.string().min(5, "Note must be at least 5 characters")
+      }).parse(req.body);
+
+      const { LeaveBalanceService } = await import("./services/leave-balance-service");
+      const result = await LeaveBalanceService.adjustBalance(user, adjustment);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      res.status(201).json(result);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ errors: error.errors });
       }
-      console.error("Error creating leave:", error);
-      res.status(500).json({ message: "Failed to create leave" });
+      console.error("Error adjusting leave balance:", error);
+      res.status(500).json({ message: "Failed to adjust leave balance" });
     }
   });
 
-  app.patch("/api/leaves/:id", verifyAuth, async (req, res) => {
+  app.post("/api/leave-balances/encashments", verifyAuth, async (req, res) => {
     try {
-      const user = await storage.getUser(req.user.uid);
-      const leave = await storage.getLeave(req.params.id);
-      if (!leave) {
-        return res.status(404).json({ message: "Leave record not found" });
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
       }
-      if (
-        !user ||
-        (user.role !== "master_admin" &&
-          user.role !== "admin" &&
-          user.department !== "hr" &&
-          leave.userId !== user.id)
-      ) {
-        return res.status(403).json({ message: "Access denied" });
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || user.role !== "master_admin") {
+        return res.status(403).json({ message: "Access denied - Master Admin only" });
       }
-      const leaveData = insertLeaveSchema.partial().parse(req.body);
-      const updatedLeave = await storage.updateLeave(req.params.id, leaveData);
-      if (!updatedLeave) {
-        return res.status(404).json({ message: "Leave record not found" });
+
+      const { leaveTypeCodes } = await import("@shared/schema");
+      const encashment = z.object({
+        userId: z.string(),
+        leaveType: z.enum(leaveTypeCodes),
+        year: z.number().int().min(2000).max(2100),
+        days: z.number().positive()
+      }).parse(req.body);
+
+      const { LeaveBalanceService } = await import("./services/leave-balance-service");
+      const result = await LeaveBalanceService.encashLeave(user, encashment);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
       }
-      res.json(updatedLeave);
+      res.status(201).json(result);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ errors: error.errors });
       }
-      console.error("Error updating leave:", error);
-      res.status(500).json({ message: "Failed to update leave" });
+      console.error("Error encashing leave:", error);
+      res.status(500).json({ message: "Failed to encash leave" });
     }
   });
 
@@ -4402,6 +6126,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Location accuracy dashboard - persisted check-in validations aggregated by office, device and validation type
+  app.get("/api/attendance/location-analytics", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || (user.role !== "master_admin" && user.role !== "admin")) {
+        return res.status(403).json({ message: "Access denied - Admin privileges required" });
+      }
+
+      const now = new Date();
+      const { startDate, endDate, officeLocationId } = z.object({
+        startDate: z.coerce.date().default(new Date(now.getFullYear(), now.getMonth(), now.getDate() - 29)),
+        endDate: z.coerce.date().default(now),
+        officeLocationId: z.string().optional()
+      }).parse(req.query);
+
+      const { LocationAnalyticsService } = await import("./services/location-analytics-service");
+      const dashboard = await LocationAnalyticsService.getDashboard(startDate, endDate, officeLocationId);
+      res.json(dashboard);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      if (error instanceof Error && (error.message.includes("Date range") || error.message.includes("Start date"))) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error building location analytics:", error);
+      res.status(500).json({ message: "Failed to load location analytics" });
+    }
+  });
+
   // Enterprise Attendance Analytics API
   app.get("/api/attendance/analytics", verifyAuth, async (req, res) => {
     try {
@@ -4953,28 +6710,91 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         // FIXED: Enhanced status classification - include all working statuses
         const validWorkingStatuses = ['present', 'late', 'overtime', 'half_day', 'early_checkout'];
-        const presentDays = attendanceRecords.filter(record => {
-          const isValidStatus = validWorkingStatuses.includes(record.status);
-          if (isValidStatus) {
-            console.log(`PAYROLL_PROCESSING: Counting as present day - Date: ${new Date(record.date).toDateString()}, Status: ${record.status}`);
-          }
-          return isValidStatus;
-        }).length;
+        // Days the auto-close policy left open for correction are unpaid until a regularization is approved
+        const pendingRegularization = attendanceRecords.filter(record => record.requiresRegularization);
+        if (pendingRegularization.length > 0) {
+          console.log(`PAYROLL_PROCESSING: ${pendingRegularization.length} days awaiting regularization not counted:`,
+            pendingRegularization.map(record => new Date(record.date).toDateString()));
+        }
+        // A half day counts as half a present day, the same as daysWorked on the muster roll
+        const presentDays = attendanceRecords.reduce((days, record) => {
+          const isValidStatus = validWorkingStatuses.includes(record.status) && !record.requiresRegularization;
+          if (!isValidStatus) return days;
+          console.log(`PAYROLL_PROCESSING: Counting as present day - Date: ${new Date(record.date).toDateString()}, Status: ${record.status}`);
+          return days + (record.status === 'half_day' ? 0.5 : 1);
+        }, 0);
         
         console.log(`PAYROLL_PROCESSING: Calculated ${presentDays} present days out of ${attendanceRecords.length} attendance records`);
         
+        // Paid holidays the employee did not work count as paid days (unless the attendance policy marks holidays unpaid)
+        let paidHolidayDays = 0;
+        const { AttendancePolicyService } = await import("./services/attendance-policy-service");
+        const attendancePolicy = await AttendancePolicyService.resolveForUser(user);
+        if (attendancePolicy.holidayPolicy !== 'unpaid') {
+          const { HolidayService } = await import("./services/holiday-service");
+          const { MusterRollService } = await import("./services/muster-roll-service");
+          // Same weekly offs as the muster roll and leave counting, so a holiday marked H there is paid here
+          const paidHolidays = await HolidayService.countPaidHolidays({
+            startDate: new Date(year, month - 1, 1),
+            endDate: new Date(year, month, 0),
+            weekendDays: await MusterRollService.getWeeklyOffDays(user.department || null),
+            workedDates: new Set(attendanceRecords
+              .filter(record => validWorkingStatuses.includes(record.status) && !record.requiresRegularization)
+              .map(record => new Date(record.date).toDateString())),
+            officeLocationIds: Array.from(new Set(attendanceRecords
+              .map(record => record.detectedOfficeId)
+              .filter((id): id is string => !!id)))
+          });
+          paidHolidayDays = paidHolidays.count;
+          console.log(`PAYROLL_PROCESSING: ${paidHolidayDays} paid holiday days:`, paidHolidays.holidays.map(h => h.name));
+        }
+
+        // Days on approved leave are paid when the leave type is; unpaid leave stays a loss of pay
+        const { LeaveBalanceService } = await import("./services/leave-balance-service");
+        const unpaidLeaveTypes = new Set((await LeaveBalanceService.getLeaveTypes())
+          .filter(type => !type.isPaid)
+          .map(type => type.code as string));
+        const isPaidLeave = (leave: { leaveType?: string | null }) => !(leave.leaveType && unpaidLeaveTypes.has(leave.leaveType));
+        const fullLeaveDays = attendanceRecords.filter(record => record.status === 'leave' && isPaidLeave(record)).length;
+        // Half-day and hourly leave are paid from the approved leaves themselves, since the employee may
+        // not have punched that day at all. A day is never paid past one: the leave tops up what was worked.
+        // Hourly leave carries the fraction of the day charged to the balance.
+        const workedCredit = new Map<string, number>();
+        attendanceRecords
+          .filter(record => validWorkingStatuses.includes(record.status) && !record.requiresRegularization)
+          .forEach(record => workedCredit.set(new Date(record.date).toDateString(), record.status === 'half_day' ? 0.5 : 1));
+        const partialLeaveDays = (await storage.listLeavesByUser(user.id))
+          .filter(leave => leave.status === 'approved' && (leave.durationType === 'half_day' || leave.durationType === 'hourly') &&
+            isPaidLeave(leave) &&
+            leave.startDate.getFullYear() === year && leave.startDate.getMonth() + 1 === month)
+          .reduce((days, leave) => {
+            const dateKey = leave.startDate.toDateString();
+            const credit = workedCredit.get(dateKey) || 0;
+            const paid = Math.max(0, Math.min(leave.days ?? (leave.durationType === 'half_day' ? 0.5 : 0), 1 - credit));
+            workedCredit.set(dateKey, credit + paid);
+            return days + paid;
+          }, 0);
+        const paidLeaveDays = fullLeaveDays + partialLeaveDays;
+        console.log(`PAYROLL_PROCESSING: ${paidLeaveDays} paid leave days`);
+
+        const payableDays = presentDays + paidHolidayDays + paidLeaveDays;
+        
         // Calculate month days and overtime from attendance
         const monthDays = new Date(year, month, 0).getDate(); // Actual days in month
-        const totalOvertimeHours = attendanceRecords.reduce((sum, record) => 
-          sum + (record.overtimeHours || 0), 0
-        );
+        // Only approved overtime is paid; unapproved hours stay in recordedOvertimeHours
+        const totalOvertimeHours = attendanceRecords
+          .filter(record => record.overtimeApproved)
+          .reduce((sum, record) => sum + (record.overtimeHours || 0), 0);
+        const hourlyRate = totalFixedSalary /
+          ((settings?.standardWorkingDays || 26) * (settings?.standardWorkingHours || 8));
+        const overtimePay = totalOvertimeHours * hourlyRate * (salaryStructure.overtimeRate || 1.5);
         
         const perDaySalary = totalFixedSalary / monthDays;
         
         // Calculate earned amounts based on attendance
-        const earnedBasic = (fixedBasic / monthDays) * presentDays;
-        const earnedHRA = (fixedHRA / monthDays) * presentDays;
-        const earnedConveyance = (fixedConveyance / monthDays) * presentDays;
+        const earnedBasic = (fixedBasic / monthDays) * payableDays;
+        const earnedHRA = (fixedHRA / monthDays) * payableDays;
+        const earnedConveyance = (fixedConveyance / monthDays) * payableDays;
         
         // FIXED: Calculate dynamic earnings from salary structure
         const dynamicEarnings = salaryStructure.dynamicEarnings || {};
@@ -4982,16 +6802,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         Object.entries(dynamicEarnings).forEach(([key, value]) => {
           if (typeof value === 'number' && value > 0) {
-            // Pro-rate dynamic earnings based on present days
-            const earnedAmount = (value / monthDays) * presentDays;
+            // Pro-rate dynamic earnings based on payable days
+            const earnedAmount = (value / monthDays) * payableDays;
             dynamicEarnings[key] = Math.round(earnedAmount);
             totalDynamicEarnings += earnedAmount;
             console.log(`PAYROLL_PROCESSING: Dynamic earning ${key}: ₹${value} -> ₹${Math.round(earnedAmount)} (pro-rated)`);
           }
         });
         
-        // Calculate gross salary including dynamic earnings
-        const grossSalaryAmount = earnedBasic + earnedHRA + earnedConveyance + totalDynamicEarnings;
+        // Calculate gross salary including dynamic earnings and approved overtime
+        const grossSalaryAmount = earnedBasic + earnedHRA + earnedConveyance + totalDynamicEarnings + overtimePay;
         
         // Calculate statutory deductions
         // FIXED: EPF should be pro-rated based on attendance, not full salary
@@ -5005,13 +6825,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         Object.entries(dynamicDeductions).forEach(([key, value]) => {
           if (typeof value === 'number' && value > 0) {
-            // Pro-rate dynamic deductions based on present days
-            const deductedAmount = (value / monthDays) * presentDays;
+            // Pro-rate dynamic deductions based on payable days
+            const deductedAmount = (value / monthDays) * payableDays;
             dynamicDeductions[key] = Math.round(deductedAmount);
             totalDynamicDeductions += deductedAmount;
             console.log(`PAYROLL_PROCESSING: Dynamic deduction ${key}: ₹${value} -> ₹${Math.round(deductedAmount)} (pro-rated)`);
           }
         });
+
+        // Late-arrival penalty rules deduct whole or part days at the per-day rate
+        const { LatePenaltyService, LATE_PENALTY_DEDUCTION } = await import("./services/late-penalty-service");
+        const latePenalty = await LatePenaltyService.evaluateMonth(user, attendanceRecords, perDaySalary, payableDays);
+        if (latePenalty.amount > 0) {
+          dynamicDeductions[LATE_PENALTY_DEDUCTION] = latePenalty.amount;
+          totalDynamicDeductions += latePenalty.amount;
+          console.log(`PAYROLL_PROCESSING: Late penalty ${latePenalty.deductionDays} days -> ₹${latePenalty.amount}`,
+            latePenalty.applications.map(a => `${a.ruleName}: ${a.dates.join(', ')}`));
+        }
         
         const finalGrossAmount = grossSalaryAmount; // Initially same as gross, can be modified with BETTA
         
@@ -5028,9 +6858,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           earnedHRA: Math.round(earnedHRA), 
           earnedConveyance: Math.round(earnedConveyance),
           totalDynamicEarnings: Math.round(totalDynamicEarnings),
+          overtimeHours: totalOvertimeHours,
+          overtimePay: Math.round(overtimePay),
           grossSalary: Math.round(grossSalaryAmount),
           totalDeductions: Math.round(totalDeductions),
-          presentDays, monthDays
+          presentDays, paidHolidayDays, paidLeaveDays, monthDays
         });
 
         const payrollData = {
@@ -5040,18 +6872,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
           year,
           monthDays,
           presentDays,
-          paidLeaveDays: 0,
+          paidLeaveDays,
+          paidHolidayDays,
           overtimeHours: totalOvertimeHours,
           perDaySalary: Math.round(perDaySalary),
           earnedBasic: Math.round(earnedBasic),
           earnedHRA: Math.round(earnedHRA),
           earnedConveyance: Math.round(earnedConveyance),
-          overtimePay: 0,
+          overtimePay: Math.round(overtimePay),
           betta: 0, // BETTA allowance from manual system
           dynamicEarnings: dynamicEarnings, // FIXED: Use calculated dynamic earnings
           grossSalary: Math.round(grossSalaryAmount), // Gross including dynamic earnings
           finalGross: Math.round(finalGrossAmount), // Final gross after BETTA (initially same as gross)
           dynamicDeductions: dynamicDeductions, // FIXED: Use calculated dynamic deductions
+          latePenaltyBreakdown: latePenalty.applications,
           epfDeduction: Math.round(epfDeduction),
           esiDeduction: Math.round(esiDeduction),
           vptDeduction: Math.round(vptDeduction),
@@ -5083,6 +6917,179 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Late-arrival penalty rules applied during payroll processing
+  app.get("/api/late-penalty-rules", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || user.role !== "master_admin") {
+        return res.status(403).json({ message: "Access denied - Master Admin only" });
+      }
+
+      const rules = await storage.listLatePenaltyRules({
+        isActive: req.query.includeInactive === "true" ? undefined : true
+      });
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching late penalty rules:", error);
+      res.status(500).json({ message: "Failed to fetch late penalty rules" });
+    }
+  });
+
+  // What the active rules would deduct for one employee's month, before payroll is processed
+  app.get("/api/late-penalty-rules/preview", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || user.role !== "master_admin") {
+        return res.status(403).json({ message: "Access denied - Master Admin only" });
+      }
+
+      const { userId, month, year } = z.object({
+        userId: z.string(),
+        month: z.coerce.number().int().min(1).max(12),
+        year: z.coerce.number().int().min(2000).max(2100)
+      }).parse(req.query);
+
+      const employee = await storage.getUser(userId);
+      if (!employee) {
+        return res.status(404).json({ message: "Employee not found" });
+      }
+
+      const startDate = new Date(year, month - 1, 1);
+      const endDate = new Date(year, month, 0, 23, 59, 59, 999);
+      const attendanceRecords = await storage.listAttendanceBetweenDates(startDate, endDate);
+
+      const salaryStructure = await storage.getEnhancedSalaryStructureByUser(userId);
+      const totalFixedSalary = (salaryStructure?.fixedBasic || 0) + (salaryStructure?.fixedHRA || 0) + (salaryStructure?.fixedConveyance || 0);
+      const perDaySalary = totalFixedSalary / new Date(year, month, 0).getDate();
+
+      const { LatePenaltyService } = await import("./services/late-penalty-service");
+      const result = await LatePenaltyService.evaluateMonth(
+        employee,
+        attendanceRecords.filter(record => record.userId === userId),
+        perDaySalary
+      );
+      res.json({ userId, month, year, perDaySalary: Math.round(perDaySalary), ...result });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error previewing late penalty:", error);
+      res.status(500).json({ message: "Failed to preview late penalty" });
+    }
+  });
+
+  app.post("/api/late-penalty-rules", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || user.role !== "master_admin") {
+        return res.status(403).json({ message: "Access denied - Master Admin only" });
+      }
+
+      const { insertLatePenaltyRuleSchema } = await import("@shared/schema");
+      const ruleData = insertLatePenaltyRuleSchema.parse({ ...req.body, createdBy: user.id });
+      const rule = await storage.createLatePenaltyRule(ruleData);
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: 'late_penalty_rule_created',
+        entityType: 'late_penalty_rule',
+        entityId: rule.id,
+        changes: ruleData,
+        department: user.department,
+        designation: user.designation
+      });
+
+      res.status(201).json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error creating late penalty rule:", error);
+      res.status(500).json({ message: "Failed to create late penalty rule" });
+    }
+  });
+
+  app.patch("/api/late-penalty-rules/:id", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || user.role !== "master_admin") {
+        return res.status(403).json({ message: "Access denied - Master Admin only" });
+      }
+
+      const existing = await storage.getLatePenaltyRule(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Late penalty rule not found" });
+      }
+
+      const { insertLatePenaltyRuleSchema } = await import("@shared/schema");
+      const ruleData = insertLatePenaltyRuleSchema.partial().omit({ createdBy: true }).parse(req.body);
+      const rule = await storage.updateLatePenaltyRule(req.params.id, ruleData);
+
+      await storage.createAuditLog({
+        userId: user.id,
+        action: 'late_penalty_rule_updated',
+        entityType: 'late_penalty_rule',
+        entityId: rule.id,
+        changes: ruleData,
+        department: user.department,
+        designation: user.designation
+      });
+
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error updating late penalty rule:", error);
+      res.status(500).json({ message: "Failed to update late penalty rule" });
+    }
+  });
+
+  app.delete("/api/late-penalty-rules/:id", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user || user.role !== "master_admin") {
+        return res.status(403).json({ message: "Access denied - Master Admin only" });
+      }
+
+      const existing = await storage.getLatePenaltyRule(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Late penalty rule not found" });
+      }
+
+      await storage.deleteLatePenaltyRule(req.params.id);
+      await storage.createAuditLog({
+        userId: user.id,
+        action: 'late_penalty_rule_deactivated',
+        entityType: 'late_penalty_rule',
+        entityId: req.params.id,
+        changes: { isActive: false },
+        department: user.department,
+        designation: user.designation
+      });
+
+      res.json({ message: "Late penalty rule deactivated successfully" });
+    } catch (error) {
+      console.error("Error deleting late penalty rule:", error);
+      res.status(500).json({ message: "Failed to delete late penalty rule" });
+    }
+  });
+
   // Enhanced Payroll Settings Routes
   app.get("/api/enhanced-payroll-settings", verifyAuth, async (req, res) => {
     try {
@@ -5249,48 +7256,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { siteVisitService } = await import("./services/site-visit-service");
 
       // Automatically create/find customer if needed
-      let customerId = null;
-      if (req.body.customer && req.body.customer.name && req.body.customer.mobile) {
-        const customerData = req.body.customer;
-        
-        // Try to find existing customer by phone and name
-        const existingCustomers = await storage.listCustomers();
-        const existingCustomer = existingCustomers.find((customer: any) => 
-          (customer.phone === customerData.mobile) ||
-          (customer.name.toLowerCase() === customerData.name.toLowerCase() && customer.phone === customerData.mobile)
-        );
-
-        if (existingCustomer) {
-          customerId = existingCustomer.id;
-          console.log("Found existing customer:", existingCustomer.id, existingCustomer.name);
-        } else {
-          // Create new customer
-          try {
-            const newCustomer = await storage.createCustomer({
-              name: customerData.name,
-              phone: customerData.mobile,
-              email: customerData.email || '',
-              address: customerData.address || ''
-            });
-            customerId = newCustomer.id;
-            console.log("Created new customer:", newCustomer.id, newCustomer.name);
-          } catch (error) {
-            console.error("Error creating customer during site visit:", error);
-            // Continue without customer ID if creation fails
-          }
-        }
-      }
+      const customerId = await siteVisitService.findOrCreateCustomer(req.body.customer);
 
       // Map user department to site visit schema department
-      const departmentMapping: Record<string, string> = {
-        'admin': 'admin',
-        'administration': 'admin',
-        'operations': 'admin', // Operations users are often admin users
-        'technical': 'technical',
-        'marketing': 'marketing'
-      };
-      
-      const mappedDepartment = departmentMapping[user.department.toLowerCase()] || user.department;
+      const mappedDepartment = siteVisitService.mapDepartment(user.department);
       
       // Prepare and validate input data
       const requestData = {
@@ -5396,6 +7365,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Offline punches - key for signing punches captured without signal, and the deferred sync
+  app.post("/api/offline-punches/key", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const { OfflinePunchSyncService } = await import("./services/offline-punch-sync-service");
+      const key = await OfflinePunchSyncService.issueKey(user);
+      res.status(201).json(key);
+    } catch (error) {
+      console.error("Error issuing offline punch key:", error);
+      res.status(500).json({ message: "Failed to enable offline punches" });
+    }
+  });
+
+  app.post("/api/offline-punches/sync", verifyAuth, async (req, res) => {
+    try {
+      if (!req.authenticatedUser) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+      const user = await storage.getUser(req.authenticatedUser.uid);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const { offlinePunchSchema } = await import("@shared/schema");
+      const punch = offlinePunchSchema.parse(req.body);
+
+      if (punch.kind === 'site_visit_start' || punch.kind === 'site_visit_checkout') {
+        const hasPermission = await checkSiteVisitPermission(user, punch.kind === 'site_visit_start' ? 'create' : 'edit');
+        if (!hasPermission) {
+          return res.status(403).json({ message: "Access denied. Site Visit access is limited to Technical, Marketing, and Admin departments." });
+        }
+      }
+
+      const { OfflinePunchSyncService } = await import("./services/offline-punch-sync-service");
+      const result = await OfflinePunchSyncService.sync(user, punch, req.headers['user-agent']);
+
+      if (result.status === 'in_progress') {
+        return res.status(409).json(result);
+      }
+      res.status(result.success || result.status === 'duplicate' ? 200 : 400).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ errors: error.errors });
+      }
+      console.error("Error syncing offline punch:", error);
+      res.status(500).json({ message: "Failed to sync offline punch" });
+    }
+  });
+
   // Get site visit by ID
   app.get("/api/site-visits/:id", verifyAuth, async (req, res) => {
     try {
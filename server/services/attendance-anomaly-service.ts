@@ -0,0 +1,406 @@
+/**
+ * Attendance Anomaly Service
+ * Scores each check-in/check-out for signs of spoofed GPS, recycled photos and borrowed devices.
+ * Analysis runs after the punch is saved and never rejects it; records scoring at or above
+ * REVIEW_THRESHOLD are queued for an admin to clear or confirm. Punches captured offline and
+ * synced later always reach the threshold, since their time and place come from the device,
+ * as do check-in selfies that do not match the employee's profile photo.
+ */
+
+import { createHash } from 'crypto';
+import { storage, Attendance, AttendanceAnomalyFlag, User } from '../storage';
+import { EnterpriseLocationService } from './enterprise-location-service';
+import { siteVisitService } from './site-visit-service';
+import { FaceVerificationService } from './face-verification-service';
+
+type Punch = AttendanceAnomalyFlag['punch'];
+
+interface PunchPoint {
+  attendanceId: string;
+  punch: Punch;
+  time: Date;
+  latitude: number | null;
+  longitude: number | null;
+  accuracy?: number;
+  imageUrl?: string;
+  imageHash?: string;
+  deviceFingerprint?: string;
+  kioskId?: string;
+}
+
+export interface AnomalyReviewResult {
+  success: boolean;
+  message: string;
+  attendance?: Attendance;
+}
+
+// Weight of each anomaly in the 0-100 record score
+const ANOMALY_SCORES: Record<AttendanceAnomalyFlag['type'], number> = {
+  reused_photo: 50,
+  impossible_travel: 40,
+  offline_synced: 40,
+  face_mismatch: 40,
+  reused_coordinates: 30,
+  far_from_customer_site: 25,
+  device_change: 20,
+  accuracy_jump: 15
+};
+
+const punchLabel = (punch: Punch) => punch === 'check_in' ? 'check-in' : 'check-out';
+
+export class AttendanceAnomalyService {
+
+  static readonly REVIEW_THRESHOLD = 40;
+  private static readonly HISTORY_DAYS = 30;
+  private static readonly MAX_TRAVEL_SPEED_KMH = 120;
+  private static readonly MIN_TRAVEL_DISTANCE_METERS = 1000;
+  private static readonly CUSTOMER_SITE_RADIUS_METERS = 1000;
+  private static readonly ACCURACY_JUMP_RATIO = 10;
+  private static readonly ACCURACY_JUMP_MIN_METERS = 200;
+  private static readonly IMAGE_FETCH_TIMEOUT = 10000;
+
+  /**
+   * Stable device identifier from the request user agent
+   */
+  static fingerprintDevice(userAgent?: string): string | undefined {
+    if (!userAgent) return undefined;
+    return createHash('sha256').update(userAgent).digest('hex').slice(0, 16);
+  }
+
+  /**
+   * Fire-and-forget analysis so photo hashing and history lookups never slow down a punch
+   */
+  static analyzeInBackground(attendanceId: string, punch: Punch): void {
+    this.analyzePunch(attendanceId, punch).catch(error => {
+      console.error(`ANOMALY: Analysis failed for ${attendanceId} (${punch}):`, error);
+    });
+  }
+
+  /**
+   * Score one punch against the employee's recent history and store the flags on the record
+   */
+  static async analyzePunch(attendanceId: string, punch: Punch): Promise<Attendance | undefined> {
+    const attendance = await storage.getAttendance(attendanceId);
+    if (!attendance) return undefined;
+
+    const current = this.toPunchPoint(attendance, punch);
+    if (!current) return attendance;
+
+    const updates: Record<string, any> = {};
+    // Face verification runs once per check-in; re-analysis reuses the stored result unless the
+    // engine or profile photo was unavailable, in which case the check-out analysis tries again
+    const needsFaceMatch = punch === 'check_in' &&
+      (!attendance.checkInFaceMatchStatus || attendance.checkInFaceMatchStatus === 'unavailable');
+    if (current.imageUrl && (!current.imageHash || needsFaceMatch)) {
+      const image = await this.fetchImage(current.imageUrl);
+      if (image && !current.imageHash) {
+        current.imageHash = createHash('sha256').update(image).digest('hex');
+        updates[punch === 'check_in' ? 'checkInImageHash' : 'checkOutImageHash'] = current.imageHash;
+      }
+      if (image && needsFaceMatch) {
+        Object.assign(updates, await this.verifyCheckInFace(attendance.userId, image));
+      }
+    }
+
+    // The retried check-in face result is flagged against the check-in, not this check-out
+    const retryCheckIn = punch === 'check_out' && attendance.checkInFaceMatchStatus === 'unavailable'
+      ? this.toPunchPoint(attendance, 'check_in')
+      : null;
+    if (retryCheckIn?.imageUrl) {
+      const image = await this.fetchImage(retryCheckIn.imageUrl);
+      if (image) {
+        Object.assign(updates, await this.verifyCheckInFace(attendance.userId, image));
+      }
+    }
+
+    const historyStart = new Date(attendance.date);
+    historyStart.setDate(historyStart.getDate() - this.HISTORY_DAYS);
+    const history = await storage.listAttendanceByUserBetweenDates(attendance.userId, historyStart, new Date(attendance.date));
+
+    // Every earlier punch, including this record's check-in when analyzing the check-out
+    const previousPunches = history
+      .flatMap(record => [this.toPunchPoint(record, 'check_in'), this.toPunchPoint(record, 'check_out')])
+      .filter((point): point is PunchPoint => !!point &&
+        !(point.attendanceId === attendance.id && point.punch === punch) &&
+        point.time.getTime() < current.time.getTime())
+      .sort((a, b) => b.time.getTime() - a.time.getTime());
+
+    // A kiosk always reports its office's coordinates and is shared by many employees, so
+    // GPS reuse, accuracy and device checks only compare the employee's own phone punches
+    const phonePunches = previousPunches.filter(point => !point.kioskId);
+    const flags: AttendanceAnomalyFlag[] = [
+      ...this.checkTravel(current, previousPunches[0]),
+      ...(current.kioskId ? [] : [
+        ...this.checkReusedCoordinates(current, phonePunches),
+        ...this.checkAccuracyJump(current, phonePunches.find(point => point.accuracy !== undefined)),
+        ...this.checkDevice(current, phonePunches)
+      ]),
+      ...await this.checkReusedPhoto(attendance, current, previousPunches),
+      ...await this.checkCustomerSite(attendance, current),
+      ...this.checkOfflineSync(attendance, current),
+      ...this.checkFaceMatch({ ...attendance, ...updates }, current),
+      ...(retryCheckIn ? this.checkFaceMatch({ ...attendance, ...updates }, retryCheckIn) : [])
+    ];
+
+    // Re-analyzing a punch replaces its earlier flags; the other punch's flags are kept
+    const anomalyFlags = [...(attendance.anomalyFlags || []).filter(flag => flag.punch !== punch), ...flags];
+    const anomalyScore = Math.min(100, anomalyFlags.reduce((sum, flag) => sum + flag.score, 0));
+    updates.anomalyFlags = anomalyFlags;
+    updates.anomalyScore = anomalyScore;
+
+    // New flags re-open a cleared record; confirmed records stay confirmed
+    if (anomalyScore >= this.REVIEW_THRESHOLD && flags.length > 0 && attendance.anomalyReviewStatus !== 'confirmed') {
+      updates.anomalyReviewStatus = 'pending';
+    }
+
+    const updated = await storage.updateAttendance(attendance.id, updates);
+
+    if (flags.length > 0) {
+      console.log(`ANOMALY: ${attendance.id} ${punch} scored ${anomalyScore} - ${flags.map(flag => flag.type).join(', ')}`);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Clear a false positive or confirm the record as fraudulent
+   */
+  static async reviewAnomaly(
+    reviewer: User,
+    attendanceId: string,
+    decision: 'cleared' | 'confirmed',
+    reviewComment?: string
+  ): Promise<AnomalyReviewResult> {
+    const attendance = await storage.getAttendance(attendanceId);
+    if (!attendance) {
+      return { success: false, message: 'Attendance record not found' };
+    }
+
+    if (!attendance.anomalyFlags || attendance.anomalyFlags.length === 0) {
+      return { success: false, message: 'This attendance record has no anomalies to review' };
+    }
+
+    if (attendance.userId === reviewer.id) {
+      return { success: false, message: 'You cannot review anomalies on your own attendance' };
+    }
+
+    if (decision === 'confirmed' && (!reviewComment || reviewComment.trim().length === 0)) {
+      return { success: false, message: 'A comment is required when confirming an anomaly' };
+    }
+
+    const updated = await storage.updateAttendance(attendanceId, {
+      anomalyReviewStatus: decision,
+      anomalyReviewedBy: reviewer.id,
+      anomalyReviewedAt: new Date(),
+      anomalyReviewComment: reviewComment || ''
+    });
+
+    await storage.createAuditLog({
+      userId: reviewer.id,
+      action: `attendance_anomaly_${decision}`,
+      entityType: 'attendance',
+      entityId: attendanceId,
+      changes: {
+        employeeId: attendance.userId,
+        anomalyScore: attendance.anomalyScore,
+        anomalyFlags: attendance.anomalyFlags.map(flag => `${flag.punch}:${flag.type}`),
+        previousStatus: attendance.anomalyReviewStatus || null,
+        reviewComment: reviewComment || ''
+      },
+      department: reviewer.department,
+      designation: reviewer.designation
+    });
+
+    console.log(`ANOMALY: ${attendanceId} ${decision} by ${reviewer.id}`);
+
+    return { success: true, message: `Anomaly ${decision}`, attendance: updated };
+  }
+
+  private static checkTravel(current: PunchPoint, previous?: PunchPoint): AttendanceAnomalyFlag[] {
+    if (!previous || current.latitude === null || previous.latitude === null) return [];
+
+    const distance = EnterpriseLocationService.calculateDistance(
+      previous.latitude, previous.longitude!, current.latitude, current.longitude!
+    );
+    // Give the benefit of the doubt for the reported GPS error of both fixes
+    const effectiveDistance = distance - (current.accuracy || 0) - (previous.accuracy || 0);
+    const hours = (current.time.getTime() - previous.time.getTime()) / (1000 * 60 * 60);
+    if (effectiveDistance < this.MIN_TRAVEL_DISTANCE_METERS || hours <= 0) return [];
+
+    const speed = (effectiveDistance / 1000) / hours;
+    if (speed <= this.MAX_TRAVEL_SPEED_KMH) return [];
+
+    return [this.flag('impossible_travel', current.punch,
+      `Moved ${(distance / 1000).toFixed(1)} km in ${Math.max(1, Math.round(hours * 60))} min since the previous ${punchLabel(previous.punch)} (${Math.round(speed)} km/h)`)];
+  }
+
+  private static checkReusedCoordinates(current: PunchPoint, previousPunches: PunchPoint[]): AttendanceAnomalyFlag[] {
+    if (current.latitude === null || (current.latitude === 0 && current.longitude === 0)) return [];
+
+    // Real GPS fixes practically never repeat to six decimals on different days
+    const key = `${current.latitude.toFixed(6)},${current.longitude!.toFixed(6)}`;
+    const match = previousPunches.find(point =>
+      point.latitude !== null &&
+      point.time.toDateString() !== current.time.toDateString() &&
+      `${point.latitude.toFixed(6)},${point.longitude!.toFixed(6)}` === key
+    );
+    if (!match) return [];
+
+    return [this.flag('reused_coordinates', current.punch,
+      `Exact coordinates ${key} were also recorded at ${punchLabel(match.punch)} on ${match.time.toDateString()}`)];
+  }
+
+  private static checkAccuracyJump(current: PunchPoint, previous?: PunchPoint): AttendanceAnomalyFlag[] {
+    if (current.accuracy === undefined || previous?.accuracy === undefined) return [];
+
+    const low = Math.max(1, Math.min(current.accuracy, previous.accuracy));
+    const high = Math.max(current.accuracy, previous.accuracy);
+    if (high / low < this.ACCURACY_JUMP_RATIO || high - low < this.ACCURACY_JUMP_MIN_METERS) return [];
+
+    return [this.flag('accuracy_jump', current.punch,
+      `GPS accuracy changed from ${Math.round(previous.accuracy)}m to ${Math.round(current.accuracy)}m since the previous ${punchLabel(previous.punch)}`)];
+  }
+
+  private static async checkReusedPhoto(
+    attendance: Attendance,
+    current: PunchPoint,
+    previousPunches: PunchPoint[]
+  ): Promise<AttendanceAnomalyFlag[]> {
+    if (!current.imageUrl) return [];
+
+    const sameUrl = previousPunches.find(point => point.imageUrl === current.imageUrl);
+    if (sameUrl) {
+      return [this.flag('reused_photo', current.punch,
+        `Photo URL already used for ${punchLabel(sameUrl.punch)} on ${sameUrl.time.toDateString()}`)];
+    }
+
+    if (!current.imageHash) return [];
+
+    // Identical image content anywhere in attendance, including other employees' punches
+    const matches = (await storage.listAttendanceByImageHash(current.imageHash))
+      .flatMap(record => [this.toPunchPoint(record, 'check_in'), this.toPunchPoint(record, 'check_out')]
+        .filter((point): point is PunchPoint => !!point && point.imageHash === current.imageHash)
+        .map(point => ({ point, userId: record.userId })))
+      .filter(({ point }) => !(point.attendanceId === current.attendanceId && point.punch === current.punch));
+    if (matches.length === 0) return [];
+
+    // Prefer reporting a match from another employee - that is the stronger signal
+    const { point, userId } = matches.find(match => match.userId !== attendance.userId) || matches[0];
+    const owner = userId !== attendance.userId ? 'another employee' : 'the same employee';
+    return [this.flag('reused_photo', current.punch,
+      `Same photo was submitted by ${owner} for ${punchLabel(point.punch)} on ${point.time.toDateString()}`)];
+  }
+
+  private static async checkCustomerSite(attendance: Attendance, current: PunchPoint): Promise<AttendanceAnomalyFlag[]> {
+    if (current.punch !== 'check_in' || attendance.attendanceType !== 'field_work' || !attendance.customerName) return [];
+    if (current.latitude === null) return [];
+
+    const site = await siteVisitService.getLatestCustomerSiteLocation(attendance.customerName);
+    if (!site) return [];
+
+    const distance = EnterpriseLocationService.calculateDistance(
+      site.latitude, site.longitude, current.latitude, current.longitude!
+    );
+    const allowance = this.CUSTOMER_SITE_RADIUS_METERS + (current.accuracy || 0) + (site.accuracy || 0);
+    if (distance <= allowance) return [];
+
+    return [this.flag('far_from_customer_site', current.punch,
+      `Checked in ${(distance / 1000).toFixed(1)} km from the last recorded site of ${attendance.customerName}`)];
+  }
+
+  private static checkOfflineSync(attendance: Attendance, current: PunchPoint): AttendanceAnomalyFlag[] {
+    const syncedAt = current.punch === 'check_in' ? attendance.checkInSyncedAt : attendance.checkOutSyncedAt;
+    if (!syncedAt) return [];
+
+    const delayMinutes = Math.max(0, Math.round((new Date(syncedAt).getTime() - current.time.getTime()) / (1000 * 60)));
+    const delay = delayMinutes < 120 ? `${delayMinutes} min` : `${Math.round(delayMinutes / 60)} h`;
+    return [this.flag('offline_synced', current.punch,
+      `Captured offline at ${current.time.toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })} and synced ${delay} later`)];
+  }
+
+  private static async verifyCheckInFace(userId: string, image: Buffer): Promise<Record<string, any>> {
+    const faceMatch = await FaceVerificationService.verifyAttendancePhoto(userId, image);
+    return faceMatch.score !== undefined
+      ? { checkInFaceMatchStatus: faceMatch.status, checkInFaceMatchScore: faceMatch.score }
+      : { checkInFaceMatchStatus: faceMatch.status };
+  }
+
+  private static checkFaceMatch(attendance: Attendance, current: PunchPoint): AttendanceAnomalyFlag[] {
+    if (current.punch !== 'check_in') return [];
+
+    if (attendance.checkInFaceMatchStatus === 'low_confidence') {
+      return [this.flag('face_mismatch', current.punch,
+        `Check-in photo matched the profile photo with score ${attendance.checkInFaceMatchScore} (minimum ${FaceVerificationService.MATCH_THRESHOLD})`)];
+    }
+    if (attendance.checkInFaceMatchStatus === 'no_face') {
+      return [this.flag('face_mismatch', current.punch, 'No face could be found in the check-in photo')];
+    }
+
+    return [];
+  }
+
+  private static checkDevice(current: PunchPoint, previousPunches: PunchPoint[]): AttendanceAnomalyFlag[] {
+    if (!current.deviceFingerprint) return [];
+
+    // Check-out on a different device than the same day's check-in
+    const checkIn = previousPunches.find(point => point.attendanceId === current.attendanceId && point.punch === 'check_in');
+    if (current.punch === 'check_out' && checkIn?.deviceFingerprint && checkIn.deviceFingerprint !== current.deviceFingerprint) {
+      return [this.flag('device_change', current.punch, 'Checked out from a different device than the check-in')];
+    }
+
+    // Otherwise only a device never seen in the history window counts as a change
+    const knownDevices = new Set(previousPunches.map(point => point.deviceFingerprint).filter(Boolean));
+    if (current.punch === 'check_in' && knownDevices.size > 0 && !knownDevices.has(current.deviceFingerprint)) {
+      return [this.flag('device_change', current.punch,
+        `Checked in from a new device (${knownDevices.size} other device${knownDevices.size > 1 ? 's' : ''} used in the last ${this.HISTORY_DAYS} days)`)];
+    }
+
+    return [];
+  }
+
+  private static flag(type: AttendanceAnomalyFlag['type'], punch: Punch, reason: string): AttendanceAnomalyFlag {
+    return { type, punch, score: ANOMALY_SCORES[type], reason };
+  }
+
+  private static toPunchPoint(record: Attendance, punch: Punch): PunchPoint | null {
+    const time = punch === 'check_in' ? record.checkInTime : record.checkOutTime;
+    if (!time) return null;
+
+    const latitude = parseFloat((punch === 'check_in' ? record.checkInLatitude : record.checkOutLatitude) || '');
+    const longitude = parseFloat((punch === 'check_in' ? record.checkInLongitude : record.checkOutLongitude) || '');
+    const hasCoordinates = !isNaN(latitude) && !isNaN(longitude);
+
+    return {
+      attendanceId: record.id,
+      punch,
+      time: new Date(time),
+      latitude: hasCoordinates ? latitude : null,
+      longitude: hasCoordinates ? longitude : null,
+      accuracy: punch === 'check_in' ? record.checkInAccuracy : record.checkOutAccuracy,
+      imageUrl: punch === 'check_in' ? record.checkInImageUrl : record.checkOutImageUrl,
+      imageHash: punch === 'check_in' ? record.checkInImageHash : record.checkOutImageHash,
+      deviceFingerprint: punch === 'check_in' ? record.checkInDeviceFingerprint : record.checkOutDeviceFingerprint,
+      kioskId: punch === 'check_in' ? record.checkInKioskId : record.checkOutKioskId
+    };
+  }
+
+  /**
+   * Stored punch photo, fetched by the server so its hash and face match cannot be supplied by the client
+   */
+  private static async fetchImage(imageUrl: string): Promise<Buffer | undefined> {
+    if (!imageUrl.startsWith('https://')) return undefined;
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.IMAGE_FETCH_TIMEOUT);
+    try {
+      const response = await fetch(imageUrl, { signal: controller.signal });
+      if (!response.ok) return undefined;
+      return Buffer.from(await response.arrayBuffer());
+    } catch (error) {
+      console.error('ANOMALY: Could not fetch punch photo:', error);
+      return undefined;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
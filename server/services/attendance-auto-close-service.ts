@@ -0,0 +1,249 @@
+/**
+ * Attendance Auto Close Service
+ * End-of-day close-out for records that were checked in but never checked out.
+ * Runs on a timer and on demand (admin backfills); already-closed records are never touched twice.
+ */
+
+import { storage, Attendance } from '../storage';
+import { EnterpriseTimeService } from './enterprise-time-service';
+import { AttendanceBreakService } from './attendance-break-service';
+import type { AutoCheckOutPolicy } from '@shared/schema';
+
+export interface AutoCloseRunOptions {
+  startDate?: Date;
+  endDate?: Date;
+  department?: string;
+  dryRun?: boolean;
+  triggeredBy?: string; // User id for manual runs, 'system' for the scheduler
+}
+
+export interface AutoCloseRecordResult {
+  attendanceId: string;
+  userId: string;
+  department: string | null;
+  action: 'closed' | 'skipped';
+  policy?: AutoCheckOutPolicy;
+  checkOutTime?: Date;
+  status?: string;
+  workingHours?: number;
+  reason: string;
+}
+
+export interface AutoCloseRunSummary {
+  startDate: Date;
+  endDate: Date;
+  dryRun: boolean;
+  scanned: number;
+  closed: number;
+  skipped: number;
+  results: AutoCloseRecordResult[];
+}
+
+export class AttendanceAutoCloseService {
+
+  private static readonly SCHEDULE_INTERVAL = 15 * 60 * 1000; // 15 minutes
+  private static readonly MAX_BACKFILL_DAYS = 62;
+  private static scheduler: NodeJS.Timeout | null = null;
+  private static isRunning = false;
+
+  /**
+   * Start the periodic close-out job (safe to call more than once)
+   */
+  static startScheduler(): void {
+    if (this.scheduler) return;
+
+    this.scheduler = setInterval(() => {
+      // Yesterday is included so overnight shifts and missed runs (server restarts) are still closed
+      const endDate = new Date();
+      const startDate = new Date(endDate);
+      startDate.setDate(startDate.getDate() - 1);
+
+      this.runAutoClose({ startDate, endDate, triggeredBy: 'system' }).catch(error => {
+        console.error('AUTO_CLOSE: Scheduled run failed:', error);
+      });
+    }, this.SCHEDULE_INTERVAL);
+
+    console.log(`AUTO_CLOSE: Scheduler started (every ${this.SCHEDULE_INTERVAL / 60000} minutes)`);
+  }
+
+  static stopScheduler(): void {
+    if (this.scheduler) {
+      clearInterval(this.scheduler);
+      this.scheduler = null;
+    }
+  }
+
+  /**
+   * Close open attendance records whose shift (rostered or department) ended more than the grace window ago
+   */
+  static async runAutoClose(options: AutoCloseRunOptions = {}): Promise<AutoCloseRunSummary> {
+    const endDate = new Date(options.endDate || new Date());
+    endDate.setHours(0, 0, 0, 0);
+    const startDate = new Date(options.startDate || endDate);
+    startDate.setHours(0, 0, 0, 0);
+
+    if (startDate > endDate) {
+      throw new Error('Start date must be before end date');
+    }
+
+    const dayCount = Math.round((endDate.getTime() - startDate.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+    if (dayCount > this.MAX_BACKFILL_DAYS) {
+      throw new Error(`Date range cannot exceed ${this.MAX_BACKFILL_DAYS} days`);
+    }
+
+    const dryRun = options.dryRun === true;
+    const summary: AutoCloseRunSummary = {
+      startDate,
+      endDate,
+      dryRun,
+      scanned: 0,
+      closed: 0,
+      skipped: 0,
+      results: []
+    };
+
+    // Overlapping scheduled/manual runs could both pick up the same record
+    if (this.isRunning && !dryRun) {
+      throw new Error('An auto close-out run is already in progress');
+    }
+    if (!dryRun) this.isRunning = true;
+
+    try {
+      const now = new Date();
+      const userDepartments = new Map<string, string | null>();
+
+      for (let day = new Date(startDate); day <= endDate; day.setDate(day.getDate() + 1)) {
+        const records = await storage.listAttendanceByDate(new Date(day));
+        const openRecords = records.filter(record =>
+          record.checkInTime && !record.checkOutTime && !record.autoClosed
+        );
+
+        for (const record of openRecords) {
+          let department = record.userDepartment;
+          if (!department) {
+            if (!userDepartments.has(record.userId)) {
+              const user = await storage.getUser(record.userId);
+              userDepartments.set(record.userId, user?.department || null);
+            }
+            department = userDepartments.get(record.userId) || null;
+          }
+
+          if (options.department && department !== options.department) continue;
+
+          summary.scanned++;
+          const result = await this.closeRecord(record, department, now, dryRun);
+          summary.results.push(result);
+          if (result.action === 'closed') {
+            summary.closed++;
+          } else {
+            summary.skipped++;
+          }
+        }
+      }
+
+      if (!dryRun && summary.closed > 0) {
+        await storage.createAuditLog({
+          userId: options.triggeredBy || 'system',
+          action: 'attendance_auto_close',
+          entityType: 'attendance',
+          entityId: `auto_close_${startDate.toISOString().split('T')[0]}_${endDate.toISOString().split('T')[0]}`,
+          changes: {
+            department: options.department || 'all',
+            closed: summary.results
+              .filter(r => r.action === 'closed')
+              .map(r => ({ attendanceId: r.attendanceId, policy: r.policy, checkOutTime: r.checkOutTime, status: r.status }))
+          }
+        });
+      }
+
+      console.log(`AUTO_CLOSE: ${dryRun ? 'Dry run' : 'Run'} complete - scanned ${summary.scanned}, closed ${summary.closed}, skipped ${summary.skipped}`);
+      return summary;
+    } finally {
+      if (!dryRun) this.isRunning = false;
+    }
+  }
+
+  /**
+   * Apply the department's auto check-out policy to one open record
+   */
+  private static async closeRecord(
+    record: Attendance,
+    department: string | null,
+    now: Date,
+    dryRun: boolean
+  ): Promise<AutoCloseRecordResult> {
+    const base = {
+      attendanceId: record.id,
+      userId: record.userId,
+      department
+    };
+
+    if (!department) {
+      return { ...base, action: 'skipped', reason: 'User has no department; timing unknown' };
+    }
+
+    const checkInTime = new Date(record.checkInTime!);
+    const { timing, shiftEnd } = await EnterpriseTimeService.getShiftWindow(department, new Date(record.date), record.userId);
+    const cutoff = new Date(shiftEnd.getTime() + timing.autoCheckOutGraceMinutes * 60 * 1000);
+
+    if (now < cutoff) {
+      return { ...base, action: 'skipped', reason: `Grace window open until ${cutoff.toISOString()}` };
+    }
+
+    const policy = timing.autoCheckOutPolicy;
+    // Never close before the employee actually checked in
+    const cappedCheckOut = new Date(Math.max(shiftEnd.getTime(), checkInTime.getTime()));
+    const reason = `No check-out recorded; auto-closed ${timing.autoCheckOutGraceMinutes} min after shift end (${timing.checkOutTime}) using '${policy}' policy`;
+
+    // A break still open ends at the close time, so the record is not left on a break and the
+    // break is deducted like any other
+    const breakSummary = await AttendanceBreakService.finalizeForCheckOut(record, cappedCheckOut);
+
+    const updates: Record<string, any> = {
+      autoClosed: true,
+      autoClosedAt: now,
+      autoClosePolicy: policy,
+      autoCloseReason: reason,
+      // Unverified time after shift end is never paid as overtime
+      overtimeHours: 0,
+      breaks: breakSummary.breaks,
+      breakHours: Math.round(breakSummary.totalBreakMinutes / 60 * 100) / 100,
+      excessBreakMinutes: breakSummary.excessBreakMinutes,
+      remarks: record.remarks ? `${record.remarks} | ${reason}` : reason
+    };
+
+    if (policy === 'flag_for_regularization') {
+      updates.requiresRegularization = true;
+      updates.workingHours = 0;
+    } else {
+      const metrics = await EnterpriseTimeService.calculateTimeMetrics(
+        record.userId,
+        department,
+        checkInTime,
+        cappedCheckOut
+      );
+      const netWorkingHours = Math.max(0, metrics.workingHours - breakSummary.totalBreakMinutes / 60);
+      updates.checkOutTime = cappedCheckOut;
+      updates.workingHours = Math.round(netWorkingHours * 100) / 100;
+
+      if (policy === 'mark_half_day') {
+        updates.status = 'half_day';
+        updates.workingHours = Math.min(updates.workingHours, timing.workingHours / 2);
+      }
+    }
+
+    if (!dryRun) {
+      await storage.updateAttendance(record.id, updates);
+    }
+
+    return {
+      ...base,
+      action: 'closed',
+      policy,
+      checkOutTime: updates.checkOutTime,
+      status: updates.status || record.status,
+      workingHours: updates.workingHours,
+      reason
+    };
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Attendance Break Service
+ * Break-start/break-end punches on an open attendance record.
+ * Several breaks per day are allowed; time beyond the shift's breakDurationMinutes is flagged, not blocked.
+ */
+
+import { storage, Attendance, AttendanceBreak } from '../storage';
+import { EnterpriseTimeService } from './enterprise-time-service';
+
+export interface BreakSummary {
+  breaks: AttendanceBreak[];
+  totalBreakMinutes: number;
+  allowedBreakMinutes: number;
+  excessBreakMinutes: number;
+  onBreak: boolean;
+}
+
+export interface BreakPunchResult {
+  success: boolean;
+  message: string;
+  attendance?: Attendance;
+  summary?: BreakSummary;
+}
+
+export class AttendanceBreakService {
+
+  /**
+   * Start a break on the user's open attendance record
+   */
+  static async startBreak(userId: string, reason?: string): Promise<BreakPunchResult> {
+    const now = new Date();
+    const attendance = await this.findOpenAttendance(userId, now);
+    if (!attendance) {
+      return { success: false, message: 'You must be checked in to start a break' };
+    }
+
+    const breaks = attendance.breaks || [];
+    if (breaks.some(entry => !entry.endTime)) {
+      return { success: false, message: 'You are already on a break' };
+    }
+
+    const newBreak: AttendanceBreak = { startTime: now };
+    if (reason && reason.trim()) {
+      newBreak.reason = reason.trim();
+    }
+
+    const updated = await storage.updateAttendance(attendance.id, {
+      breaks: [...breaks, newBreak]
+    });
+
+    const summary = await this.summarize(updated, now);
+    console.log(`BREAK: ${userId} started break #${summary.breaks.length} on attendance ${attendance.id}`);
+
+    return {
+      success: true,
+      message: `Break started at ${now.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true })}`,
+      attendance: updated,
+      summary
+    };
+  }
+
+  /**
+   * End the break in progress and flag the record when the allowance is exceeded
+   */
+  static async endBreak(userId: string): Promise<BreakPunchResult> {
+    const now = new Date();
+    const attendance = await this.findOpenAttendance(userId, now);
+    if (!attendance) {
+      return { success: false, message: 'No open attendance record found' };
+    }
+
+    const breaks = attendance.breaks || [];
+    if (!breaks.some(entry => !entry.endTime)) {
+      return { success: false, message: 'You are not on a break' };
+    }
+
+    const summary = await this.summarize({ ...attendance, breaks: this.closeBreaks(breaks, now) }, now);
+    const updated = await storage.updateAttendance(attendance.id, {
+      breaks: summary.breaks,
+      breakHours: Number((summary.totalBreakMinutes / 60).toFixed(2)),
+      excessBreakMinutes: summary.excessBreakMinutes
+    });
+
+    console.log(`BREAK: ${userId} ended break - ${summary.totalBreakMinutes}/${summary.allowedBreakMinutes} min used today`);
+
+    const message = summary.excessBreakMinutes > 0
+      ? `Break ended. You have exceeded today's ${summary.allowedBreakMinutes} minute break allowance by ${summary.excessBreakMinutes} minutes`
+      : `Break ended. ${summary.allowedBreakMinutes - summary.totalBreakMinutes} minutes of break time remaining today`;
+
+    return { success: true, message, attendance: updated, summary };
+  }
+
+  /**
+   * Close any break still open at check-out and total the day's breaks
+   */
+  static async finalizeForCheckOut(attendance: Attendance, checkOutTime: Date): Promise<BreakSummary> {
+    const breaks = this.closeBreaks(attendance.breaks || [], checkOutTime);
+    return this.summarize({ ...attendance, breaks }, checkOutTime);
+  }
+
+  /**
+   * Break totals against the allowance of the shift the record belongs to
+   */
+  static async summarize(attendance: Attendance, asOf: Date = new Date()): Promise<BreakSummary> {
+    const breaks = attendance.breaks || [];
+    const totalBreakMinutes = breaks.reduce((sum, entry) => {
+      const end = entry.endTime ? new Date(entry.endTime) : asOf;
+      return sum + Math.max(0, Math.round((end.getTime() - new Date(entry.startTime).getTime()) / (1000 * 60)));
+    }, 0);
+
+    const user = await storage.getUser(attendance.userId);
+    const { timing } = await EnterpriseTimeService.getShiftWindowForCheckIn(
+      attendance.userId,
+      user?.department || attendance.userDepartment || 'operations',
+      attendance.checkInTime ? new Date(attendance.checkInTime) : new Date(attendance.date)
+    );
+    const allowedBreakMinutes = timing.breakDurationMinutes;
+
+    return {
+      breaks,
+      totalBreakMinutes,
+      allowedBreakMinutes,
+      excessBreakMinutes: Math.max(0, totalBreakMinutes - allowedBreakMinutes),
+      onBreak: breaks.some(entry => !entry.endTime)
+    };
+  }
+
+  private static closeBreaks(breaks: AttendanceBreak[], at: Date): AttendanceBreak[] {
+    return breaks.map(entry => {
+      if (entry.endTime) return entry;
+      const endTime = new Date(Math.max(at.getTime(), new Date(entry.startTime).getTime()));
+      return {
+        ...entry,
+        endTime,
+        durationMinutes: Math.round((endTime.getTime() - new Date(entry.startTime).getTime()) / (1000 * 60))
+      };
+    });
+  }
+
+  /**
+   * Today's record, or yesterday's when an overnight shift is still open
+   */
+  private static async findOpenAttendance(userId: string, now: Date): Promise<Attendance | undefined> {
+    const today = new Date(now);
+    today.setHours(0, 0, 0, 0);
+
+    const todayRecord = await storage.getAttendanceByUserAndDate(userId, today);
+    if (todayRecord?.checkInTime && !todayRecord.checkOutTime) {
+      return todayRecord;
+    }
+
+    const yesterday = new Date(today);
+    yesterday.setDate(yesterday.getDate() - 1);
+    const yesterdayRecord = await storage.getAttendanceByUserAndDate(userId, yesterday);
+    if (yesterdayRecord?.checkInTime && !yesterdayRecord.checkOutTime && !yesterdayRecord.autoClosed) {
+      return yesterdayRecord;
+    }
+
+    return undefined;
+  }
+}
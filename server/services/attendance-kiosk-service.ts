@@ -0,0 +1,246 @@
+/**
+ * Attendance Kiosk Service
+ * Shared tablets fixed at an office for employees without a smartphone. A kiosk authenticates
+ * with its own device token; employees identify with employee ID + PIN or a printed QR badge,
+ * and every punch needs a photo. Punches run through the normal check-in/check-out pipeline
+ * with the kiosk office's coordinates instead of the employee's GPS.
+ */
+
+import { createHash, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { storage, AttendanceKiosk, OfficeLocation, User } from '../storage';
+import { CloudinaryService } from './cloudinary-service';
+import { UnifiedAttendanceService } from './unified-attendance-service';
+
+export interface KioskSession {
+  kiosk: AttendanceKiosk;
+  office: OfficeLocation;
+}
+
+export interface KioskPunchRequest {
+  action: 'check_in' | 'check_out';
+  employeeId?: string;
+  pin?: string;
+  badgeCode?: string;
+  photo: string; // Data URL captured by the kiosk camera
+  reason?: string; // Early or overtime check-out reason
+  userAgent?: string;
+}
+
+export interface KioskPunchResult {
+  success: boolean;
+  message: string;
+  employeeName?: string;
+  attendanceId?: string;
+}
+
+export interface KioskCredentialResult {
+  success: boolean;
+  message: string;
+  badgeCode?: string; // Only returned when a badge is issued, for printing
+}
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+const hashPin = (pin: string, salt: string) => scryptSync(pin, salt, 32).toString('hex');
+
+export class AttendanceKioskService {
+
+  private static readonly MAX_FAILED_ATTEMPTS = 5;
+  private static readonly LOCKOUT_MINUTES = 15;
+
+  /**
+   * Register a kiosk for an office. The device token is returned once and only its hash is stored.
+   */
+  static async registerKiosk(
+    admin: User,
+    name: string,
+    officeLocationId: string
+  ): Promise<{ success: boolean; message: string; kiosk?: AttendanceKiosk; deviceToken?: string }> {
+    const office = await storage.getOfficeLocation(officeLocationId);
+    if (!office) {
+      return { success: false, message: 'Office location not found' };
+    }
+
+    const deviceToken = randomBytes(32).toString('hex');
+    const kiosk = await storage.createAttendanceKiosk({
+      name,
+      officeLocationId,
+      deviceTokenHash: hashToken(deviceToken),
+      isActive: true,
+      createdBy: admin.id
+    });
+
+    await storage.createAuditLog({
+      userId: admin.id,
+      action: 'attendance_kiosk_registered',
+      entityType: 'attendance_kiosk',
+      entityId: kiosk.id,
+      changes: { name, officeLocationId, officeName: office.name },
+      department: admin.department,
+      designation: admin.designation
+    });
+
+    console.log(`KIOSK: Registered "${name}" at ${office.name} by ${admin.id}`);
+    return { success: true, message: `Kiosk registered at ${office.name}`, kiosk, deviceToken };
+  }
+
+  /**
+   * Resolve the kiosk behind a device token; inactive kiosks and offices that no longer exist are refused
+   */
+  static async authenticate(deviceToken: string): Promise<KioskSession | null> {
+    if (!deviceToken) return null;
+
+    const kiosk = await storage.getAttendanceKioskByTokenHash(hashToken(deviceToken));
+    if (!kiosk || !kiosk.isActive) return null;
+
+    const office = await storage.getOfficeLocation(kiosk.officeLocationId);
+    if (!office) return null;
+
+    await storage.updateAttendanceKiosk(kiosk.id, { lastSeenAt: new Date() });
+    return { kiosk, office };
+  }
+
+  /**
+   * Set an employee's kiosk PIN and/or issue a new QR badge. Issuing a badge invalidates the old one.
+   */
+  static async setCredentials(
+    admin: User,
+    userId: string,
+    options: { pin?: string; issueBadge?: boolean }
+  ): Promise<KioskCredentialResult> {
+    const employee = await storage.getUser(userId);
+    if (!employee) {
+      return { success: false, message: 'Employee not found' };
+    }
+    if (!employee.employeeId && options.pin) {
+      return { success: false, message: 'Assign an employee ID before setting a kiosk PIN' };
+    }
+
+    const pinSalt = options.pin ? randomBytes(16).toString('hex') : undefined;
+    const badgeCode = options.issueBadge ? `KB-${randomBytes(12).toString('hex')}` : undefined;
+
+    await storage.upsertKioskCredential(userId, {
+      ...(options.pin && pinSalt && { pinHash: hashPin(options.pin, pinSalt), pinSalt }),
+      ...(badgeCode && { badgeCode }),
+      failedAttempts: 0,
+      lockedUntil: null,
+      updatedBy: admin.id
+    });
+
+    await storage.createAuditLog({
+      userId: admin.id,
+      action: 'kiosk_credentials_updated',
+      entityType: 'user',
+      entityId: userId,
+      changes: { pinChanged: !!options.pin, badgeIssued: !!badgeCode },
+      department: admin.department,
+      designation: admin.designation
+    });
+
+    const parts = [options.pin && 'PIN set', badgeCode && 'badge issued'].filter(Boolean);
+    return { success: true, message: `Kiosk ${parts.join(' and ')} for ${employee.displayName}`, badgeCode };
+  }
+
+  /**
+   * Identify the employee at the kiosk and record the punch
+   */
+  static async punch(session: KioskSession, request: KioskPunchRequest): Promise<KioskPunchResult> {
+    if (!request.photo || !request.photo.startsWith('data:image/')) {
+      return { success: false, message: 'A photo is required for kiosk attendance' };
+    }
+
+    const identified = await this.identify(request);
+    if (!identified.user) {
+      return { success: false, message: identified.message };
+    }
+    const user = identified.user;
+
+    const latitude = parseFloat(session.office.latitude);
+    const longitude = parseFloat(session.office.longitude);
+
+    if (request.action === 'check_in') {
+      const result = await UnifiedAttendanceService.processCheckIn({
+        userId: user.id,
+        latitude,
+        longitude,
+        accuracy: 0,
+        attendanceType: 'office',
+        imageUrl: request.photo,
+        deviceInfo: {
+          type: 'tablet',
+          userAgent: request.userAgent,
+          locationCapability: 'excellent'
+        },
+        kiosk: { id: session.kiosk.id, officeId: session.office.id, officeName: session.office.name }
+      });
+      return { success: result.success, message: result.message, employeeName: user.displayName, attendanceId: result.attendanceId };
+    }
+
+    // Check-in uploads its own photo; check-out stores whatever URL it is given
+    const upload = await CloudinaryService.uploadAttendancePhoto(request.photo, user.id, new Date());
+    if (!upload.success) {
+      console.error('KIOSK: Check-out photo upload failed:', upload.error);
+    }
+
+    const result = await UnifiedAttendanceService.processCheckOut({
+      userId: user.id,
+      latitude,
+      longitude,
+      accuracy: 0,
+      imageUrl: upload.success ? upload.url : undefined,
+      reason: request.reason,
+      otReason: request.reason,
+      userAgent: request.userAgent,
+      kioskId: session.kiosk.id
+    });
+    return { success: result.success, message: result.message, employeeName: user.displayName };
+  }
+
+  /**
+   * Badge first, then employee ID + PIN. Wrong PINs count towards a temporary lockout.
+   */
+  private static async identify(request: KioskPunchRequest): Promise<{ user?: User; message: string }> {
+    if (request.badgeCode) {
+      const credential = await storage.getKioskCredentialByBadgeCode(request.badgeCode.trim());
+      const user = credential ? await storage.getUser(credential.userId) : undefined;
+      if (!user || !user.isActive) {
+        return { message: 'Badge not recognised. Contact your administrator.' };
+      }
+      return { user, message: 'Identified by badge' };
+    }
+
+    if (!request.employeeId || !request.pin) {
+      return { message: 'Enter your employee ID and PIN, or scan your badge' };
+    }
+
+    const user = await storage.getUserByEmployeeId(request.employeeId.trim());
+    const credential = user ? await storage.getKioskCredential(user.id) : undefined;
+    if (!user || !user.isActive || !credential?.pinHash || !credential.pinSalt) {
+      return { message: 'Invalid employee ID or PIN' };
+    }
+
+    if (credential.lockedUntil && credential.lockedUntil > new Date()) {
+      const minutes = Math.ceil((credential.lockedUntil.getTime() - Date.now()) / (60 * 1000));
+      return { message: `Too many wrong PINs. Try again in ${minutes} minute${minutes === 1 ? '' : 's'} or scan your badge.` };
+    }
+
+    const expected = Buffer.from(credential.pinHash, 'hex');
+    const actual = Buffer.from(hashPin(request.pin, credential.pinSalt), 'hex');
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      const failedAttempts = (credential.failedAttempts || 0) + 1;
+      const locked = failedAttempts >= this.MAX_FAILED_ATTEMPTS;
+      await storage.upsertKioskCredential(user.id, {
+        failedAttempts: locked ? 0 : failedAttempts,
+        lockedUntil: locked ? new Date(Date.now() + this.LOCKOUT_MINUTES * 60 * 1000) : credential.lockedUntil ?? null
+      });
+      if (locked) {
+        console.log(`KIOSK: PIN locked for ${user.id} after ${failedAttempts} failed attempts`);
+      }
+      return { message: 'Invalid employee ID or PIN' };
+    }
+
+    if (credential.failedAttempts > 0 || credential.lockedUntil) {
+      await storage.upsertKioskCredential(user.id, { failedAttempts: 0, lockedUntil: null });
+    }
+    return { user, message: 'Identified by PIN' };
+  }
+}
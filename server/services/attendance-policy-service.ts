@@ -0,0 +1,230 @@
+/**
+ * Attendance Policy Service
+ * Resolves the attendance policy that governs an employee - designation policy first, then the
+ * department policy, then a company default (no department or designation) - and classifies
+ * lateness against it. The shift window still comes from department timing or the roster;
+ * the policy only decides how late is late, half day or absent.
+ */
+
+import { storage, AttendancePolicy, User } from '../storage';
+import { EnterpriseTimeService } from './enterprise-time-service';
+
+export type AttendancePolicySource = 'designation' | 'department' | 'default' | 'department_timing';
+
+export interface ResolvedAttendancePolicy {
+  source: AttendancePolicySource;
+  policyId: string | null;
+  name: string;
+  lateMarkAfterMinutes: number;
+  halfDayMarkAfterMinutes: number | null; // null = lateness never turns into a half day
+  absentMarkAfterMinutes: number | null;
+  flexibleTiming: boolean;
+  flexibilityMinutes: number;
+  overtimeAllowed: boolean;
+  maxOvertimeHours: number;
+  overtimeApprovalRequired: boolean;
+  weekendDays: number[];
+  holidayPolicy: 'paid' | 'unpaid' | 'optional';
+}
+
+export interface LatenessClassification {
+  status: 'present' | 'late' | 'half_day' | 'absent';
+  isLate: boolean;
+  lateMinutes: number; // Net of approved permission
+  grossLateMinutes: number;
+  permissionMinutesApplied: number;
+  graceMinutes: number;
+  policyName: string;
+  rule: string; // Why the status was chosen, for dry runs and audit
+}
+
+export interface PolicyDryRunInput {
+  checkInTime: Date;
+  userId?: string;
+  department?: string;
+  designation?: string;
+  policyId?: string;
+  permissionMinutes?: number;
+}
+
+export interface PolicyDryRunResult {
+  policy: ResolvedAttendancePolicy;
+  department: string;
+  expectedCheckInTime: string;
+  shiftStart: Date;
+  shiftName: string | null;
+  isWeekend: boolean;
+  classification: LatenessClassification;
+}
+
+// Used when no stored policy applies and department timing has to stand in
+const BUILT_IN_OVERTIME = {
+  overtimeAllowed: true,
+  maxOvertimeHours: 4,
+  overtimeApprovalRequired: true
+};
+
+export class AttendancePolicyService {
+
+  // Policies are read on every check-in but edited rarely
+  private static policyCache: { policies: AttendancePolicy[]; expiresAt: number } | null = null;
+  private static readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+
+  /**
+   * Most specific active policy for a department and designation
+   */
+  static async resolve(department?: string | null, designation?: string | null): Promise<ResolvedAttendancePolicy> {
+    const policies = await this.loadActivePolicies();
+
+    const match =
+      (department && designation
+        ? policies.find(p => p.department === department && p.designation === designation)
+        : undefined) ||
+      (department ? policies.find(p => p.department === department && !p.designation) : undefined) ||
+      policies.find(p => !p.department && !p.designation);
+
+    if (match) {
+      return this.fromStoredPolicy(match);
+    }
+
+    const timing = await EnterpriseTimeService.getDepartmentTiming(department || 'operations');
+    return {
+      source: 'department_timing',
+      policyId: null,
+      name: `${department || 'operations'} department timing`,
+      lateMarkAfterMinutes: timing.lateThresholdMinutes,
+      halfDayMarkAfterMinutes: null,
+      absentMarkAfterMinutes: null,
+      flexibleTiming: timing.isFlexibleTiming,
+      flexibilityMinutes: 0,
+      ...BUILT_IN_OVERTIME,
+      weekendDays: timing.weekendDays,
+      holidayPolicy: 'paid'
+    };
+  }
+
+  static async resolveForUser(user: Pick<User, 'department' | 'designation'>): Promise<ResolvedAttendancePolicy> {
+    return this.resolve(user.department, user.designation);
+  }
+
+  /**
+   * Classify minutes past shift start. Approved permission is taken off first; what is left is
+   * compared with the absent, half-day and late thresholds in that order.
+   */
+  static classifyLateness(
+    policy: ResolvedAttendancePolicy,
+    grossLateMinutes: number,
+    permissionMinutes: number = 0
+  ): LatenessClassification {
+    const gross = Math.max(0, Math.floor(grossLateMinutes));
+    const permissionMinutesApplied = Math.min(gross, Math.max(0, permissionMinutes));
+    const lateMinutes = gross - permissionMinutesApplied;
+    const graceMinutes = policy.lateMarkAfterMinutes + (policy.flexibleTiming ? policy.flexibilityMinutes : 0);
+    const isLate = lateMinutes > graceMinutes;
+
+    let status: LatenessClassification['status'] = 'present';
+    let rule = lateMinutes > 0
+      ? `${lateMinutes} minutes late is within the ${graceMinutes} minute grace period`
+      : 'On time';
+
+    if (policy.absentMarkAfterMinutes !== null && lateMinutes >= policy.absentMarkAfterMinutes) {
+      status = 'absent';
+      rule = `${lateMinutes} minutes late reaches the ${policy.absentMarkAfterMinutes} minute absent mark`;
+    } else if (policy.halfDayMarkAfterMinutes !== null && lateMinutes >= policy.halfDayMarkAfterMinutes) {
+      status = 'half_day';
+      rule = `${lateMinutes} minutes late reaches the ${policy.halfDayMarkAfterMinutes} minute half-day mark`;
+    } else if (isLate) {
+      status = 'late';
+      rule = `${lateMinutes} minutes late is past the ${graceMinutes} minute grace period`;
+    }
+
+    if (permissionMinutesApplied > 0) {
+      rule += ` (${permissionMinutesApplied} of ${gross} minutes covered by permission)`;
+    }
+
+    return {
+      status,
+      isLate,
+      lateMinutes,
+      grossLateMinutes: gross,
+      permissionMinutesApplied,
+      graceMinutes,
+      policyName: policy.name,
+      rule
+    };
+  }
+
+  /**
+   * How a check-in punch would be classified, without writing anything. The policy is the one
+   * resolved for the employee (or department and designation) unless a policy id is given.
+   */
+  static async dryRun(input: PolicyDryRunInput): Promise<PolicyDryRunResult> {
+    const user = input.userId ? await storage.getUser(input.userId) : undefined;
+    if (input.userId && !user) {
+      throw new Error('User not found');
+    }
+
+    const department = input.department || user?.department || 'operations';
+    const designation = input.designation || user?.designation || null;
+
+    let policy: ResolvedAttendancePolicy;
+    if (input.policyId) {
+      const stored = await storage.getAttendancePolicy(input.policyId);
+      if (!stored) {
+        throw new Error('Attendance policy not found');
+      }
+      policy = this.fromStoredPolicy(stored);
+    } else {
+      policy = await this.resolve(department, designation);
+    }
+
+    // Rostered shifts only exist for real employees
+    const window = user
+      ? await EnterpriseTimeService.getShiftWindowForCheckIn(user.id, department, input.checkInTime)
+      : await EnterpriseTimeService.getShiftWindow(department, input.checkInTime);
+
+    const grossLateMinutes = (input.checkInTime.getTime() - window.shiftStart.getTime()) / (1000 * 60);
+
+    return {
+      policy,
+      department,
+      expectedCheckInTime: window.timing.checkInTime,
+      shiftStart: window.shiftStart,
+      shiftName: window.shift?.name || null,
+      isWeekend: policy.weekendDays.includes(window.shiftStart.getDay()),
+      classification: this.classifyLateness(policy, grossLateMinutes, input.permissionMinutes)
+    };
+  }
+
+  static clearCache(): void {
+    this.policyCache = null;
+  }
+
+  private static fromStoredPolicy(policy: AttendancePolicy): ResolvedAttendancePolicy {
+    return {
+      source: policy.designation ? 'designation' : policy.department ? 'department' : 'default',
+      policyId: policy.id,
+      name: policy.name,
+      lateMarkAfterMinutes: policy.lateMarkAfterMinutes ?? 15,
+      halfDayMarkAfterMinutes: policy.halfDayMarkAfterMinutes ?? null,
+      absentMarkAfterMinutes: policy.absentMarkAfterMinutes ?? null,
+      flexibleTiming: policy.flexibleTiming ?? false,
+      flexibilityMinutes: policy.flexibilityMinutes ?? 0,
+      overtimeAllowed: policy.overtimeAllowed ?? BUILT_IN_OVERTIME.overtimeAllowed,
+      maxOvertimeHours: policy.maxOvertimeHours ?? BUILT_IN_OVERTIME.maxOvertimeHours,
+      overtimeApprovalRequired: policy.overtimeApprovalRequired ?? BUILT_IN_OVERTIME.overtimeApprovalRequired,
+      weekendDays: policy.weekendDays || [0, 6],
+      holidayPolicy: policy.holidayPolicy || 'paid'
+    };
+  }
+
+  private static async loadActivePolicies(): Promise<AttendancePolicy[]> {
+    if (this.policyCache && this.policyCache.expiresAt > Date.now()) {
+      return this.policyCache.policies;
+    }
+
+    const policies = (await storage.listAttendancePolicies()).filter(policy => policy.isActive !== false);
+    this.policyCache = { policies, expiresAt: Date.now() + this.CACHE_DURATION };
+    return policies;
+  }
+}
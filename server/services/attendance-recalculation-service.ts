@@ -0,0 +1,199 @@
+/**
+ * Attendance Recalculation Service
+ * Re-runs timing metrics on existing attendance after a department timing (or policy) change.
+ * A dry run returns a per-record diff; committing applies only the reviewed records and writes
+ * a single audit log entry with every before/after value.
+ */
+
+import { storage, Attendance, User } from '../storage';
+import { EnterpriseTimeService } from './enterprise-time-service';
+import { HolidayService } from './holiday-service';
+import { PermissionHourService } from './permission-hour-service';
+import { OvertimeRequestService } from './overtime-request-service';
+import { AttendanceFieldChange, RecalculationSummary } from '@shared/schema';
+
+export interface RecalculationOptions {
+  startDate: Date;
+  endDate: Date;
+  department?: string;
+  dryRun?: boolean;
+  attendanceIds?: string[]; // Restrict a commit to the records reviewed in the preview
+  triggeredBy: string;
+}
+
+// Compared with a neutral default so a missing field and a zero do not show up as a change
+const RECALCULATED_FIELDS: Array<{ field: keyof Attendance; empty: string | number | boolean }> = [
+  { field: 'status', empty: '' },
+  { field: 'isLate', empty: false },
+  { field: 'lateMinutes', empty: 0 },
+  { field: 'grossLateMinutes', empty: 0 },
+  { field: 'permissionMinutesApplied', empty: 0 },
+  { field: 'workingHours', empty: 0 },
+  { field: 'recordedOvertimeHours', empty: 0 },
+  { field: 'overtimeHours', empty: 0 },
+  { field: 'overtimeApproved', empty: false }
+];
+
+const round2 = (value: number) => Number(value.toFixed(2));
+
+// Statuses that follow from the punches. Others, such as early_checkout, are set elsewhere and kept.
+const DERIVED_STATUSES = ['present', 'late', 'half_day', 'absent'];
+
+export class AttendanceRecalculationService {
+
+  private static readonly MAX_RANGE_DAYS = 62;
+  private static isRunning = false;
+
+  static async recalculate(options: RecalculationOptions): Promise<RecalculationSummary> {
+    const startDate = new Date(options.startDate);
+    startDate.setHours(0, 0, 0, 0);
+    const endDate = new Date(options.endDate);
+    endDate.setHours(23, 59, 59, 999);
+
+    if (startDate > endDate) {
+      throw new Error('Start date must be before end date');
+    }
+    const dayCount = Math.ceil((endDate.getTime() - startDate.getTime()) / (24 * 60 * 60 * 1000));
+    if (dayCount > this.MAX_RANGE_DAYS) {
+      throw new Error(`Date range cannot exceed ${this.MAX_RANGE_DAYS} days`);
+    }
+
+    const dryRun = options.dryRun !== false;
+    if (this.isRunning && !dryRun) {
+      throw new Error('A recalculation is already in progress');
+    }
+    if (!dryRun) this.isRunning = true;
+
+    try {
+      const summary: RecalculationSummary = {
+        startDate,
+        endDate,
+        department: options.department || 'all',
+        dryRun,
+        scanned: 0,
+        changed: 0,
+        skipped: [],
+        diffs: []
+      };
+
+      const [records, users] = await Promise.all([
+        storage.listAttendanceBetweenDates(startDate, endDate),
+        storage.listUsers()
+      ]);
+      const usersById = new Map(users.map(user => [user.id, user]));
+      const selectedIds = options.attendanceIds ? new Set(options.attendanceIds) : null;
+
+      for (const record of records) {
+        const user = usersById.get(record.userId);
+        const department = user?.department || record.userDepartment;
+        if (options.department && department !== options.department) continue;
+        if (selectedIds && !selectedIds.has(record.id)) continue;
+
+        summary.scanned++;
+        if (!user || !department) {
+          summary.skipped.push({ attendanceId: record.id, reason: 'Employee or department not found' });
+          continue;
+        }
+
+        const skipReason = this.getSkipReason(record);
+        if (skipReason) {
+          summary.skipped.push({ attendanceId: record.id, reason: skipReason });
+          continue;
+        }
+
+        const recalculated = await this.recalculateRecord(record, user, department);
+        const changes = RECALCULATED_FIELDS
+          .filter(({ field }) => field in recalculated)
+          .map(({ field, empty }) => ({
+            field,
+            before: (record[field] ?? empty) as AttendanceFieldChange['before'],
+            after: (recalculated[field] ?? empty) as AttendanceFieldChange['after']
+          }))
+          .filter(change => change.before !== change.after);
+
+        if (changes.length === 0) continue;
+
+        summary.changed++;
+        summary.diffs.push({
+          attendanceId: record.id,
+          userId: record.userId,
+          userName: user.displayName,
+          department,
+          date: record.date,
+          changes
+        });
+
+        if (!dryRun) {
+          await storage.updateAttendance(record.id, Object.fromEntries(changes.map(change => [change.field, change.after])));
+        }
+      }
+
+      if (!dryRun && summary.changed > 0) {
+        await storage.createAuditLog({
+          userId: options.triggeredBy,
+          action: 'attendance_recalculated',
+          entityType: 'attendance',
+          entityId: `recalculation_${startDate.toISOString().split('T')[0]}_${endDate.toISOString().split('T')[0]}`,
+          changes: {
+            department: summary.department,
+            records: summary.diffs.map(diff => ({ attendanceId: diff.attendanceId, userId: diff.userId, changes: diff.changes }))
+          }
+        });
+      }
+
+      console.log(`RECALCULATION: ${dryRun ? 'Dry run' : 'Run'} complete - scanned ${summary.scanned}, changed ${summary.changed}, skipped ${summary.skipped.length}`);
+      return summary;
+    } finally {
+      if (!dryRun) this.isRunning = false;
+    }
+  }
+
+  private static getSkipReason(record: Attendance): string | null {
+    if (!record.checkInTime) return 'No check-in recorded';
+    if (record.status === 'leave' || record.status === 'holiday') return `Recorded as ${record.status}`;
+    return null;
+  }
+
+  /**
+   * Same calculations as check-in and check-out, against today's timing and policy.
+   * Auto-closed records keep what the close-out policy decided: a forced half day and no overtime.
+   * A status an admin set by hand, or one recalculation does not derive, is left as it is.
+   */
+  private static async recalculateRecord(record: Attendance, user: User, department: string): Promise<Partial<Attendance>> {
+    const checkInTime = new Date(record.checkInTime!);
+    const checkOutTime = record.checkOutTime ? new Date(record.checkOutTime) : undefined;
+    const metrics = await EnterpriseTimeService.calculateTimeMetrics(user.id, department, checkInTime, checkOutTime);
+
+    // No late marking on holidays, as at check-in
+    const holiday = await HolidayService.getHolidayForDate(new Date(record.date), record.detectedOfficeId);
+    const lateness = await PermissionHourService.offsetLateArrival(user, new Date(record.date), holiday ? 0 : metrics.lateMinutes);
+
+    const forcedHalfDay = record.autoClosed && record.autoClosePolicy === 'mark_half_day';
+    const keepStatus = !!record.statusOverriddenBy || !DERIVED_STATUSES.includes(record.status);
+    const result: Partial<Attendance> = {
+      ...(!keepStatus && { status: forcedHalfDay ? 'half_day' : lateness.status }),
+      isLate: lateness.isLate,
+      lateMinutes: lateness.lateMinutes,
+      grossLateMinutes: lateness.grossLateMinutes,
+      permissionMinutesApplied: lateness.permissionMinutesApplied
+    };
+
+    if (!checkOutTime) return result;
+
+    let workingHours = Math.max(0, metrics.workingHours - (record.breakHours || 0));
+    if (forcedHalfDay) {
+      const timing = await EnterpriseTimeService.getDepartmentTiming(department);
+      workingHours = Math.min(workingHours, timing.workingHours / 2);
+    }
+    result.workingHours = round2(workingHours);
+
+    if (!record.autoClosed) {
+      const overtime = await OvertimeRequestService.recalculatePayable(user, record, metrics.overtimeHours);
+      result.recordedOvertimeHours = overtime.recordedOvertimeHours;
+      result.overtimeHours = overtime.overtimeHours;
+      result.overtimeApproved = overtime.overtimeApproved;
+    }
+
+    return result;
+  }
+}
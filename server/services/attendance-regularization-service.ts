@@ -0,0 +1,269 @@
+/**
+ * Attendance Regularization Service
+ * Employee-raised corrections for missed punches and wrong times, reviewed by the
+ * reporting manager before the attendance record is rewritten
+ */
+
+import { storage, AttendanceRegularization, User } from '../storage';
+import { EnterpriseTimeService } from './enterprise-time-service';
+import { HolidayService } from './holiday-service';
+import { PermissionHourService } from './permission-hour-service';
+import { OvertimeRequestService } from './overtime-request-service';
+import { RegularizationRequestType } from '@shared/schema';
+
+export interface RegularizationSubmitRequest {
+  attendanceId: string;
+  requestType: RegularizationRequestType;
+  requestedCheckInTime?: Date;
+  requestedCheckOutTime?: Date;
+  reason: string;
+}
+
+export interface RegularizationResult {
+  success: boolean;
+  message: string;
+  regularization?: AttendanceRegularization;
+}
+
+export class AttendanceRegularizationService {
+
+  /**
+   * Raise a regularization request against one of the employee's own attendance records
+   */
+  static async submitRequest(user: User, request: RegularizationSubmitRequest): Promise<RegularizationResult> {
+    const attendance = await storage.getAttendance(request.attendanceId);
+    if (!attendance) {
+      return { success: false, message: 'Attendance record not found' };
+    }
+
+    if (attendance.userId !== user.id) {
+      return { success: false, message: 'You can only regularize your own attendance records' };
+    }
+
+    if (!request.requestedCheckInTime && !request.requestedCheckOutTime) {
+      return { success: false, message: 'Provide the corrected check-in or check-out time' };
+    }
+
+    const effectiveCheckIn = request.requestedCheckInTime || attendance.checkInTime;
+    const effectiveCheckOut = request.requestedCheckOutTime || attendance.checkOutTime;
+    if (effectiveCheckIn && effectiveCheckOut && new Date(effectiveCheckOut) <= new Date(effectiveCheckIn)) {
+      return { success: false, message: 'Check-out time must be after check-in time' };
+    }
+
+    const now = new Date();
+    if ((request.requestedCheckInTime && request.requestedCheckInTime > now) ||
+        (request.requestedCheckOutTime && request.requestedCheckOutTime > now)) {
+      return { success: false, message: 'Corrected times cannot be in the future' };
+    }
+
+    // Only one open request per attendance record
+    const existing = await storage.listAttendanceRegularizations({
+      attendanceId: request.attendanceId,
+      status: 'pending'
+    });
+    if (existing.length > 0) {
+      return { success: false, message: 'A regularization request is already pending for this record' };
+    }
+
+    const regularization = await storage.createAttendanceRegularization({
+      attendanceId: request.attendanceId,
+      userId: user.id,
+      requestType: request.requestType,
+      requestedCheckInTime: request.requestedCheckInTime,
+      requestedCheckOutTime: request.requestedCheckOutTime,
+      reason: request.reason,
+      status: 'pending',
+      approverId: user.reportingManagerId || null,
+      originalCheckInTime: attendance.checkInTime || null,
+      originalCheckOutTime: attendance.checkOutTime || null,
+      originalStatus: attendance.status
+    });
+
+    await storage.createAuditLog({
+      userId: user.id,
+      action: 'attendance_regularization_requested',
+      entityType: 'attendance_regularization',
+      entityId: regularization.id,
+      changes: {
+        attendanceId: request.attendanceId,
+        requestType: request.requestType,
+        requestedCheckInTime: request.requestedCheckInTime,
+        requestedCheckOutTime: request.requestedCheckOutTime,
+        approverId: regularization.approverId
+      },
+      department: user.department,
+      designation: user.designation
+    });
+
+    console.log(`REGULARIZATION: Request ${regularization.id} raised by ${user.id} for attendance ${request.attendanceId}`);
+
+    return {
+      success: true,
+      message: regularization.approverId
+        ? 'Regularization request submitted to your reporting manager'
+        : 'Regularization request submitted for admin review',
+      regularization
+    };
+  }
+
+  /**
+   * Reporting manager of the requester, or an admin when no manager is assigned
+   */
+  static canReview(reviewer: User, regularization: AttendanceRegularization): boolean {
+    if (reviewer.id === regularization.userId) {
+      return false;
+    }
+    if (reviewer.role === 'master_admin' || reviewer.role === 'admin') {
+      return true;
+    }
+    return !!regularization.approverId && regularization.approverId === reviewer.id;
+  }
+
+  /**
+   * Approve or reject a pending request; approval rewrites the attendance record
+   */
+  static async reviewRequest(
+    reviewer: User,
+    regularizationId: string,
+    decision: 'approved' | 'rejected',
+    reviewComment?: string
+  ): Promise<RegularizationResult> {
+    const regularization = await storage.getAttendanceRegularization(regularizationId);
+    if (!regularization) {
+      return { success: false, message: 'Regularization request not found' };
+    }
+
+    if (!this.canReview(reviewer, regularization)) {
+      return { success: false, message: 'You are not authorized to review this request' };
+    }
+
+    if (regularization.status !== 'pending') {
+      return { success: false, message: `Request has already been ${regularization.status}` };
+    }
+
+    if (decision === 'rejected' && (!reviewComment || reviewComment.trim().length === 0)) {
+      return { success: false, message: 'A reason is required when rejecting a request' };
+    }
+
+    let attendanceChanges: Record<string, any> | undefined;
+    if (decision === 'approved') {
+      const applied = await this.applyToAttendance(regularization, reviewer);
+      if (!applied.success) {
+        return { success: false, message: applied.message };
+      }
+      attendanceChanges = applied.changes;
+    }
+
+    const updated = await storage.updateAttendanceRegularization(regularizationId, {
+      status: decision,
+      reviewedBy: reviewer.id,
+      reviewedAt: new Date(),
+      reviewComment: reviewComment || ''
+    });
+
+    await storage.createAuditLog({
+      userId: reviewer.id,
+      action: `attendance_regularization_${decision}`,
+      entityType: 'attendance_regularization',
+      entityId: regularizationId,
+      changes: {
+        attendanceId: regularization.attendanceId,
+        requesterId: regularization.userId,
+        reviewComment: reviewComment || '',
+        before: {
+          checkInTime: regularization.originalCheckInTime,
+          checkOutTime: regularization.originalCheckOutTime,
+          status: regularization.originalStatus
+        },
+        ...(attendanceChanges && { after: attendanceChanges })
+      },
+      department: reviewer.department,
+      designation: reviewer.designation
+    });
+
+    console.log(`REGULARIZATION: Request ${regularizationId} ${decision} by ${reviewer.id}`);
+
+    return {
+      success: true,
+      message: `Regularization request ${decision}`,
+      regularization: updated
+    };
+  }
+
+  /**
+   * Rewrite check-in/out on the attendance record and recompute it the way check-in and check-out
+   * would have: lateness through the day's half-day or hourly leave, permissions and the attendance
+   * policy, hours net of breaks, and overtime capped at what was approved
+   */
+  private static async applyToAttendance(
+    regularization: AttendanceRegularization,
+    reviewer: User
+  ): Promise<{ success: boolean; message: string; changes?: Record<string, any> }> {
+    const attendance = await storage.getAttendance(regularization.attendanceId);
+    if (!attendance) {
+      return { success: false, message: 'Attendance record no longer exists' };
+    }
+
+    const requester = await storage.getUser(regularization.userId);
+    if (!requester) {
+      return { success: false, message: 'Employee no longer exists' };
+    }
+    const checkInTime = regularization.requestedCheckInTime
+      ? new Date(regularization.requestedCheckInTime)
+      : attendance.checkInTime ? new Date(attendance.checkInTime) : undefined;
+    const checkOutTime = regularization.requestedCheckOutTime
+      ? new Date(regularization.requestedCheckOutTime)
+      : attendance.checkOutTime ? new Date(attendance.checkOutTime) : undefined;
+
+    if (!checkInTime) {
+      return { success: false, message: 'Check-in time is required to recompute attendance' };
+    }
+
+    const timeMetrics = await EnterpriseTimeService.calculateTimeMetrics(
+      regularization.userId,
+      requester.department || attendance.userDepartment || 'operations',
+      checkInTime,
+      checkOutTime
+    );
+
+    // No late marking on holidays, as at check-in. Approved partial leave on the day is taken off
+    // first, so a morning leave still excuses the arrival and a half-day leave keeps the day half_day
+    const holiday = await HolidayService.getHolidayForDate(new Date(attendance.date), attendance.detectedOfficeId);
+    const lateness = await PermissionHourService.offsetLateArrival(
+      requester,
+      new Date(attendance.date),
+      holiday ? 0 : timeMetrics.lateMinutes
+    );
+
+    const changes: Record<string, any> = {
+      checkInTime,
+      isLate: lateness.isLate,
+      lateMinutes: lateness.lateMinutes,
+      grossLateMinutes: lateness.grossLateMinutes,
+      permissionMinutesApplied: lateness.permissionMinutesApplied,
+      approvedBy: reviewer.id,
+      requiresRegularization: false, // Clears the auto-close flag; the day now has reviewed times
+      remarks: `Regularized (${regularization.requestType.replace('_', ' ')}): ${regularization.reason}`
+    };
+
+    if (checkOutTime) {
+      changes.checkOutTime = checkOutTime;
+      changes.workingHours = Math.round(Math.max(0, timeMetrics.workingHours - (attendance.breakHours || 0)) * 100) / 100;
+
+      // Only approved hours are payable; the corrected raw figure stays in recordedOvertimeHours
+      const overtime = await OvertimeRequestService.recalculatePayable(requester, attendance, timeMetrics.overtimeHours);
+      changes.recordedOvertimeHours = overtime.recordedOvertimeHours;
+      changes.overtimeHours = overtime.overtimeHours;
+      changes.overtimeApproved = overtime.overtimeApproved;
+    }
+
+    // Leave and holiday records are decided elsewhere
+    if (['present', 'late', 'absent', 'half_day'].includes(attendance.status)) {
+      changes.status = lateness.status;
+    }
+
+    await storage.updateAttendance(attendance.id, changes);
+
+    return { success: true, message: 'Attendance updated', changes };
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import { storage } from '../storage';
+import { LocationValidationSettings, defaultLocationValidationSettings } from '@shared/schema';
 
 export interface LocationRequest {
   latitude: number;
@@ -27,7 +28,7 @@ export interface LocationValidationResult {
     name: string;
     distance: number;
   } | null;
-  validationType: 'exact' | 'indoor_compensation' | 'proximity_based' | 'failed';
+  validationType: 'exact' | 'indoor_compensation' | 'proximity_based' | 'qr_code' | 'failed'; // qr_code = signed office QR scanned
   message: string;
   recommendations: string[];
   metadata: {
@@ -35,21 +36,28 @@ export interface LocationValidationResult {
     effectiveRadius: number;
     indoorDetection: boolean;
     confidenceFactors: string[];
+    officeId?: string; // Office the point was measured against, set even when validation failed
+    geofence?: {
+      inside: boolean;
+      edgeDistance: number; // meters to the nearest polygon edge
+      accuracyBuffer: number;
+    };
   };
 }
 
 export class EnterpriseLocationService {
-  // Precision thresholds for enterprise-grade accuracy (more realistic for mobile devices)
-  private static readonly PRECISION_EXCELLENT = 10;   // meters
-  private static readonly PRECISION_GOOD = 50;        // meters  
-  private static readonly PRECISION_FAIR = 200;       // meters
-  private static readonly PRECISION_POOR = 500;       // meters
-  
-  // Indoor GPS compensation parameters - very aggressive for real-world usage
-  private static readonly INDOOR_ACCURACY_THRESHOLD = 50;      // meters - trigger indoor mode sooner
-  private static readonly INDOOR_DISTANCE_MULTIPLIER = 20.0;   // Allow 20x base radius indoors
-  private static readonly POOR_GPS_THRESHOLD = 200;            // meters - trigger poor GPS mode sooner  
-  private static readonly POOR_GPS_MULTIPLIER = 25.0;          // Allow 25x base radius for very poor GPS
+  // Thresholds used when an office has no validationSettings override
+  static readonly DEFAULT_VALIDATION_SETTINGS = defaultLocationValidationSettings;
+
+  /**
+   * Office thresholds with the office's overrides applied over the defaults
+   */
+  static resolveValidationSettings(office?: { validationSettings?: LocationValidationSettings | null }): Required<LocationValidationSettings> {
+    const overrides = Object.fromEntries(
+      Object.entries(office?.validationSettings || {}).filter(([, value]) => typeof value === 'number')
+    );
+    return { ...this.DEFAULT_VALIDATION_SETTINGS, ...overrides };
+  }
 
   /**
    * Get device-aware validation radius based on device type and base radius
@@ -115,7 +123,7 @@ export class EnterpriseLocationService {
   /**
    * Calculate precise distance between two coordinates using Haversine formula
    */
-  private static calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  static calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
     const R = 6371000; // Earth's radius in meters
     const φ1 = lat1 * Math.PI / 180;
     const φ2 = lat2 * Math.PI / 180;
@@ -130,6 +138,49 @@ export class EnterpriseLocationService {
     return R * c;
   }
 
+  /**
+   * Point-in-polygon test plus distance to the nearest polygon edge.
+   * Vertices are projected onto a local flat plane around the point, which is accurate at office scale.
+   */
+  static measureGeofence(
+    latitude: number,
+    longitude: number,
+    polygon: { latitude: number; longitude: number }[]
+  ): { inside: boolean; edgeDistance: number } {
+    const metersPerDegree = 6371000 * Math.PI / 180;
+    const cosLat = Math.cos(latitude * Math.PI / 180);
+    const vertices = polygon.map(p => ({
+      x: (p.longitude - longitude) * metersPerDegree * cosLat,
+      y: (p.latitude - latitude) * metersPerDegree
+    }));
+
+    let inside = false;
+    let edgeDistance = Infinity;
+
+    for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+      const a = vertices[j];
+      const b = vertices[i];
+
+      // Ray casting from the point (origin) along +x
+      if ((a.y > 0) !== (b.y > 0) && 0 < a.x + (0 - a.y) * (b.x - a.x) / (b.y - a.y)) {
+        inside = !inside;
+      }
+
+      // Distance from the origin to segment a-b
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const lengthSquared = dx * dx + dy * dy;
+      const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared));
+      edgeDistance = Math.min(edgeDistance, Math.hypot(a.x + t * dx, a.y + t * dy));
+    }
+
+    return { inside, edgeDistance };
+  }
+
+  private static hasGeofence(office: any): boolean {
+    return Array.isArray(office.geofence) && office.geofence.length >= 3;
+  }
+
   /**
    * Advanced office detection with smart indoor compensation
    */
@@ -170,12 +221,18 @@ export class EnterpriseLocationService {
       console.log('LOCATION VALIDATION: Office coordinates:', office.latitude, office.longitude);
       console.log('LOCATION VALIDATION: Office radius:', office.radius || 100);
       
-      const distance = this.calculateDistance(
-        request.latitude,
-        request.longitude,
-        parseFloat(office.latitude),
-        parseFloat(office.longitude)
-      );
+      // Polygon offices measure from the boundary (0 inside) rather than from the center point
+      const geofence = this.hasGeofence(office)
+        ? this.measureGeofence(request.latitude, request.longitude, office.geofence!)
+        : null;
+      const distance = geofence
+        ? (geofence.inside ? 0 : geofence.edgeDistance)
+        : this.calculateDistance(
+          request.latitude,
+          request.longitude,
+          parseFloat(office.latitude),
+          parseFloat(office.longitude)
+        );
 
       console.log('LOCATION VALIDATION: Distance to office:', Math.round(distance), 'meters');
 
@@ -236,7 +293,12 @@ export class EnterpriseLocationService {
     office: any, 
     distance: number
   ): LocationValidationResult {
+    if (this.hasGeofence(office)) {
+      return this.validateAgainstGeofence(request, office);
+    }
+
     const baseRadius = office.radius || 100;
+    const settings = this.resolveValidationSettings(office);
     const confidenceFactors: string[] = [];
     let confidence = 0;
     let validationType: 'exact' | 'indoor_compensation' | 'proximity_based' | 'failed' = 'failed';
@@ -259,11 +321,11 @@ export class EnterpriseLocationService {
     });
 
     // Determine GPS quality
-    const isExcellentGPS = request.accuracy <= this.PRECISION_EXCELLENT;
-    const isGoodGPS = request.accuracy <= this.PRECISION_GOOD;
-    const isFairGPS = request.accuracy <= this.PRECISION_FAIR;
-    const isPoorGPS = request.accuracy <= this.PRECISION_POOR;
-    const isVeryPoorGPS = request.accuracy > this.PRECISION_POOR;
+    const isExcellentGPS = request.accuracy <= settings.precisionExcellent;
+    const isGoodGPS = request.accuracy <= settings.precisionGood;
+    const isFairGPS = request.accuracy <= settings.precisionFair;
+    const isPoorGPS = request.accuracy <= settings.precisionPoor;
+    const isVeryPoorGPS = request.accuracy > settings.precisionPoor;
 
     // Device-aware base radius validation
     if (distance <= baseRadius) {
@@ -298,7 +360,7 @@ export class EnterpriseLocationService {
       confidenceFactors.push(`device_aware_validation_${request.deviceInfo?.locationCapability || 'default'}`);
     }
     // Aggressive indoor GPS compensation for any poor accuracy
-    else if (request.accuracy >= this.INDOOR_ACCURACY_THRESHOLD && distance <= baseRadius * this.INDOOR_DISTANCE_MULTIPLIER) {
+    else if (request.accuracy >= settings.indoorAccuracyThreshold && distance <= baseRadius * settings.indoorDistanceMultiplier) {
       isValid = true;
       validationType = 'indoor_compensation';
       confidence = 0.85;
@@ -307,7 +369,7 @@ export class EnterpriseLocationService {
       recommendations.push('GPS accuracy is limited indoors - location validated successfully');
     }
     // Very aggressive poor GPS compensation - assume indoor if GPS is bad
-    else if (request.accuracy >= this.POOR_GPS_THRESHOLD && distance <= baseRadius * this.POOR_GPS_MULTIPLIER) {
+    else if (request.accuracy >= settings.poorGpsThreshold && distance <= baseRadius * settings.poorGpsMultiplier) {
       isValid = true;
       validationType = 'proximity_based';
       confidence = 0.80;
@@ -361,9 +423,9 @@ export class EnterpriseLocationService {
     // Calculate effective radius used for validation
     let effectiveRadius = baseRadius;
     if (validationType === 'indoor_compensation') {
-      effectiveRadius = baseRadius * this.INDOOR_DISTANCE_MULTIPLIER;
+      effectiveRadius = baseRadius * settings.indoorDistanceMultiplier;
     } else if (validationType === 'proximity_based' && isVeryPoorGPS) {
-      effectiveRadius = baseRadius * this.POOR_GPS_MULTIPLIER;
+      effectiveRadius = baseRadius * settings.poorGpsMultiplier;
     }
 
     const detectedOffice = isValid ? {
@@ -384,7 +446,83 @@ export class EnterpriseLocationService {
         accuracy: request.accuracy,
         effectiveRadius: Math.round(effectiveRadius),
         indoorDetection: validationType === 'indoor_compensation',
-        confidenceFactors
+        confidenceFactors,
+        officeId: office.id
+      }
+    };
+  }
+
+  /**
+   * Validate against an office boundary polygon. A point outside the polygon still passes when
+   * the nearest edge is within the reported GPS accuracy (capped), since the true position may be inside.
+   */
+  private static validateAgainstGeofence(request: LocationRequest, office: any): LocationValidationResult {
+    const settings = this.resolveValidationSettings(office);
+    const { inside, edgeDistance } = this.measureGeofence(request.latitude, request.longitude, office.geofence);
+    const accuracyBuffer = Math.min(Math.max(request.accuracy || 0, 0), settings.geofenceMaxAccuracyBuffer);
+    const deviceConfidenceMultiplier = this.getDeviceConfidenceMultiplier(request.accuracy, request.deviceInfo);
+    const roundedEdgeDistance = Math.round(edgeDistance);
+    const distance = inside ? 0 : roundedEdgeDistance;
+    const confidenceFactors: string[] = [];
+    const recommendations: string[] = [];
+    let isValid = false;
+    let validationType: LocationValidationResult['validationType'] = 'failed';
+    let confidence = 0;
+    let message: string;
+
+    console.log('GEOFENCE VALIDATION:', {
+      office: office.name,
+      vertices: office.geofence.length,
+      inside,
+      edgeDistance: roundedEdgeDistance,
+      accuracy: Math.round(request.accuracy),
+      accuracyBuffer: Math.round(accuracyBuffer)
+    });
+
+    if (inside) {
+      isValid = true;
+      validationType = 'exact';
+      // Close to the edge with a wide error circle means the fix could be just outside
+      const straddlesEdge = edgeDistance < request.accuracy;
+      confidence = (straddlesEdge ? 0.85 : 0.95) * deviceConfidenceMultiplier;
+      message = `Inside office boundary. Nearest edge: ${roundedEdgeDistance}m`;
+      confidenceFactors.push('inside_geofence_polygon');
+      if (straddlesEdge) confidenceFactors.push('accuracy_overlaps_boundary');
+    } else if (edgeDistance <= accuracyBuffer) {
+      isValid = true;
+      validationType = request.accuracy >= settings.indoorAccuracyThreshold ? 'indoor_compensation' : 'proximity_based';
+      confidence = 0.75 * deviceConfidenceMultiplier;
+      message = `Within GPS accuracy of office boundary. Distance to nearest edge: ${roundedEdgeDistance}m`;
+      confidenceFactors.push('geofence_accuracy_buffer');
+      recommendations.push('GPS accuracy is limited - location validated against the office boundary');
+    } else {
+      message = `Outside office boundary. Distance to nearest edge: ${roundedEdgeDistance}m`;
+      if (request.accuracy > settings.precisionPoor) {
+        recommendations.push('GPS accuracy is very poor - try moving to an open area');
+        confidenceFactors.push('very_poor_gps');
+      } else {
+        recommendations.push(`Move inside the office premises (currently ${roundedEdgeDistance}m outside)`);
+        confidenceFactors.push('outside_geofence_polygon');
+      }
+    }
+
+    if (request.deviceInfo?.type) confidenceFactors.push(`device_${request.deviceInfo.type}`);
+
+    return {
+      isValid,
+      confidence,
+      distance,
+      detectedOffice: isValid ? { id: office.id, name: office.name, distance } : null,
+      validationType,
+      message,
+      recommendations,
+      metadata: {
+        accuracy: request.accuracy,
+        effectiveRadius: Math.round(accuracyBuffer),
+        indoorDetection: validationType === 'indoor_compensation',
+        confidenceFactors,
+        officeId: office.id,
+        geofence: { inside, edgeDistance: roundedEdgeDistance, accuracyBuffer: Math.round(accuracyBuffer) }
       }
     };
   }
@@ -417,16 +555,16 @@ export class EnterpriseLocationService {
   static getLocationRecommendations(accuracy: number): string[] {
     const recommendations: string[] = [];
     
-    if (accuracy > this.PRECISION_POOR) {
+    if (accuracy > this.DEFAULT_VALIDATION_SETTINGS.precisionPoor) {
       recommendations.push('GPS accuracy is very poor - try these steps:');
       recommendations.push('• Move to an open area away from buildings');
       recommendations.push('• Restart your location services');
       recommendations.push('• Check if location permissions are granted');
-    } else if (accuracy > this.PRECISION_FAIR) {
+    } else if (accuracy > this.DEFAULT_VALIDATION_SETTINGS.precisionFair) {
       recommendations.push('GPS accuracy is limited - try these steps:');
       recommendations.push('• Move closer to a window if indoors');
       recommendations.push('• Wait a moment for GPS to improve');
-    } else if (accuracy > this.PRECISION_GOOD) {
+    } else if (accuracy > this.DEFAULT_VALIDATION_SETTINGS.precisionGood) {
       recommendations.push('GPS accuracy is moderate - location detected successfully');
     } else {
       recommendations.push('Excellent GPS accuracy - location precisely detected');
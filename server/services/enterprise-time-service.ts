@@ -4,13 +4,17 @@
  * Handles all time operations in 12-hour format with real-time synchronization
  */
 
-import { storage } from '../storage';
+import { storage, Shift } from '../storage';
+import { ShiftRosterService } from './shift-roster-service';
+import { HolidayService } from './holiday-service';
+import type { AutoCheckOutPolicy } from '@shared/schema';
 
 export interface DepartmentTiming {
   department: string;
   checkInTime: string; // 12-hour format "9:00 AM"
   checkOutTime: string; // 12-hour format "6:00 PM"
   workingHours: number; // Calculated working hours
+  breakDurationMinutes: number; // Allowed break time per day
   lateThresholdMinutes: number;
   overtimeThresholdMinutes: number;
   isFlexibleTiming: boolean;
@@ -18,6 +22,9 @@ export interface DepartmentTiming {
   allowRemoteWork: boolean; // Policy: Allow remote work attendance
   allowFieldWork: boolean; // Policy: Allow field work attendance
   allowEarlyCheckOut: boolean; // Policy: Allow early checkout
+  autoCheckOutGraceMinutes: number; // Minutes after checkOutTime before open records are auto-closed
+  autoCheckOutPolicy: AutoCheckOutPolicy;
+  permissionMinutesPerMonth: number; // Short-leave allowance per employee per month
   isActive: boolean;
   lastUpdated: Date;
 }
@@ -32,6 +39,14 @@ export interface TimeCalculationResult {
   actualCheckInTime: string;
   actualCheckOutTime?: string;
   overtimeStartTime?: string;
+  shiftName?: string; // Set when a rostered shift replaced the department timing
+}
+
+export interface ShiftWindow {
+  timing: DepartmentTiming;
+  shiftStart: Date;
+  shiftEnd: Date;
+  shift: Shift | null;
 }
 
 export class EnterpriseTimeService {
@@ -65,6 +80,7 @@ export class EnterpriseTimeService {
           checkInTime: this.normalize12HourFormat(timing.checkInTime),
           checkOutTime: this.normalize12HourFormat(timing.checkOutTime),
           workingHours: timing.workingHours || 8,
+          breakDurationMinutes: timing.breakDurationMinutes ?? 60,
           lateThresholdMinutes: timing.lateThresholdMinutes || 15,
           overtimeThresholdMinutes: timing.overtimeThresholdMinutes || 0,
           isFlexibleTiming: timing.isFlexibleTiming || false,
@@ -72,6 +88,9 @@ export class EnterpriseTimeService {
           allowRemoteWork: timing.allowRemoteWork !== undefined ? timing.allowRemoteWork : true,
           allowFieldWork: timing.allowFieldWork !== undefined ? timing.allowFieldWork : true,
           allowEarlyCheckOut: timing.allowEarlyCheckOut !== undefined ? timing.allowEarlyCheckOut : (department === 'sales'),
+          autoCheckOutGraceMinutes: timing.autoCheckOutGraceMinutes ?? 120,
+          autoCheckOutPolicy: timing.autoCheckOutPolicy || 'cap_at_shift_end',
+          permissionMinutesPerMonth: timing.permissionMinutesPerMonth ?? 120,
           isActive: timing.isActive !== false,
           lastUpdated: timing.updatedAt || new Date()
         };
@@ -99,12 +118,9 @@ export class EnterpriseTimeService {
     checkInTime: Date,
     checkOutTime?: Date
   ): Promise<TimeCalculationResult> {
-    const timing = await this.getDepartmentTiming(department);
-    const today = new Date(checkInTime);
-    
-    // Calculate expected times for today
-    const expectedCheckIn = this.parseTimeToDate(timing.checkInTime, today);
-    const expectedCheckOut = this.parseTimeToDate(timing.checkOutTime, today);
+    // Rostered shift for the day if any, otherwise department timing (handles overnight shifts)
+    const { timing, shiftStart: expectedCheckIn, shiftEnd: expectedCheckOut, shift } =
+      await this.getShiftWindowForCheckIn(userId, department, checkInTime);
     
     // Calculate if late
     const isLate = checkInTime > expectedCheckIn;
@@ -160,7 +176,8 @@ export class EnterpriseTimeService {
       expectedCheckOutTime: timing.checkOutTime,
       actualCheckInTime: this.formatTo12Hour(checkInTime),
       actualCheckOutTime: checkOutTime ? this.formatTo12Hour(checkOutTime) : undefined,
-      overtimeStartTime
+      overtimeStartTime,
+      shiftName: shift?.name
     };
   }
 
@@ -203,6 +220,8 @@ export class EnterpriseTimeService {
     allowRemoteWork?: boolean;
     allowFieldWork?: boolean;
     allowEarlyCheckOut?: boolean;
+    autoCheckOutGraceMinutes?: number;
+    autoCheckOutPolicy?: AutoCheckOutPolicy;
   }>): Promise<void> {
     const updatePromises = timings.map(async (timing) => {
       console.log(`ENTERPRISE_TIME_SERVICE: Processing timing update for ${timing.department}`);
@@ -227,6 +246,8 @@ export class EnterpriseTimeService {
         ...(timing.allowRemoteWork !== undefined && { allowRemoteWork: Boolean(timing.allowRemoteWork) }),
         ...(timing.allowFieldWork !== undefined && { allowFieldWork: Boolean(timing.allowFieldWork) }),
         ...(timing.allowEarlyCheckOut !== undefined && { allowEarlyCheckOut: Boolean(timing.allowEarlyCheckOut) }),
+        ...(timing.autoCheckOutGraceMinutes !== undefined && { autoCheckOutGraceMinutes: Number(timing.autoCheckOutGraceMinutes) }),
+        ...(timing.autoCheckOutPolicy !== undefined && { autoCheckOutPolicy: timing.autoCheckOutPolicy }),
         updatedAt: new Date()
       };
       
@@ -399,6 +420,7 @@ export class EnterpriseTimeService {
       checkInTime: '9:00 AM',
       checkOutTime: '6:00 PM',
       workingHours: 8,
+      breakDurationMinutes: 60,
       lateThresholdMinutes: 15,
       overtimeThresholdMinutes: 0,
       isFlexibleTiming: false,
@@ -406,15 +428,69 @@ export class EnterpriseTimeService {
       allowRemoteWork: true,
       allowFieldWork: true,
       allowEarlyCheckOut: department === 'sales' ? true : false,
+      autoCheckOutGraceMinutes: 120,
+      autoCheckOutPolicy: 'cap_at_shift_end',
+      permissionMinutesPerMonth: 120,
       isActive: true,
       lastUpdated: new Date()
     };
   }
 
   /**
-   * Validate if time is in business hours
+   * Expected shift start/end for a given work date; overnight shifts end on the next day.
+   * When a userId is given, a rostered shift for that date overrides the department timing.
    */
-  static async isBusinessHours(department: string, currentTime: Date = new Date()): Promise<boolean> {
+  static async getShiftWindow(department: string, workDate: Date, userId?: string): Promise<ShiftWindow> {
+    let timing = await this.getDepartmentTiming(department);
+    const shift = userId ? await ShiftRosterService.getRosteredShift(userId, workDate) : null;
+
+    if (shift) {
+      const checkIn12 = this.normalize12HourFormat(shift.startTime);
+      const checkOut12 = this.normalize12HourFormat(shift.endTime);
+      timing = {
+        ...timing,
+        checkInTime: checkIn12,
+        checkOutTime: checkOut12,
+        workingHours: this.calculate12HourWorkingHours(checkIn12, checkOut12),
+        breakDurationMinutes: shift.breakDurationMinutes
+      };
+    }
+
+    const shiftStart = this.parseTimeToDate(timing.checkInTime, workDate);
+    const shiftEnd = this.parseTimeToDate(timing.checkOutTime, workDate);
+
+    if (shiftEnd <= shiftStart) {
+      shiftEnd.setDate(shiftEnd.getDate() + 1);
+    }
+
+    return { timing, shiftStart, shiftEnd, shift };
+  }
+
+  /**
+   * Shift window a check-in belongs to - a punch after midnight still belongs to
+   * the previous day's overnight shift while that shift is running
+   */
+  static async getShiftWindowForCheckIn(userId: string, department: string, checkInTime: Date): Promise<ShiftWindow> {
+    const previousDay = new Date(checkInTime);
+    previousDay.setDate(previousDay.getDate() - 1);
+
+    const previousWindow = await this.getShiftWindow(department, previousDay, userId);
+    const crossesMidnight = previousWindow.shiftEnd.getDate() !== previousWindow.shiftStart.getDate();
+    if (crossesMidnight && checkInTime < previousWindow.shiftEnd) {
+      return previousWindow;
+    }
+
+    return this.getShiftWindow(department, new Date(checkInTime), userId);
+  }
+
+  /**
+   * Validate if time is in business hours (company holidays are never business hours)
+   */
+  static async isBusinessHours(department: string, currentTime: Date = new Date(), officeLocationId?: string | null): Promise<boolean> {
+    if (await HolidayService.isHoliday(currentTime, officeLocationId)) {
+      return false;
+    }
+
     const timing = await this.getDepartmentTiming(department);
     const todayCheckIn = this.parseTimeToDate(timing.checkInTime, currentTime);
     const todayCheckOut = this.parseTimeToDate(timing.checkOutTime, currentTime);
@@ -425,13 +501,16 @@ export class EnterpriseTimeService {
   /**
    * Get next business day timing
    */
-  static async getNextBusinessDay(department: string, fromDate: Date = new Date()): Promise<Date> {
+  static async getNextBusinessDay(department: string, fromDate: Date = new Date(), officeLocationId?: string | null): Promise<Date> {
     const timing = await this.getDepartmentTiming(department);
     let nextDate = new Date(fromDate);
     nextDate.setDate(nextDate.getDate() + 1);
     
-    // Skip weekends
-    while (timing.weekendDays.includes(nextDate.getDay())) {
+    // Skip weekends and holidays (bounded so a misconfigured calendar cannot loop forever)
+    for (let attempts = 0; attempts < 60; attempts++) {
+      if (!timing.weekendDays.includes(nextDate.getDay()) && !(await HolidayService.isHoliday(nextDate, officeLocationId))) {
+        break;
+      }
       nextDate.setDate(nextDate.getDate() + 1);
     }
     
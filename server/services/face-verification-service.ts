@@ -0,0 +1,192 @@
+/**
+ * Face Verification Service
+ * Compares attendance selfies with the employee's profile photo using the face-api models,
+ * run locally on TensorFlow so photos never leave the server. The reference is the employee
+ * profile's personalInfo.photoURL, falling back to an uploaded "photo" document.
+ */
+
+import { createRequire } from 'module';
+import path from 'path';
+import type * as FaceApi from '@vladmandic/face-api';
+import type * as TensorFlow from '@tensorflow/tfjs-node';
+import type { FaceMatchStatus } from '@shared/schema';
+import { storage } from '../storage';
+
+export interface FaceMatchResult {
+  status: FaceMatchStatus;
+  score?: number; // 0-1 similarity between the two face descriptors
+  message: string;
+}
+
+interface FaceEngine {
+  tf: typeof TensorFlow;
+  faceapi: typeof FaceApi;
+  options: FaceApi.SsdMobilenetv1Options;
+}
+
+export class FaceVerificationService {
+
+  // Similarity is 1 - euclidean distance; face-api treats distances under ~0.6 as the same person
+  static readonly MATCH_THRESHOLD = 0.45;
+  private static readonly MIN_DETECTION_CONFIDENCE = 0.5;
+  private static readonly IMAGE_FETCH_TIMEOUT = 10000;
+  // Profile photos are only downloaded from our Cloudinary account's delivery host
+  private static readonly PHOTO_HOST = 'res.cloudinary.com';
+
+  private static engine: Promise<FaceEngine | null> | null = null;
+  // Descriptors of profile photos, keyed by URL so a new photo is picked up immediately
+  private static referenceCache = new Map<string, { descriptor: Float32Array | null; expiresAt: number }>();
+  private static readonly CACHE_DURATION = 6 * 60 * 60 * 1000; // 6 hours
+
+  /**
+   * Match a check-in photo against the employee's reference photo
+   */
+  static async verifyAttendancePhoto(userId: string, photo: Buffer): Promise<FaceMatchResult> {
+    const engine = await this.loadEngine();
+    if (!engine) {
+      return { status: 'unavailable', message: 'Face verification models could not be loaded' };
+    }
+
+    try {
+      const referenceUrl = await this.getReferencePhotoUrl(userId);
+      if (!referenceUrl) {
+        return { status: 'no_reference', message: 'Employee has no profile photo to compare with' };
+      }
+      if (!this.isAllowedPhotoUrl(referenceUrl)) {
+        return { status: 'no_reference', message: 'Profile photo is not stored in Cloudinary' };
+      }
+
+      const reference = await this.getReferenceDescriptor(engine, referenceUrl);
+      if (reference === undefined) {
+        return { status: 'unavailable', message: 'Profile photo could not be downloaded' };
+      }
+      if (reference === null) {
+        return { status: 'no_reference', message: 'No face found in the profile photo' };
+      }
+
+      const descriptor = await this.describeFace(engine, photo);
+      if (!descriptor) {
+        return { status: 'no_face', message: 'No face found in the check-in photo' };
+      }
+
+      const score = Math.max(0, Math.round((1 - engine.faceapi.euclideanDistance(reference, descriptor)) * 100) / 100);
+      if (score < this.MATCH_THRESHOLD) {
+        return { status: 'low_confidence', score, message: `Face match score ${score} is below ${this.MATCH_THRESHOLD}` };
+      }
+
+      return { status: 'matched', score, message: `Face matched the profile photo (score ${score})` };
+    } catch (error) {
+      console.error('FACE_VERIFICATION: Could not analyze photos:', error);
+      return { status: 'unavailable', message: 'Photos could not be analyzed' };
+    }
+  }
+
+  /**
+   * Profile photo URL, preferring the employee record's photo over verified and then any photo documents
+   */
+  private static async getReferencePhotoUrl(userId: string): Promise<string | undefined> {
+    const employee = await storage.getEmployeeBySystemUserId(userId);
+    if (!employee) return undefined;
+    if (employee.personalInfo?.photoURL) return employee.personalInfo.photoURL;
+
+    const documents = await storage.getEmployeeDocumentsByType(employee.id, 'photo');
+    return (documents.find(document => document.isVerified) || documents[0])?.documentUrl;
+  }
+
+  /**
+   * Cached descriptor for a profile photo: null when it has no face, undefined when it could not be fetched
+   */
+  private static async getReferenceDescriptor(engine: FaceEngine, url: string): Promise<Float32Array | null | undefined> {
+    const cached = this.referenceCache.get(url);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.descriptor;
+    }
+
+    const image = await this.fetchImage(url);
+    if (!image) return undefined;
+
+    const descriptor = await this.describeFace(engine, image);
+    this.referenceCache.set(url, { descriptor, expiresAt: Date.now() + this.CACHE_DURATION });
+    return descriptor;
+  }
+
+  /**
+   * Descriptor of the most prominent face in the image; other faces (people in the background) are ignored
+   */
+  private static async describeFace(engine: FaceEngine, image: Buffer): Promise<Float32Array | null> {
+    const tensor = engine.tf.node.decodeImage(image, 3) as TensorFlow.Tensor3D;
+    try {
+      const faces = await engine.faceapi
+        .detectAllFaces(tensor as unknown as FaceApi.TNetInput, engine.options)
+        .withFaceLandmarks()
+        .withFaceDescriptors();
+      if (faces.length === 0) return null;
+
+      const largest = faces.reduce((best, face) => face.detection.box.area > best.detection.box.area ? face : best);
+      return largest.descriptor;
+    } finally {
+      tensor.dispose();
+    }
+  }
+
+  /**
+   * Load TensorFlow and the detection, landmark and recognition models once. The native
+   * TensorFlow binding is required lazily so a host without it still serves check-ins.
+   */
+  private static loadEngine(): Promise<FaceEngine | null> {
+    if (!this.engine) {
+      this.engine = (async () => {
+        try {
+          const require = createRequire(import.meta.url);
+          // tfjs-node has to be loaded before face-api so it registers the native backend
+          const tf: typeof TensorFlow = require('@tensorflow/tfjs-node');
+          const faceapi: typeof FaceApi = require('@vladmandic/face-api');
+          await tf.ready();
+
+          const modelPath = path.join(path.dirname(require.resolve('@vladmandic/face-api/package.json')), 'model');
+          await faceapi.nets.ssdMobilenetv1.loadFromDisk(modelPath);
+          await faceapi.nets.faceLandmark68Net.loadFromDisk(modelPath);
+          await faceapi.nets.faceRecognitionNet.loadFromDisk(modelPath);
+
+          console.log(`FACE_VERIFICATION: Models loaded (TensorFlow backend: ${tf.getBackend()})`);
+          return {
+            tf,
+            faceapi,
+            options: new faceapi.SsdMobilenetv1Options({ minConfidence: this.MIN_DETECTION_CONFIDENCE })
+          };
+        } catch (error) {
+          // Punches are still analyzed without it; verification reports 'unavailable' until a restart
+          console.error('FACE_VERIFICATION: Failed to load face models:', error);
+          return null;
+        }
+      })();
+    }
+    return this.engine;
+  }
+
+  private static isAllowedPhotoUrl(url: string): boolean {
+    try {
+      const parsed = new URL(url);
+      return parsed.protocol === 'https:' && parsed.hostname === this.PHOTO_HOST;
+    } catch {
+      return false;
+    }
+  }
+
+  private static async fetchImage(url: string): Promise<Buffer | undefined> {
+    if (!this.isAllowedPhotoUrl(url)) return undefined;
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.IMAGE_FETCH_TIMEOUT);
+    try {
+      const response = await fetch(url, { signal: controller.signal });
+      if (!response.ok) return undefined;
+      return Buffer.from(await response.arrayBuffer());
+    } catch (error) {
+      console.error('FACE_VERIFICATION: Could not fetch profile photo:', error);
+      return undefined;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Holiday Service
+ * Company holiday calendar lookups shared by timing, check-in and payroll.
+ * Holidays without office locations apply company-wide; optional holidays never close the office.
+ */
+
+import { storage, Holiday } from '../storage';
+
+export interface PaidHolidaySummary {
+  count: number;
+  holidays: Array<{ id: string; name: string; date: Date }>;
+}
+
+export class HolidayService {
+
+  // Calendars change rarely but are read on every check-in
+  private static yearCache = new Map<number, { holidays: Holiday[]; expiresAt: number }>();
+  private static readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+
+  /**
+   * Active holidays between two dates (inclusive) that apply to the office
+   */
+  static async getHolidaysBetween(startDate: Date, endDate: Date, officeLocationId?: string | null): Promise<Holiday[]> {
+    const holidays = await this.loadHolidaysBetween(startDate, endDate);
+    return holidays.filter(holiday => this.appliesToOffice(holiday, officeLocationId));
+  }
+
+  /**
+   * Holiday that closes the office on the date, or null on a working day.
+   * Optional holidays are only returned when explicitly requested.
+   */
+  static async getHolidayForDate(
+    date: Date,
+    officeLocationId?: string | null,
+    includeOptional: boolean = false
+  ): Promise<Holiday | null> {
+    const holidays = await this.getHolidaysBetween(date, date, officeLocationId);
+    return holidays.find(holiday => includeOptional || holiday.type !== 'optional') || null;
+  }
+
+  static async isHoliday(date: Date, officeLocationId?: string | null): Promise<boolean> {
+    return (await this.getHolidayForDate(date, officeLocationId)) !== null;
+  }
+
+  /**
+   * Paid holidays in a period that the employee did not work and that fall outside weekly offs.
+   * Days already counted as worked are excluded so a holiday is never paid twice.
+   */
+  static async countPaidHolidays(options: {
+    startDate: Date;
+    endDate: Date;
+    weekendDays: number[];
+    workedDates: Set<string>; // toDateString() keys of days with a working attendance status
+    officeLocationIds?: string[]; // Offices the employee checked in at during the period
+  }): Promise<PaidHolidaySummary> {
+    const holidays = await this.loadHolidaysBetween(options.startDate, options.endDate);
+    const officeIds = options.officeLocationIds || [];
+    const counted = new Set<string>();
+    const summary: PaidHolidaySummary = { count: 0, holidays: [] };
+
+    for (const holiday of holidays) {
+      if (holiday.type === 'optional' || !holiday.isPaid) continue;
+      if (holiday.officeLocationIds.length > 0 && !holiday.officeLocationIds.some(id => officeIds.includes(id))) continue;
+
+      const dayKey = holiday.date.toDateString();
+      if (counted.has(dayKey)) continue; // Two holidays on the same day still pay one day
+      if (options.weekendDays.includes(holiday.date.getDay())) continue;
+      if (options.workedDates.has(dayKey)) continue;
+
+      counted.add(dayKey);
+      summary.count++;
+      summary.holidays.push({ id: holiday.id, name: holiday.name, date: holiday.date });
+    }
+
+    return summary;
+  }
+
+  /**
+   * Drop cached calendars after holidays are created, edited or removed
+   */
+  static invalidateCache(): void {
+    this.yearCache.clear();
+  }
+
+  private static appliesToOffice(holiday: Holiday, officeLocationId?: string | null): boolean {
+    if (holiday.officeLocationIds.length === 0) return true;
+    return !!officeLocationId && holiday.officeLocationIds.includes(officeLocationId);
+  }
+
+  private static async loadHolidaysBetween(startDate: Date, endDate: Date): Promise<Holiday[]> {
+    const start = new Date(startDate);
+    start.setHours(0, 0, 0, 0);
+    const end = new Date(endDate);
+    end.setHours(23, 59, 59, 999);
+
+    const holidays: Holiday[] = [];
+    for (let year = start.getFullYear(); year <= end.getFullYear(); year++) {
+      holidays.push(...await this.getHolidaysForYear(year));
+    }
+
+    return holidays.filter(holiday => holiday.date >= start && holiday.date <= end);
+  }
+
+  private static async getHolidaysForYear(year: number): Promise<Holiday[]> {
+    const cached = this.yearCache.get(year);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.holidays;
+    }
+
+    const holidays = await storage.listHolidays({
+      startDate: new Date(year, 0, 1),
+      endDate: new Date(year, 11, 31),
+      isActive: true
+    });
+    this.yearCache.set(year, { holidays, expiresAt: Date.now() + this.CACHE_DURATION });
+    return holidays;
+  }
+}
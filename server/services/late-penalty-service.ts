@@ -0,0 +1,98 @@
+/**
+ * Late Penalty Service
+ * Monthly late-arrival penalties from configurable rules such as "every 3 late marks = 0.5 day"
+ * or "more than 60 minutes late = 0.5 day". Payroll processing deducts the penalty days at the
+ * per-day salary as a named dynamic deduction and keeps the days that triggered each rule.
+ */
+
+import { storage, Attendance, LatePenaltyApplication, LatePenaltyRule, User } from '../storage';
+
+export const LATE_PENALTY_DEDUCTION = 'Late Penalty';
+
+export interface LatePenaltyResult {
+  deductionDays: number;
+  amount: number;
+  applications: LatePenaltyApplication[];
+}
+
+const toDateKey = (value: Date) =>
+  `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`;
+
+// Same definition of a late mark as the muster roll
+const isLateMark = (record: Attendance) => record.status === 'late' || record.isLate === true;
+
+// Half days and absences are already docked in payroll, so their late minutes are not penalized again
+const DOCKED_STATUSES = ['half_day', 'absent'];
+
+export class LatePenaltyService {
+
+  /**
+   * Penalty for one employee's attendance in a month. Deducted days never exceed maxDeductionDays,
+   * so a penalty cannot take more than the days actually being paid.
+   */
+  static async evaluateMonth(
+    user: User,
+    attendanceRecords: Attendance[],
+    perDaySalary: number,
+    maxDeductionDays: number = Infinity
+  ): Promise<LatePenaltyResult> {
+    const rules = await storage.listLatePenaltyRules({ department: user.department || null, isActive: true });
+    return this.applyRules(rules, attendanceRecords, perDaySalary, maxDeductionDays);
+  }
+
+  /**
+   * Rules are independent - a day can count towards a late-mark rule and a minutes rule at once.
+   * They are applied oldest first, which only matters once the deduction cap is reached.
+   */
+  static applyRules(
+    rules: LatePenaltyRule[],
+    attendanceRecords: Attendance[],
+    perDaySalary: number,
+    maxDeductionDays: number = Infinity
+  ): LatePenaltyResult {
+    const records = [...attendanceRecords].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    const lateMarks = records.filter(isLateMark);
+    const orderedRules = [...rules].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+    const applications: LatePenaltyApplication[] = [];
+    let remainingDays = Math.max(0, maxDeductionDays);
+
+    for (const rule of orderedRules) {
+      let triggeredBy: Attendance[];
+      let deductionDays: number;
+
+      if (rule.trigger === 'late_count') {
+        const blocks = rule.repeatEveryThreshold
+          ? Math.floor(lateMarks.length / rule.threshold)
+          : lateMarks.length >= rule.threshold ? 1 : 0;
+        triggeredBy = lateMarks.slice(0, blocks * rule.threshold);
+        deductionDays = blocks * rule.deductionDays;
+      } else {
+        // Net of approved permission, so excused minutes never count towards a penalty
+        triggeredBy = records.filter(record =>
+          !DOCKED_STATUSES.includes(record.status) && (record.lateMinutes || 0) > rule.threshold);
+        deductionDays = triggeredBy.length * rule.deductionDays;
+      }
+
+      deductionDays = Math.min(deductionDays, remainingDays);
+      if (deductionDays <= 0) continue;
+      remainingDays -= deductionDays;
+
+      applications.push({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        trigger: rule.trigger,
+        threshold: rule.threshold,
+        deductionDays,
+        amount: Math.round(deductionDays * perDaySalary),
+        dates: triggeredBy.map(record => toDateKey(new Date(record.date)))
+      });
+    }
+
+    return {
+      deductionDays: applications.reduce((sum, application) => sum + application.deductionDays, 0),
+      amount: applications.reduce((sum, application) => sum + application.amount, 0),
+      applications
+    };
+  }
+}
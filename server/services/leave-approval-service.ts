@@ -0,0 +1,246 @@
+/**
+ * Leave Approval Service
+ * Routes leave requests through the reporting manager and, for longer leaves, the department
+ * head. Every approver must outrank the requester by designation level and hold the matching
+ * approve.leave permission; nobody can approve their own leave. Each decision is kept on the
+ * leave as an approval step so the chain can be audited later.
+ */
+
+import { storage, Leave, User } from '../storage';
+import {
+  canApproveForDesignation,
+  getDesignationLevel,
+  getEffectivePermissions,
+  Department,
+  Designation,
+  LeaveApprovalLevel,
+  LeaveApprovalStep,
+  SystemPermission
+} from '@shared/schema';
+import { LeaveBalanceService } from './leave-balance-service';
+import { LeaveAttendanceService } from './leave-attendance-service';
+
+export interface LeaveReviewResult {
+  success: boolean;
+  message: string;
+  leave?: Leave;
+}
+
+const levelLabels: Record<LeaveApprovalLevel, string> = {
+  reporting_manager: 'reporting manager',
+  department_head: 'department head'
+};
+
+export class LeaveApprovalService {
+
+  // Leaves longer than this many working days also need the department head
+  static readonly DEPARTMENT_HEAD_ABOVE_DAYS = 3;
+
+  /**
+   * Approval chain for a new request. A step without an eligible approver is left unassigned
+   * and falls to HR or a department-level approver.
+   */
+  static async buildApprovalSteps(requester: User, days: number): Promise<LeaveApprovalStep[]> {
+    const manager = requester.reportingManagerId ? await storage.getUser(requester.reportingManagerId) : undefined;
+    const managerId = manager && manager.isActive && this.isEligibleApprover(manager, requester, 'reporting_manager')
+      ? manager.id
+      : null;
+
+    const steps: LeaveApprovalStep[] = [{ level: 'reporting_manager', approverId: managerId, status: 'pending' }];
+
+    if (days > this.DEPARTMENT_HEAD_ABOVE_DAYS) {
+      const head = await this.findDepartmentHead(requester);
+      // A manager who is also the department head approves once
+      if (!head || head.id !== managerId) {
+        steps.push({ level: 'department_head', approverId: head?.id ?? null, status: 'pending' });
+      }
+    }
+
+    return steps;
+  }
+
+  /**
+   * The step waiting for a decision. Leaves applied before routing get a single unassigned step.
+   */
+  static getCurrentStep(leave: Leave): LeaveApprovalStep | undefined {
+    if (leave.status !== 'pending') return undefined;
+    if (!leave.approvalSteps?.length) {
+      return { level: 'reporting_manager', approverId: null, status: 'pending' };
+    }
+    return leave.approvalSteps[leave.currentApprovalStep ?? 0];
+  }
+
+  /**
+   * The assigned approver of the current step, or HR and the requester's department approvers when
+   * it is unassigned. Master admins can act on any step except for their own leave.
+   */
+  static canReview(reviewer: User, leave: Leave, requester?: User): boolean {
+    if (reviewer.id === leave.userId) {
+      return false;
+    }
+
+    const step = this.getCurrentStep(leave);
+    if (!step) {
+      return false;
+    }
+    if (reviewer.role === 'master_admin') {
+      return true;
+    }
+    if (!requester || !this.outranks(reviewer, requester)) {
+      return false;
+    }
+
+    if (step.approverId) {
+      return step.approverId === reviewer.id && this.hasLevelPermission(reviewer, step.level);
+    }
+
+    const permissions = this.getReviewerPermissions(reviewer);
+    return reviewer.role === 'admin' ||
+      permissions.includes('leave.approve') ||
+      (permissions.includes('approve.leave.department') && !!reviewer.department && reviewer.department === requester.department);
+  }
+
+  /**
+   * Pending leaves the reviewer can act on now
+   */
+  static async listAwaitingReview(reviewer: User): Promise<Leave[]> {
+    const pending = await storage.listPendingLeaves();
+    const requesters = new Map<string, User | undefined>();
+    const visible: Leave[] = [];
+
+    for (const leave of pending) {
+      if (!requesters.has(leave.userId)) {
+        requesters.set(leave.userId, await storage.getUser(leave.userId));
+      }
+      if (this.canReview(reviewer, leave, requesters.get(leave.userId))) {
+        visible.push(leave);
+      }
+    }
+
+    return visible.sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+  }
+
+  /**
+   * Record a decision on the current step. Rejection ends the chain and returns the days to the
+   * balance; approval moves to the next step or approves the leave after the last one.
+   */
+  static async reviewLeave(
+    reviewer: User,
+    leaveId: string,
+    decision: 'approved' | 'rejected',
+    comment?: string
+  ): Promise<LeaveReviewResult> {
+    const leave = await storage.getLeave(leaveId);
+    if (!leave) {
+      return { success: false, message: 'Leave request not found' };
+    }
+
+    if (leave.status !== 'pending') {
+      return { success: false, message: `Leave has already been ${leave.status}` };
+    }
+
+    const requester = await storage.getUser(leave.userId);
+    if (!this.canReview(reviewer, leave, requester)) {
+      return { success: false, message: 'You are not authorized to review this leave request' };
+    }
+
+    if (decision === 'rejected' && (!comment || comment.trim().length === 0)) {
+      return { success: false, message: 'A reason is required when rejecting a leave request' };
+    }
+
+    const steps: LeaveApprovalStep[] = leave.approvalSteps?.length
+      ? [...leave.approvalSteps]
+      : [this.getCurrentStep(leave)!];
+    const stepIndex = leave.approvalSteps?.length ? leave.currentApprovalStep ?? 0 : 0;
+    const step = steps[stepIndex];
+
+    steps[stepIndex] = {
+      ...step,
+      status: decision,
+      decidedBy: reviewer.id,
+      decidedAt: new Date(),
+      ...(comment && { comment })
+    };
+
+    const nextStep = decision === 'approved' ? steps[stepIndex + 1] : undefined;
+    const status = decision === 'rejected' ? 'rejected' : nextStep ? 'pending' : 'approved';
+
+    const updated = await storage.updateLeave(leaveId, {
+      status,
+      approvalSteps: steps,
+      currentApprovalStep: nextStep ? stepIndex + 1 : stepIndex
+    });
+
+    if (decision === 'rejected') {
+      await LeaveBalanceService.reverseLeave(leave, reviewer, `Leave rejected by ${levelLabels[step.level]}`);
+    }
+    const attendanceChanges = status === 'approved' ? await LeaveAttendanceService.applyApprovedLeave(updated) : undefined;
+
+    await storage.createAuditLog({
+      userId: reviewer.id,
+      action: `leave_${decision}`,
+      entityType: 'leave',
+      entityId: leaveId,
+      changes: {
+        requesterId: leave.userId,
+        level: step.level,
+        assignedApproverId: step.approverId,
+        status,
+        comment: comment || '',
+        ...(attendanceChanges && { attendance: attendanceChanges })
+      },
+      department: reviewer.department,
+      designation: reviewer.designation
+    });
+
+    console.log(`LEAVE_APPROVAL: Leave ${leaveId} ${decision} at ${step.level} step by ${reviewer.id} (now ${status})`);
+
+    return {
+      success: true,
+      message: nextStep
+        ? `Leave approved, sent to the ${levelLabels[nextStep.level]}`
+        : `Leave ${decision}`,
+      leave: updated
+    };
+  }
+
+  /**
+   * Highest-ranking active approver in the requester's department who outranks them
+   */
+  private static async findDepartmentHead(requester: User): Promise<User | undefined> {
+    if (!requester.department) return undefined;
+
+    const candidates = (await storage.getUsersByDepartment(requester.department)).filter(candidate =>
+      candidate.isActive &&
+      candidate.id !== requester.id &&
+      this.isEligibleApprover(candidate, requester, 'department_head'));
+
+    return candidates.sort((a, b) =>
+      getDesignationLevel(b.designation as Designation) - getDesignationLevel(a.designation as Designation))[0];
+  }
+
+  private static isEligibleApprover(approver: User, requester: User, level: LeaveApprovalLevel): boolean {
+    return this.outranks(approver, requester) && this.hasLevelPermission(approver, level);
+  }
+
+  // Requesters without a designation can be approved by anyone who has one
+  private static outranks(approver: User, requester: User): boolean {
+    if (!approver.designation) return false;
+    if (!requester.designation) return true;
+    return canApproveForDesignation(approver.designation, requester.designation);
+  }
+
+  private static hasLevelPermission(approver: User, level: LeaveApprovalLevel): boolean {
+    const permissions = this.getReviewerPermissions(approver);
+    return level === 'department_head'
+      ? permissions.includes('approve.leave.department')
+      : permissions.includes('approve.leave.team') || permissions.includes('approve.leave.department');
+  }
+
+  private static getReviewerPermissions(reviewer: User): SystemPermission[] {
+    return getEffectivePermissions(
+      (reviewer.department || null) as Department | null,
+      (reviewer.designation || null) as Designation | null
+    );
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Leave Attendance Service
+ * Keeps attendance in step with approved leave. Full-day leave writes a "leave" record for each
+ * working day so payroll and the muster roll see the absence. A half-day or hourly leave covers
+ * part of the shift: arrival is judged from the end of a morning leave, the leave minutes excuse
+ * an early check-out, and a day with half-day leave is recorded as half_day so payroll counts it
+ * the same way as any other half day.
+ */
+
+import { storage, Leave, User } from '../storage';
+import { LeaveSession } from '@shared/schema';
+import { EnterpriseTimeService } from './enterprise-time-service';
+import { LatenessClassification } from './attendance-policy-service';
+import { PermissionHourService } from './permission-hour-service';
+import { LeaveBalanceService } from './leave-balance-service';
+
+export interface PartialLeaveCover {
+  leave: Leave;
+  session?: LeaveSession; // Set for half-day leave
+  minutes: number; // Shift minutes the leave covers
+}
+
+export interface LeaveAttendanceResult {
+  created: number; // Leave records written
+  linked: number; // Existing records without a punch now marked as leave
+  conflicts: string[]; // Days the employee checked in despite the leave
+  partialDay?: Record<string, any>; // Changes to the record of a half-day or hourly leave
+}
+
+const isSameDay = (a: Date, b: Date) => a.toDateString() === b.toDateString();
+
+export class LeaveAttendanceService {
+
+  // Reconciliation touches every leave in the range; keep runs to about two months
+  static readonly MAX_RANGE_DAYS = 62;
+
+  /**
+   * Approved half-day or hourly leave on the given date
+   */
+  static async getPartialLeaveCover(user: User, date: Date): Promise<PartialLeaveCover | undefined> {
+    const leaves = await storage.listLeavesByUser(user.id);
+    const leave = leaves.find(candidate =>
+      candidate.status === 'approved' &&
+      (candidate.durationType === 'half_day' || candidate.durationType === 'hourly') &&
+      isSameDay(candidate.startDate, date));
+    if (!leave) return undefined;
+
+    if (leave.durationType === 'hourly') {
+      return { leave, minutes: Math.round((leave.hours || 0) * 60) };
+    }
+
+    const timing = await EnterpriseTimeService.getDepartmentTiming(user.department || 'operations');
+    return { leave, session: leave.session, minutes: Math.round(timing.workingHours * 60 / 2) };
+  }
+
+  /**
+   * Lateness left after the leave. Morning leave (first half, or hours taken from the start of
+   * the shift) moves the expected arrival; afternoon leave does not.
+   */
+  static lateMinutesAfterCover(cover: PartialLeaveCover | undefined, grossLateMinutes: number): number {
+    if (!cover || cover.session === 'second_half') return grossLateMinutes;
+    return Math.max(0, grossLateMinutes - cover.minutes);
+  }
+
+  /**
+   * Fold the leave into a lateness classification. Gross minutes stay as measured so later
+   * recalculations start from the real punch.
+   */
+  static applyCover(
+    cover: PartialLeaveCover,
+    lateness: LatenessClassification,
+    grossLateMinutes: number
+  ): LatenessClassification {
+    const halfDay = !!cover.session && lateness.status !== 'absent';
+    return {
+      ...lateness,
+      status: halfDay ? 'half_day' : lateness.status,
+      grossLateMinutes,
+      rule: `${lateness.rule} (${cover.session ? `${cover.session.replace('_', ' ')} leave` : `${cover.minutes} minutes hourly leave`})`
+    };
+  }
+
+  /**
+   * Early check-out minutes excused by partial leave on the day
+   */
+  static async excuseEarlyLeave(user: User, date: Date, earlyMinutes: number): Promise<number> {
+    if (earlyMinutes <= 0) return 0;
+    const cover = await this.getPartialLeaveCover(user, date);
+    return cover ? Math.min(earlyMinutes, cover.minutes) : 0;
+  }
+
+  /**
+   * Bring attendance in line with an approved leave. Safe to run again: days already carrying
+   * the leave are left alone.
+   */
+  static async applyApprovedLeave(leave: Leave): Promise<LeaveAttendanceResult> {
+    const result: LeaveAttendanceResult = { created: 0, linked: 0, conflicts: [] };
+    if (leave.status !== 'approved') return result;
+
+    const user = await storage.getUser(leave.userId);
+    if (!user) return result;
+
+    if (leave.durationType === 'half_day' || leave.durationType === 'hourly') {
+      result.partialDay = await this.applyPartialLeave(user, leave);
+      return result;
+    }
+
+    const dates = await LeaveBalanceService.listLeaveDates(user, leave.startDate, leave.endDate);
+    for (const date of dates) {
+      const existing = await storage.getAttendanceByUserAndDate(user.id, date);
+      if (existing?.leaveId === leave.id) continue;
+
+      const leaveFields = { leaveId: leave.id, ...(leave.leaveType && { leaveType: leave.leaveType }) };
+      if (!existing) {
+        await storage.createAttendance({
+          userId: user.id,
+          date,
+          status: 'leave',
+          attendanceType: 'office', // The schema default; nobody punched
+          isLate: false,
+          isWithinOfficeRadius: false,
+          remarks: `On approved ${(leave.leaveType || 'leave').replace(/_/g, ' ')} leave`,
+          ...leaveFields
+        });
+        result.created++;
+      } else if (existing.checkInTime) {
+        // Worked on a leave day - the punch stands and HR decides whether to credit the day back
+        await storage.updateAttendance(existing.id, { ...leaveFields, leaveConflict: true });
+        result.conflicts.push(date.toDateString());
+      } else {
+        await storage.updateAttendance(existing.id, { ...leaveFields, status: 'leave' });
+        result.linked++;
+      }
+    }
+
+    console.log(`LEAVE_ATTENDANCE: Leave ${leave.id} - ${result.created} created, ${result.linked} linked, ${result.conflicts.length} conflicts`);
+    return result;
+  }
+
+  /**
+   * Approved full-day leave covering the date, if any
+   */
+  static async getFullDayLeave(user: User, date: Date): Promise<Leave | undefined> {
+    const day = new Date(date);
+    day.setHours(0, 0, 0, 0);
+    const leaves = await storage.listLeavesByUser(user.id);
+    return leaves.find(leave =>
+      leave.status === 'approved' &&
+      (!leave.durationType || leave.durationType === 'full_day') &&
+      leave.startDate <= day && leave.endDate >= day);
+  }
+
+  /**
+   * Write attendance for every approved leave touching the range - for leaves approved before
+   * attendance was materialized, or days whose records were edited since
+   */
+  static async reconcile(startDate: Date, endDate: Date): Promise<LeaveAttendanceResult & { leaves: number }> {
+    const leaves = await storage.listApprovedLeavesBetween(startDate, endDate);
+    const summary = { leaves: leaves.length, created: 0, linked: 0, conflicts: [] as string[] };
+
+    for (const leave of leaves) {
+      const result = await this.applyApprovedLeave(leave);
+      summary.created += result.created;
+      summary.linked += result.linked;
+      summary.conflicts.push(...result.conflicts.map(date => `${leave.userId} ${date}`));
+    }
+
+    return summary;
+  }
+
+  /**
+   * Re-evaluate the record of a half-day or hourly leave if the employee has already checked in
+   * that day. Future days are handled at check-in.
+   */
+  private static async applyPartialLeave(user: User, leave: Leave): Promise<Record<string, any> | undefined> {
+    const attendance = await storage.getAttendanceByUserAndDate(leave.userId, leave.startDate);
+    // Leave and holiday records are not judged on lateness
+    if (!attendance?.checkInTime || !['present', 'late', 'half_day', 'absent'].includes(attendance.status)) {
+      return undefined;
+    }
+
+    const grossLateMinutes = attendance.grossLateMinutes ?? attendance.lateMinutes ?? 0;
+    const lateness = await PermissionHourService.offsetLateArrival(user, attendance.date, grossLateMinutes);
+    const changes = {
+      status: lateness.status,
+      isLate: lateness.isLate,
+      lateMinutes: lateness.lateMinutes,
+      grossLateMinutes: lateness.grossLateMinutes,
+      permissionMinutesApplied: lateness.permissionMinutesApplied,
+      leaveId: leave.id,
+      ...(leave.leaveType && { leaveType: leave.leaveType })
+    };
+
+    await storage.updateAttendance(attendance.id, changes);
+    console.log(`LEAVE_ATTENDANCE: Attendance ${attendance.id} re-evaluated for ${leave.durationType} leave ${leave.id} -> ${lateness.status}`);
+    return changes;
+  }
+
+}
@@ -0,0 +1,571 @@
+/**
+ * Leave Balance Service
+ * Leave types, entitlements by employment type and payroll grade, and the per-employee balance
+ * ledger. Balances run per calendar year. Accruals and carry-forward are posted lazily the first
+ * time a balance is read or charged, under fixed keys so each credit lands exactly once.
+ */
+
+import { storage, Leave, LeaveType, LeaveLedgerEntry, User } from '../storage';
+import {
+  leaveTypeCodes,
+  LeaveTypeCode,
+  InsertLeaveType,
+  EmploymentType,
+  PayrollGrade,
+  LeaveDurationType,
+  LeaveSession,
+  LeaveBalanceSummary,
+  LeaveCoverageWarning,
+  LeaveTypeConfig
+} from '@shared/schema';
+import { HolidayService } from './holiday-service';
+import { MusterRollService } from './muster-roll-service';
+import { EnterpriseTimeService } from './enterprise-time-service';
+import { LeaveApprovalService } from './leave-approval-service';
+import { LeaveCalendarService } from './leave-calendar-service';
+
+export interface LeaveApplication {
+  leaveType: LeaveTypeCode;
+  startDate: Date;
+  endDate: Date;
+  durationType?: LeaveDurationType;
+  session?: LeaveSession; // Required for half-day leave
+  hours?: number; // Required for hourly leave
+  reason: string;
+}
+
+export interface LeaveResult {
+  success: boolean;
+  message: string;
+  leave?: Leave;
+  coverageWarnings?: LeaveCoverageWarning[]; // Days the department would drop below its minimum headcount
+}
+
+export interface LeaveBalanceChangeResult {
+  success: boolean;
+  message: string;
+  entry?: LeaveLedgerEntry;
+  balance?: number;
+}
+
+interface LeaveProfile {
+  employmentType: EmploymentType;
+  payrollGrade: PayrollGrade | null;
+  joinDate?: Date;
+}
+
+// Used until an admin saves settings for the type. Comp-off and maternity have no yearly
+// entitlement by default - HR credits them through balance adjustments when they are earned.
+const DEFAULT_LEAVE_TYPES: Record<LeaveTypeCode, Omit<InsertLeaveType, 'updatedBy'>> = {
+  casual: {
+    code: 'casual', name: 'Casual Leave', isPaid: true, requiresBalance: true, accrualFrequency: 'monthly',
+    entitlements: [{ daysPerYear: 12 }], carryForwardCap: 0, encashmentCap: 0, isActive: true
+  },
+  sick: {
+    code: 'sick', name: 'Sick Leave', isPaid: true, requiresBalance: true, accrualFrequency: 'yearly',
+    entitlements: [{ daysPerYear: 12 }], carryForwardCap: 0, encashmentCap: 0, isActive: true
+  },
+  earned: {
+    code: 'earned', name: 'Earned Leave', isPaid: true, requiresBalance: true, accrualFrequency: 'monthly',
+    entitlements: [{ daysPerYear: 15 }], carryForwardCap: 30, encashmentCap: 15, isActive: true
+  },
+  comp_off: {
+    code: 'comp_off', name: 'Compensatory Off', isPaid: true, requiresBalance: true, accrualFrequency: 'yearly',
+    entitlements: [], carryForwardCap: 0, encashmentCap: 0, isActive: true
+  },
+  maternity: {
+    code: 'maternity', name: 'Maternity Leave', isPaid: true, requiresBalance: true, accrualFrequency: 'yearly',
+    entitlements: [], carryForwardCap: 0, encashmentCap: 0, isActive: true
+  },
+  loss_of_pay: {
+    code: 'loss_of_pay', name: 'Loss of Pay', isPaid: false, requiresBalance: false, accrualFrequency: 'yearly',
+    entitlements: [], carryForwardCap: 0, encashmentCap: 0, isActive: true
+  }
+};
+
+const round = (days: number) => Math.round(days * 100) / 100;
+
+const startOfDay = (value: Date) => {
+  const date = new Date(value);
+  date.setHours(0, 0, 0, 0);
+  return date;
+};
+
+const dayKey = (date: Date) => date.toDateString();
+
+export class LeaveBalanceService {
+
+  // Leave types are read on every balance lookup but change rarely
+  private static typeCache: { types: LeaveTypeConfig[]; expiresAt: number } | null = null;
+  private static readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+
+  /**
+   * All leave types in a fixed order, with stored settings over the defaults
+   */
+  static async getLeaveTypes(): Promise<LeaveTypeConfig[]> {
+    if (this.typeCache && this.typeCache.expiresAt > Date.now()) {
+      return this.typeCache.types;
+    }
+
+    const stored = new Map((await storage.listLeaveTypes()).map(type => [type.code, type]));
+    const types: LeaveTypeConfig[] = leaveTypeCodes.map(code => {
+      const saved = stored.get(code);
+      return saved
+        ? { ...DEFAULT_LEAVE_TYPES[code], ...saved, isCustomized: true }
+        : { ...DEFAULT_LEAVE_TYPES[code], isCustomized: false };
+    });
+
+    this.typeCache = { types, expiresAt: Date.now() + this.CACHE_DURATION };
+    return types;
+  }
+
+  static async getLeaveType(code: LeaveTypeCode): Promise<LeaveTypeConfig> {
+    const types = await this.getLeaveTypes();
+    return types.find(type => type.code === code)!;
+  }
+
+  static async saveLeaveType(data: InsertLeaveType, actor: User): Promise<LeaveType> {
+    const leaveType = await storage.saveLeaveType({ ...data, updatedBy: actor.id });
+    this.typeCache = null;
+
+    await storage.createAuditLog({
+      userId: actor.id,
+      action: 'leave_type_updated',
+      entityType: 'leave_type',
+      entityId: data.code,
+      changes: data,
+      department: actor.department,
+      designation: actor.designation
+    });
+
+    return leaveType;
+  }
+
+  /**
+   * Yearly days for the employee. The most specific matching entitlement wins (employment type
+   * and grade over either one alone); ties go to the one listed first.
+   */
+  static resolveEntitlement(leaveType: LeaveTypeConfig, profile: LeaveProfile): number {
+    const specificity = (entry: { employmentType?: string | null; payrollGrade?: string | null }) =>
+      (entry.employmentType ? 1 : 0) + (entry.payrollGrade ? 1 : 0);
+
+    const matches = leaveType.entitlements
+      .filter(entry =>
+        (!entry.employmentType || entry.employmentType === profile.employmentType) &&
+        (!entry.payrollGrade || entry.payrollGrade === profile.payrollGrade))
+      .sort((a, b) => specificity(b) - specificity(a));
+
+    return matches[0]?.daysPerYear ?? 0;
+  }
+
+  /**
+   * Post any accrual and carry-forward credits due for the year up to the given date
+   */
+  static async ensureAccruals(user: User, year: number, asOf: Date = new Date()): Promise<void> {
+    if (year > asOf.getFullYear()) return;
+
+    const [types, profile, entries] = await Promise.all([
+      this.getLeaveTypes(),
+      this.getLeaveProfile(user),
+      storage.listLeaveLedgerEntries({ userId: user.id, year })
+    ]);
+    if (profile.joinDate && profile.joinDate.getFullYear() > year) return;
+
+    const posted = new Set(entries
+      .filter(entry => entry.entryType === 'accrual' || entry.entryType === 'carry_forward')
+      .map(entry => `${entry.leaveType}:${entry.entryType}:${entry.period}`));
+
+    // Employees who joined during the year accrue from their joining month
+    const firstMonth = profile.joinDate && profile.joinDate.getFullYear() === year ? profile.joinDate.getMonth() : 0;
+    const lastMonth = year < asOf.getFullYear() ? 11 : asOf.getMonth();
+
+    for (const leaveType of types) {
+      if (!leaveType.isActive || !leaveType.requiresBalance) continue;
+
+      if (leaveType.carryForwardCap > 0 && !posted.has(`${leaveType.code}:carry_forward:${year - 1}`)) {
+        await this.postCarryForward(user, leaveType, year);
+      }
+
+      const entitlement = this.resolveEntitlement(leaveType, profile);
+      if (entitlement <= 0) continue;
+
+      if (leaveType.accrualFrequency === 'yearly') {
+        if (posted.has(`${leaveType.code}:accrual:${year}`)) continue;
+        const days = Math.round(entitlement * (12 - firstMonth) / 12 * 2) / 2; // Pro-rated to half days
+        await this.postAccrual(user, leaveType, year, `${year}`, days);
+        continue;
+      }
+
+      // Cumulative rounding so the twelve monthly credits add up to the entitlement exactly
+      for (let month = firstMonth; month <= lastMonth; month++) {
+        const period = `${year}-${String(month + 1).padStart(2, '0')}`;
+        if (posted.has(`${leaveType.code}:accrual:${period}`)) continue;
+        const days = round(entitlement * (month + 1) / 12) - round(entitlement * month / 12);
+        await this.postAccrual(user, leaveType, year, period, round(days));
+      }
+    }
+  }
+
+  /**
+   * Balance per leave type for the year, broken down by ledger entry type
+   */
+  static async getBalanceSummary(user: User, year: number): Promise<LeaveBalanceSummary[]> {
+    await this.ensureAccruals(user, year);
+
+    const [types, profile, entries] = await Promise.all([
+      this.getLeaveTypes(),
+      this.getLeaveProfile(user),
+      storage.listLeaveLedgerEntries({ userId: user.id, year })
+    ]);
+
+    return types
+      .filter(leaveType => leaveType.isActive || entries.some(entry => entry.leaveType === leaveType.code))
+      .map(leaveType => {
+        const typeEntries = entries.filter(entry => entry.leaveType === leaveType.code);
+        const total = (...entryTypes: LeaveLedgerEntry['entryType'][]) => round(typeEntries
+          .filter(entry => entryTypes.includes(entry.entryType))
+          .reduce((sum, entry) => sum + entry.days, 0));
+
+        return {
+          leaveType: leaveType.code,
+          name: leaveType.name,
+          isPaid: leaveType.isPaid,
+          requiresBalance: leaveType.requiresBalance,
+          year,
+          entitlement: this.resolveEntitlement(leaveType, profile),
+          accrued: total('accrual'),
+          carriedForward: total('carry_forward'),
+          used: -total('debit', 'reversal'),
+          adjusted: total('adjustment'),
+          encashed: -total('encashment'),
+          balance: round(typeEntries.reduce((sum, entry) => sum + entry.days, 0))
+        };
+      });
+  }
+
+  /**
+   * Working days in the range - weekly offs of the employee's department and company-wide
+   * holidays are not charged
+   */
+  static async countLeaveDays(user: User, startDate: Date, endDate: Date): Promise<number> {
+    return (await this.listLeaveDates(user, startDate, endDate)).length;
+  }
+
+  /**
+   * The working days of a date range, each at midnight
+   */
+  static async listLeaveDates(user: Pick<User, 'department'>, startDate: Date, endDate: Date): Promise<Date[]> {
+    const [weeklyOffDays, holidays] = await Promise.all([
+      MusterRollService.getWeeklyOffDays(user.department),
+      HolidayService.getHolidaysBetween(startDate, endDate)
+    ]);
+    const holidayDays = new Set(holidays.filter(holiday => holiday.type !== 'optional').map(holiday => dayKey(holiday.date)));
+
+    const dates: Date[] = [];
+    for (const date = startOfDay(startDate); date <= endDate; date.setDate(date.getDate() + 1)) {
+      if (!weeklyOffDays.includes(date.getDay()) && !holidayDays.has(dayKey(date))) {
+        dates.push(new Date(date));
+      }
+    }
+    return dates;
+  }
+
+  /**
+   * Days charged for leave inside a single working day: half a day, or the hours as a share of
+   * the department's shift. Nothing is charged on a weekly off or holiday.
+   */
+  static async countPartialLeaveDays(user: User, date: Date, durationType: LeaveDurationType, hours?: number): Promise<number> {
+    if (await this.countLeaveDays(user, date, date) === 0) return 0;
+    if (durationType === 'half_day') return 0.5;
+
+    const timing = await EnterpriseTimeService.getDepartmentTiming(user.department || 'operations');
+    return round((hours || 0) / timing.workingHours);
+  }
+
+  /**
+   * Create a leave request and debit its days from the balance straight away, so pending
+   * requests cannot be over-booked. Loss of pay is recorded without a balance check.
+   */
+  static async applyLeave(user: User, application: LeaveApplication): Promise<LeaveResult> {
+    const startDate = startOfDay(application.startDate);
+    const endDate = startOfDay(application.endDate);
+    if (endDate < startDate) {
+      return { success: false, message: 'End date cannot be before start date' };
+    }
+    if (startDate.getFullYear() !== endDate.getFullYear()) {
+      return { success: false, message: 'Leave cannot span two calendar years - apply separately for each year' };
+    }
+
+    const durationType = application.durationType || 'full_day';
+    if (durationType !== 'full_day' && endDate.getTime() !== startDate.getTime()) {
+      return { success: false, message: 'Half-day and hourly leave must start and end on the same day' };
+    }
+    if (durationType === 'half_day' && !application.session) {
+      return { success: false, message: 'Choose the first or second half for a half-day leave' };
+    }
+    if (durationType === 'hourly') {
+      const timing = await EnterpriseTimeService.getDepartmentTiming(user.department || 'operations');
+      if (!application.hours || application.hours >= timing.workingHours) {
+        return { success: false, message: `Hourly leave must be shorter than the ${timing.workingHours} hour shift - apply for a half or full day instead` };
+      }
+    }
+
+    const leaveType = await this.getLeaveType(application.leaveType);
+    if (!leaveType.isActive) {
+      return { success: false, message: `${leaveType.name} is not available` };
+    }
+
+    const existing = await storage.listLeavesByUser(user.id);
+    // The two halves of one day can be taken as separate half-day leaves
+    const overlapping = existing.find(leave =>
+      leave.status !== 'rejected' && leave.startDate <= endDate && leave.endDate >= startDate &&
+      !(durationType === 'half_day' && leave.durationType === 'half_day' && leave.session !== application.session));
+    if (overlapping) {
+      return { success: false, message: 'You already have leave applied for some of these dates' };
+    }
+
+    const days = durationType === 'full_day'
+      ? await this.countLeaveDays(user, startDate, endDate)
+      : await this.countPartialLeaveDays(user, startDate, durationType, application.hours);
+    if (days === 0) {
+      return { success: false, message: 'The selected dates are all weekly offs or holidays' };
+    }
+
+    const year = startDate.getFullYear();
+    if (leaveType.requiresBalance) {
+      await this.ensureAccruals(user, year);
+    }
+
+    const approvalSteps = await LeaveApprovalService.buildApprovalSteps(user, days);
+    const leave = await storage.createLeave({
+      userId: user.id,
+      leaveType: leaveType.code,
+      startDate,
+      endDate,
+      durationType,
+      ...(durationType === 'half_day' && { session: application.session }),
+      ...(durationType === 'hourly' && { hours: application.hours }),
+      days,
+      reason: application.reason,
+      status: 'pending',
+      approvalSteps,
+      currentApprovalStep: 0
+    });
+
+    const debit = await storage.postLeaveLedgerEntry({
+      userId: user.id,
+      leaveType: leaveType.code,
+      year,
+      entryType: 'debit',
+      days: -days,
+      leaveId: leave.id,
+      createdBy: user.id
+    }, { allowNegativeBalance: !leaveType.requiresBalance });
+
+    if (!debit.posted) {
+      await storage.deleteLeave(leave.id);
+      return {
+        success: false,
+        message: `Insufficient ${leaveType.name} balance: ${days} day${days === 1 ? '' : 's'} requested, ${debit.balance} available`
+      };
+    }
+
+    await storage.createAuditLog({
+      userId: user.id,
+      action: 'leave_requested',
+      entityType: 'leave',
+      entityId: leave.id,
+      changes: {
+        leaveType: leaveType.code,
+        startDate,
+        endDate,
+        durationType,
+        days,
+        balance: debit.balance,
+        approverIds: approvalSteps.map(step => step.approverId)
+      },
+      department: user.department,
+      designation: user.designation
+    });
+
+    console.log(`LEAVE: ${user.id} applied ${days} day(s) of ${leaveType.code} (${leave.id}), balance ${debit.balance}`);
+
+    // Short coverage does not block the request; approvers see the same warning
+    const coverageWarnings = await LeaveCalendarService.checkCoverage(user, startDate, endDate, leave.id);
+    const shortDays = new Set(coverageWarnings.map(warning => warning.date)).size;
+
+    return {
+      success: true,
+      message: (approvalSteps[0].approverId
+        ? 'Leave application submitted to your reporting manager'
+        : 'Leave application submitted for HR review') +
+        (shortDays > 0 ? ` - note: your department would be short-staffed on ${shortDays} day${shortDays === 1 ? '' : 's'}` : ''),
+      leave,
+      coverageWarnings
+    };
+  }
+
+  /**
+   * Give back the days debited for a leave that will not be taken. Safe to call more than once.
+   */
+  static async reverseLeave(leave: Leave, actor: User, note: string): Promise<void> {
+    const entries = await storage.listLeaveLedgerEntries({ userId: leave.userId, leaveId: leave.id });
+    if (entries.length === 0) return; // Applied before the ledger existed
+
+    const charged = -round(entries.reduce((sum, entry) => sum + entry.days, 0));
+    if (charged <= 0) return;
+
+    await storage.postLeaveLedgerEntry({
+      userId: leave.userId,
+      leaveType: entries[0].leaveType,
+      year: entries[0].year,
+      entryType: 'reversal',
+      days: charged,
+      leaveId: leave.id,
+      note,
+      createdBy: actor.id
+    }, { entryKey: `${leave.id}_reversal` });
+  }
+
+  /**
+   * Manual credit or debit by HR, e.g. comp-off earned for weekend work or a correction
+   */
+  static async adjustBalance(
+    actor: User,
+    request: { userId: string; leaveType: LeaveTypeCode; year: number; days: number; note: string }
+  ): Promise<LeaveBalanceChangeResult> {
+    const employee = await storage.getUser(request.userId);
+    if (!employee) {
+      return { success: false, message: 'Employee not found' };
+    }
+
+    const leaveType = await this.getLeaveType(request.leaveType);
+    if (!leaveType.requiresBalance) {
+      return { success: false, message: `${leaveType.name} has no balance to adjust` };
+    }
+
+    await this.ensureAccruals(employee, request.year);
+    const result = await storage.postLeaveLedgerEntry({
+      userId: employee.id,
+      leaveType: leaveType.code,
+      year: request.year,
+      entryType: 'adjustment',
+      days: round(request.days),
+      note: request.note,
+      createdBy: actor.id
+    });
+    if (!result.posted) {
+      return { success: false, message: `Adjustment would leave a negative balance (${result.balance} available)` };
+    }
+
+    await storage.createAuditLog({
+      userId: actor.id,
+      action: 'leave_balance_adjusted',
+      entityType: 'leave_balance',
+      entityId: result.entry!.id,
+      changes: { employeeId: employee.id, ...request, balance: result.balance },
+      department: actor.department,
+      designation: actor.designation
+    });
+
+    return { success: true, message: 'Leave balance adjusted', entry: result.entry, balance: result.balance };
+  }
+
+  /**
+   * Pay out unused days, up to the type's yearly encashment cap
+   */
+  static async encashLeave(
+    actor: User,
+    request: { userId: string; leaveType: LeaveTypeCode; year: number; days: number }
+  ): Promise<LeaveBalanceChangeResult> {
+    const employee = await storage.getUser(request.userId);
+    if (!employee) {
+      return { success: false, message: 'Employee not found' };
+    }
+
+    const leaveType = await this.getLeaveType(request.leaveType);
+    const entries = await storage.listLeaveLedgerEntries({ userId: employee.id, year: request.year, leaveType: leaveType.code });
+    const alreadyEncashed = -round(entries
+      .filter(entry => entry.entryType === 'encashment')
+      .reduce((sum, entry) => sum + entry.days, 0));
+    if (alreadyEncashed + request.days > leaveType.encashmentCap) {
+      return {
+        success: false,
+        message: `${leaveType.name} encashment is capped at ${leaveType.encashmentCap} days a year (${alreadyEncashed} already encashed)`
+      };
+    }
+
+    await this.ensureAccruals(employee, request.year);
+    const result = await storage.postLeaveLedgerEntry({
+      userId: employee.id,
+      leaveType: leaveType.code,
+      year: request.year,
+      entryType: 'encashment',
+      days: -round(request.days),
+      createdBy: actor.id
+    });
+    if (!result.posted) {
+      return { success: false, message: `Only ${result.balance} days of ${leaveType.name} available to encash` };
+    }
+
+    await storage.createAuditLog({
+      userId: actor.id,
+      action: 'leave_encashed',
+      entityType: 'leave_balance',
+      entityId: result.entry!.id,
+      changes: { employeeId: employee.id, ...request, balance: result.balance },
+      department: actor.department,
+      designation: actor.designation
+    });
+
+    return { success: true, message: `${request.days} days of ${leaveType.name} encashed`, entry: result.entry, balance: result.balance };
+  }
+
+  private static async postAccrual(user: User, leaveType: LeaveTypeConfig, year: number, period: string, days: number): Promise<void> {
+    if (days <= 0) return;
+    await storage.postLeaveLedgerEntry({
+      userId: user.id,
+      leaveType: leaveType.code,
+      year,
+      entryType: 'accrual',
+      days,
+      period,
+      createdBy: 'system'
+    }, { entryKey: `${user.id}_${leaveType.code}_accrual_${period}` });
+  }
+
+  /**
+   * Carry the previous year's unused days into this year, up to the cap; the rest lapse.
+   * Only employees who had a balance last year get an entry.
+   */
+  private static async postCarryForward(user: User, leaveType: LeaveTypeConfig, year: number): Promise<void> {
+    const previousBalances = await storage.listLeaveBalances(user.id, year - 1);
+    if (!previousBalances.some(balance => balance.leaveType === leaveType.code)) return;
+
+    // Last year's monthly credits may not all have been posted if the employee never looked
+    await this.ensureAccruals(user, year - 1, new Date(year - 1, 11, 31));
+    const closing = (await storage.listLeaveBalances(user.id, year - 1))
+      .find(balance => balance.leaveType === leaveType.code)?.balance || 0;
+    const days = round(Math.min(Math.max(0, closing), leaveType.carryForwardCap));
+
+    await storage.postLeaveLedgerEntry({
+      userId: user.id,
+      leaveType: leaveType.code,
+      year,
+      entryType: 'carry_forward',
+      days,
+      period: `${year - 1}`,
+      note: closing > days ? `${round(closing - days)} days lapsed` : undefined,
+      createdBy: 'system'
+    }, { entryKey: `${user.id}_${leaveType.code}_carry_forward_${year - 1}` });
+  }
+
+  private static async getLeaveProfile(user: User): Promise<LeaveProfile> {
+    const employee = await storage.getEmployeeBySystemUserId(user.id);
+    return {
+      employmentType: employee?.employmentInfo?.employmentType || 'full_time',
+      payrollGrade: user.payrollGrade || (employee?.payrollInfo?.payrollGrade as PayrollGrade | undefined) || null,
+      joinDate: user.joinDate || employee?.employmentInfo?.joinDate
+    };
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * Leave Calendar Service
+ * Who is away on which day across a manager's team or a department, and whether enough people
+ * stay at work. Coverage rules set a minimum headcount per department, optionally narrowed to a
+ * designation. Any leave on a day counts the employee as away, half days included, since the
+ * rule is about who can be rostered for the day.
+ */
+
+import { storage, Leave, LeaveCoverageRule, User } from '../storage';
+import {
+  getEffectivePermissions,
+  Department,
+  Designation,
+  LeaveCalendar,
+  LeaveCalendarEntry,
+  LeaveCoverageWarning
+} from '@shared/schema';
+import { LeaveBalanceService } from './leave-balance-service';
+
+export type LeaveCalendarScope = 'team' | 'department';
+
+const startOfDay = (value: Date) => {
+  const date = new Date(value);
+  date.setHours(0, 0, 0, 0);
+  return date;
+};
+
+const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const isAwayOn = (leave: Leave, date: Date) =>
+  startOfDay(leave.startDate) <= date && startOfDay(leave.endDate) >= date;
+
+export class LeaveCalendarService {
+
+  // Keeps a calendar request from scanning years of leave
+  static readonly MAX_RANGE_DAYS = 62;
+
+  /**
+   * Department-wide calendars are for HR and department-level approvers; managers see their team
+   */
+  static canViewDepartment(viewer: User, department: string): boolean {
+    if (viewer.role === 'master_admin' || viewer.department === 'hr') return true;
+
+    const permissions = getEffectivePermissions(
+      (viewer.department || null) as Department | null,
+      (viewer.designation || null) as Designation | null
+    );
+    if (permissions.includes('leave.approve')) return true;
+    return permissions.includes('approve.leave.department') && viewer.department === department;
+  }
+
+  /**
+   * Approved and pending leave of the scope's members, with coverage warnings for every
+   * department they belong to
+   */
+  static async getCalendar(
+    viewer: User,
+    scope: LeaveCalendarScope,
+    startDate: Date,
+    endDate: Date,
+    department?: string
+  ): Promise<LeaveCalendar> {
+    const members = scope === 'team'
+      ? await storage.getUsersByReportingManager(viewer.id)
+      : await storage.getUsersByDepartment(department || viewer.department || '');
+    const activeMembers = members.filter(member => member.isActive);
+    const memberById = new Map(activeMembers.map(member => [member.id, member]));
+
+    const leaves = await this.listLeavesBetween(startDate, endDate);
+    const entries: LeaveCalendarEntry[] = leaves
+      .filter(leave => memberById.has(leave.userId))
+      .map(leave => {
+        const member = memberById.get(leave.userId)!;
+        return {
+          leaveId: leave.id,
+          userId: leave.userId,
+          displayName: member.displayName,
+          designation: member.designation,
+          leaveType: leave.leaveType,
+          status: leave.status,
+          startDate: leave.startDate,
+          endDate: leave.endDate,
+          days: leave.days,
+          durationType: leave.durationType,
+          session: leave.session,
+          hours: leave.hours
+        };
+      })
+      .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+
+    const departments = Array.from(new Set(activeMembers.map(member => member.department).filter((d): d is NonNullable<typeof d> => !!d)));
+    const coverageWarnings: LeaveCoverageWarning[] = [];
+    for (const memberDepartment of departments) {
+      coverageWarnings.push(...await this.evaluateDepartment(memberDepartment, startDate, endDate, leaves));
+    }
+
+    return {
+      members: activeMembers.map(member => ({
+        id: member.id,
+        displayName: member.displayName,
+        department: member.department,
+        designation: member.designation
+      })),
+      entries,
+      coverageWarnings: coverageWarnings.sort((a, b) => a.date.localeCompare(b.date))
+    };
+  }
+
+  /**
+   * Days on which a leave of the requester would leave their department short. Other approved
+   * leaves count; pending ones do not, since they may still be turned down.
+   */
+  static async checkCoverage(requester: User, startDate: Date, endDate: Date, leaveId?: string): Promise<LeaveCoverageWarning[]> {
+    if (!requester.department) return [];
+
+    const rules = (await storage.listLeaveCoverageRules({ department: requester.department, isActive: true }))
+      .filter(rule => !rule.designation || rule.designation === requester.designation);
+    if (rules.length === 0) return [];
+
+    const [staff, approved, dates] = await Promise.all([
+      storage.getUsersByDepartment(requester.department),
+      storage.listApprovedLeavesBetween(startDate, endDate),
+      LeaveBalanceService.listLeaveDates(requester, startDate, endDate)
+    ]);
+    const others = approved.filter(leave => leave.id !== leaveId);
+
+    const warnings: LeaveCoverageWarning[] = [];
+    for (const date of dates) {
+      const away = new Set(others.filter(leave => isAwayOn(leave, date)).map(leave => leave.userId));
+      away.add(requester.id);
+      for (const rule of rules) {
+        const warning = this.evaluateRule(rule, staff, date, away, false);
+        if (warning) warnings.push(warning);
+      }
+    }
+
+    return warnings;
+  }
+
+  /**
+   * The same check for a request already on file, as its approvers see it
+   */
+  static async checkLeaveCoverage(leave: Leave): Promise<LeaveCoverageWarning[]> {
+    const requester = await storage.getUser(leave.userId);
+    return requester ? this.checkCoverage(requester, leave.startDate, leave.endDate, leave.id) : [];
+  }
+
+  /**
+   * Coverage of one department over the range. A day short on approved leave alone is a hard
+   * warning; one that would only be short once pending leaves are approved is marked at risk.
+   */
+  private static async evaluateDepartment(
+    department: string,
+    startDate: Date,
+    endDate: Date,
+    leaves: Leave[]
+  ): Promise<LeaveCoverageWarning[]> {
+    const rules = await storage.listLeaveCoverageRules({ department, isActive: true });
+    if (rules.length === 0) return [];
+
+    const [staff, dates] = await Promise.all([
+      storage.getUsersByDepartment(department),
+      LeaveBalanceService.listLeaveDates({ department: department as User['department'] }, startDate, endDate)
+    ]);
+
+    const warnings: LeaveCoverageWarning[] = [];
+    for (const date of dates) {
+      const onDay = leaves.filter(leave => isAwayOn(leave, date));
+      const approvedAway = new Set(onDay.filter(leave => leave.status === 'approved').map(leave => leave.userId));
+      const allAway = new Set(onDay.map(leave => leave.userId));
+
+      for (const rule of rules) {
+        const warning = this.evaluateRule(rule, staff, date, approvedAway, false) ||
+          this.evaluateRule(rule, staff, date, allAway, true);
+        if (warning) warnings.push(warning);
+      }
+    }
+
+    return warnings;
+  }
+
+  private static evaluateRule(
+    rule: LeaveCoverageRule,
+    staff: User[],
+    date: Date,
+    away: Set<string>,
+    atRisk: boolean
+  ): LeaveCoverageWarning | undefined {
+    const covered = staff.filter(member =>
+      member.isActive && (!rule.designation || member.designation === rule.designation));
+    const awayUserIds = covered.filter(member => away.has(member.id)).map(member => member.id);
+    const available = covered.length - awayUserIds.length;
+    // A department that is short with nobody away is a staffing gap, not a leave problem
+    if (awayUserIds.length === 0 || available >= rule.minimumPresent) return undefined;
+
+    return {
+      date: toDateKey(date),
+      ruleId: rule.id,
+      department: rule.department,
+      designation: rule.designation,
+      minimumPresent: rule.minimumPresent,
+      headcount: covered.length,
+      available,
+      awayUserIds,
+      atRisk
+    };
+  }
+
+  // Approved leave plus pending requests that overlap the range
+  private static async listLeavesBetween(startDate: Date, endDate: Date): Promise<Leave[]> {
+    const [approved, pending] = await Promise.all([
+      storage.listApprovedLeavesBetween(startDate, endDate),
+      storage.listPendingLeaves()
+    ]);
+    return [
+      ...approved,
+      ...pending.filter(leave => leave.startDate <= endDate && leave.endDate >= startDate)
+    ];
+  }
+}
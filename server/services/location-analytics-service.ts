@@ -0,0 +1,155 @@
+/**
+ * Location Analytics Service
+ * Location accuracy dashboard built from the check-in validations persisted by
+ * EnterprisePerformanceMonitor: GPS accuracy spread per office and per device capability,
+ * acceptance by validation type, and who leans on indoor compensation the most.
+ */
+
+import { storage, LocationValidationMetric } from '../storage';
+import { EnterpriseLocationService } from './enterprise-location-service';
+import {
+  AccuracyBreakdown,
+  AccuracyGrade,
+  IndoorCompensationUser,
+  LocationAnalyticsDashboard,
+  ValidationTypeBreakdown
+} from '@shared/schema';
+
+export class LocationAnalyticsService {
+
+  private static readonly MAX_RANGE_DAYS = 92;
+  private static readonly TOP_USERS_LIMIT = 10;
+
+  static async getDashboard(startDate: Date, endDate: Date, officeLocationId?: string): Promise<LocationAnalyticsDashboard> {
+    if (startDate > endDate) {
+      throw new Error('Start date must be before end date');
+    }
+    const dayCount = Math.round((endDate.getTime() - startDate.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+    if (dayCount > this.MAX_RANGE_DAYS) {
+      throw new Error(`Date range cannot exceed ${this.MAX_RANGE_DAYS} days`);
+    }
+
+    const [metrics, offices, users] = await Promise.all([
+      storage.listLocationValidationMetrics({ startDate, endDate, officeLocationId }),
+      storage.listOfficeLocations(),
+      storage.listUsers()
+    ]);
+
+    // Grades follow each office's own precision thresholds so they match what validation used
+    const officeById = new Map(offices.map(office => [office.id, office]));
+    const gradeOf = (metric: LocationValidationMetric): AccuracyGrade => {
+      const settings = EnterpriseLocationService.resolveValidationSettings(
+        metric.officeLocationId ? officeById.get(metric.officeLocationId) : undefined
+      );
+      if (metric.accuracy <= settings.precisionExcellent) return 'excellent';
+      if (metric.accuracy <= settings.precisionGood) return 'good';
+      if (metric.accuracy <= settings.precisionFair) return 'fair';
+      if (metric.accuracy <= settings.precisionPoor) return 'poor';
+      return 'very_poor';
+    };
+
+    const byOffice = this.breakdown(
+      metrics,
+      metric => metric.officeLocationId || 'unmatched',
+      key => key === 'unmatched' ? 'No office matched' : officeById.get(key)?.name || 'Deleted office',
+      gradeOf
+    );
+    const byDeviceCapability = this.breakdown(
+      metrics,
+      metric => metric.locationCapability || 'unknown',
+      key => key === 'unknown' ? 'Unknown device' : key.charAt(0).toUpperCase() + key.slice(1),
+      gradeOf
+    );
+
+    const typeGroups = this.groupBy(metrics, metric => metric.validationType);
+    const byValidationType: ValidationTypeBreakdown[] = Array.from(typeGroups.entries())
+      .map(([validationType, group]) => {
+        const accepted = group.filter(metric => metric.isValid).length;
+        return {
+          validationType,
+          total: group.length,
+          accepted,
+          acceptanceRate: accepted / group.length,
+          averageConfidence: group.reduce((sum, metric) => sum + metric.confidence, 0) / group.length
+        };
+      })
+      .sort((a, b) => b.total - a.total);
+
+    const userById = new Map(users.map(user => [user.id, user]));
+    const indoorCompensationUsers: IndoorCompensationUser[] = Array.from(this.groupBy(metrics, metric => metric.userId).entries())
+      .map(([userId, group]) => {
+        const indoorCompensated = group.filter(metric => metric.isValid && metric.validationType === 'indoor_compensation').length;
+        const user = userById.get(userId);
+        return {
+          userId,
+          displayName: user?.displayName || `User #${userId}`,
+          department: user?.department || null,
+          total: group.length,
+          indoorCompensated,
+          share: indoorCompensated / group.length
+        };
+      })
+      .filter(entry => entry.indoorCompensated > 0)
+      .sort((a, b) => b.indoorCompensated - a.indoorCompensated || b.share - a.share)
+      .slice(0, this.TOP_USERS_LIMIT);
+
+    const accepted = metrics.filter(metric => metric.isValid).length;
+
+    return {
+      startDate,
+      endDate,
+      totalValidations: metrics.length,
+      acceptanceRate: metrics.length > 0 ? accepted / metrics.length : 0,
+      byOffice,
+      byDeviceCapability,
+      byValidationType,
+      indoorCompensationUsers
+    };
+  }
+
+  private static breakdown(
+    metrics: LocationValidationMetric[],
+    keyOf: (metric: LocationValidationMetric) => string,
+    labelOf: (key: string) => string,
+    gradeOf: (metric: LocationValidationMetric) => AccuracyGrade
+  ): AccuracyBreakdown[] {
+    return Array.from(this.groupBy(metrics, keyOf).entries())
+      .map(([key, group]) => {
+        const grades: Record<AccuracyGrade, number> = { excellent: 0, good: 0, fair: 0, poor: 0, very_poor: 0 };
+        group.forEach(metric => grades[gradeOf(metric)]++);
+
+        const accuracies = group.map(metric => metric.accuracy).sort((a, b) => a - b);
+        const middle = Math.floor(accuracies.length / 2);
+        const median = accuracies.length % 2 === 0
+          ? (accuracies[middle - 1] + accuracies[middle]) / 2
+          : accuracies[middle];
+        const accepted = group.filter(metric => metric.isValid).length;
+
+        return {
+          key,
+          label: labelOf(key),
+          total: group.length,
+          accepted,
+          acceptanceRate: accepted / group.length,
+          averageAccuracy: Math.round(accuracies.reduce((sum, accuracy) => sum + accuracy, 0) / accuracies.length),
+          medianAccuracy: Math.round(median),
+          grades
+        };
+      })
+      .sort((a, b) => b.total - a.total);
+  }
+
+  private static groupBy(
+    metrics: LocationValidationMetric[],
+    keyOf: (metric: LocationValidationMetric) => string
+  ): Map<string, LocationValidationMetric[]> {
+    const groups = new Map<string, LocationValidationMetric[]>();
+    for (const metric of metrics) {
+      const key = keyOf(metric);
+      const group = groups.get(key);
+      if (group) group.push(metric);
+      else groups.set(key, [metric]);
+    }
+    return groups;
+  }
+}
@@ -0,0 +1,303 @@
+/**
+ * Muster Roll Service
+ * Monthly employee x day attendance register for HR and statutory inspection.
+ * Each day gets one code; late marks and approved overtime are tracked alongside it.
+ */
+
+import { storage, Attendance, Holiday, User } from '../storage';
+import { EnterpriseTimeService } from './enterprise-time-service';
+import { HolidayService } from './holiday-service';
+import { renderTextPdf } from '../utils/simple-pdf';
+import { MusterRoll, MusterRollCode, MusterRollDay, MusterRollRow, MusterRollTotals } from '@shared/schema';
+
+export interface MusterRollFilters {
+  month: number;
+  year: number;
+  department?: string;
+  officeLocationId?: string;
+  userIds?: string[]; // Restrict the register to these employees, e.g. a manager's reports
+}
+
+const WEEKDAYS = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July',
+  'August', 'September', 'October', 'November', 'December'];
+const LEGEND = 'P Present | A Absent | L Leave | HD Half day | H Holiday | WO Weekly off | R Regularization pending | * Late mark';
+
+const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export class MusterRollService {
+
+  static async generate(filters: MusterRollFilters): Promise<MusterRoll> {
+    const { month, year, department, officeLocationId, userIds } = filters;
+    const startDate = new Date(year, month - 1, 1);
+    const endDate = new Date(year, month, 0, 23, 59, 59, 999);
+    const today = new Date();
+    today.setHours(23, 59, 59, 999);
+
+    const days: MusterRoll['days'] = [];
+    for (let day = 1; day <= endDate.getDate(); day++) {
+      const date = new Date(year, month - 1, day);
+      days.push({ date: toDateKey(date), day, weekday: WEEKDAYS[date.getDay()] });
+    }
+
+    const [users, records, offices] = await Promise.all([
+      storage.listUsers(),
+      storage.listAttendanceBetweenDates(new Date(startDate), new Date(endDate)),
+      officeLocationId ? storage.listOfficeLocations() : Promise.resolve([])
+    ]);
+
+    const recordsByUser = new Map<string, Map<string, Attendance>>();
+    for (const record of records) {
+      const userRecords = recordsByUser.get(record.userId) || new Map<string, Attendance>();
+      userRecords.set(toDateKey(record.date), record);
+      recordsByUser.set(record.userId, userRecords);
+    }
+
+    // Office filter keeps employees who punched at the office during the month
+    const employees = users.filter(user => {
+      if (user.isActive === false) return false;
+      if (userIds && !userIds.includes(user.id)) return false;
+      if (department && user.department?.toLowerCase() !== department.toLowerCase()) return false;
+      if (officeLocationId) {
+        const userRecords = recordsByUser.get(user.id);
+        return !!userRecords && Array.from(userRecords.values()).some(r => r.detectedOfficeId === officeLocationId);
+      }
+      return true;
+    }).sort((a, b) => (a.employeeId || a.displayName || '').localeCompare(b.employeeId || b.displayName || ''));
+
+    const weeklyOffCache = new Map<string, number[]>();
+    const holidayCache = new Map<string, Holiday[]>();
+
+    const rows: MusterRollRow[] = [];
+    for (const user of employees) {
+      const userRecords = recordsByUser.get(user.id) || new Map<string, Attendance>();
+      const weeklyOffDays = await this.getWeeklyOffDays(user.department, weeklyOffCache);
+
+      // Office holidays follow the filtered office, otherwise the offices the employee punched at
+      const officeIds = officeLocationId
+        ? [officeLocationId]
+        : Array.from(new Set(Array.from(userRecords.values()).map(r => r.detectedOfficeId).filter((id): id is string => !!id)));
+      const holidayDates = new Set<string>();
+      for (const officeId of [null, ...officeIds]) {
+        const cacheKey = officeId || 'company';
+        if (!holidayCache.has(cacheKey)) {
+          holidayCache.set(cacheKey, await HolidayService.getHolidaysBetween(startDate, endDate, officeId));
+        }
+        holidayCache.get(cacheKey)!
+          .filter(holiday => holiday.type !== 'optional')
+          .forEach(holiday => holidayDates.add(toDateKey(holiday.date)));
+      }
+
+      rows.push(this.buildRow(user, days, userRecords, weeklyOffDays, holidayDates, today));
+    }
+
+    console.log(`MUSTER_ROLL: Generated ${MONTHS[month - 1]} ${year} for ${rows.length} employees`);
+
+    return {
+      month,
+      year,
+      department,
+      officeLocationId,
+      officeName: officeLocationId ? offices.find(o => o.id === officeLocationId)?.name : undefined,
+      days,
+      rows,
+      generatedAt: new Date()
+    };
+  }
+
+  static async exportToExcel(roll: MusterRoll): Promise<Buffer> {
+    // Import xlsx dynamically to avoid bundling issues
+    const XLSX = await import('xlsx');
+
+    const dayHeaders = roll.days.map(d => String(d.day));
+    const totalHeaders = ['Present', 'Absent', 'Leave', 'Half Day', 'Holiday', 'Weekly Off', 'Late Marks', 'OT Hours', 'Days Worked'];
+
+    const sheetRows: (string | number)[][] = [
+      [`Muster Roll - ${MONTHS[roll.month - 1]} ${roll.year}`],
+      [this.describeFilters(roll)],
+      [],
+      ['Emp ID', 'Name', 'Department', 'Designation', ...dayHeaders, ...totalHeaders],
+      ['', '', '', '', ...roll.days.map(d => d.weekday), ...totalHeaders.map(() => '')],
+      ...roll.rows.map(row => [
+        row.employeeId,
+        row.name,
+        row.department || '',
+        row.designation || '',
+        ...row.days.map(day => this.formatCell(day)),
+        row.totals.present,
+        row.totals.absent,
+        row.totals.leave,
+        row.totals.halfDay,
+        row.totals.holiday,
+        row.totals.weeklyOff,
+        row.totals.lateMarks,
+        row.totals.overtimeHours,
+        row.totals.daysWorked
+      ]),
+      [],
+      [LEGEND]
+    ];
+
+    const workbook = XLSX.utils.book_new();
+    const worksheet = XLSX.utils.aoa_to_sheet(sheetRows);
+    worksheet['!cols'] = [
+      { wch: 10 }, // Emp ID
+      { wch: 24 }, // Name
+      { wch: 14 }, // Department
+      { wch: 14 }, // Designation
+      ...roll.days.map(() => ({ wch: 4 })),
+      ...totalHeaders.map(() => ({ wch: 10 }))
+    ];
+    worksheet['!freeze'] = { xSplit: 2, ySplit: 5 };
+
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Muster Roll');
+    return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+  }
+
+  static exportToPdf(roll: MusterRoll): Buffer {
+    const cell = (value: string | number, width: number) => String(value).slice(0, width).padEnd(width);
+    const header = [
+      cell('Emp ID', 8),
+      cell('Name', 18),
+      ...roll.days.map(d => cell(d.day, 3)),
+      ...['P', 'A', 'L', 'HD', 'H', 'WO', 'Late', 'OT', 'Wrkd'].map(label => cell(label, 5))
+    ].join(' ');
+    const weekdays = [cell('', 8), cell('', 18), ...roll.days.map(d => cell(d.weekday, 3))].join(' ');
+
+    const lines = roll.rows.map(row => [
+      cell(row.employeeId, 8),
+      cell(row.name, 18),
+      ...row.days.map(day => cell(this.formatCell(day), 3)),
+      cell(row.totals.present, 5),
+      cell(row.totals.absent, 5),
+      cell(row.totals.leave, 5),
+      cell(row.totals.halfDay, 5),
+      cell(row.totals.holiday, 5),
+      cell(row.totals.weeklyOff, 5),
+      cell(row.totals.lateMarks, 5),
+      cell(row.totals.overtimeHours, 5),
+      cell(row.totals.daysWorked, 5)
+    ].join(' '));
+
+    if (lines.length === 0) lines.push('No employees match the selected filters');
+    lines.push('', LEGEND);
+
+    const title = `Muster Roll - ${MONTHS[roll.month - 1]} ${roll.year}`;
+    return renderTextPdf(lines, {
+      title,
+      headerLines: [
+        title,
+        `${this.describeFilters(roll)} | Generated ${roll.generatedAt.toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })}`,
+        '',
+        header,
+        weekdays
+      ]
+    });
+  }
+
+  private static buildRow(
+    user: User,
+    days: MusterRoll['days'],
+    userRecords: Map<string, Attendance>,
+    weeklyOffDays: number[],
+    holidayDates: Set<string>,
+    today: Date
+  ): MusterRollRow {
+    const joinDate = user.joinDate ? new Date(user.joinDate) : null;
+    joinDate?.setHours(0, 0, 0, 0);
+
+    const totals: MusterRollTotals = {
+      present: 0, absent: 0, leave: 0, halfDay: 0, holiday: 0,
+      weeklyOff: 0, lateMarks: 0, overtimeHours: 0, daysWorked: 0, pendingRegularization: 0
+    };
+
+    const rowDays = days.map(({ date: dateKey }) => {
+      const date = new Date(`${dateKey}T00:00:00`);
+      const record = userRecords.get(dateKey);
+      const day: MusterRollDay = { date: dateKey, code: '', late: false, overtimeHours: 0 };
+
+      if (record) {
+        day.code = this.codeForRecord(record, weeklyOffDays.includes(date.getDay()), holidayDates.has(dateKey));
+        day.late = day.code === 'P' || day.code === 'HD'
+          ? record.status === 'late' || record.isLate === true
+          : false;
+        // Only approved overtime is paid, so only approved overtime goes on the register
+        day.overtimeHours = record.overtimeApproved ? Number((record.overtimeHours || 0).toFixed(2)) : 0;
+      } else if (date > today || (joinDate && date < joinDate)) {
+        day.code = '';
+      } else if (holidayDates.has(dateKey)) {
+        day.code = 'H';
+      } else if (weeklyOffDays.includes(date.getDay())) {
+        day.code = 'WO';
+      } else {
+        day.code = 'A';
+      }
+
+      switch (day.code) {
+        case 'P': totals.present++; break;
+        case 'A': totals.absent++; break;
+        case 'L': totals.leave++; break;
+        case 'HD': totals.halfDay++; break;
+        case 'H': totals.holiday++; break;
+        case 'WO': totals.weeklyOff++; break;
+        case 'R': totals.pendingRegularization++; break;
+      }
+      if (day.late) totals.lateMarks++;
+      totals.overtimeHours += day.overtimeHours;
+
+      return day;
+    });
+
+    totals.overtimeHours = Number(totals.overtimeHours.toFixed(2));
+    totals.daysWorked = totals.present + totals.halfDay * 0.5;
+
+    return {
+      userId: user.id,
+      employeeId: user.employeeId || '',
+      name: user.displayName,
+      department: user.department,
+      designation: user.designation,
+      days: rowDays,
+      totals
+    };
+  }
+
+  private static codeForRecord(record: Attendance, isWeeklyOff: boolean, isHoliday: boolean): MusterRollCode {
+    // The auto-close policy left the day open for the employee to correct; it is not worked until then
+    if (record.requiresRegularization) return 'R';
+    switch (record.status) {
+      case 'leave': return 'L';
+      case 'half_day': return 'HD';
+      case 'absent': return 'A';
+      case 'holiday': return record.checkInTime ? 'P' : 'H';
+    }
+    if (record.checkInTime) return 'P';
+    if (isHoliday) return 'H';
+    return isWeeklyOff ? 'WO' : 'A';
+  }
+
+  private static formatCell(day: MusterRollDay): string {
+    return day.late ? `${day.code}*` : day.code;
+  }
+
+  private static describeFilters(roll: MusterRoll): string {
+    const department = roll.department ? roll.department.toUpperCase() : 'All departments';
+    const office = roll.officeName || roll.officeLocationId || 'All offices';
+    return `Department: ${department} | Office: ${office}`;
+  }
+
+  /**
+   * Weekly offs configured on the department timing, falling back to the cached timing defaults
+   */
+  static async getWeeklyOffDays(department: string | null, cache: Map<string, number[]> = new Map()): Promise<number[]> {
+    if (!department) return [0];
+
+    const cacheKey = department.toLowerCase();
+    if (!cache.has(cacheKey)) {
+      const timing = await storage.getDepartmentTiming(cacheKey);
+      cache.set(cacheKey, timing?.weeklyOffDays || (await EnterpriseTimeService.getDepartmentTiming(cacheKey)).weekendDays);
+    }
+    return cache.get(cacheKey)!;
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Office QR Code Service
+ * Signed, expiring QR codes per office location. Scanning a valid code at check-in proves the
+ * employee is at that office, which indoor GPS often cannot. Display codes rotate every few
+ * minutes on a screen at the office; printed codes last for days. Rotating the office key
+ * revokes every code issued so far.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import QRCode from 'qrcode';
+import { storage, OfficeLocation, OfficeQrKey, User } from '../storage';
+
+export type OfficeQrCodeMode = 'display' | 'print';
+
+export interface IssuedOfficeQrCode {
+  token: string;
+  url: string; // What the QR encodes - opens the attendance page with the token
+  imageDataUrl: string;
+  expiresAt: Date;
+  refreshAfterSeconds: number | null; // Display codes only
+  officeName: string;
+}
+
+export interface OfficeQrVerification {
+  valid: boolean;
+  message: string;
+  office?: OfficeLocation;
+}
+
+const TOKEN_PREFIX = 'PGQR';
+
+export class OfficeQrCodeService {
+
+  static readonly DISPLAY_VALIDITY_MINUTES = 5;
+  static readonly DISPLAY_REFRESH_SECONDS = 120;
+  static readonly MAX_PRINT_VALIDITY_DAYS = 90;
+
+  /**
+   * Issue a code for an office. baseUrl is the app origin the QR link should open.
+   */
+  static async issue(
+    officeLocationId: string,
+    mode: OfficeQrCodeMode,
+    baseUrl: string,
+    printValidityDays: number = 30
+  ): Promise<IssuedOfficeQrCode> {
+    const office = await storage.getOfficeLocation(officeLocationId);
+    if (!office) {
+      throw new Error('Office location not found');
+    }
+
+    const key = await this.getOrCreateKey(officeLocationId);
+    const validityMs = mode === 'display'
+      ? this.DISPLAY_VALIDITY_MINUTES * 60 * 1000
+      : Math.min(Math.max(1, printValidityDays), this.MAX_PRINT_VALIDITY_DAYS) * 24 * 60 * 60 * 1000;
+    const expiresAt = new Date(Date.now() + validityMs);
+
+    const payload = `${officeLocationId}.${key.version}.${Math.floor(expiresAt.getTime() / 1000)}`;
+    const token = `${TOKEN_PREFIX}.${payload}.${this.sign(key.secret, payload)}`;
+    const url = `${baseUrl.replace(/\/$/, '')}/attendance?officeQr=${encodeURIComponent(token)}`;
+
+    return {
+      token,
+      url,
+      imageDataUrl: await QRCode.toDataURL(url, { errorCorrectionLevel: 'M', margin: 2, width: 512 }),
+      expiresAt,
+      refreshAfterSeconds: mode === 'display' ? this.DISPLAY_REFRESH_SECONDS : null,
+      officeName: office.name
+    };
+  }
+
+  /**
+   * Check a scanned code. Accepts the bare token or the full link the QR encodes.
+   */
+  static async verify(scanned: string): Promise<OfficeQrVerification> {
+    const token = this.extractToken(scanned);
+    const parts = token.split('.');
+    if (parts.length !== 5 || parts[0] !== TOKEN_PREFIX) {
+      return { valid: false, message: 'This is not an office check-in QR code' };
+    }
+
+    const [, officeLocationId, version, expiresAtSeconds, signature] = parts;
+    const key = await storage.getOfficeQrKey(officeLocationId);
+    const payload = `${officeLocationId}.${version}.${expiresAtSeconds}`;
+    if (!key || !this.signatureMatches(this.sign(key.secret, payload), signature)) {
+      return { valid: false, message: 'Office QR code could not be verified' };
+    }
+
+    if (Number(version) !== key.version) {
+      return { valid: false, message: 'This office QR code has been replaced. Scan the current code.' };
+    }
+
+    if (Number(expiresAtSeconds) * 1000 < Date.now()) {
+      return { valid: false, message: 'Office QR code has expired. Scan the current code.' };
+    }
+
+    const office = await storage.getOfficeLocation(officeLocationId);
+    if (!office) {
+      return { valid: false, message: 'Office location no longer exists' };
+    }
+
+    return { valid: true, message: `Verified at ${office.name}`, office };
+  }
+
+  /**
+   * Replace the office key so every printed and displayed code stops working
+   */
+  static async revokeAll(admin: User, officeLocationId: string): Promise<OfficeQrKey> {
+    const office = await storage.getOfficeLocation(officeLocationId);
+    if (!office) {
+      throw new Error('Office location not found');
+    }
+
+    const current = await storage.getOfficeQrKey(officeLocationId);
+    const key = await storage.setOfficeQrKey({
+      officeLocationId,
+      secret: randomBytes(32).toString('hex'),
+      version: (current?.version || 0) + 1,
+      rotatedBy: admin.id
+    });
+
+    await storage.createAuditLog({
+      userId: admin.id,
+      action: 'office_qr_codes_revoked',
+      entityType: 'office_location',
+      entityId: officeLocationId,
+      changes: { officeName: office.name, previousVersion: current?.version || null, version: key.version },
+      department: admin.department,
+      designation: admin.designation
+    });
+
+    console.log(`OFFICE QR: Codes for ${office.name} revoked by ${admin.id} (now version ${key.version})`);
+    return key;
+  }
+
+  private static async getOrCreateKey(officeLocationId: string): Promise<OfficeQrKey> {
+    const existing = await storage.getOfficeQrKey(officeLocationId);
+    if (existing) return existing;
+
+    return storage.setOfficeQrKey({
+      officeLocationId,
+      secret: randomBytes(32).toString('hex'),
+      version: 1,
+      rotatedBy: 'system'
+    });
+  }
+
+  private static extractToken(scanned: string): string {
+    const value = scanned.trim();
+    try {
+      return new URL(value).searchParams.get('officeQr') || value;
+    } catch {
+      return value;
+    }
+  }
+
+  private static sign(secret: string, payload: string): string {
+    return createHmac('sha256', secret).update(payload).digest('base64url').slice(0, 32);
+  }
+
+  private static signatureMatches(expected: string, actual: string): boolean {
+    const a = Buffer.from(expected);
+    const b = Buffer.from(actual);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+}
@@ -0,0 +1,348 @@
+/**
+ * Offline Punch Sync Service
+ * Applies check-ins, check-outs and site visit start/checkout that a device captured without
+ * signal. Each punch is signed on the device with a per-user key fetched while online, keeps
+ * the device's capture time, and is accepted only within SYNC_WINDOW_HOURS of capture. Applied
+ * punches are marked offline_synced so they reach the admin review queue.
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { locationSchema, sitePhotoSchema, insertSiteVisitSchema, OfflinePunch } from '@shared/schema';
+import { storage, User } from '../storage';
+import { CloudinaryService } from './cloudinary-service';
+import { UnifiedAttendanceService } from './unified-attendance-service';
+import { siteVisitService } from './site-visit-service';
+
+export interface IssuedOfflinePunchKey {
+  keyId: string;
+  secret: string;
+  expiresAt: Date;
+}
+
+export interface OfflinePunchSyncResult {
+  success: boolean;
+  message: string;
+  status: 'applied' | 'rejected' | 'duplicate' | 'in_progress';
+  entityId?: string;
+}
+
+const photoDataUrl = z.string().startsWith('data:image/');
+
+// Payloads as captured on the device; photos travel as data URLs and are uploaded on sync
+const checkInPayloadSchema = z.object({
+  latitude: z.number(),
+  longitude: z.number(),
+  accuracy: z.number().default(100),
+  attendanceType: z.enum(['office', 'remote', 'field_work']).default('office'),
+  reason: z.string().optional(),
+  customerName: z.string().optional(),
+  photo: photoDataUrl.optional(),
+  deviceInfo: z.object({
+    type: z.enum(['mobile', 'tablet', 'desktop']).default('mobile'),
+    locationCapability: z.enum(['excellent', 'good', 'limited', 'poor']).default('limited')
+  }).optional()
+});
+
+const checkOutPayloadSchema = z.object({
+  latitude: z.number(),
+  longitude: z.number(),
+  accuracy: z.number().optional(),
+  photo: photoDataUrl.optional(),
+  reason: z.string().optional(),
+  otReason: z.string().optional()
+});
+
+const offlineSitePhotoSchema = sitePhotoSchema.omit({ url: true, timestamp: true }).extend({
+  photo: photoDataUrl,
+  timestamp: z.coerce.date()
+});
+
+const siteVisitStartPayloadSchema = z.object({
+  visitPurpose: z.string(),
+  siteInLocation: locationSchema,
+  selfie: photoDataUrl.optional(),
+  sitePhotos: z.array(offlineSitePhotoSchema).max(20).default([]),
+  customer: z.record(z.any()),
+  technicalData: z.any().optional(),
+  marketingData: z.any().optional(),
+  adminData: z.any().optional(),
+  notes: z.string().optional()
+});
+
+const siteVisitCheckoutPayloadSchema = z.object({
+  siteVisitId: z.string(),
+  siteOutLocation: locationSchema,
+  selfie: photoDataUrl.optional(),
+  sitePhotos: z.array(offlineSitePhotoSchema).max(20).default([]),
+  notes: z.string().optional()
+});
+
+export class OfflinePunchSyncService {
+
+  static readonly SYNC_WINDOW_HOURS = 72;
+  static readonly KEY_VALIDITY_DAYS = 7;
+  private static readonly MAX_CLOCK_SKEW_MINUTES = 5;
+
+  /**
+   * New signing key for the user's device. Older keys stay valid until they expire so punches
+   * already queued on another device can still sync.
+   */
+  static async issueKey(user: User): Promise<IssuedOfflinePunchKey> {
+    const key = await storage.createOfflinePunchKey({
+      userId: user.id,
+      secret: randomBytes(32).toString('hex'),
+      expiresAt: new Date(Date.now() + this.KEY_VALIDITY_DAYS * 24 * 60 * 60 * 1000)
+    });
+
+    return { keyId: key.id, secret: key.secret, expiresAt: key.expiresAt };
+  }
+
+  /**
+   * Verify and apply one uploaded punch. Re-uploading a punch returns the first result.
+   */
+  static async sync(user: User, punch: OfflinePunch, userAgent?: string): Promise<OfflinePunchSyncResult> {
+    const previous = await storage.getOfflinePunchSync(user.id, punch.clientId);
+    if (previous) {
+      return previous.status === 'processing'
+        ? { success: false, status: 'in_progress', message: 'This punch is already being synced' }
+        : {
+            success: previous.status === 'applied',
+            status: 'duplicate',
+            message: previous.message || 'Punch already synced',
+            entityId: previous.entityId
+          };
+    }
+
+    const verification = await this.verify(user, punch);
+    if (!verification.valid) {
+      console.log(`OFFLINE SYNC: Rejected ${punch.kind} ${punch.clientId} for ${user.id} - ${verification.message}`);
+      return { success: false, status: 'rejected', message: verification.message };
+    }
+
+    const claimed = await storage.claimOfflinePunchSync({
+      userId: user.id,
+      clientId: punch.clientId,
+      kind: punch.kind,
+      capturedAt: punch.capturedAt,
+      status: 'processing'
+    });
+    if (!claimed) {
+      return { success: false, status: 'in_progress', message: 'This punch is already being synced' };
+    }
+
+    // A payload that is not JSON never will be, so it is recorded as rejected like any other
+    // permanent failure instead of releasing the claim for another attempt
+    const payload = this.parsePayload(punch.payloadJson);
+    let result: { success: boolean; message: string; entityId?: string };
+    if (payload === undefined) {
+      result = { success: false, message: 'Punch data could not be read' };
+    } else {
+      try {
+        result = await this.apply(user, punch, payload, userAgent);
+      } catch (error) {
+        // Release the claim so the device can retry after a transient failure
+        await storage.releaseOfflinePunchSync(user.id, punch.clientId);
+        if (error instanceof z.ZodError) {
+          return { success: false, status: 'rejected', message: 'Punch data is incomplete' };
+        }
+        throw error;
+      }
+    }
+
+    await storage.updateOfflinePunchSync(user.id, punch.clientId, {
+      status: result.success ? 'applied' : 'rejected',
+      message: result.message,
+      entityId: result.entityId
+    });
+
+    await storage.createAuditLog({
+      userId: user.id,
+      action: result.success ? 'offline_punch_synced' : 'offline_punch_rejected',
+      entityType: punch.kind.startsWith('site_visit') ? 'site_visit' : 'attendance',
+      entityId: result.entityId || punch.clientId,
+      changes: { kind: punch.kind, capturedAt: punch.capturedAt, message: result.message },
+      department: user.department,
+      designation: user.designation
+    });
+
+    console.log(`OFFLINE SYNC: ${punch.kind} captured ${punch.capturedAt.toISOString()} for ${user.id} - ${result.message}`);
+    return { ...result, status: result.success ? 'applied' : 'rejected' };
+  }
+
+  private static parsePayload(payloadJson: string): unknown {
+    try {
+      return JSON.parse(payloadJson);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private static async verify(user: User, punch: OfflinePunch): Promise<{ valid: boolean; message: string }> {
+    const key = await storage.getOfflinePunchKey(punch.keyId);
+    if (!key || key.userId !== user.id || !this.signatureMatches(this.sign(key.secret, punch), punch.signature)) {
+      return { valid: false, message: 'Offline punch could not be verified' };
+    }
+
+    const capturedAt = punch.capturedAt.getTime();
+    const skew = this.MAX_CLOCK_SKEW_MINUTES * 60 * 1000;
+    if (capturedAt > Date.now() + skew) {
+      return { valid: false, message: 'Punch time is in the future - check the device clock' };
+    }
+
+    // The key must have been valid when the punch was captured
+    if (capturedAt < key.createdAt.getTime() - skew || capturedAt > key.expiresAt.getTime()) {
+      return { valid: false, message: 'Punch time is outside the validity of its signing key' };
+    }
+
+    if (Date.now() - capturedAt > this.SYNC_WINDOW_HOURS * 60 * 60 * 1000) {
+      return { valid: false, message: `Offline punches must be synced within ${this.SYNC_WINDOW_HOURS} hours` };
+    }
+
+    return { valid: true, message: 'Verified' };
+  }
+
+  private static async apply(
+    user: User,
+    punch: OfflinePunch,
+    payload: unknown,
+    userAgent?: string
+  ): Promise<{ success: boolean; message: string; entityId?: string }> {
+    switch (punch.kind) {
+      case 'attendance_check_in': {
+        const data = checkInPayloadSchema.parse(payload);
+        const result = await UnifiedAttendanceService.processCheckIn({
+          userId: user.id,
+          latitude: data.latitude,
+          longitude: data.longitude,
+          accuracy: data.accuracy,
+          attendanceType: data.attendanceType,
+          reason: data.reason,
+          customerName: data.customerName,
+          imageUrl: data.photo, // Uploaded by processCheckIn
+          deviceInfo: {
+            type: data.deviceInfo?.type || 'mobile',
+            locationCapability: data.deviceInfo?.locationCapability || 'limited',
+            userAgent
+          },
+          capturedAt: punch.capturedAt
+        });
+        return { success: result.success, message: result.message, entityId: result.attendanceId };
+      }
+
+      case 'attendance_check_out': {
+        const data = checkOutPayloadSchema.parse(payload);
+        const imageUrl = data.photo
+          ? await this.uploadPhoto(data.photo, user.id, punch.capturedAt)
+          : undefined;
+        const result = await UnifiedAttendanceService.processCheckOut({
+          userId: user.id,
+          latitude: data.latitude,
+          longitude: data.longitude,
+          accuracy: data.accuracy,
+          imageUrl,
+          reason: data.reason,
+          otReason: data.otReason,
+          userAgent,
+          capturedAt: punch.capturedAt
+        });
+        return { success: result.success, message: result.message };
+      }
+
+      case 'site_visit_start': {
+        const data = siteVisitStartPayloadSchema.parse(payload);
+        const siteInPhotoUrl = data.selfie
+          ? await this.uploadPhoto(data.selfie, `site_visit_selfie_${punch.clientId}`, punch.capturedAt)
+          : undefined;
+        const sitePhotos = await this.uploadSitePhotos(data.sitePhotos, `site_visit_site_${punch.clientId}`, punch.capturedAt);
+        await siteVisitService.findOrCreateCustomer(data.customer);
+
+        const siteVisit = await siteVisitService.createSiteVisit(insertSiteVisitSchema.parse({
+          userId: user.id,
+          department: siteVisitService.mapDepartment(user.department),
+          visitPurpose: data.visitPurpose,
+          siteInTime: punch.capturedAt,
+          siteInLocation: data.siteInLocation,
+          ...(siteInPhotoUrl && { siteInPhotoUrl }),
+          sitePhotos,
+          customer: data.customer,
+          ...(data.technicalData && { technicalData: data.technicalData }),
+          ...(data.marketingData && { marketingData: data.marketingData }),
+          ...(data.adminData && { adminData: data.adminData }),
+          notes: data.notes,
+          status: 'in_progress',
+          syncStatus: 'offline_synced',
+          siteInSyncedAt: new Date()
+        }));
+        return { success: true, message: 'Site visit started from offline capture', entityId: siteVisit.id };
+      }
+
+      case 'site_visit_checkout': {
+        const data = siteVisitCheckoutPayloadSchema.parse(payload);
+        const siteVisit = await siteVisitService.getSiteVisitById(data.siteVisitId);
+        if (!siteVisit || siteVisit.userId !== user.id) {
+          return { success: false, message: 'Site visit not found' };
+        }
+        if (siteVisit.status !== 'in_progress') {
+          return { success: false, message: 'Site visit is already closed', entityId: siteVisit.id };
+        }
+        if (punch.capturedAt < new Date(siteVisit.siteInTime)) {
+          return { success: false, message: 'Checkout time is earlier than the site visit start', entityId: siteVisit.id };
+        }
+
+        const siteOutPhotoUrl = data.selfie
+          ? await this.uploadPhoto(data.selfie, `sitevisit_checkout_selfie_${punch.clientId}`, punch.capturedAt)
+          : undefined;
+        const siteOutPhotos = await this.uploadSitePhotos(data.sitePhotos, `sitevisit_checkout_site_${punch.clientId}`, punch.capturedAt);
+
+        await siteVisitService.updateSiteVisit(siteVisit.id, {
+          status: 'completed',
+          siteOutTime: punch.capturedAt,
+          siteOutLocation: data.siteOutLocation,
+          ...(siteOutPhotoUrl && { siteOutPhotoUrl }),
+          siteOutPhotos,
+          ...(data.notes && { notes: data.notes }),
+          syncStatus: 'offline_synced',
+          siteOutSyncedAt: new Date()
+        });
+        return { success: true, message: 'Site visit checked out from offline capture', entityId: siteVisit.id };
+      }
+    }
+  }
+
+  private static async uploadPhoto(dataUrl: string, name: string, capturedAt: Date): Promise<string> {
+    const upload = await CloudinaryService.uploadAttendancePhoto(dataUrl, name, capturedAt);
+    if (!upload.success || !upload.url) {
+      // Thrown so the claim is released and the device retries with the photo still queued
+      throw new Error(`Photo upload failed: ${upload.error || 'unknown error'}`);
+    }
+    return upload.url;
+  }
+
+  private static async uploadSitePhotos(
+    photos: z.infer<typeof offlineSitePhotoSchema>[],
+    name: string,
+    capturedAt: Date
+  ) {
+    const uploaded = [];
+    for (let index = 0; index < photos.length; index++) {
+      const { photo, ...details } = photos[index];
+      uploaded.push({ ...details, url: await this.uploadPhoto(photo, `${name}_${index}`, capturedAt) });
+    }
+    return uploaded;
+  }
+
+  // Same string the device signs: the payload is hashed so photos do not have to be signed twice
+  private static sign(secret: string, punch: OfflinePunch): string {
+    const payloadHash = createHash('sha256').update(punch.payloadJson).digest('hex');
+    return createHmac('sha256', secret)
+      .update(`${punch.clientId}.${punch.kind}.${punch.capturedAt.toISOString()}.${payloadHash}`)
+      .digest('hex');
+  }
+
+  private static signatureMatches(expected: string, actual: string): boolean {
+    const a = Buffer.from(expected);
+    const b = Buffer.from(actual);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+}
@@ -0,0 +1,413 @@
+/**
+ * Overtime Request Service
+ * Planned and post-facto overtime requests routed to the team or department approver.
+ * Attendance keeps the raw overtime in recordedOvertimeHours; overtimeHours only ever holds
+ * approved hours capped at the policy's maxOvertimeHours, which is what payroll pays.
+ */
+
+import { storage, Attendance, OvertimeRequest, User } from '../storage';
+import { AttendancePolicyService } from './attendance-policy-service';
+import { getEffectivePermissions, OvertimeRequestType, SystemPermission, Department, Designation } from '@shared/schema';
+
+export interface OvertimePolicy {
+  overtimeAllowed: boolean;
+  maxOvertimeHours: number;
+  overtimeApprovalRequired: boolean;
+}
+
+export interface OvertimeSubmitRequest {
+  requestType: OvertimeRequestType;
+  workDate?: Date;
+  attendanceId?: string;
+  requestedHours: number;
+  otReason: string;
+  otImageUrl?: string;
+}
+
+export interface OvertimeResult {
+  success: boolean;
+  message: string;
+  request?: OvertimeRequest;
+}
+
+export interface CheckOutOvertimeResolution {
+  recordedOvertimeHours: number;
+  overtimeHours: number; // Payable hours to store on the attendance record
+  overtimeApproved: boolean;
+  overtimeRequestId?: string;
+  message?: string;
+}
+
+const roundHours = (hours: number) => Math.round(hours * 100) / 100;
+
+const startOfDay = (value: Date) => {
+  const date = new Date(value);
+  date.setHours(0, 0, 0, 0);
+  return date;
+};
+
+export class OvertimeRequestService {
+
+  /**
+   * Overtime rules from the attendance policy that applies to the user
+   */
+  static async getOvertimePolicy(user: User): Promise<OvertimePolicy> {
+    const policy = await AttendancePolicyService.resolveForUser(user);
+    return {
+      overtimeAllowed: policy.overtimeAllowed,
+      maxOvertimeHours: policy.maxOvertimeHours,
+      overtimeApprovalRequired: policy.overtimeApprovalRequired
+    };
+  }
+
+  /**
+   * Payable overtime for a record whose recorded hours changed after check-out (e.g. a timing
+   * recalculation). Never raises new requests; an earlier approval is kept but capped at the new hours.
+   */
+  static async recalculatePayable(
+    user: User,
+    attendance: Attendance,
+    recordedHours: number
+  ): Promise<Omit<CheckOutOvertimeResolution, 'overtimeRequestId' | 'message'>> {
+    const recordedOvertimeHours = roundHours(Math.max(0, recordedHours));
+    const policy = await this.getOvertimePolicy(user);
+    if (recordedOvertimeHours <= 0 || !policy.overtimeAllowed) {
+      return { recordedOvertimeHours, overtimeHours: 0, overtimeApproved: false };
+    }
+
+    if (!policy.overtimeApprovalRequired) {
+      return {
+        recordedOvertimeHours,
+        overtimeHours: roundHours(Math.min(recordedOvertimeHours, policy.maxOvertimeHours)),
+        overtimeApproved: true
+      };
+    }
+
+    const request = attendance.overtimeRequestId ? await storage.getOvertimeRequest(attendance.overtimeRequestId) : undefined;
+    if (!request || request.status !== 'approved') {
+      return { recordedOvertimeHours, overtimeHours: 0, overtimeApproved: false };
+    }
+
+    const approvedHours = request.approvedHours ?? request.requestedHours;
+    return {
+      recordedOvertimeHours,
+      overtimeHours: roundHours(Math.min(recordedOvertimeHours, approvedHours, policy.maxOvertimeHours)),
+      overtimeApproved: true
+    };
+  }
+
+  /**
+   * Raise a planned request for an upcoming day or a post-facto request for a day already worked
+   */
+  static async submitRequest(user: User, request: OvertimeSubmitRequest): Promise<OvertimeResult> {
+    const policy = await this.getOvertimePolicy(user);
+    if (!policy.overtimeAllowed) {
+      return { success: false, message: 'Overtime is not allowed under your attendance policy' };
+    }
+
+    if (request.requestedHours > policy.maxOvertimeHours) {
+      return { success: false, message: `Overtime cannot exceed ${policy.maxOvertimeHours} hours per day` };
+    }
+
+    let workDate: Date;
+    let attendance: Attendance | undefined;
+
+    if (request.requestType === 'planned') {
+      if (!request.workDate) {
+        return { success: false, message: 'Work date is required for planned overtime' };
+      }
+      workDate = startOfDay(request.workDate);
+      if (workDate < startOfDay(new Date())) {
+        return { success: false, message: 'Planned overtime must be requested before the work day' };
+      }
+    } else {
+      if (!request.attendanceId) {
+        return { success: false, message: 'Select the attendance record the overtime was worked on' };
+      }
+      attendance = await storage.getAttendance(request.attendanceId);
+      if (!attendance) {
+        return { success: false, message: 'Attendance record not found' };
+      }
+      if (attendance.userId !== user.id) {
+        return { success: false, message: 'You can only request overtime on your own attendance records' };
+      }
+      if (!attendance.checkOutTime) {
+        return { success: false, message: 'Check out before requesting overtime for this day' };
+      }
+
+      const recorded = attendance.recordedOvertimeHours ?? attendance.overtimeHours ?? 0;
+      if (request.requestedHours > recorded) {
+        return { success: false, message: `Only ${roundHours(recorded)} hours of overtime were recorded on this day` };
+      }
+      workDate = startOfDay(attendance.date);
+    }
+
+    // One open or approved request per work day
+    const existing = (await storage.listOvertimeRequests({ userId: user.id }))
+      .find(r => r.status !== 'rejected' && startOfDay(r.workDate).getTime() === workDate.getTime());
+    if (existing) {
+      return { success: false, message: `An overtime request is already ${existing.status} for this day` };
+    }
+
+    const overtimeRequest = await storage.createOvertimeRequest({
+      userId: user.id,
+      attendanceId: attendance?.id || null,
+      requestType: request.requestType,
+      workDate,
+      requestedHours: roundHours(request.requestedHours),
+      otReason: request.otReason,
+      otImageUrl: request.otImageUrl,
+      status: 'pending',
+      approverId: user.reportingManagerId || null
+    });
+
+    if (attendance) {
+      await storage.updateAttendance(attendance.id, { overtimeRequestId: overtimeRequest.id });
+    }
+
+    await storage.createAuditLog({
+      userId: user.id,
+      action: 'overtime_requested',
+      entityType: 'overtime_request',
+      entityId: overtimeRequest.id,
+      changes: {
+        requestType: request.requestType,
+        workDate,
+        requestedHours: overtimeRequest.requestedHours,
+        attendanceId: overtimeRequest.attendanceId,
+        approverId: overtimeRequest.approverId
+      },
+      department: user.department,
+      designation: user.designation
+    });
+
+    console.log(`OVERTIME: ${request.requestType} request ${overtimeRequest.id} raised by ${user.id} for ${workDate.toDateString()}`);
+
+    return {
+      success: true,
+      message: overtimeRequest.approverId
+        ? 'Overtime request submitted to your reporting manager'
+        : 'Overtime request submitted for department review',
+      request: overtimeRequest
+    };
+  }
+
+  /**
+   * Decide how much of the overtime measured at check-out is payable right now.
+   * Pre-approved hours apply immediately; otherwise a post-facto request is raised when a reason was given.
+   */
+  static async resolveCheckOut(
+    user: User,
+    attendance: Attendance,
+    recordedHours: number,
+    otReason?: string,
+    otImageUrl?: string
+  ): Promise<CheckOutOvertimeResolution> {
+    const recordedOvertimeHours = roundHours(Math.max(0, recordedHours));
+    const resolution: CheckOutOvertimeResolution = { recordedOvertimeHours, overtimeHours: 0, overtimeApproved: false };
+    if (recordedOvertimeHours <= 0) return resolution;
+
+    const policy = await this.getOvertimePolicy(user);
+    if (!policy.overtimeAllowed) {
+      return { ...resolution, message: 'Overtime is not allowed under your attendance policy' };
+    }
+
+    if (!policy.overtimeApprovalRequired) {
+      return {
+        ...resolution,
+        overtimeHours: roundHours(Math.min(recordedOvertimeHours, policy.maxOvertimeHours)),
+        overtimeApproved: true
+      };
+    }
+
+    const workDate = startOfDay(attendance.date);
+    const planned = (await storage.listOvertimeRequests({ userId: user.id }))
+      .find(r => r.requestType === 'planned' && r.status !== 'rejected' && !r.attendanceId &&
+        startOfDay(r.workDate).getTime() === workDate.getTime());
+
+    if (planned) {
+      await storage.updateOvertimeRequest(planned.id, { attendanceId: attendance.id });
+
+      if (planned.status === 'approved') {
+        const approvedHours = planned.approvedHours ?? planned.requestedHours;
+        return {
+          ...resolution,
+          overtimeHours: roundHours(Math.min(recordedOvertimeHours, approvedHours, policy.maxOvertimeHours)),
+          overtimeApproved: true,
+          overtimeRequestId: planned.id,
+          message: 'pre-approved overtime applied'
+        };
+      }
+
+      return { ...resolution, overtimeRequestId: planned.id, message: 'planned overtime is awaiting approval' };
+    }
+
+    if (!otReason || otReason.trim().length < 10) {
+      return { ...resolution, message: 'overtime needs approval before it is paid' };
+    }
+
+    const requestedHours = roundHours(Math.min(recordedOvertimeHours, policy.maxOvertimeHours));
+    if (requestedHours < 0.25) return resolution;
+
+    const overtimeRequest = await storage.createOvertimeRequest({
+      userId: user.id,
+      attendanceId: attendance.id,
+      requestType: 'post_facto',
+      workDate,
+      requestedHours,
+      otReason: otReason.trim(),
+      otImageUrl,
+      status: 'pending',
+      approverId: user.reportingManagerId || null
+    });
+
+    console.log(`OVERTIME: Post-facto request ${overtimeRequest.id} raised at check-out by ${user.id} (${recordedOvertimeHours}h recorded)`);
+
+    return { ...resolution, overtimeRequestId: overtimeRequest.id, message: 'overtime sent for approval' };
+  }
+
+  /**
+   * Team approvers review their direct reports; department approvers review anyone in their department
+   */
+  static canReview(reviewer: User, overtimeRequest: OvertimeRequest, requester?: User): boolean {
+    if (reviewer.id === overtimeRequest.userId) {
+      return false;
+    }
+    if (reviewer.role === 'master_admin') {
+      return true;
+    }
+
+    const permissions = this.getReviewerPermissions(reviewer);
+    if (permissions.includes('approve.overtime.department') &&
+        !!reviewer.department && reviewer.department === requester?.department) {
+      return true;
+    }
+    return permissions.includes('approve.overtime.team') &&
+      !!overtimeRequest.approverId && overtimeRequest.approverId === reviewer.id;
+  }
+
+  /**
+   * Approve (optionally fewer hours than requested) or reject a pending request
+   */
+  static async reviewRequest(
+    reviewer: User,
+    requestId: string,
+    decision: 'approved' | 'rejected',
+    options: { approvedHours?: number; reviewComment?: string } = {}
+  ): Promise<OvertimeResult> {
+    const overtimeRequest = await storage.getOvertimeRequest(requestId);
+    if (!overtimeRequest) {
+      return { success: false, message: 'Overtime request not found' };
+    }
+
+    const requester = await storage.getUser(overtimeRequest.userId);
+    if (!this.canReview(reviewer, overtimeRequest, requester)) {
+      return { success: false, message: 'You are not authorized to review this request' };
+    }
+
+    if (overtimeRequest.status !== 'pending') {
+      return { success: false, message: `Request has already been ${overtimeRequest.status}` };
+    }
+
+    if (decision === 'rejected' && (!options.reviewComment || options.reviewComment.trim().length === 0)) {
+      return { success: false, message: 'A reason is required when rejecting a request' };
+    }
+
+    let approvedHours: number | undefined;
+    if (decision === 'approved') {
+      const policy = requester ? await this.getOvertimePolicy(requester) : await AttendancePolicyService.resolve(null, null);
+      approvedHours = options.approvedHours ?? overtimeRequest.requestedHours;
+      if (approvedHours <= 0 || approvedHours > overtimeRequest.requestedHours) {
+        return { success: false, message: `Approved hours must be between 0 and ${overtimeRequest.requestedHours}` };
+      }
+      approvedHours = roundHours(Math.min(approvedHours, policy.maxOvertimeHours));
+    }
+
+    const updated = await storage.updateOvertimeRequest(requestId, {
+      status: decision,
+      approvedHours,
+      reviewedBy: reviewer.id,
+      reviewedAt: new Date(),
+      reviewComment: options.reviewComment || ''
+    });
+
+    const attendanceChanges = await this.applyToAttendance(updated);
+
+    await storage.createAuditLog({
+      userId: reviewer.id,
+      action: `overtime_${decision}`,
+      entityType: 'overtime_request',
+      entityId: requestId,
+      changes: {
+        requesterId: overtimeRequest.userId,
+        workDate: overtimeRequest.workDate,
+        requestedHours: overtimeRequest.requestedHours,
+        approvedHours,
+        reviewComment: options.reviewComment || '',
+        ...(attendanceChanges && { attendanceId: updated.attendanceId, attendance: attendanceChanges })
+      },
+      department: reviewer.department,
+      designation: reviewer.designation
+    });
+
+    console.log(`OVERTIME: Request ${requestId} ${decision} by ${reviewer.id}${approvedHours !== undefined ? ` (${approvedHours}h)` : ''}`);
+
+    return {
+      success: true,
+      message: `Overtime request ${decision}`,
+      request: updated
+    };
+  }
+
+  /**
+   * Review the pending request linked to an attendance record (attendance bulk actions)
+   */
+  static async reviewForAttendance(
+    reviewer: User,
+    attendanceId: string,
+    decision: 'approved' | 'rejected',
+    reviewComment?: string
+  ): Promise<OvertimeResult> {
+    const [pending] = await storage.listOvertimeRequests({ attendanceId, status: 'pending' });
+    if (!pending) {
+      return { success: false, message: 'No pending overtime request for this attendance record' };
+    }
+    return this.reviewRequest(reviewer, pending.id, decision, { reviewComment });
+  }
+
+  /**
+   * Write the decision to the linked attendance record once the employee has checked out.
+   * Planned requests reviewed before the work day are applied at check-out instead.
+   */
+  private static async applyToAttendance(overtimeRequest: OvertimeRequest): Promise<Record<string, any> | undefined> {
+    if (!overtimeRequest.attendanceId) return undefined;
+
+    const attendance = await storage.getAttendance(overtimeRequest.attendanceId);
+    if (!attendance?.checkOutTime) return undefined;
+
+    const recorded = attendance.recordedOvertimeHours ?? attendance.overtimeHours ?? 0;
+    const changes = overtimeRequest.status === 'approved'
+      ? {
+          overtimeHours: roundHours(Math.min(recorded, overtimeRequest.approvedHours ?? 0)),
+          recordedOvertimeHours: recorded,
+          overtimeApproved: true,
+          overtimeRequestId: overtimeRequest.id
+        }
+      : {
+          overtimeHours: 0,
+          recordedOvertimeHours: recorded,
+          overtimeApproved: false,
+          overtimeRequestId: overtimeRequest.id
+        };
+
+    await storage.updateAttendance(attendance.id, changes);
+    return changes;
+  }
+
+  private static getReviewerPermissions(reviewer: User): SystemPermission[] {
+    return getEffectivePermissions(
+      (reviewer.department || null) as Department | null,
+      (reviewer.designation || null) as Designation | null
+    );
+  }
+}
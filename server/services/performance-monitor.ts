@@ -3,6 +3,9 @@
  * Microsoft-grade real-time performance tracking and alerting
  */
 
+import { storage } from '../storage';
+import { InsertLocationValidationMetric } from '@shared/schema';
+
 export interface PerformanceMetrics {
   locationAccuracy: {
     average: number;
@@ -43,12 +46,26 @@ export class EnterprisePerformanceMonitor {
     LOCATION_ACCURACY: 1000 // 1km
   };
 
+  /**
+   * Record a location validation. With details the validation is also persisted for the
+   * location accuracy dashboard; the in-memory history below only feeds live health checks.
+   */
   static recordLocationValidation(
     accuracy: number,
     responseTime: number,
-    success: boolean
+    success: boolean,
+    details?: Omit<InsertLocationValidationMetric, 'accuracy' | 'isValid' | 'responseTimeMs'>
   ): void {
     const timestamp = new Date();
+
+    if (details) {
+      storage.createLocationValidationMetric({
+        ...details,
+        accuracy,
+        isValid: success,
+        responseTimeMs: Math.round(responseTime)
+      }).catch(error => console.error('ENTERPRISE-MONITOR: Failed to persist location validation metric:', error));
+    }
     
     // Update metrics
     this.updateMetrics({
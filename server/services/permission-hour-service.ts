@@ -0,0 +1,338 @@
+/**
+ * Permission Hour Service
+ * Short "permission" absences (late arrival or early leave, in minutes) drawn from a monthly
+ * allowance on the department timing. Approved minutes are consumed from the monthly ledger and
+ * offset against lateness at check-in, or against an early check-out, before status is decided.
+ */
+
+import { storage, Attendance, PermissionRequest, User } from '../storage';
+import { EnterpriseTimeService } from './enterprise-time-service';
+import { AttendancePolicyService, LatenessClassification } from './attendance-policy-service';
+import { LeaveAttendanceService } from './leave-attendance-service';
+import { PermissionRequestType } from '@shared/schema';
+
+export interface PermissionSubmitRequest {
+  date: Date;
+  permissionType: PermissionRequestType;
+  minutes: number;
+  reason: string;
+}
+
+export interface PermissionResult {
+  success: boolean;
+  message: string;
+  request?: PermissionRequest;
+}
+
+export interface PermissionAllowance {
+  month: Date;
+  allowanceMinutes: number;
+  usedMinutes: number;
+  pendingMinutes: number;
+  remainingMinutes: number;
+}
+
+const startOfDay = (value: Date) => {
+  const date = new Date(value);
+  date.setHours(0, 0, 0, 0);
+  return date;
+};
+
+const endOfDay = (value: Date) => {
+  const date = new Date(value);
+  date.setHours(23, 59, 59, 999);
+  return date;
+};
+
+const startOfMonth = (value: Date) => new Date(value.getFullYear(), value.getMonth(), 1);
+const endOfMonth = (value: Date) => new Date(value.getFullYear(), value.getMonth() + 1, 0, 23, 59, 59, 999);
+
+const monthLabel = (value: Date) => value.toLocaleDateString('en-IN', { month: 'long', year: 'numeric' });
+
+export class PermissionHourService {
+
+  /**
+   * Allowance for the month of the given date; pending requests are reserved so they cannot be over-booked
+   */
+  static async getAllowance(user: User, date: Date = new Date()): Promise<PermissionAllowance> {
+    const month = startOfMonth(date);
+    const [timing, usage, pending] = await Promise.all([
+      EnterpriseTimeService.getDepartmentTiming(user.department || 'operations'),
+      storage.getPermissionUsage(user.id, month),
+      storage.listPermissionRequests({ userId: user.id, status: 'pending', startDate: month, endDate: endOfMonth(month) })
+    ]);
+
+    const allowanceMinutes = timing.permissionMinutesPerMonth;
+    const usedMinutes = usage?.minutesUsed || 0;
+    const pendingMinutes = pending.reduce((sum, request) => sum + request.minutes, 0);
+
+    return {
+      month,
+      allowanceMinutes,
+      usedMinutes,
+      pendingMinutes,
+      remainingMinutes: Math.max(0, allowanceMinutes - usedMinutes - pendingMinutes)
+    };
+  }
+
+  /**
+   * Request permission for a day in the current month or later
+   */
+  static async submitRequest(user: User, request: PermissionSubmitRequest): Promise<PermissionResult> {
+    const date = startOfDay(request.date);
+    if (date < startOfMonth(new Date())) {
+      return { success: false, message: 'Permission can only be requested for the current month or later' };
+    }
+
+    const sameDay = await storage.listPermissionRequests({ userId: user.id, startDate: date, endDate: endOfDay(date) });
+    if (sameDay.some(r => r.permissionType === request.permissionType && (r.status === 'pending' || r.status === 'approved'))) {
+      return {
+        success: false,
+        message: `You already have ${request.permissionType === 'late_arrival' ? 'late arrival' : 'early leave'} permission for this day`
+      };
+    }
+
+    const allowance = await this.getAllowance(user, date);
+    if (request.minutes > allowance.remainingMinutes) {
+      return {
+        success: false,
+        message: `Only ${allowance.remainingMinutes} minutes of permission left for ${monthLabel(date)}`
+      };
+    }
+
+    const permissionRequest = await storage.createPermissionRequest({
+      userId: user.id,
+      date,
+      permissionType: request.permissionType,
+      minutes: request.minutes,
+      reason: request.reason,
+      status: 'pending',
+      approverId: user.reportingManagerId || null
+    });
+
+    await storage.createAuditLog({
+      userId: user.id,
+      action: 'permission_requested',
+      entityType: 'permission_request',
+      entityId: permissionRequest.id,
+      changes: {
+        date,
+        permissionType: request.permissionType,
+        minutes: request.minutes,
+        approverId: permissionRequest.approverId
+      },
+      department: user.department,
+      designation: user.designation
+    });
+
+    console.log(`PERMISSION: Request ${permissionRequest.id} raised by ${user.id} for ${request.minutes} minutes`);
+
+    return {
+      success: true,
+      message: permissionRequest.approverId
+        ? 'Permission request submitted to your reporting manager'
+        : 'Permission request submitted for admin review',
+      request: permissionRequest
+    };
+  }
+
+  /**
+   * Reporting manager of the requester, or an admin when no manager is assigned
+   */
+  static canReview(reviewer: User, request: PermissionRequest): boolean {
+    if (reviewer.id === request.userId) {
+      return false;
+    }
+    if (reviewer.role === 'master_admin' || reviewer.role === 'admin') {
+      return true;
+    }
+    return !!request.approverId && request.approverId === reviewer.id;
+  }
+
+  /**
+   * Approve or reject a pending request; approval consumes the allowance and re-evaluates
+   * the day's attendance if the employee has already checked in
+   */
+  static async reviewRequest(
+    reviewer: User,
+    requestId: string,
+    decision: 'approved' | 'rejected',
+    reviewComment?: string
+  ): Promise<PermissionResult> {
+    const request = await storage.getPermissionRequest(requestId);
+    if (!request) {
+      return { success: false, message: 'Permission request not found' };
+    }
+
+    if (!this.canReview(reviewer, request)) {
+      return { success: false, message: 'You are not authorized to review this request' };
+    }
+
+    if (request.status !== 'pending') {
+      return { success: false, message: `Request has already been ${request.status}` };
+    }
+
+    if (decision === 'rejected' && (!reviewComment || reviewComment.trim().length === 0)) {
+      return { success: false, message: 'A reason is required when rejecting a request' };
+    }
+
+    const requester = await storage.getUser(request.userId);
+    if (!requester) {
+      return { success: false, message: 'Requesting employee no longer exists' };
+    }
+
+    if (decision === 'approved') {
+      // Pending minutes were reserved at submission; re-check against what is actually used
+      const allowance = await this.getAllowance(requester, request.date);
+      if (allowance.usedMinutes + request.minutes > allowance.allowanceMinutes) {
+        return {
+          success: false,
+          message: `Approving would exceed the ${allowance.allowanceMinutes} minute allowance for ${monthLabel(request.date)}`
+        };
+      }
+      await storage.adjustPermissionUsage(request.userId, request.date, request.minutes);
+    }
+
+    let updated = await storage.updatePermissionRequest(requestId, {
+      status: decision,
+      reviewedBy: reviewer.id,
+      reviewedAt: new Date(),
+      reviewComment: reviewComment || ''
+    });
+
+    let attendanceChanges: Record<string, any> | undefined;
+    if (decision === 'approved') {
+      const attendance = await storage.getAttendanceByUserAndDate(request.userId, request.date);
+      if (attendance) {
+        attendanceChanges = await this.applyToAttendance(requester, attendance, updated);
+        updated = (await storage.getPermissionRequest(requestId)) || updated;
+      }
+    }
+
+    await storage.createAuditLog({
+      userId: reviewer.id,
+      action: `permission_${decision}`,
+      entityType: 'permission_request',
+      entityId: requestId,
+      changes: {
+        requesterId: request.userId,
+        date: request.date,
+        permissionType: request.permissionType,
+        minutes: request.minutes,
+        reviewComment: reviewComment || '',
+        ...(attendanceChanges && { attendanceId: updated.attendanceId, after: attendanceChanges })
+      },
+      department: reviewer.department,
+      designation: reviewer.designation
+    });
+
+    console.log(`PERMISSION: Request ${requestId} ${decision} by ${reviewer.id}`);
+
+    return {
+      success: true,
+      message: `Permission request ${decision}`,
+      request: updated
+    };
+  }
+
+  /**
+   * Withdraw a request that has not been reviewed yet
+   */
+  static async cancelRequest(user: User, requestId: string): Promise<PermissionResult> {
+    const request = await storage.getPermissionRequest(requestId);
+    if (!request || request.userId !== user.id) {
+      return { success: false, message: 'Permission request not found' };
+    }
+    if (request.status !== 'pending') {
+      return { success: false, message: 'Only pending requests can be cancelled' };
+    }
+
+    const updated = await storage.updatePermissionRequest(requestId, { status: 'cancelled' });
+    return { success: true, message: 'Permission request cancelled', request: updated };
+  }
+
+  /**
+   * Offset raw lateness at check-in against approved late-arrival permission for the day,
+   * then classify what is left under the employee's attendance policy
+   */
+  static async offsetLateArrival(user: User, date: Date, grossLateMinutes: number): Promise<LatenessClassification> {
+    const [approved, policy, leaveCover] = await Promise.all([
+      this.getApprovedRequests(user.id, date, 'late_arrival'),
+      AttendancePolicyService.resolveForUser(user),
+      LeaveAttendanceService.getPartialLeaveCover(user, date)
+    ]);
+    const permissionMinutes = approved.reduce((sum, request) => sum + request.minutes, 0);
+
+    // Approved half-day or hourly leave is taken off before permission
+    const lateness = AttendancePolicyService.classifyLateness(
+      policy,
+      LeaveAttendanceService.lateMinutesAfterCover(leaveCover, grossLateMinutes),
+      permissionMinutes
+    );
+    return leaveCover ? LeaveAttendanceService.applyCover(leaveCover, lateness, grossLateMinutes) : lateness;
+  }
+
+  /**
+   * Minutes of an early check-out excused by approved early-leave permission.
+   * Marks the requests as used against the attendance record.
+   */
+  static async excuseEarlyLeave(user: User, attendance: Attendance, earlyMinutes: number): Promise<number> {
+    if (earlyMinutes <= 0) return 0;
+
+    const approved = await this.getApprovedRequests(user.id, attendance.date, 'early_leave');
+    let remaining = earlyMinutes;
+    for (const request of approved) {
+      const applied = Math.min(remaining, request.minutes);
+      await storage.updatePermissionRequest(request.id, { attendanceId: attendance.id, minutesApplied: applied });
+      remaining -= applied;
+    }
+
+    return earlyMinutes - remaining;
+  }
+
+  /**
+   * Re-evaluate a record the employee already punched when permission is approved afterwards
+   */
+  private static async applyToAttendance(
+    user: User,
+    attendance: Attendance,
+    request: PermissionRequest
+  ): Promise<Record<string, any> | undefined> {
+    if (request.permissionType === 'early_leave') {
+      // Early check-out is only measured at check-out; excuse the full request once it has happened
+      if (!attendance.checkOutTime) return undefined;
+
+      await storage.updatePermissionRequest(request.id, { attendanceId: attendance.id, minutesApplied: request.minutes });
+      return { earlyLeaveExcusedMinutes: request.minutes };
+    }
+
+    // Leave and holiday records are not judged on lateness
+    if (!['present', 'late', 'half_day', 'absent'].includes(attendance.status) || !attendance.checkInTime) {
+      return undefined;
+    }
+
+    const grossLateMinutes = attendance.grossLateMinutes ?? attendance.lateMinutes ?? 0;
+    const offset = await this.offsetLateArrival(user, attendance.date, grossLateMinutes);
+    const changes = {
+      status: offset.status,
+      isLate: offset.isLate,
+      lateMinutes: offset.lateMinutes,
+      grossLateMinutes: offset.grossLateMinutes,
+      permissionMinutesApplied: offset.permissionMinutesApplied
+    };
+
+    await storage.updateAttendance(attendance.id, changes);
+    await storage.updatePermissionRequest(request.id, {
+      attendanceId: attendance.id,
+      minutesApplied: Math.min(request.minutes, grossLateMinutes)
+    });
+
+    return changes;
+  }
+
+  private static async getApprovedRequests(userId: string, date: Date, type: PermissionRequestType): Promise<PermissionRequest[]> {
+    const day = startOfDay(date);
+    const requests = await storage.listPermissionRequests({ userId, status: 'approved', startDate: day, endDate: endOfDay(day) });
+    return requests.filter(request => request.permissionType === type);
+  }
+}
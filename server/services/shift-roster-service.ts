@@ -0,0 +1,119 @@
+/**
+ * Shift Roster Service
+ * Resolves which named shift a user is rostered on for a given date.
+ * Weekly rosters override department timing; days without a rostered shift fall back to it.
+ */
+
+import { storage, Shift, ShiftRoster, User } from '../storage';
+import type { InsertShiftRoster } from '@shared/schema';
+
+export class ShiftRosterService {
+
+  // Roster lookups happen on every check-in/out, so cache resolved weeks briefly
+  private static rosterCache = new Map<string, { roster: ShiftRoster | null; expiresAt: number }>();
+  private static shiftCache = new Map<string, { shift: Shift | null; expiresAt: number }>();
+  private static readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+
+  /**
+   * Monday 00:00 of the week containing the date
+   */
+  static getWeekStart(date: Date): Date {
+    const weekStart = new Date(date);
+    weekStart.setHours(0, 0, 0, 0);
+    const offset = (weekStart.getDay() + 6) % 7; // Sunday belongs to the week that started the previous Monday
+    weekStart.setDate(weekStart.getDate() - offset);
+    return weekStart;
+  }
+
+  /**
+   * Shift the user is rostered on for the date, or null when not rostered (department timing applies)
+   */
+  static async getRosteredShift(userId: string, date: Date): Promise<Shift | null> {
+    const roster = await this.getCachedRoster(userId, this.getWeekStart(date));
+    if (!roster) return null;
+
+    const assignment = roster.assignments.find(a => a.dayOfWeek === date.getDay());
+    if (!assignment || !assignment.shiftId) return null;
+
+    const shift = await this.getCachedShift(assignment.shiftId);
+    return shift && shift.isActive ? shift : null;
+  }
+
+  /**
+   * Validate and save a user's weekly roster
+   */
+  static async saveRoster(data: InsertShiftRoster, actor: User): Promise<{ success: boolean; message: string; roster?: ShiftRoster }> {
+    const user = await storage.getUser(data.userId);
+    if (!user) {
+      return { success: false, message: 'User not found' };
+    }
+
+    const days = new Set<number>();
+    for (const assignment of data.assignments) {
+      if (days.has(assignment.dayOfWeek)) {
+        return { success: false, message: `Day ${assignment.dayOfWeek} is assigned more than once` };
+      }
+      days.add(assignment.dayOfWeek);
+
+      if (!assignment.shiftId) continue;
+      const shift = await storage.getShift(assignment.shiftId);
+      if (!shift || !shift.isActive) {
+        return { success: false, message: `Shift ${assignment.shiftId} not found or inactive` };
+      }
+      if (shift.department && shift.department !== user.department) {
+        return { success: false, message: `Shift ${shift.name} is not available to the ${user.department} department` };
+      }
+    }
+
+    const weekStart = this.getWeekStart(data.weekStartDate);
+    const roster = await storage.upsertShiftRoster({ ...data, weekStartDate: weekStart });
+    this.rosterCache.delete(`${data.userId}_${weekStart.getTime()}`);
+
+    await storage.createAuditLog({
+      userId: actor.id,
+      action: 'shift_roster_updated',
+      entityType: 'shift_roster',
+      entityId: roster.id,
+      changes: { userId: data.userId, weekStartDate: weekStart, assignments: data.assignments },
+      department: actor.department,
+      designation: actor.designation
+    });
+
+    console.log(`SHIFT_ROSTER: Roster ${roster.id} saved by ${actor.id}`);
+    return { success: true, message: 'Roster saved successfully', roster };
+  }
+
+  /**
+   * Drop cached shift definitions after a shift is edited
+   */
+  static invalidateShift(shiftId?: string): void {
+    if (shiftId) {
+      this.shiftCache.delete(shiftId);
+    } else {
+      this.shiftCache.clear();
+    }
+  }
+
+  private static async getCachedRoster(userId: string, weekStart: Date): Promise<ShiftRoster | null> {
+    const cacheKey = `${userId}_${weekStart.getTime()}`;
+    const cached = this.rosterCache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.roster;
+    }
+
+    const roster = (await storage.getShiftRoster(userId, weekStart)) || null;
+    this.rosterCache.set(cacheKey, { roster, expiresAt: Date.now() + this.CACHE_DURATION });
+    return roster;
+  }
+
+  private static async getCachedShift(shiftId: string): Promise<Shift | null> {
+    const cached = this.shiftCache.get(shiftId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.shift;
+    }
+
+    const shift = (await storage.getShift(shiftId)) || null;
+    this.shiftCache.set(shiftId, { shift, expiresAt: Date.now() + this.CACHE_DURATION });
+    return shift;
+  }
+}
@@ -5,6 +5,7 @@
 
 import { db } from "../firebase";
 import { Timestamp } from "firebase-admin/firestore";
+import { storage } from "../storage";
 import {
   SiteVisit,
   InsertSiteVisit,
@@ -207,6 +208,57 @@ export class SiteVisitService {
     }
   }
 
+  /**
+   * Map a user's department to the site visit department
+   */
+  mapDepartment(department?: string | null): string {
+    const departmentMapping: Record<string, string> = {
+      'admin': 'admin',
+      'administration': 'admin',
+      'operations': 'admin', // Operations users are often admin users
+      'technical': 'technical',
+      'marketing': 'marketing'
+    };
+
+    return departmentMapping[department?.toLowerCase() || ''] || department || '';
+  }
+
+  /**
+   * Find the visit's customer by phone, or create it. Returns null if creation fails.
+   */
+  async findOrCreateCustomer(customerData: { name?: string; mobile?: string; email?: string; address?: string }): Promise<string | null> {
+    if (!customerData?.name || !customerData.mobile) {
+      return null;
+    }
+
+    // Try to find existing customer by phone and name
+    const existingCustomers = await storage.listCustomers();
+    const existingCustomer = existingCustomers.find((customer: any) =>
+      (customer.phone === customerData.mobile) ||
+      (customer.name.toLowerCase() === customerData.name!.toLowerCase() && customer.phone === customerData.mobile)
+    );
+
+    if (existingCustomer) {
+      console.log("Found existing customer:", existingCustomer.id, existingCustomer.name);
+      return existingCustomer.id;
+    }
+
+    try {
+      const newCustomer = await storage.createCustomer({
+        name: customerData.name,
+        phone: customerData.mobile,
+        email: customerData.email || '',
+        address: customerData.address || ''
+      });
+      console.log("Created new customer:", newCustomer.id, newCustomer.name);
+      return newCustomer.id;
+    } catch (error) {
+      console.error("Error creating customer during site visit:", error);
+      // Continue without customer ID if creation fails
+      return null;
+    }
+  }
+
   /**
    * Get site visit by ID
    */
@@ -495,6 +547,28 @@ export class SiteVisitService {
     }
   }
 
+  /**
+   * Site-in location of the most recent visit to a customer (matched on customer name)
+   */
+  async getLatestCustomerSiteLocation(customerName: string): Promise<Location | null> {
+    try {
+      const snapshot = await this.collection
+        .where('customer.name', '==', customerName.trim())
+        .limit(20)
+        .get();
+
+      const visits = snapshot.docs
+        .map(doc => ({ id: doc.id, ...this.convertFirestoreToSiteVisit(doc.data()) }))
+        .filter(visit => visit.siteInLocation?.latitude !== undefined && visit.siteInLocation?.longitude !== undefined)
+        .sort((a, b) => b.siteInTime.getTime() - a.siteInTime.getTime());
+
+      return visits[0]?.siteInLocation || null;
+    } catch (error) {
+      console.error('Error getting customer site location:', error);
+      return null;
+    }
+  }
+
   /**
    * Get all site visits for monitoring dashboard (Master Admin and HR only)
    */
@@ -0,0 +1,138 @@
+/**
+ * Team Attendance Service
+ * Attendance visibility for reporting managers across their direct and indirect reports.
+ * attendance.view_team covers the reporting tree; attendance.view_all may also open the whole company.
+ */
+
+import { storage, User } from '../storage';
+import { HolidayService } from './holiday-service';
+import { MusterRollService } from './muster-roll-service';
+import { LiveAttendanceState, TeamLiveStatus, TeamMember, TeamMonthlySummary } from '@shared/schema';
+
+export type TeamAttendanceScope = 'team' | 'all';
+
+// Guards against reporting cycles and runaway trees
+const MAX_REPORTING_DEPTH = 10;
+
+export class TeamAttendanceService {
+
+  /**
+   * Scope the viewer may open, or null without either attendance permission.
+   * Team is the default even for view_all holders so the page opens on their own reports.
+   */
+  static resolveScope(user: User, permissions: string[], requested?: string): TeamAttendanceScope | null {
+    const canViewAll = user.role === 'master_admin' || permissions.includes('attendance.view_all');
+    const canViewTeam = canViewAll || permissions.includes('attendance.view_team');
+
+    if (requested === 'all') return canViewAll ? 'all' : null;
+    return canViewTeam ? 'team' : null;
+  }
+
+  /**
+   * Everyone under the manager in the reportingManagerId tree, or all active employees
+   */
+  static async getMembers(manager: User, scope: TeamAttendanceScope): Promise<TeamMember[]> {
+    if (scope === 'all') {
+      const users = await storage.listUsers();
+      return users
+        .filter(user => user.isActive !== false && user.id !== manager.id)
+        .map(user => this.toMember(user, 0));
+    }
+
+    const members: TeamMember[] = [];
+    const visited = new Set<string>([manager.id]);
+    let frontier = [manager.id];
+
+    for (let level = 1; frontier.length > 0 && level <= MAX_REPORTING_DEPTH; level++) {
+      const reports = (await Promise.all(frontier.map(id => storage.getUsersByReportingManager(id)))).flat();
+      const next: string[] = [];
+
+      for (const report of reports) {
+        if (visited.has(report.id)) continue;
+        visited.add(report.id);
+        next.push(report.id); // Inactive managers still link their reports to the tree
+
+        if (report.isActive !== false) {
+          members.push(this.toMember(report, level));
+        }
+      }
+
+      frontier = next;
+    }
+
+    return members.sort((a, b) => a.reportLevel - b.reportLevel || a.name.localeCompare(b.name));
+  }
+
+  static async getLiveStatus(members: TeamMember[]): Promise<TeamLiveStatus[]> {
+    const now = new Date();
+    const today = new Date(now);
+    today.setHours(0, 0, 0, 0);
+
+    const records = await storage.listAttendanceByDate(today);
+    const recordByUser = new Map(records.map(record => [record.userId, record]));
+    const companyHoliday = await HolidayService.getHolidayForDate(today);
+    const weeklyOffCache = new Map<string, number[]>();
+
+    const statuses: TeamLiveStatus[] = [];
+    for (const member of members) {
+      const record = recordByUser.get(member.userId);
+      let state: LiveAttendanceState;
+
+      if (record?.status === 'leave') {
+        state = 'on_leave';
+      } else if (record?.checkInTime && !record.checkOutTime) {
+        state = record.breaks?.some(b => !b.endTime) ? 'on_break' : 'checked_in';
+      } else if (record?.checkOutTime) {
+        state = 'checked_out';
+      } else if (companyHoliday) {
+        state = 'holiday';
+      } else if ((await MusterRollService.getWeeklyOffDays(member.department, weeklyOffCache)).includes(today.getDay())) {
+        state = 'weekly_off';
+      } else {
+        state = 'not_checked_in';
+      }
+
+      const checkInTime = record?.checkInTime ? new Date(record.checkInTime) : undefined;
+      const workedUntil = record?.checkOutTime ? new Date(record.checkOutTime) : now;
+
+      statuses.push({
+        ...member,
+        state,
+        attendanceId: record?.id,
+        attendanceType: record?.attendanceType,
+        checkInTime,
+        checkOutTime: record?.checkOutTime || undefined,
+        isLate: record?.status === 'late' || record?.isLate === true,
+        lateMinutes: record?.lateMinutes || 0,
+        currentWorkingHours: checkInTime
+          ? Math.round(((workedUntil.getTime() - checkInTime.getTime()) / (1000 * 60 * 60)) * 100) / 100
+          : 0
+      });
+    }
+
+    return statuses;
+  }
+
+  static async getMonthlySummary(members: TeamMember[], month: number, year: number): Promise<TeamMonthlySummary[]> {
+    if (members.length === 0) return [];
+
+    const roll = await MusterRollService.generate({ month, year, userIds: members.map(m => m.userId) });
+    const totalsByUser = new Map(roll.rows.map(row => [row.userId, row.totals]));
+
+    return members
+      .filter(member => totalsByUser.has(member.userId))
+      .map(member => ({ ...member, totals: totalsByUser.get(member.userId)! }));
+  }
+
+  private static toMember(user: User, reportLevel: number): TeamMember {
+    return {
+      userId: user.id,
+      name: user.displayName,
+      employeeId: user.employeeId,
+      department: user.department,
+      designation: user.designation,
+      reportingManagerId: user.reportingManagerId,
+      reportLevel
+    };
+  }
+}
@@ -3,9 +3,14 @@
  * Single source of truth for all attendance operations with advanced location validation
  */
 
-import { storage } from '../storage';
+import { storage, Attendance } from '../storage';
 import { EnterpriseLocationService, LocationRequest, LocationValidationResult } from './enterprise-location-service';
 import { CloudinaryService } from './cloudinary-service';
+import { HolidayService } from './holiday-service';
+import { AttendanceAnomalyService } from './attendance-anomaly-service';
+import { PermissionHourService } from './permission-hour-service';
+import { OfficeQrCodeService } from './office-qr-code-service';
+import { EnterprisePerformanceMonitor } from './performance-monitor';
 
 export interface AttendanceCheckInRequest {
   userId: string;
@@ -21,6 +26,14 @@ export interface AttendanceCheckInRequest {
     userAgent?: string;
     locationCapability: 'excellent' | 'good' | 'limited' | 'poor';
   };
+  officeQrToken?: string; // Scanned office QR code - proof of presence that does not depend on GPS
+  capturedAt?: Date; // Device time of a punch captured offline and synced later; defaults to now
+  // Set for punches on a shared kiosk; the coordinates are then the kiosk office's
+  kiosk?: {
+    id: string;
+    officeId: string;
+    officeName: string;
+  };
 }
 
 export interface AttendanceCheckInResponse {
@@ -29,8 +42,10 @@ export interface AttendanceCheckInResponse {
   message: string;
   locationValidation: LocationValidationResult;
   attendanceDetails?: {
+    status: 'present' | 'late' | 'half_day' | 'absent';
     isLate: boolean;
     lateMinutes: number;
+    permissionMinutesApplied: number;
     expectedCheckInTime: string;
     actualCheckInTime: string;
   };
@@ -45,17 +60,38 @@ export interface AttendanceCheckOutRequest {
   reason?: string;
   otReason?: string;
   imageUrl?: string;
+  userAgent?: string;
+  kioskId?: string;
+  capturedAt?: Date; // Device time of an offline check-out
 }
 
 export interface AttendanceCheckOutResponse {
   success: boolean;
   message: string;
-  workingHours: number;
-  overtimeHours: number;
+  workingHours: number; // Net of breaks
+  overtimeHours: number; // Payable (approved) overtime
   totalHours: number;
+  attendance?: Attendance;
+  checkOutTime?: Date;
+  recordedOvertimeHours?: number;
+  overtimeMinutes?: number;
+  overtimeRequestId?: string;
+  breakMinutes?: number;
+  excessBreakMinutes?: number;
+  threshold?: number; // Overtime minutes that need a reason and photo
+  requiresOTReason?: boolean;
+  requiresPhoto?: boolean;
+  requiresReason?: boolean;
+  isEarlyCheckout?: boolean;
+  earlyMinutes?: number;
+  expectedHours?: number;
+  actualHours?: number;
 }
 
 export class UnifiedAttendanceService {
+
+  // Before this hour a check-out can still close the previous day's open record
+  private static readonly EARLY_HOURS_CHECK_OUT_CUTOFF = 6;
   
   /**
    * Process attendance check-in with enterprise location validation
@@ -138,11 +174,16 @@ export class UnifiedAttendanceService {
       }
 
       // Check for duplicate check-in
-      const today = new Date();
+      const punchTime = request.capturedAt || new Date();
+      const today = new Date(punchTime);
       today.setHours(0, 0, 0, 0);
       const existingAttendance = await storage.getAttendanceByUserAndDate(request.userId, today);
+      // A day on approved leave holds a leave record without a punch - checking in is still allowed
+      const leaveRecord = existingAttendance?.status === 'leave' && !existingAttendance.checkInTime
+        ? existingAttendance
+        : undefined;
       
-      if (existingAttendance) {
+      if (existingAttendance && !leaveRecord) {
         return {
           success: false,
           message: 'You have already checked in today',
@@ -164,6 +205,36 @@ export class UnifiedAttendanceService {
         };
       }
 
+      // A scanned office QR code has to be valid - a stale or forged code is refused rather than ignored
+      const qrProof = request.officeQrToken ? await OfficeQrCodeService.verify(request.officeQrToken) : null;
+      if (qrProof && !qrProof.valid) {
+        return {
+          success: false,
+          message: qrProof.message,
+          locationValidation: {
+            isValid: false,
+            confidence: 0,
+            distance: 0,
+            detectedOffice: null,
+            validationType: 'failed',
+            message: qrProof.message,
+            recommendations: ['Scan the QR code currently displayed at your office, or check in without it'],
+            metadata: {
+              accuracy: request.accuracy,
+              effectiveRadius: 0,
+              indoorDetection: false,
+              confidenceFactors: ['qr_code_invalid']
+            }
+          }
+        };
+      }
+      const qrOffice = qrProof?.office;
+      const qrDistance = qrOffice
+        ? Math.round(EnterpriseLocationService.calculateDistance(
+            request.latitude, request.longitude, parseFloat(qrOffice.latitude), parseFloat(qrOffice.longitude)
+          ))
+        : 0;
+
       // Simplified location validation - accept any location
       console.log('UNIFIED SERVICE: Processing simplified attendance with location data...');
       console.log('Location coordinates:', { 
@@ -172,24 +243,93 @@ export class UnifiedAttendanceService {
         accuracy: request.accuracy 
       });
       
-      const locationValidation = {
+      // Office punches without a kiosk or QR proof are measured against the office geofences using each
+      // office's thresholds. The result is stored on the record for review; it does not block the check-in.
+      const validationStartedAt = Date.now();
+      const measuredLocation = request.attendanceType === 'office' && !request.kiosk && !qrOffice
+        ? await EnterpriseLocationService.validateOfficeLocation({
+            latitude: request.latitude,
+            longitude: request.longitude,
+            accuracy: request.accuracy,
+            timestamp: punchTime,
+            userId: request.userId,
+            deviceInfo: request.deviceInfo
+          })
+        : null;
+
+      const locationValidation = measuredLocation || {
         isValid: true,
         confidence: 1.0,
-        distance: 0,
-        detectedOffice: null,
-        validationType: 'simplified' as const,
-        message: 'Location recorded successfully',
+        distance: qrDistance,
+        // A kiosk or a scanned QR code ties the punch to one office without relying on the employee's GPS
+        detectedOffice: (request.kiosk
+          ? { id: request.kiosk.officeId, name: request.kiosk.officeName, distance: 0 }
+          : qrOffice
+            ? { id: qrOffice.id, name: qrOffice.name, distance: qrDistance }
+            : null) as LocationValidationResult['detectedOffice'],
+        validationType: (qrOffice ? 'qr_code' : 'simplified') as 'qr_code' | 'simplified',
+        message: request.kiosk
+          ? `Recorded at kiosk in ${request.kiosk.officeName}`
+          : qrOffice ? `Office QR code verified at ${qrOffice.name}` : 'Location recorded successfully',
         recommendations: [] as string[],
         metadata: {
           accuracy: request.accuracy,
           effectiveRadius: 0,
           indoorDetection: false,
-          confidenceFactors: ['simplified_attendance']
+          confidenceFactors: [request.kiosk ? 'kiosk_terminal' : qrOffice ? 'signed_qr_code' : 'simplified_attendance']
         }
       };
 
+      // Kiosk punches carry the office's coordinates, not a GPS fix, so they would skew accuracy stats
+      if (!request.kiosk) {
+        EnterprisePerformanceMonitor.recordLocationValidation(
+          request.accuracy,
+          Date.now() - validationStartedAt,
+          locationValidation.isValid,
+          {
+            userId: request.userId,
+            officeLocationId: locationValidation.detectedOffice?.id || measuredLocation?.metadata.officeId || null,
+            attendanceType: request.attendanceType,
+            validationType: locationValidation.validationType,
+            confidence: locationValidation.confidence,
+            distance: locationValidation.distance,
+            deviceType: request.deviceInfo?.type,
+            locationCapability: request.deviceInfo?.locationCapability,
+            confidenceFactors: locationValidation.metadata.confidenceFactors
+          }
+        );
+      }
+
+      // Holiday calendar: block check-in or let it through with a warning, per holiday
+      const holiday = await HolidayService.getHolidayForDate(today, locationValidation.detectedOffice?.id);
+      if (holiday && holiday.checkInPolicy === 'block') {
+        return {
+          success: false,
+          message: `Check-in is not allowed today - ${holiday.name} is a company holiday`,
+          locationValidation: {
+            ...locationValidation,
+            isValid: false,
+            validationType: 'failed',
+            message: 'Holiday check-in blocked',
+            recommendations: ['Contact your administrator if you have been asked to work today'],
+            metadata: {
+              ...locationValidation.metadata,
+              confidenceFactors: ['holiday_blocked']
+            }
+          }
+        };
+      }
+      if (holiday) {
+        locationValidation.recommendations.push(`Today is ${holiday.name} (holiday) - your attendance will be recorded as holiday work`);
+      }
+
       // Calculate timing information using Enterprise Time Service
-      const timingInfo = await this.calculateTimingInfo(user, new Date());
+      const timingInfo = holiday
+        ? { isLate: false, lateMinutes: 0, expectedCheckInTime: 'Holiday' } // No late marking on holidays
+        : await this.calculateTimingInfo(user, punchTime);
+
+      // Approved late-arrival permission is offset, then the attendance policy decides late / half day / absent
+      const lateness = await PermissionHourService.offsetLateArrival(user, today, timingInfo.lateMinutes);
       
       // Handle photo upload to Cloudinary if provided
       let cloudinaryImageUrl = request.imageUrl;
@@ -198,7 +338,7 @@ export class UnifiedAttendanceService {
         const uploadResult = await CloudinaryService.uploadAttendancePhoto(
           request.imageUrl,
           request.userId,
-          new Date()
+          punchTime
         );
         
         if (uploadResult.success) {
@@ -214,32 +354,60 @@ export class UnifiedAttendanceService {
       const attendanceData = {
         userId: request.userId,
         date: today,
-        checkInTime: new Date(),
+        checkInTime: punchTime,
         attendanceType: request.attendanceType,
         reason: request.reason || '',
         checkInLatitude: request.latitude.toString(),
         checkInLongitude: request.longitude.toString(),
-        status: (timingInfo.isLate ? 'late' : 'present') as 'late' | 'present',
-        isLate: timingInfo.isLate,
-        lateMinutes: timingInfo.lateMinutes,
+        status: lateness.status,
+        isLate: lateness.isLate,
+        lateMinutes: lateness.lateMinutes,
+        grossLateMinutes: lateness.grossLateMinutes,
+        permissionMinutesApplied: lateness.permissionMinutesApplied,
         workingHours: 0,
         breakHours: 0,
-        isWithinOfficeRadius: true, // Simplified - no office restrictions
-        remarks: `Attendance recorded with location verification`,
+        isWithinOfficeRadius: measuredLocation ? measuredLocation.isValid : true, // Only office punches are measured
+        remarks: holiday
+          ? `Worked on holiday: ${holiday.name}`
+          : qrOffice
+            ? `Office QR code verified at ${qrOffice.name}`
+            : `Attendance recorded with location verification`,
         
         // Enhanced metadata for enterprise tracking
         locationAccuracy: request.accuracy,
         locationValidationType: locationValidation.validationType,
         locationConfidence: locationValidation.confidence,
+        locationConfidenceFactors: locationValidation.metadata.confidenceFactors,
+        locationValidationMessage: locationValidation.message,
+        locationEffectiveRadius: locationValidation.metadata.effectiveRadius,
         detectedOfficeId: locationValidation.detectedOffice?.id,
         distanceFromOffice: locationValidation.distance,
+        checkInAccuracy: request.accuracy,
+        checkInDeviceFingerprint: AttendanceAnomalyService.fingerprintDevice(request.deviceInfo?.userAgent),
+        ...(request.kiosk && { checkInKioskId: request.kiosk.id }),
+        ...(request.capturedAt && { syncStatus: 'offline_synced' as const, checkInSyncedAt: new Date() }),
         
         // Optional fields
         ...(request.customerName && { customerName: request.customerName }),
         ...(cloudinaryImageUrl && { checkInImageUrl: cloudinaryImageUrl })
       };
 
-      const newAttendance = await storage.createAttendance(attendanceData);
+      // Working on a leave day keeps the punch and flags the conflict for HR
+      const newAttendance = leaveRecord
+        ? await storage.updateAttendance(leaveRecord.id, { ...attendanceData, leaveConflict: true })
+        : await storage.createAttendance(attendanceData);
+      if (leaveRecord) {
+        await storage.createAuditLog({
+          userId: request.userId,
+          action: 'leave_attendance_conflict',
+          entityType: 'attendance',
+          entityId: leaveRecord.id,
+          changes: { leaveId: leaveRecord.leaveId, leaveType: leaveRecord.leaveType, checkInTime: punchTime },
+          department: user.department,
+          designation: user.designation
+        });
+      }
+      AttendanceAnomalyService.analyzeInBackground(newAttendance.id, 'check_in');
 
       // Log simplified attendance acceptance
       console.log('UNIFIED SERVICE: Simplified attendance accepted for user:', request.userId);
@@ -248,22 +416,24 @@ export class UnifiedAttendanceService {
       await storage.createActivityLog({
         type: 'attendance',
         title: `${this.getAttendanceTypeDisplay(request.attendanceType)} Check-in`,
-        description: `${user.displayName} checked in${timingInfo.isLate ? ` (${timingInfo.lateMinutes} minutes late)` : ''} - Location recorded successfully`,
+        description: `${user.displayName} checked in${lateness.isLate ? ` (${lateness.lateMinutes} minutes late)` : ''} - Location recorded successfully`,
         entityId: newAttendance.id,
         entityType: 'attendance',
         userId: request.userId
       });
 
-      const actualCheckInTime = new Date().toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
+      const actualCheckInTime = punchTime.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
       
       return {
         success: true,
         attendanceId: newAttendance.id,
-        message: `Check-in successful at ${actualCheckInTime}${timingInfo.isLate ? ` (${timingInfo.lateMinutes} minutes late from ${timingInfo.expectedCheckInTime} start time)` : ''}`,
+        message: `Check-in successful at ${actualCheckInTime}${lateness.isLate ? ` (${lateness.lateMinutes} minutes late from ${timingInfo.expectedCheckInTime} start time)` : ''}${lateness.permissionMinutesApplied > 0 ? ` - ${lateness.permissionMinutesApplied} minutes covered by permission` : ''}${lateness.status === 'half_day' || lateness.status === 'absent' ? ` - marked ${lateness.status === 'half_day' ? 'half day' : 'absent'} under ${lateness.policyName}` : ''}${holiday ? ` - note: today is ${holiday.name}` : ''}${leaveRecord ? ' - note: you are on approved leave today, the day is flagged for HR review' : ''}`,
         locationValidation,
         attendanceDetails: {
-          isLate: timingInfo.isLate,
-          lateMinutes: timingInfo.lateMinutes,
+          status: lateness.status,
+          isLate: lateness.isLate,
+          lateMinutes: lateness.lateMinutes,
+          permissionMinutesApplied: lateness.permissionMinutesApplied,
           expectedCheckInTime: timingInfo.expectedCheckInTime,
           actualCheckInTime: actualCheckInTime
         },
@@ -295,93 +465,202 @@ export class UnifiedAttendanceService {
   }
 
   /**
-   * Process attendance check-out with overtime calculation
+   * Process attendance check-out - the one path for the web, kiosk and offline sync, so a punch
+   * gets the same early-leave, overtime and break handling wherever it comes from
    */
   static async processCheckOut(request: AttendanceCheckOutRequest): Promise<AttendanceCheckOutResponse> {
     try {
-      // Find today's attendance record
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const attendance = await storage.getAttendanceByUserAndDate(request.userId, today);
+      const checkOutTime = request.capturedAt || new Date();
 
-      if (!attendance) {
-        return {
-          success: false,
-          message: 'No check-in record found for today',
-          workingHours: 0,
-          overtimeHours: 0,
-          totalHours: 0
-        };
+      const user = await storage.getUser(request.userId);
+      if (!user) {
+        return this.checkOutFailure('User not found');
+      }
+      if (!user.department) {
+        return this.checkOutFailure('Department timing not configured. Please contact administrator.');
+      }
+
+      const attendance = await this.findAttendanceForCheckOut(user.id, user.department, checkOutTime);
+
+      // Leave records carry no punch to close
+      if (!attendance || !attendance.checkInTime) {
+        return this.checkOutFailure('No check-in record found for today');
       }
 
       if (attendance.checkOutTime) {
-        return {
-          success: false,
-          message: 'You have already checked out for today',
-          workingHours: 0,
-          overtimeHours: 0,
-          totalHours: 0
-        };
+        return this.checkOutFailure('You have already checked out for today');
       }
 
-      // Get user for department timing
-      const user = await storage.getUser(request.userId);
+      const checkInTime = new Date(attendance.checkInTime);
+      if (checkOutTime < checkInTime) {
+        return this.checkOutFailure('Check-out time is earlier than the check-in time');
+      }
+
+      // Expected hours come from the shift the record belongs to, so a rostered shift of a
+      // different length than the department default is judged on its own length
       const { EnterpriseTimeService } = await import('./enterprise-time-service');
-      
-      // Calculate comprehensive time metrics using Enterprise Time Service
-      const checkOutTime = new Date();
-      const checkInTime = attendance.checkInTime ? new Date(attendance.checkInTime) : new Date();
-      
+      const { timing } = await EnterpriseTimeService.getShiftWindow(user.department, new Date(attendance.date), user.id);
       const timeMetrics = await EnterpriseTimeService.calculateTimeMetrics(
-        request.userId,
-        user?.department || 'operations',
+        user.id,
+        user.department,
         checkInTime,
         checkOutTime
       );
-      
       const { workingHours, overtimeHours } = timeMetrics;
 
-      // Update attendance record
+      const standardWorkingHours = timing.workingHours || 8;
+      const overtimeThresholdMinutes = timing.overtimeThresholdMinutes || 30;
+
+      // Overtime past the threshold needs a reason and photo verification
+      const overtimeMinutes = overtimeHours * 60;
+      const hasOvertimeThreshold = overtimeMinutes >= overtimeThresholdMinutes;
+      if (hasOvertimeThreshold) {
+        const overtimeDetails = {
+          overtimeHours: Math.round(overtimeHours * 100) / 100,
+          overtimeMinutes: Math.round(overtimeMinutes),
+          threshold: overtimeThresholdMinutes
+        };
+        if (!request.otReason) {
+          return this.checkOutFailure(
+            `Overtime exceeds ${overtimeThresholdMinutes} minute threshold. Please provide a reason.`,
+            { ...overtimeDetails, requiresOTReason: true }
+          );
+        }
+        if (!request.imageUrl) {
+          return this.checkOutFailure(
+            `Overtime exceeds ${overtimeThresholdMinutes} minute threshold. Photo verification required.`,
+            { ...overtimeDetails, requiresPhoto: true }
+          );
+        }
+      }
+
+      const isOvertimeCheckout = overtimeHours > 0;
+      const earlyCheckout = !isOvertimeCheckout && workingHours < standardWorkingHours;
+      const earlyMinutes = earlyCheckout ? Math.floor((standardWorkingHours - workingHours) * 60) : 0;
+
+      // Approved half-day or hourly leave, then early-leave permission, excuse the early minutes they cover
+      const { LeaveAttendanceService } = await import('./leave-attendance-service');
+      const leaveExcusedMinutes = await LeaveAttendanceService.excuseEarlyLeave(user, attendance.date, earlyMinutes);
+      const excusedEarlyMinutes = leaveExcusedMinutes +
+        await PermissionHourService.excuseEarlyLeave(user, attendance, earlyMinutes - leaveExcusedMinutes);
+
+      // Unexcused early checkout only needs a reason; department policy does not block it
+      if (earlyCheckout && excusedEarlyMinutes < earlyMinutes) {
+        console.log(`CHECKOUT: Early checkout detected - Department: ${user.department}, earlyMinutes: ${earlyMinutes}`);
+        if (!request.reason || request.reason.trim().length < 10) {
+          return this.checkOutFailure(
+            `Early checkout (${earlyMinutes} minutes early) requires a detailed reason (minimum 10 characters)`,
+            { expectedHours: standardWorkingHours, actualHours: workingHours, requiresReason: true, isEarlyCheckout: true, earlyMinutes }
+          );
+        }
+      }
+
+      // Working hours are net of break punches (early checkout above is judged on gross time);
+      // a break still open at check-out ends now
+      const { AttendanceBreakService } = await import('./attendance-break-service');
+      const breakSummary = await AttendanceBreakService.finalizeForCheckOut(attendance, checkOutTime);
+      const netWorkingHours = Math.max(0, workingHours - breakSummary.totalBreakMinutes / 60);
+
+      // Only approved overtime is stored as payable; the rest waits on an overtime request
+      const { OvertimeRequestService } = await import('./overtime-request-service');
+      const overtime = await OvertimeRequestService.resolveCheckOut(
+        user,
+        attendance,
+        overtimeHours,
+        hasOvertimeThreshold ? request.otReason : undefined,
+        hasOvertimeThreshold ? request.imageUrl : undefined
+      );
+
       const updatedAttendance = await storage.updateAttendance(attendance.id, {
         checkOutTime,
         checkOutLatitude: request.latitude?.toString(),
         checkOutLongitude: request.longitude?.toString(),
-        workingHours,
-        overtimeHours,
-        otReason: request.otReason || '',
-        remarks: request.reason || ''
+        checkOutAccuracy: request.accuracy,
+        checkOutDeviceFingerprint: AttendanceAnomalyService.fingerprintDevice(request.userAgent),
+        ...(request.imageUrl && { checkOutImageUrl: request.imageUrl }),
+        ...(request.kioskId && { checkOutKioskId: request.kioskId }),
+        ...(request.capturedAt && { syncStatus: 'offline_synced' as const, checkOutSyncedAt: new Date() }),
+        workingHours: Math.round(netWorkingHours * 100) / 100,
+        overtimeHours: overtime.overtimeHours,
+        recordedOvertimeHours: overtime.recordedOvertimeHours,
+        overtimeApproved: overtime.overtimeApproved,
+        overtimeRequestId: overtime.overtimeRequestId,
+        breaks: breakSummary.breaks,
+        breakHours: Math.round(breakSummary.totalBreakMinutes / 60 * 100) / 100,
+        excessBreakMinutes: breakSummary.excessBreakMinutes,
+        otReason: hasOvertimeThreshold ? request.otReason : undefined,
+        remarks: request.reason || (hasOvertimeThreshold ? `Overtime: ${request.otReason}` : undefined) ||
+          (excusedEarlyMinutes > 0 ? `Early leave on permission (${excusedEarlyMinutes} minutes)` : undefined)
       });
+      AttendanceAnomalyService.analyzeInBackground(attendance.id, 'check_out');
 
-      // Log activity
       await storage.createActivityLog({
         type: 'attendance',
-        title: 'Check-out',
-        description: `${user?.displayName} checked out after ${workingHours.toFixed(1)} hours${overtimeHours > 0 ? ` (${overtimeHours.toFixed(1)}h overtime)` : ''}`,
+        title: `Check-out ${hasOvertimeThreshold ? 'with Overtime' : ''}`,
+        description: `${user.displayName} checked out at ${checkOutTime.toLocaleTimeString('en-IN', { hour: 'numeric', minute: '2-digit', hour12: true, timeZone: 'Asia/Kolkata' })}${hasOvertimeThreshold ? ` with ${Math.round(overtimeHours * 100) / 100} hours overtime` : ''}${earlyCheckout ? ' (early checkout)' : ''}`,
         entityId: attendance.id,
         entityType: 'attendance',
-        userId: request.userId
+        userId: user.id
       });
 
       return {
         success: true,
-        message: `Check-out successful. Total working time: ${workingHours.toFixed(1)} hours${overtimeHours > 0 ? ` (${overtimeHours.toFixed(1)}h overtime)` : ''}`,
-        workingHours: Number(workingHours.toFixed(2)),
-        overtimeHours: Number(overtimeHours.toFixed(2)),
-        totalHours: Number(workingHours.toFixed(2))
+        message: `Checked out successfully. Total working time: ${netWorkingHours.toFixed(1)} hours${hasOvertimeThreshold ? ` (${overtimeHours.toFixed(1)}h overtime${overtime.message ? ` - ${overtime.message}` : ''})` : ''}${breakSummary.excessBreakMinutes > 0 ? ` - breaks exceeded the allowance by ${breakSummary.excessBreakMinutes} minutes` : ''}`,
+        attendance: updatedAttendance,
+        checkOutTime,
+        workingHours: Math.round(netWorkingHours * 100) / 100,
+        overtimeHours: Math.round(overtime.overtimeHours * 100) / 100,
+        totalHours: Math.round(workingHours * 100) / 100,
+        recordedOvertimeHours: Math.round(overtimeHours * 100) / 100,
+        overtimeRequestId: overtime.overtimeRequestId,
+        breakMinutes: breakSummary.totalBreakMinutes,
+        excessBreakMinutes: breakSummary.excessBreakMinutes,
+        isEarlyCheckout: earlyCheckout,
+        earlyMinutes,
+        expectedHours: standardWorkingHours
       };
 
     } catch (error) {
       console.error('Error processing check-out:', error);
-      return {
-        success: false,
-        message: 'Failed to process check-out due to system error',
-        workingHours: 0,
-        overtimeHours: 0,
-        totalHours: 0
-      };
+      return this.checkOutFailure('Failed to process check-out due to system error');
     }
   }
 
+  /**
+   * Open record a check-out closes. Past midnight that is the previous day's record when its
+   * shift runs overnight, or in the early hours for someone who checked in late.
+   */
+  private static async findAttendanceForCheckOut(userId: string, department: string, checkOutTime: Date) {
+    const workDate = new Date(checkOutTime);
+    workDate.setHours(0, 0, 0, 0);
+    const attendance = await storage.getAttendanceByUserAndDate(userId, workDate);
+    if (attendance) return attendance;
+
+    const previousDate = new Date(workDate);
+    previousDate.setDate(previousDate.getDate() - 1);
+    const previous = await storage.getAttendanceByUserAndDate(userId, previousDate);
+    if (!previous?.checkInTime || previous.checkOutTime) return undefined;
+
+    const { EnterpriseTimeService } = await import('./enterprise-time-service');
+    const previousShift = await EnterpriseTimeService.getShiftWindow(department, previousDate, userId);
+    return this.closesPreviousDay(checkOutTime, previousShift) ? previous : undefined;
+  }
+
+  /**
+   * Whether a check-out with no record on its own date closes the previous day's open record
+   */
+  static closesPreviousDay(checkOutTime: Date, previousShift: { shiftStart: Date; shiftEnd: Date }): boolean {
+    const overnightShift = previousShift.shiftEnd.getDate() !== previousShift.shiftStart.getDate();
+    return overnightShift || checkOutTime.getHours() < this.EARLY_HOURS_CHECK_OUT_CUTOFF;
+  }
+
+  private static checkOutFailure(
+    message: string,
+    details: Partial<AttendanceCheckOutResponse> = {}
+  ): AttendanceCheckOutResponse {
+    return { success: false, message, workingHours: 0, overtimeHours: 0, totalHours: 0, ...details };
+  }
+
   /**
    * Validate business rules for attendance check-in with work policy enforcement
    */
@@ -499,11 +778,13 @@ export class UnifiedAttendanceService {
     const { EnterpriseTimeService } = await import('./enterprise-time-service');
     
     const department = user?.department || 'operations';
-    const timing = await EnterpriseTimeService.getDepartmentTiming(department);
     
-    // Parse expected check-in time for today
-    const today = new Date(checkInTime);
-    const expectedTime = this.parseTime12ToDate(timing.checkInTime, today);
+    // Rostered shift takes precedence over the department default for this date
+    const { timing, shiftStart: expectedTime } = await EnterpriseTimeService.getShiftWindowForCheckIn(
+      user?.id,
+      department,
+      checkInTime
+    );
     
     const isLate = checkInTime > expectedTime;
     const lateMinutes = isLate ? 
@@ -12,6 +12,7 @@ import { z } from "zod";
 import {
   insertAttendanceSchema,
   insertOfficeLocationSchema,
+  locationValidationSettingsSchema,
   insertPermissionSchema,
   insertRoleSchema,
   insertUserRoleAssignmentSchema,
@@ -22,6 +23,33 @@ import {
   insertPayrollSettingsSchema,
   insertSalaryAdvanceSchema,
   insertAttendancePolicySchema,
+  insertAttendanceRegularizationSchema,
+  insertOvertimeRequestSchema,
+  insertPermissionRequestSchema,
+  insertShiftSchema,
+  insertShiftRosterSchema,
+  insertHolidaySchema,
+  insertLatePenaltyRuleSchema,
+  insertLeaveTypeSchema,
+  insertLeaveLedgerEntrySchema,
+  insertLeaveCoverageRuleSchema,
+  leaveTypeCodes,
+  leaveDurationTypes,
+  leaveSessions,
+  LeaveTypeCode,
+  LeaveDurationType,
+  LeaveSession,
+  LeaveAccrualFrequency,
+  LeaveLedgerEntryType,
+  LeaveEntitlement,
+  leaveApprovalStepSchema,
+  LeaveApprovalStep,
+  insertAttendanceKioskSchema,
+  insertKioskCredentialSchema,
+  insertOfficeQrKeySchema,
+  insertOfflinePunchKeySchema,
+  insertOfflinePunchSyncSchema,
+  insertLocationValidationMetricSchema,
   insertEmployeeSchema,
   insertEmployeeDocumentSchema,
   insertPerformanceReviewSchema
@@ -99,10 +127,17 @@ export const insertInvoiceSchema = z.object({
 
 export const insertLeaveSchema = z.object({
   userId: z.string(),
-  startDate: z.date(),
-  endDate: z.date(),
+  leaveType: z.enum(leaveTypeCodes),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  durationType: z.enum(leaveDurationTypes).default("full_day"),
+  session: z.enum(leaveSessions).optional(), // Which half of the day a half-day leave covers
+  hours: z.number().positive().max(12).optional(), // Length of an hourly leave
+  days: z.number().min(0).optional(), // Working days charged to the leave balance, worked out by the server
   reason: z.string(),
-  status: z.enum(["pending", "approved", "rejected"]).default("pending")
+  status: z.enum(["pending", "approved", "rejected"]).default("pending"),
+  approvalSteps: z.array(leaveApprovalStepSchema).optional(),
+  currentApprovalStep: z.number().int().min(0).optional() // Index into approvalSteps while pending
 });
 
 export interface User {
@@ -171,6 +206,78 @@ export interface OfficeLocation {
   latitude: string;
   longitude: string;
   radius: number;
+  geofence?: { latitude: number; longitude: number }[] | null;
+  validationSettings?: z.infer<typeof locationValidationSettingsSchema> | null;
+}
+
+export interface AttendanceKiosk {
+  id: string;
+  name: string;
+  officeLocationId: string;
+  deviceTokenHash: string;
+  isActive: boolean;
+  createdBy: string;
+  lastSeenAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface KioskCredential {
+  id: string; // Same as userId
+  userId: string;
+  pinHash?: string;
+  pinSalt?: string;
+  badgeCode?: string;
+  failedAttempts: number;
+  lockedUntil?: Date | null;
+  updatedBy: string;
+  updatedAt: Date;
+}
+
+export interface OfficeQrKey {
+  officeLocationId: string;
+  secret: string;
+  version: number;
+  rotatedBy: string;
+  rotatedAt: Date;
+}
+
+export interface OfflinePunchKey {
+  id: string;
+  userId: string;
+  secret: string;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface OfflinePunchSync {
+  id: string; // `${userId}_${clientId}`
+  userId: string;
+  clientId: string;
+  kind: "attendance_check_in" | "attendance_check_out" | "site_visit_start" | "site_visit_checkout";
+  capturedAt: Date;
+  status: "processing" | "applied" | "rejected";
+  message?: string;
+  entityId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface LocationValidationMetric {
+  id: string;
+  userId: string;
+  officeLocationId?: string | null;
+  attendanceType: string;
+  validationType: string;
+  isValid: boolean;
+  confidence: number;
+  accuracy: number;
+  distance: number;
+  deviceType?: string;
+  locationCapability?: string;
+  confidenceFactors: string[];
+  responseTimeMs?: number;
+  createdAt: Date;
 }
 
 export interface Customer {
@@ -217,7 +324,9 @@ export interface Attendance {
   checkInTime?: Date;
   checkOutTime?: Date;
   location: string;
+  attendanceType?: string;
   customerId?: number;
+  customerName?: string;
   reason?: string;
   checkInLatitude?: string;
   checkInLongitude?: string;
@@ -228,16 +337,137 @@ export interface Attendance {
   status: string;
   overtimeHours?: number;
   otReason?: string;
+  workingHours?: number;
+  remarks?: string;
+  detectedOfficeId?: string;
+  breaks?: AttendanceBreak[];
+  breakHours?: number;
+  excessBreakMinutes?: number;
+  autoClosed?: boolean;
+  autoClosePolicy?: string;
+  requiresRegularization?: boolean;
+  statusOverriddenBy?: string; // Admin who set the status by hand; recalculation keeps it
+  recordedOvertimeHours?: number;
+  overtimeApproved?: boolean;
+  overtimeRequestId?: string;
+  checkInAccuracy?: number;
+  checkOutAccuracy?: number;
+  checkInImageHash?: string;
+  checkOutImageHash?: string;
+  checkInDeviceFingerprint?: string;
+  checkOutDeviceFingerprint?: string;
+  anomalyScore?: number;
+  anomalyFlags?: AttendanceAnomalyFlag[];
+  anomalyReviewStatus?: "pending" | "cleared" | "confirmed";
+  anomalyReviewedBy?: string;
+  anomalyReviewedAt?: Date;
+  anomalyReviewComment?: string;
+  isLate?: boolean;
+  lateMinutes?: number;
+  grossLateMinutes?: number;
+  permissionMinutesApplied?: number;
+  checkInKioskId?: string;
+  checkOutKioskId?: string;
+  locationAccuracy?: number;
+  locationValidationType?: string;
+  locationConfidence?: number;
+  locationConfidenceFactors?: string[];
+  locationValidationMessage?: string;
+  locationEffectiveRadius?: number;
+  syncStatus?: "offline_synced";
+  checkInSyncedAt?: Date;
+  checkOutSyncedAt?: Date;
+  checkInFaceMatchStatus?: "matched" | "low_confidence" | "no_face" | "no_reference" | "unavailable";
+  checkInFaceMatchScore?: number;
+  leaveId?: string;
+  leaveType?: LeaveTypeCode;
+  leaveConflict?: boolean;
+}
+
+export interface AttendanceAnomalyFlag {
+  type: "impossible_travel" | "reused_coordinates" | "accuracy_jump" | "reused_photo" | "far_from_customer_site" | "device_change" | "offline_synced" | "face_mismatch";
+  punch: "check_in" | "check_out";
+  score: number;
+  reason: string;
+}
+
+export interface AttendanceBreak {
+  startTime: Date;
+  endTime?: Date;
+  durationMinutes?: number;
+  reason?: string;
 }
 
 export interface Leave {
   id: string;
   userId: string;
+  leaveType?: LeaveTypeCode; // Missing on leaves applied before leave types existed
   startDate: Date;
   endDate: Date;
+  durationType?: LeaveDurationType; // Missing means full days
+  session?: LeaveSession;
+  hours?: number;
+  days?: number;
   reason: string;
   status: "pending" | "approved" | "rejected";
+  approvalSteps?: LeaveApprovalStep[]; // Missing on leaves applied before approval routing
+  currentApprovalStep?: number;
+  createdAt: Date;
+}
+
+export interface LeaveType {
+  code: LeaveTypeCode;
+  name: string;
+  isPaid: boolean;
+  requiresBalance: boolean;
+  accrualFrequency: LeaveAccrualFrequency;
+  entitlements: LeaveEntitlement[];
+  carryForwardCap: number;
+  encashmentCap: number;
+  isActive: boolean;
+  updatedBy: string;
+  updatedAt: Date;
+}
+
+// Every change to a leave balance; the balance document holds the running total
+export interface LeaveLedgerEntry {
+  id: string;
+  userId: string;
+  leaveType: LeaveTypeCode;
+  year: number;
+  entryType: LeaveLedgerEntryType;
+  days: number;
+  leaveId?: string;
+  period?: string;
+  note?: string;
+  createdBy: string;
+  createdAt: Date;
+}
+
+export interface LeaveBalance {
+  userId: string;
+  leaveType: LeaveTypeCode;
+  year: number;
+  balance: number;
+  updatedAt: Date;
+}
+
+export interface LeaveCoverageRule {
+  id: string;
+  department: string;
+  designation?: string | null;
+  minimumPresent: number;
+  isActive: boolean;
+  createdBy: string;
   createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface LeaveLedgerPostResult {
+  posted: boolean;
+  reason?: "duplicate" | "insufficient_balance";
+  balance: number; // Balance after the entry, or the unchanged balance when not posted
+  entry?: LeaveLedgerEntry;
 }
 
 // Activity Log interface
@@ -588,6 +818,7 @@ export interface AttendancePolicy {
   overtimeApprovalRequired: boolean;
   lateMarkAfterMinutes: number;
   halfDayMarkAfterMinutes: number;
+  absentMarkAfterMinutes?: number | null;
   weekendDays: number[];
   holidayPolicy: "paid" | "unpaid" | "optional";
   isActive: boolean;
@@ -596,6 +827,113 @@ export interface AttendancePolicy {
   updatedAt: Date;
 }
 
+export interface AttendanceRegularization {
+  id: string;
+  attendanceId: string;
+  userId: string;
+  requestType: "missed_punch" | "wrong_time" | "forgot_checkout";
+  requestedCheckInTime?: Date | null;
+  requestedCheckOutTime?: Date | null;
+  reason: string;
+  status: "pending" | "approved" | "rejected";
+  approverId?: string | null;
+  reviewedBy?: string;
+  reviewedAt?: Date | null;
+  reviewComment?: string;
+  originalCheckInTime?: Date | null;
+  originalCheckOutTime?: Date | null;
+  originalStatus?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface OvertimeRequest {
+  id: string;
+  userId: string;
+  attendanceId?: string | null;
+  requestType: "planned" | "post_facto";
+  workDate: Date;
+  requestedHours: number;
+  approvedHours?: number;
+  otReason: string;
+  otImageUrl?: string;
+  status: "pending" | "approved" | "rejected";
+  approverId?: string | null;
+  reviewedBy?: string;
+  reviewedAt?: Date | null;
+  reviewComment?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PermissionUsage {
+  id: string;
+  userId: string;
+  month: Date;
+  minutesUsed: number;
+  updatedAt: Date;
+}
+
+export interface PermissionRequest {
+  id: string;
+  userId: string;
+  date: Date;
+  permissionType: "late_arrival" | "early_leave";
+  minutes: number;
+  reason: string;
+  status: "pending" | "approved" | "rejected" | "cancelled";
+  approverId?: string | null;
+  reviewedBy?: string;
+  reviewedAt?: Date | null;
+  reviewComment?: string;
+  attendanceId?: string;
+  minutesApplied?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface Shift {
+  id: string;
+  name: string;
+  code: string;
+  department?: string | null;
+  startTime: string; // 12-hour format "10:00 PM"
+  endTime: string; // 12-hour format "6:00 AM"
+  breakDurationMinutes: number;
+  isOvernight: boolean;
+  isActive: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ShiftRoster {
+  id: string;
+  userId: string;
+  weekStartDate: Date;
+  assignments: Array<{ dayOfWeek: number; shiftId: string | null }>;
+  notes?: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface Holiday {
+  id: string;
+  name: string;
+  date: Date;
+  type: "national" | "state" | "company" | "optional";
+  state?: string | null;
+  officeLocationIds: string[];
+  isPaid: boolean;
+  checkInPolicy: "warn" | "block";
+  description?: string;
+  isActive: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // Enhanced Payroll Interfaces
 export interface EnhancedPayroll {
   id: string;
@@ -606,6 +944,7 @@ export interface EnhancedPayroll {
   monthDays: number;
   presentDays: number;
   paidLeaveDays: number;
+  paidHolidayDays?: number;
   overtimeHours: number;
   perDaySalary: number;
   earnedBasic: number;
@@ -617,6 +956,7 @@ export interface EnhancedPayroll {
   grossSalary: number; // Gross before BETTA
   finalGross: number; // Final gross after BETTA
   dynamicDeductions: Record<string, number>;
+  latePenaltyBreakdown?: LatePenaltyApplication[];
   epfDeduction: number;
   esiDeduction: number;
   vptDeduction: number;
@@ -683,6 +1023,31 @@ export interface EnhancedPayrollSettings {
   updatedAt: Date;
 }
 
+export interface LatePenaltyRule {
+  id: string;
+  name: string;
+  trigger: "late_count" | "late_minutes";
+  threshold: number;
+  deductionDays: number;
+  repeatEveryThreshold: boolean;
+  department?: string | null;
+  isActive: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One rule's share of a payroll's late penalty and the days that triggered it
+export interface LatePenaltyApplication {
+  ruleId: string;
+  ruleName: string;
+  trigger: "late_count" | "late_minutes";
+  threshold: number;
+  deductionDays: number;
+  amount: number;
+  dates: string[]; // YYYY-MM-DD, stored as plain strings inside the payroll document
+}
+
 export interface PayrollFieldConfig {
   id: string;
   name: string;
@@ -841,6 +1206,43 @@ export interface IStorage {
   updateAttendancePolicy(id: string, data: Partial<z.infer<typeof insertAttendancePolicySchema>>): Promise<AttendancePolicy>;
   listAttendancePolicies(): Promise<AttendancePolicy[]>;
 
+  // Attendance Regularization
+  getAttendanceRegularization(id: string): Promise<AttendanceRegularization | undefined>;
+  createAttendanceRegularization(data: z.infer<typeof insertAttendanceRegularizationSchema>): Promise<AttendanceRegularization>;
+  updateAttendanceRegularization(id: string, data: Partial<z.infer<typeof insertAttendanceRegularizationSchema>>): Promise<AttendanceRegularization>;
+  listAttendanceRegularizations(filters?: { userId?: string; approverId?: string; attendanceId?: string; status?: string }): Promise<AttendanceRegularization[]>;
+
+  // Overtime requests
+  getOvertimeRequest(id: string): Promise<OvertimeRequest | undefined>;
+  createOvertimeRequest(data: z.infer<typeof insertOvertimeRequestSchema>): Promise<OvertimeRequest>;
+  updateOvertimeRequest(id: string, data: Partial<z.infer<typeof insertOvertimeRequestSchema>>): Promise<OvertimeRequest>;
+  listOvertimeRequests(filters?: { userId?: string; approverId?: string; attendanceId?: string; status?: string; startDate?: Date; endDate?: Date }): Promise<OvertimeRequest[]>;
+
+  // Permission hours (short leave) and the monthly usage ledger
+  getPermissionRequest(id: string): Promise<PermissionRequest | undefined>;
+  createPermissionRequest(data: z.infer<typeof insertPermissionRequestSchema>): Promise<PermissionRequest>;
+  updatePermissionRequest(id: string, data: Partial<z.infer<typeof insertPermissionRequestSchema>>): Promise<PermissionRequest>;
+  listPermissionRequests(filters?: { userId?: string; approverId?: string; status?: string; startDate?: Date; endDate?: Date }): Promise<PermissionRequest[]>;
+  getPermissionUsage(userId: string, month: Date): Promise<PermissionUsage | undefined>;
+  adjustPermissionUsage(userId: string, month: Date, deltaMinutes: number): Promise<PermissionUsage>;
+
+  // Shift definitions and weekly rosters
+  getShift(id: string): Promise<Shift | undefined>;
+  listShifts(filters?: { department?: string; isActive?: boolean }): Promise<Shift[]>;
+  createShift(data: z.infer<typeof insertShiftSchema>): Promise<Shift>;
+  updateShift(id: string, data: Partial<z.infer<typeof insertShiftSchema>>): Promise<Shift>;
+  deleteShift(id: string): Promise<boolean>;
+  getShiftRoster(userId: string, weekStartDate: Date): Promise<ShiftRoster | undefined>;
+  listShiftRosters(weekStartDate: Date): Promise<ShiftRoster[]>;
+  upsertShiftRoster(data: z.infer<typeof insertShiftRosterSchema>): Promise<ShiftRoster>;
+
+  // Holiday calendar
+  getHoliday(id: string): Promise<Holiday | undefined>;
+  listHolidays(filters?: { startDate?: Date; endDate?: Date; type?: string; isActive?: boolean }): Promise<Holiday[]>;
+  createHoliday(data: z.infer<typeof insertHolidaySchema>): Promise<Holiday>;
+  updateHoliday(id: string, data: Partial<z.infer<typeof insertHolidaySchema>>): Promise<Holiday>;
+  deleteHoliday(id: string): Promise<boolean>;
+
   // Department Timing Management
   getDepartmentTiming(department: string): Promise<any | undefined>;
   updateDepartmentTiming(department: string, data: any): Promise<any>;
@@ -874,6 +1276,14 @@ export interface IStorage {
   // Enhanced Payroll Settings
   getEnhancedPayrollSettings(): Promise<EnhancedPayrollSettings | undefined>;
   updateEnhancedPayrollSettings(data: any): Promise<EnhancedPayrollSettings>;
+
+  // Late-arrival penalty rules
+  getLatePenaltyRule(id: string): Promise<LatePenaltyRule | undefined>;
+  // department null selects the rules for an employee without a department; omit it for every rule
+  listLatePenaltyRules(filters?: { department?: string | null; isActive?: boolean }): Promise<LatePenaltyRule[]>;
+  createLatePenaltyRule(data: z.infer<typeof insertLatePenaltyRuleSchema>): Promise<LatePenaltyRule>;
+  updateLatePenaltyRule(id: string, data: Partial<z.infer<typeof insertLatePenaltyRuleSchema>>): Promise<LatePenaltyRule>;
+  deleteLatePenaltyRule(id: string): Promise<boolean>;
   
   // Payroll Field Configuration
   getPayrollFieldConfig(id: string): Promise<PayrollFieldConfig | undefined>;
@@ -892,6 +1302,39 @@ export interface IStorage {
     data: Partial<z.infer<typeof insertOfficeLocationSchema>>,
   ): Promise<OfficeLocation>;
   deleteOfficeLocation(id: string): Promise<void>;
+
+  // Shared-device kiosk terminals and employee kiosk credentials
+  getAttendanceKiosk(id: string): Promise<AttendanceKiosk | undefined>;
+  getAttendanceKioskByTokenHash(deviceTokenHash: string): Promise<AttendanceKiosk | undefined>;
+  listAttendanceKiosks(filters?: { officeLocationId?: string; isActive?: boolean }): Promise<AttendanceKiosk[]>;
+  createAttendanceKiosk(data: z.infer<typeof insertAttendanceKioskSchema>): Promise<AttendanceKiosk>;
+  updateAttendanceKiosk(id: string, data: Partial<z.infer<typeof insertAttendanceKioskSchema>> & { lastSeenAt?: Date }): Promise<AttendanceKiosk>;
+  deleteAttendanceKiosk(id: string): Promise<boolean>;
+  getKioskCredential(userId: string): Promise<KioskCredential | undefined>;
+  getKioskCredentialByBadgeCode(badgeCode: string): Promise<KioskCredential | undefined>;
+  upsertKioskCredential(userId: string, data: Partial<z.infer<typeof insertKioskCredentialSchema>>): Promise<KioskCredential>;
+  getUserByEmployeeId(employeeId: string): Promise<User | undefined>;
+
+  // Office check-in QR signing keys (one per office)
+  getOfficeQrKey(officeLocationId: string): Promise<OfficeQrKey | undefined>;
+  setOfficeQrKey(data: z.infer<typeof insertOfficeQrKeySchema>): Promise<OfficeQrKey>;
+
+  // Location validation metrics (location accuracy dashboard)
+  createLocationValidationMetric(data: z.infer<typeof insertLocationValidationMetricSchema>): Promise<LocationValidationMetric>;
+  listLocationValidationMetrics(filters: { startDate: Date; endDate: Date; officeLocationId?: string }): Promise<LocationValidationMetric[]>;
+
+  // Offline punch signing keys and sync results
+  createOfflinePunchKey(data: z.infer<typeof insertOfflinePunchKeySchema>): Promise<OfflinePunchKey>;
+  getOfflinePunchKey(id: string): Promise<OfflinePunchKey | undefined>;
+  getOfflinePunchSync(userId: string, clientId: string): Promise<OfflinePunchSync | undefined>;
+  claimOfflinePunchSync(data: z.infer<typeof insertOfflinePunchSyncSchema>): Promise<boolean>;
+  updateOfflinePunchSync(
+    userId: string,
+    clientId: string,
+    data: Partial<z.infer<typeof insertOfflinePunchSyncSchema>>
+  ): Promise<void>;
+  releaseOfflinePunchSync(userId: string, clientId: string): Promise<void>;
+
   listCustomers(): Promise<Customer[]>;
   getCustomer(id: string): Promise<Customer | undefined>;
   createCustomer(data: z.infer<typeof insertCustomerSchema>): Promise<Customer>;
@@ -950,14 +1393,35 @@ export interface IStorage {
   ): Promise<Attendance[]>;
   getAttendance(id: string): Promise<Attendance | undefined>;
   getUserAttendanceForDate(userId: string, date: string): Promise<Attendance | undefined>;
+  listAttendanceByImageHash(imageHash: string): Promise<Attendance[]>;
+  listAttendanceRequiringRegularization(userIds?: string[]): Promise<Attendance[]>;
+  listFlaggedAttendance(filters?: { reviewStatus?: string; startDate?: Date; endDate?: Date }): Promise<Attendance[]>;
   getLeave(id: string): Promise<Leave | undefined>;
   listLeavesByUser(userId: string): Promise<Leave[]>;
   listPendingLeaves(): Promise<Leave[]>;
+  listApprovedLeavesBetween(startDate: Date, endDate: Date): Promise<Leave[]>;
   createLeave(data: z.infer<typeof insertLeaveSchema>): Promise<Leave>;
   updateLeave(
     id: string,
     data: Partial<z.infer<typeof insertLeaveSchema>>,
   ): Promise<Leave>;
+  deleteLeave(id: string): Promise<void>;
+  // Leave types and balance ledger
+  getLeaveType(code: LeaveTypeCode): Promise<LeaveType | undefined>;
+  listLeaveTypes(): Promise<LeaveType[]>;
+  saveLeaveType(data: z.infer<typeof insertLeaveTypeSchema>): Promise<LeaveType>;
+  listLeaveBalances(userId: string, year: number): Promise<LeaveBalance[]>;
+  listLeaveLedgerEntries(filters: { userId: string; year?: number; leaveType?: LeaveTypeCode; leaveId?: string }): Promise<LeaveLedgerEntry[]>;
+  postLeaveLedgerEntry(
+    data: z.infer<typeof insertLeaveLedgerEntrySchema>,
+    options?: { entryKey?: string; allowNegativeBalance?: boolean }
+  ): Promise<LeaveLedgerPostResult>;
+  // Leave coverage rules
+  getLeaveCoverageRule(id: string): Promise<LeaveCoverageRule | undefined>;
+  listLeaveCoverageRules(filters?: { department?: string; isActive?: boolean }): Promise<LeaveCoverageRule[]>;
+  createLeaveCoverageRule(data: z.infer<typeof insertLeaveCoverageRuleSchema>): Promise<LeaveCoverageRule>;
+  updateLeaveCoverageRule(id: string, data: Partial<z.infer<typeof insertLeaveCoverageRuleSchema>>): Promise<LeaveCoverageRule>;
+  deleteLeaveCoverageRule(id: string): Promise<boolean>;
   // Activity logs
   createActivityLog(data: z.infer<typeof insertActivityLogSchema>): Promise<ActivityLog>;
   listActivityLogs(limit?: number): Promise<ActivityLog[]>;
@@ -1595,6 +2059,8 @@ export class FirestoreStorage implements IStorage {
         latitude: data.latitude,
         longitude: data.longitude,
         radius: data.radius,
+        geofence: data.geofence || null,
+        validationSettings: data.validationSettings || null,
         createdAt: data.createdAt?.toDate() || new Date()
       } as OfficeLocation;
     });
@@ -1647,7 +2113,9 @@ export class FirestoreStorage implements IStorage {
       name: docData.name,
       latitude: docData.latitude,
       longitude: docData.longitude,
-      radius: docData.radius
+      radius: docData.radius,
+      geofence: docData.geofence || null,
+      validationSettings: docData.validationSettings || null
     } as OfficeLocation;
   }
 
@@ -1656,115 +2124,374 @@ export class FirestoreStorage implements IStorage {
     await locationDoc.delete();
   }
 
-  async listCustomers(): Promise<Customer[]> {
-    const customersCollection = this.db.collection("customers");
-    const snapshot = await customersCollection.get();
-    
-    return snapshot.docs.map(doc => {
-      const data = doc.data() || {};
-      return {
-        id: doc.id,
-        name: data.name,
-        email: data.email,
-        phone: data.phone,
-        address: data.address,
-        createdAt: data.createdAt?.toDate() || new Date()
-      } as Customer;
-    });
+  // Kiosk terminals
+  private mapAttendanceKiosk(id: string, data: DocumentData): AttendanceKiosk {
+    return {
+      id,
+      ...data,
+      lastSeenAt: data.lastSeenAt?.toDate(),
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+    } as AttendanceKiosk;
   }
 
-  async getCustomer(id: string): Promise<Customer | undefined> {
-    const customerDoc = this.db.collection("customers").doc(id);
-    const docSnap = await customerDoc.get();
-    
-    if (!docSnap.exists) return undefined;
-    
-    const data = docSnap.data() || {};
-    return {
-      id: docSnap.id,
-      name: data.name,
-      email: data.email,
-      phone: data.phone,
-      address: data.address,
-      createdAt: data.createdAt?.toDate() || new Date()
-    } as Customer;
+  async getAttendanceKiosk(id: string): Promise<AttendanceKiosk | undefined> {
+    const doc = await this.db.collection('attendanceKiosks').doc(id).get();
+    if (!doc.exists) return undefined;
+    return this.mapAttendanceKiosk(doc.id, doc.data()!);
   }
 
-  async createCustomer(
-    data: z.infer<typeof insertCustomerSchema>,
-  ): Promise<Customer> {
-    const validatedData = insertCustomerSchema.parse(data);
-    const customersRef = this.db.collection("customers");
-    
-    const customerDoc = await customersRef.add({
-      ...validatedData,
-      createdAt: Timestamp.now(),
-      updatedAt: Timestamp.now(),
-    });
-    
-    return {
-      id: customerDoc.id,
+  async getAttendanceKioskByTokenHash(deviceTokenHash: string): Promise<AttendanceKiosk | undefined> {
+    const snapshot = await this.db.collection('attendanceKiosks')
+      .where('deviceTokenHash', '==', deviceTokenHash)
+      .limit(1)
+      .get();
+    if (snapshot.empty) return undefined;
+    return this.mapAttendanceKiosk(snapshot.docs[0].id, snapshot.docs[0].data());
+  }
+
+  async listAttendanceKiosks(filters?: { officeLocationId?: string; isActive?: boolean }): Promise<AttendanceKiosk[]> {
+    let query = this.db.collection('attendanceKiosks') as any;
+
+    if (filters?.officeLocationId) {
+      query = query.where('officeLocationId', '==', filters.officeLocationId);
+    }
+    if (filters?.isActive !== undefined) {
+      query = query.where('isActive', '==', filters.isActive);
+    }
+
+    const querySnapshot = await query.get();
+    return querySnapshot.docs.map((doc: any) => this.mapAttendanceKiosk(doc.id, doc.data()));
+  }
+
+  async createAttendanceKiosk(data: z.infer<typeof insertAttendanceKioskSchema>): Promise<AttendanceKiosk> {
+    const validatedData = insertAttendanceKioskSchema.parse(data);
+    const doc = this.db.collection('attendanceKiosks').doc();
+    const kioskData = {
       ...validatedData,
       createdAt: new Date(),
-    } as Customer;
+      updatedAt: new Date(),
+    };
+
+    await doc.set(kioskData);
+    return { id: doc.id, ...kioskData } as AttendanceKiosk;
   }
 
-  async updateCustomer(
+  async updateAttendanceKiosk(
     id: string,
-    data: Partial<z.infer<typeof insertCustomerSchema>>,
-  ): Promise<Customer> {
-    const validatedData = insertCustomerSchema.partial().parse(data);
-    const customerDoc = this.db.collection("customers").doc(id);
-    
-    await customerDoc.update({
-      ...validatedData,
-      updatedAt: Timestamp.now(),
+    data: Partial<z.infer<typeof insertAttendanceKioskSchema>> & { lastSeenAt?: Date }
+  ): Promise<AttendanceKiosk> {
+    const doc = this.db.collection('attendanceKiosks').doc(id);
+    const existing = await doc.get();
+    if (!existing.exists) throw new Error("Kiosk not found");
+
+    await doc.update({
+      ...Object.fromEntries(Object.entries(data).filter(([_, value]) => value !== undefined)),
+      updatedAt: new Date(),
     });
-    
-    const updatedDoc = await customerDoc.get();
-    if (!updatedDoc.exists) throw new Error("Customer not found");
-    
-    const updatedData = updatedDoc.data() || {};
-    return {
-      id: updatedDoc.id,
-      ...updatedData,
-      createdAt: updatedData.createdAt?.toDate() || new Date(),
-    } as Customer;
-  }
 
-  async deleteCustomer(id: string): Promise<void> {
-    const customerDoc = this.db.collection("customers").doc(id);
-    await customerDoc.delete();
+    return (await this.getAttendanceKiosk(id))!;
   }
 
-  async listProducts(): Promise<Product[]> {
-    const productsCollection = this.db.collection("products");
-    const snapshot = await productsCollection.get();
-    
-    return snapshot.docs.map(doc => {
-      const data = doc.data() || {};
-      return {
-        id: doc.id,
-        name: data.name,
-        description: data.description,
-        price: data.price,
-        createdAt: data.createdAt?.toDate() || new Date()
-      } as Product;
+  async deleteAttendanceKiosk(id: string): Promise<boolean> {
+    // Soft delete - attendance keeps the kiosk id it was punched on
+    await this.db.collection('attendanceKiosks').doc(id).update({
+      isActive: false,
+      updatedAt: new Date(),
     });
+    return true;
   }
 
-  async getProduct(id: string): Promise<Product | undefined> {
-    const productDoc = this.db.collection("products").doc(id);
-    const docSnap = await productDoc.get();
-    
-    if (!docSnap.exists) return undefined;
-    
-    const data = docSnap.data() || {};
+  // Kiosk credentials are keyed by user id so there is at most one per employee
+  async getKioskCredential(userId: string): Promise<KioskCredential | undefined> {
+    const doc = await this.db.collection('kioskCredentials').doc(userId).get();
+    if (!doc.exists) return undefined;
+
+    const data = doc.data()!;
     return {
-      id: docSnap.id,
-      name: data.name,
-      description: data.description,
-      price: data.price,
+      id: doc.id,
+      ...data,
+      lockedUntil: data.lockedUntil?.toDate() || null,
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+    } as KioskCredential;
+  }
+
+  async getKioskCredentialByBadgeCode(badgeCode: string): Promise<KioskCredential | undefined> {
+    const snapshot = await this.db.collection('kioskCredentials')
+      .where('badgeCode', '==', badgeCode)
+      .limit(1)
+      .get();
+    if (snapshot.empty) return undefined;
+    return this.getKioskCredential(snapshot.docs[0].id);
+  }
+
+  async upsertKioskCredential(
+    userId: string,
+    data: Partial<z.infer<typeof insertKioskCredentialSchema>>
+  ): Promise<KioskCredential> {
+    const validatedData = insertKioskCredentialSchema.partial().parse(data);
+    await this.db.collection('kioskCredentials').doc(userId).set({
+      ...Object.fromEntries(Object.entries(validatedData).filter(([_, value]) => value !== undefined)),
+      userId,
+      updatedAt: new Date(),
+    }, { merge: true });
+
+    return (await this.getKioskCredential(userId))!;
+  }
+
+  async getUserByEmployeeId(employeeId: string): Promise<User | undefined> {
+    const snapshot = await this.db.collection("users")
+      .where("employeeId", "==", employeeId)
+      .limit(1)
+      .get();
+    if (snapshot.empty) return undefined;
+    return this.getUser(snapshot.docs[0].id);
+  }
+
+  // Kept out of office_locations so the secret never reaches clients with the office document
+  async getOfficeQrKey(officeLocationId: string): Promise<OfficeQrKey | undefined> {
+    const doc = await this.db.collection('officeQrKeys').doc(officeLocationId).get();
+    if (!doc.exists) return undefined;
+
+    const data = doc.data()!;
+    return {
+      ...data,
+      rotatedAt: data.rotatedAt?.toDate() || new Date(),
+    } as OfficeQrKey;
+  }
+
+  async setOfficeQrKey(data: z.infer<typeof insertOfficeQrKeySchema>): Promise<OfficeQrKey> {
+    const validatedData = insertOfficeQrKeySchema.parse(data);
+    const keyData = { ...validatedData, rotatedAt: new Date() };
+
+    await this.db.collection('officeQrKeys').doc(validatedData.officeLocationId).set(keyData);
+    return keyData as OfficeQrKey;
+  }
+
+  async createLocationValidationMetric(
+    data: z.infer<typeof insertLocationValidationMetricSchema>
+  ): Promise<LocationValidationMetric> {
+    const validatedData = insertLocationValidationMetricSchema.parse(data);
+    const doc = this.db.collection('locationValidationMetrics').doc();
+    const metricData = {
+      ...Object.fromEntries(Object.entries(validatedData).filter(([_, value]) => value !== undefined)),
+      createdAt: Timestamp.now(),
+    };
+
+    await doc.set(metricData);
+    return { id: doc.id, ...validatedData, createdAt: metricData.createdAt.toDate() } as LocationValidationMetric;
+  }
+
+  async listLocationValidationMetrics(filters: {
+    startDate: Date;
+    endDate: Date;
+    officeLocationId?: string;
+  }): Promise<LocationValidationMetric[]> {
+    const start = new Date(filters.startDate);
+    start.setHours(0, 0, 0, 0);
+    const end = new Date(filters.endDate);
+    end.setHours(23, 59, 59, 999);
+
+    const snapshot = await this.db.collection('locationValidationMetrics')
+      .where('createdAt', '>=', Timestamp.fromDate(start))
+      .where('createdAt', '<=', Timestamp.fromDate(end))
+      .get();
+
+    const metrics = snapshot.docs.map(doc => {
+      const data = doc.data() || {};
+      return {
+        id: doc.id,
+        ...data,
+        confidenceFactors: data.confidenceFactors || [],
+        createdAt: data.createdAt?.toDate() || new Date(),
+      } as LocationValidationMetric;
+    });
+
+    // Filter in memory to avoid a composite index alongside the date range
+    return filters.officeLocationId
+      ? metrics.filter(metric => metric.officeLocationId === filters.officeLocationId)
+      : metrics;
+  }
+
+  async createOfflinePunchKey(data: z.infer<typeof insertOfflinePunchKeySchema>): Promise<OfflinePunchKey> {
+    const validatedData = insertOfflinePunchKeySchema.parse(data);
+    const doc = this.db.collection('offlinePunchKeys').doc();
+    const keyData = { ...validatedData, createdAt: new Date() };
+
+    await doc.set(keyData);
+    return { id: doc.id, ...keyData } as OfflinePunchKey;
+  }
+
+  async getOfflinePunchKey(id: string): Promise<OfflinePunchKey | undefined> {
+    const doc = await this.db.collection('offlinePunchKeys').doc(id).get();
+    if (!doc.exists) return undefined;
+
+    const data = doc.data()!;
+    return {
+      id: doc.id,
+      ...data,
+      expiresAt: data.expiresAt?.toDate() || new Date(0),
+      createdAt: data.createdAt?.toDate() || new Date(),
+    } as OfflinePunchKey;
+  }
+
+  async getOfflinePunchSync(userId: string, clientId: string): Promise<OfflinePunchSync | undefined> {
+    const doc = await this.db.collection('offlinePunchSyncs').doc(`${userId}_${clientId}`).get();
+    if (!doc.exists) return undefined;
+
+    const data = doc.data()!;
+    return {
+      id: doc.id,
+      ...data,
+      capturedAt: data.capturedAt?.toDate() || new Date(),
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+    } as OfflinePunchSync;
+  }
+
+  // create() fails when the document exists, so only one upload of a punch is ever applied
+  async claimOfflinePunchSync(data: z.infer<typeof insertOfflinePunchSyncSchema>): Promise<boolean> {
+    const validatedData = insertOfflinePunchSyncSchema.parse(data);
+    const syncData = {
+      ...Object.fromEntries(Object.entries(validatedData).filter(([_, value]) => value !== undefined)),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    try {
+      await this.db.collection('offlinePunchSyncs').doc(`${validatedData.userId}_${validatedData.clientId}`).create(syncData);
+      return true;
+    } catch (error: any) {
+      if (error?.code === 6) return false; // ALREADY_EXISTS
+      throw error;
+    }
+  }
+
+  async updateOfflinePunchSync(
+    userId: string,
+    clientId: string,
+    data: Partial<z.infer<typeof insertOfflinePunchSyncSchema>>
+  ): Promise<void> {
+    const validatedData = insertOfflinePunchSyncSchema.partial().parse(data);
+    await this.db.collection('offlinePunchSyncs').doc(`${userId}_${clientId}`).update({
+      ...Object.fromEntries(Object.entries(validatedData).filter(([_, value]) => value !== undefined)),
+      updatedAt: new Date(),
+    });
+  }
+
+  async releaseOfflinePunchSync(userId: string, clientId: string): Promise<void> {
+    await this.db.collection('offlinePunchSyncs').doc(`${userId}_${clientId}`).delete();
+  }
+
+  async listCustomers(): Promise<Customer[]> {
+    const customersCollection = this.db.collection("customers");
+    const snapshot = await customersCollection.get();
+    
+    return snapshot.docs.map(doc => {
+      const data = doc.data() || {};
+      return {
+        id: doc.id,
+        name: data.name,
+        email: data.email,
+        phone: data.phone,
+        address: data.address,
+        createdAt: data.createdAt?.toDate() || new Date()
+      } as Customer;
+    });
+  }
+
+  async getCustomer(id: string): Promise<Customer | undefined> {
+    const customerDoc = this.db.collection("customers").doc(id);
+    const docSnap = await customerDoc.get();
+    
+    if (!docSnap.exists) return undefined;
+    
+    const data = docSnap.data() || {};
+    return {
+      id: docSnap.id,
+      name: data.name,
+      email: data.email,
+      phone: data.phone,
+      address: data.address,
+      createdAt: data.createdAt?.toDate() || new Date()
+    } as Customer;
+  }
+
+  async createCustomer(
+    data: z.infer<typeof insertCustomerSchema>,
+  ): Promise<Customer> {
+    const validatedData = insertCustomerSchema.parse(data);
+    const customersRef = this.db.collection("customers");
+    
+    const customerDoc = await customersRef.add({
+      ...validatedData,
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    });
+    
+    return {
+      id: customerDoc.id,
+      ...validatedData,
+      createdAt: new Date(),
+    } as Customer;
+  }
+
+  async updateCustomer(
+    id: string,
+    data: Partial<z.infer<typeof insertCustomerSchema>>,
+  ): Promise<Customer> {
+    const validatedData = insertCustomerSchema.partial().parse(data);
+    const customerDoc = this.db.collection("customers").doc(id);
+    
+    await customerDoc.update({
+      ...validatedData,
+      updatedAt: Timestamp.now(),
+    });
+    
+    const updatedDoc = await customerDoc.get();
+    if (!updatedDoc.exists) throw new Error("Customer not found");
+    
+    const updatedData = updatedDoc.data() || {};
+    return {
+      id: updatedDoc.id,
+      ...updatedData,
+      createdAt: updatedData.createdAt?.toDate() || new Date(),
+    } as Customer;
+  }
+
+  async deleteCustomer(id: string): Promise<void> {
+    const customerDoc = this.db.collection("customers").doc(id);
+    await customerDoc.delete();
+  }
+
+  async listProducts(): Promise<Product[]> {
+    const productsCollection = this.db.collection("products");
+    const snapshot = await productsCollection.get();
+    
+    return snapshot.docs.map(doc => {
+      const data = doc.data() || {};
+      return {
+        id: doc.id,
+        name: data.name,
+        description: data.description,
+        price: data.price,
+        createdAt: data.createdAt?.toDate() || new Date()
+      } as Product;
+    });
+  }
+
+  async getProduct(id: string): Promise<Product | undefined> {
+    const productDoc = this.db.collection("products").doc(id);
+    const docSnap = await productDoc.get();
+    
+    if (!docSnap.exists) return undefined;
+    
+    const data = docSnap.data() || {};
+    return {
+      id: docSnap.id,
+      name: data.name,
+      description: data.description,
+      price: data.price,
       createdAt: data.createdAt?.toDate() || new Date()
     } as Product;
   }
@@ -1988,7 +2715,8 @@ export class FirestoreStorage implements IStorage {
     const validatedData = insertAttendanceSchema.parse({
       ...data,
       date: data.date || new Date(),
-      checkInTime: data.checkInTime || new Date(),
+      // Leave records are written for days the employee is away and have no punch
+      checkInTime: data.checkInTime || (data.status === 'leave' ? undefined : new Date()),
       checkOutTime: data.checkOutTime,
     });
     
@@ -2001,7 +2729,7 @@ export class FirestoreStorage implements IStorage {
     const attendanceDoc = await attendanceRef.add({
       ...cleanData,
       date: Timestamp.fromDate(validatedData.date),
-      checkInTime: validatedData.checkInTime ? Timestamp.fromDate(validatedData.checkInTime) : Timestamp.now(),
+      checkInTime: validatedData.checkInTime ? Timestamp.fromDate(validatedData.checkInTime) : null,
       checkOutTime: validatedData.checkOutTime ? Timestamp.fromDate(validatedData.checkOutTime) : null,
       location: validatedData.attendanceType || "office",
       dateString: dateString,
@@ -2084,9 +2812,23 @@ export class FirestoreStorage implements IStorage {
       date: updatedData.date?.toDate() || new Date(),
       checkInTime: updatedData.checkInTime?.toDate() || null,
       checkOutTime: updatedData.checkOutTime?.toDate() || null,
+      breaks: this.mapAttendanceBreaks(updatedData.breaks),
+      anomalyReviewedAt: updatedData.anomalyReviewedAt?.toDate(),
+      checkInSyncedAt: updatedData.checkInSyncedAt?.toDate(),
+      checkOutSyncedAt: updatedData.checkOutSyncedAt?.toDate(),
     } as Attendance;
   }
 
+  // Break punches are stored as nested Timestamps
+  private mapAttendanceBreaks(breaks: any[] | undefined): AttendanceBreak[] | undefined {
+    if (!Array.isArray(breaks)) return undefined;
+    return breaks.map(entry => ({
+      ...entry,
+      startTime: entry.startTime?.toDate ? entry.startTime.toDate() : new Date(entry.startTime),
+      endTime: entry.endTime ? (entry.endTime.toDate ? entry.endTime.toDate() : new Date(entry.endTime)) : undefined,
+    }));
+  }
+
   async getAttendanceByUserAndDate(
     userId: string,
     date: Date,
@@ -2111,6 +2853,10 @@ export class FirestoreStorage implements IStorage {
       date: data.date?.toDate() || new Date(),
       checkInTime: data.checkInTime?.toDate() || null,
       checkOutTime: data.checkOutTime?.toDate() || null,
+      breaks: this.mapAttendanceBreaks(data.breaks),
+      anomalyReviewedAt: data.anomalyReviewedAt?.toDate(),
+      checkInSyncedAt: data.checkInSyncedAt?.toDate(),
+      checkOutSyncedAt: data.checkOutSyncedAt?.toDate(),
     } as Attendance;
   }
 
@@ -2132,6 +2878,10 @@ export class FirestoreStorage implements IStorage {
           date: data.date?.toDate() || new Date(),
           checkInTime: data.checkInTime?.toDate() || null,
           checkOutTime: data.checkOutTime?.toDate() || null,
+          breaks: this.mapAttendanceBreaks(data.breaks),
+          anomalyReviewedAt: data.anomalyReviewedAt?.toDate(),
+          checkInSyncedAt: data.checkInSyncedAt?.toDate(),
+          checkOutSyncedAt: data.checkOutSyncedAt?.toDate(),
         } as Attendance;
         
         console.log(`STORAGE: Record ${doc.id} - Date: ${record.date?.toISOString()}, Status: ${record.status}, UserID: ${record.userId}`);
@@ -2165,6 +2915,10 @@ export class FirestoreStorage implements IStorage {
         date: data.date?.toDate() || new Date(),
         checkInTime: data.checkInTime?.toDate() || null,
         checkOutTime: data.checkOutTime?.toDate() || null,
+        breaks: this.mapAttendanceBreaks(data.breaks),
+        anomalyReviewedAt: data.anomalyReviewedAt?.toDate(),
+        checkInSyncedAt: data.checkInSyncedAt?.toDate(),
+        checkOutSyncedAt: data.checkOutSyncedAt?.toDate(),
       } as Attendance;
     });
   }
@@ -2192,6 +2946,10 @@ export class FirestoreStorage implements IStorage {
         date: data.date?.toDate() || new Date(),
         checkInTime: data.checkInTime?.toDate() || null,
         checkOutTime: data.checkOutTime?.toDate() || null,
+        breaks: this.mapAttendanceBreaks(data.breaks),
+        anomalyReviewedAt: data.anomalyReviewedAt?.toDate(),
+        checkInSyncedAt: data.checkInSyncedAt?.toDate(),
+        checkOutSyncedAt: data.checkOutSyncedAt?.toDate(),
       } as Attendance;
     });
   }
@@ -2221,6 +2979,10 @@ export class FirestoreStorage implements IStorage {
         date: data.date?.toDate() || new Date(),
         checkInTime: data.checkInTime?.toDate() || null,
         checkOutTime: data.checkOutTime?.toDate() || null,
+        breaks: this.mapAttendanceBreaks(data.breaks),
+        anomalyReviewedAt: data.anomalyReviewedAt?.toDate(),
+        checkInSyncedAt: data.checkInSyncedAt?.toDate(),
+        checkOutSyncedAt: data.checkOutSyncedAt?.toDate(),
       } as Attendance;
     });
   }
@@ -2237,6 +2999,10 @@ export class FirestoreStorage implements IStorage {
       date: data.date?.toDate() || new Date(),
       checkInTime: data.checkInTime?.toDate() || null,
       checkOutTime: data.checkOutTime?.toDate() || null,
+      breaks: this.mapAttendanceBreaks(data.breaks),
+      anomalyReviewedAt: data.anomalyReviewedAt?.toDate(),
+      checkInSyncedAt: data.checkInSyncedAt?.toDate(),
+      checkOutSyncedAt: data.checkOutSyncedAt?.toDate(),
     } as Attendance;
   }
 
@@ -2266,42 +3032,130 @@ export class FirestoreStorage implements IStorage {
         date: data.date?.toDate() || new Date(),
         checkInTime: data.checkInTime?.toDate() || null,
         checkOutTime: data.checkOutTime?.toDate() || null,
+        breaks: this.mapAttendanceBreaks(data.breaks),
+        anomalyReviewedAt: data.anomalyReviewedAt?.toDate(),
+        checkInSyncedAt: data.checkInSyncedAt?.toDate(),
+        checkOutSyncedAt: data.checkOutSyncedAt?.toDate(),
       } as Attendance;
     });
   }
 
-  async getLeave(id: string): Promise<Leave | undefined> {
-    const leaveDoc = this.db.collection("leaves").doc(id);
-    const docSnap = await leaveDoc.get();
-    
-    if (!docSnap.exists) return undefined;
-    
-    const data = docSnap.data() || {};
+  // Check-in and check-out photos with the same content hash, across all users
+  async listAttendanceByImageHash(imageHash: string): Promise<Attendance[]> {
+    const attendanceRef = this.db.collection("attendance");
+    const [checkIns, checkOuts] = await Promise.all([
+      attendanceRef.where("checkInImageHash", "==", imageHash).get(),
+      attendanceRef.where("checkOutImageHash", "==", imageHash).get(),
+    ]);
+
+    const records = new Map<string, Attendance>();
+    for (const doc of [...checkIns.docs, ...checkOuts.docs]) {
+      const data = doc.data() || {};
+      records.set(doc.id, {
+        id: doc.id,
+        ...data,
+        date: data.date?.toDate() || new Date(),
+        checkInTime: data.checkInTime?.toDate() || null,
+        checkOutTime: data.checkOutTime?.toDate() || null,
+        breaks: this.mapAttendanceBreaks(data.breaks),
+        anomalyReviewedAt: data.anomalyReviewedAt?.toDate(),
+        checkInSyncedAt: data.checkInSyncedAt?.toDate(),
+        checkOutSyncedAt: data.checkOutSyncedAt?.toDate(),
+      } as Attendance);
+    }
+    return Array.from(records.values());
+  }
+
+  // Days the auto-close policy left open for the employee to correct
+  async listAttendanceRequiringRegularization(userIds?: string[]): Promise<Attendance[]> {
+    const snapshot = await this.db.collection("attendance")
+      .where("requiresRegularization", "==", true)
+      .get();
+
+    const allowed = userIds ? new Set(userIds) : null;
+    return snapshot.docs
+      .map(doc => {
+        const data = doc.data() || {};
+        return {
+          id: doc.id,
+          ...data,
+          date: data.date?.toDate() || new Date(),
+          checkInTime: data.checkInTime?.toDate() || null,
+          checkOutTime: data.checkOutTime?.toDate() || null,
+          breaks: this.mapAttendanceBreaks(data.breaks),
+          anomalyReviewedAt: data.anomalyReviewedAt?.toDate(),
+          checkInSyncedAt: data.checkInSyncedAt?.toDate(),
+          checkOutSyncedAt: data.checkOutSyncedAt?.toDate(),
+        } as Attendance;
+      })
+      .filter(record => !allowed || allowed.has(record.userId))
+      .sort((a, b) => b.date.getTime() - a.date.getTime());
+  }
+
+  async listFlaggedAttendance(filters?: { reviewStatus?: string; startDate?: Date; endDate?: Date }): Promise<Attendance[]> {
+    let query = this.db.collection("attendance") as any;
+
+    if (filters?.reviewStatus) {
+      query = query.where("anomalyReviewStatus", "==", filters.reviewStatus);
+    } else {
+      query = query.where("anomalyScore", ">", 0);
+    }
+
+    const snapshot = await query.get();
+
+    // Date range and ordering in memory to avoid composite index requirements
+    return snapshot.docs
+      .map((doc: any) => {
+        const data = doc.data() || {};
+        return {
+          id: doc.id,
+          ...data,
+          date: data.date?.toDate() || new Date(),
+          checkInTime: data.checkInTime?.toDate() || null,
+          checkOutTime: data.checkOutTime?.toDate() || null,
+          breaks: this.mapAttendanceBreaks(data.breaks),
+          anomalyReviewedAt: data.anomalyReviewedAt?.toDate(),
+          checkInSyncedAt: data.checkInSyncedAt?.toDate(),
+          checkOutSyncedAt: data.checkOutSyncedAt?.toDate(),
+        } as Attendance;
+      })
+      .filter((record: Attendance) =>
+        (!filters?.startDate || record.date >= filters.startDate) &&
+        (!filters?.endDate || record.date <= filters.endDate))
+      .sort((a: Attendance, b: Attendance) =>
+        (b.anomalyScore || 0) - (a.anomalyScore || 0) || b.date.getTime() - a.date.getTime());
+  }
+
+  private mapLeave(id: string, data: DocumentData): Leave {
     return {
-      id: docSnap.id,
+      id,
       ...data,
       startDate: data.startDate?.toDate() || new Date(),
       endDate: data.endDate?.toDate() || new Date(),
+      approvalSteps: data.approvalSteps?.map((step: DocumentData) => ({
+        ...step,
+        decidedAt: step.decidedAt?.toDate()
+      })),
       createdAt: data.createdAt?.toDate() || new Date(),
     } as Leave;
   }
 
+  async getLeave(id: string): Promise<Leave | undefined> {
+    const leaveDoc = this.db.collection("leaves").doc(id);
+    const docSnap = await leaveDoc.get();
+    
+    if (!docSnap.exists) return undefined;
+    
+    return this.mapLeave(docSnap.id, docSnap.data() || {});
+  }
+
   async listLeavesByUser(userId: string): Promise<Leave[]> {
     const leavesRef = this.db.collection("leaves");
     const snapshot = await leavesRef
       .where("userId", "==", userId)
       .get();
     
-    return snapshot.docs.map(doc => {
-      const data = doc.data() || {};
-      return {
-        id: doc.id,
-        ...data,
-        startDate: data.startDate?.toDate() || new Date(),
-        endDate: data.endDate?.toDate() || new Date(),
-        createdAt: data.createdAt?.toDate() || new Date(),
-      } as Leave;
-    });
+    return snapshot.docs.map(doc => this.mapLeave(doc.id, doc.data() || {}));
   }
 
   async listPendingLeaves(): Promise<Leave[]> {
@@ -2310,71 +3164,241 @@ export class FirestoreStorage implements IStorage {
       .where("status", "==", "pending")
       .get();
     
-    return snapshot.docs.map(doc => {
-      const data = doc.data() || {};
-      return {
-        id: doc.id,
-        ...data,
-        startDate: data.startDate?.toDate() || new Date(),
-        endDate: data.endDate?.toDate() || new Date(),
-        createdAt: data.createdAt?.toDate() || new Date(),
-      } as Leave;
-    });
+    return snapshot.docs.map(doc => this.mapLeave(doc.id, doc.data() || {}));
+  }
+
+  // Approved leaves touching the range; filtered in memory to avoid a composite index on status and dates
+  async listApprovedLeavesBetween(startDate: Date, endDate: Date): Promise<Leave[]> {
+    const snapshot = await this.db.collection("leaves")
+      .where("status", "==", "approved")
+      .get();
+
+    return snapshot.docs
+      .map(doc => this.mapLeave(doc.id, doc.data() || {}))
+      .filter(leave => leave.startDate <= endDate && leave.endDate >= startDate);
   }
 
   async createLeave(data: z.infer<typeof insertLeaveSchema>): Promise<Leave> {
-    const validatedData = insertLeaveSchema.parse({
-      ...data,
-      startDate: Timestamp.fromDate(data.startDate),
-      endDate: Timestamp.fromDate(data.endDate),
-    });
-    
-    const leavesRef = this.db.collection("leaves");
-    const leaveDoc = await leavesRef.add({
-      ...validatedData,
-      createdAt: Timestamp.now(),
-      updatedAt: Timestamp.now(),
-    });
-    
-    return {
-      id: leaveDoc.id,
-      ...validatedData,
-      startDate: new Date(),
-      endDate: new Date(),
+    const validatedData = insertLeaveSchema.parse(data);
+    const leaveData = {
+      ...Object.fromEntries(Object.entries(validatedData).filter(([_, value]) => value !== undefined)),
       createdAt: new Date(),
-    } as Leave;
+      updatedAt: new Date(),
+    };
+
+    const leaveDoc = await this.db.collection("leaves").add(leaveData);
+    return { id: leaveDoc.id, ...validatedData, createdAt: leaveData.createdAt };
   }
 
   async updateLeave(
     id: string,
     data: Partial<z.infer<typeof insertLeaveSchema>>,
   ): Promise<Leave> {
-    const validatedData = insertLeaveSchema.partial().parse({
+    const validatedData = insertLeaveSchema.partial().parse(data);
+    const leaveDoc = this.db.collection("leaves").doc(id);
+
+    await leaveDoc.update({
+      ...Object.fromEntries(Object.entries(validatedData).filter(([_, value]) => value !== undefined)),
+      updatedAt: new Date(),
+    });
+
+    const updated = await this.getLeave(id);
+    if (!updated) throw new Error("Leave not found");
+    return updated;
+  }
+
+  async deleteLeave(id: string): Promise<void> {
+    await this.db.collection("leaves").doc(id).delete();
+  }
+
+  // Leave types - one document per type code
+  private mapLeaveType(code: string, data: DocumentData): LeaveType {
+    return {
       ...data,
-      startDate: data.startDate
-        ? Timestamp.fromDate(data.startDate)
-        : undefined,
-      endDate: data.endDate ? Timestamp.fromDate(data.endDate) : undefined,
+      code,
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+    } as LeaveType;
+  }
+
+  async getLeaveType(code: LeaveTypeCode): Promise<LeaveType | undefined> {
+    const doc = await this.db.collection('leaveTypes').doc(code).get();
+    if (!doc.exists) return undefined;
+    return this.mapLeaveType(doc.id, doc.data()!);
+  }
+
+  async listLeaveTypes(): Promise<LeaveType[]> {
+    const snapshot = await this.db.collection('leaveTypes').get();
+    return snapshot.docs.map(doc => this.mapLeaveType(doc.id, doc.data()));
+  }
+
+  async saveLeaveType(data: z.infer<typeof insertLeaveTypeSchema>): Promise<LeaveType> {
+    const validatedData = insertLeaveTypeSchema.parse(data);
+    const leaveTypeData = {
+      ...Object.fromEntries(Object.entries(validatedData).filter(([_, value]) => value !== undefined)),
+      updatedAt: new Date(),
+    };
+
+    await this.db.collection('leaveTypes').doc(validatedData.code).set(leaveTypeData);
+    return leaveTypeData as LeaveType;
+  }
+
+  // Leave balances - running total per employee, type and year, changed only through ledger entries
+  private leaveBalanceDocId(userId: string, leaveType: string, year: number): string {
+    return `${userId}_${leaveType}_${year}`;
+  }
+
+  async listLeaveBalances(userId: string, year: number): Promise<LeaveBalance[]> {
+    const snapshot = await this.db.collection('leaveBalances')
+      .where('userId', '==', userId)
+      .where('year', '==', year)
+      .get();
+
+    return snapshot.docs.map(doc => {
+      const data = doc.data();
+      return {
+        ...data,
+        updatedAt: data.updatedAt?.toDate() || new Date(),
+      } as LeaveBalance;
     });
-    
-    const leaveDoc = this.db.collection("leaves").doc(id);
-    
-    await leaveDoc.update({ 
-      ...validatedData, 
-      updatedAt: Timestamp.now() 
+  }
+
+  async listLeaveLedgerEntries(filters: {
+    userId: string;
+    year?: number;
+    leaveType?: LeaveTypeCode;
+    leaveId?: string;
+  }): Promise<LeaveLedgerEntry[]> {
+    let query = this.db.collection('leaveLedger').where('userId', '==', filters.userId) as Query<DocumentData>;
+    if (filters.year !== undefined) {
+      query = query.where('year', '==', filters.year);
+    }
+    if (filters.leaveType) {
+      query = query.where('leaveType', '==', filters.leaveType);
+    }
+    if (filters.leaveId) {
+      query = query.where('leaveId', '==', filters.leaveId);
+    }
+
+    const snapshot = await query.get();
+    return snapshot.docs
+      .map(doc => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          ...data,
+          createdAt: data.createdAt?.toDate() || new Date(),
+        } as LeaveLedgerEntry;
+      })
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async postLeaveLedgerEntry(
+    data: z.infer<typeof insertLeaveLedgerEntrySchema>,
+    options: { entryKey?: string; allowNegativeBalance?: boolean } = {}
+  ): Promise<LeaveLedgerPostResult> {
+    const validatedData = insertLeaveLedgerEntrySchema.parse(data);
+    const balanceRef = this.db.collection('leaveBalances')
+      .doc(this.leaveBalanceDocId(validatedData.userId, validatedData.leaveType, validatedData.year));
+    // A keyed entry (accrual month, carry-forward, reversal of a leave) can only ever be posted once
+    const entryRef = options.entryKey
+      ? this.db.collection('leaveLedger').doc(options.entryKey)
+      : this.db.collection('leaveLedger').doc();
+
+    // Balance check and both writes happen in one transaction so concurrent requests cannot overdraw
+    return this.db.runTransaction(async transaction => {
+      const [balanceDoc, existingEntry] = await Promise.all([
+        transaction.get(balanceRef),
+        options.entryKey ? transaction.get(entryRef) : Promise.resolve(undefined)
+      ]);
+      const currentBalance: number = balanceDoc.exists ? balanceDoc.data()!.balance || 0 : 0;
+
+      if (existingEntry?.exists) {
+        return { posted: false, reason: 'duplicate' as const, balance: currentBalance };
+      }
+
+      const balance = Math.round((currentBalance + validatedData.days) * 100) / 100;
+      if (validatedData.days < 0 && balance < 0 && !options.allowNegativeBalance) {
+        return { posted: false, reason: 'insufficient_balance' as const, balance: currentBalance };
+      }
+
+      const now = new Date();
+      const entryData = {
+        ...Object.fromEntries(Object.entries(validatedData).filter(([_, value]) => value !== undefined)),
+        createdAt: now,
+      };
+      transaction.set(entryRef, entryData);
+      transaction.set(balanceRef, {
+        userId: validatedData.userId,
+        leaveType: validatedData.leaveType,
+        year: validatedData.year,
+        balance,
+        updatedAt: now,
+      });
+
+      return { posted: true, balance, entry: { id: entryRef.id, ...entryData } as LeaveLedgerEntry };
     });
-    
-    const updatedDoc = await leaveDoc.get();
-    if (!updatedDoc.exists) throw new Error("Leave not found");
-    
-    const updatedData = updatedDoc.data() || {};
+  }
+
+  // Leave coverage rules
+  private mapLeaveCoverageRule(id: string, data: DocumentData): LeaveCoverageRule {
     return {
-      id: updatedDoc.id,
-      ...updatedData,
-      startDate: updatedData.startDate?.toDate() || new Date(),
-      endDate: updatedData.endDate?.toDate() || new Date(),
-      createdAt: updatedData.createdAt?.toDate() || new Date(),
-    } as Leave;
+      id,
+      ...data,
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+    } as LeaveCoverageRule;
+  }
+
+  async getLeaveCoverageRule(id: string): Promise<LeaveCoverageRule | undefined> {
+    const doc = await this.db.collection('leaveCoverageRules').doc(id).get();
+    if (!doc.exists) return undefined;
+    return this.mapLeaveCoverageRule(doc.id, doc.data()!);
+  }
+
+  async listLeaveCoverageRules(filters?: { department?: string; isActive?: boolean }): Promise<LeaveCoverageRule[]> {
+    let query = this.db.collection('leaveCoverageRules') as any;
+
+    if (filters?.department) {
+      query = query.where('department', '==', filters.department);
+    }
+    if (filters?.isActive !== undefined) {
+      query = query.where('isActive', '==', filters.isActive);
+    }
+
+    const snapshot = await query.get();
+    return snapshot.docs.map((doc: any) => this.mapLeaveCoverageRule(doc.id, doc.data()));
+  }
+
+  async createLeaveCoverageRule(data: z.infer<typeof insertLeaveCoverageRuleSchema>): Promise<LeaveCoverageRule> {
+    const validatedData = insertLeaveCoverageRuleSchema.parse(data);
+    const doc = this.db.collection('leaveCoverageRules').doc();
+    const ruleData = {
+      ...Object.fromEntries(Object.entries(validatedData).filter(([_, value]) => value !== undefined)),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    await doc.set(ruleData);
+    return { id: doc.id, ...ruleData } as LeaveCoverageRule;
+  }
+
+  async updateLeaveCoverageRule(id: string, data: Partial<z.infer<typeof insertLeaveCoverageRuleSchema>>): Promise<LeaveCoverageRule> {
+    const doc = this.db.collection('leaveCoverageRules').doc(id);
+    const existing = await doc.get();
+    if (!existing.exists) throw new Error("Leave coverage rule not found");
+
+    await doc.update({
+      ...Object.fromEntries(Object.entries(data).filter(([_, value]) => value !== undefined)),
+      updatedAt: new Date(),
+    });
+
+    return (await this.getLeaveCoverageRule(id))!;
+  }
+
+  async deleteLeaveCoverageRule(id: string): Promise<boolean> {
+    // Nothing references a rule, so it can go outright
+    await this.db.collection('leaveCoverageRules').doc(id).delete();
+    return true;
   }
 
   // ===================== Phase 2: Enterprise RBAC Implementation =====================
@@ -3156,20 +4180,259 @@ export class FirestoreStorage implements IStorage {
     } as AttendancePolicy;
   }
 
-  async listAttendancePolicies(): Promise<AttendancePolicy[]> {
-    const querySnapshot = await this.db.collection('attendancePolicies')
-      .orderBy('createdAt', 'desc')
+  async listAttendancePolicies(): Promise<AttendancePolicy[]> {
+    const querySnapshot = await this.db.collection('attendancePolicies')
+      .orderBy('createdAt', 'desc')
+      .get();
+    
+    return querySnapshot.docs.map(doc => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        ...data,
+        createdAt: data.createdAt?.toDate() || new Date(),
+        updatedAt: data.updatedAt?.toDate() || new Date(),
+      } as AttendancePolicy;
+    });
+  }
+
+  // Shift definitions
+  async getShift(id: string): Promise<Shift | undefined> {
+    const doc = await this.db.collection('shifts').doc(id).get();
+    if (!doc.exists) return undefined;
+
+    const data = doc.data()!;
+    return {
+      id: doc.id,
+      ...data,
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+    } as Shift;
+  }
+
+  async listShifts(filters?: { department?: string; isActive?: boolean }): Promise<Shift[]> {
+    let query = this.db.collection('shifts') as any;
+
+    if (filters?.isActive !== undefined) {
+      query = query.where('isActive', '==', filters.isActive);
+    }
+
+    const querySnapshot = await query.get();
+    const shifts = querySnapshot.docs.map((doc: any) => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        ...data,
+        createdAt: data.createdAt?.toDate() || new Date(),
+        updatedAt: data.updatedAt?.toDate() || new Date(),
+      } as Shift;
+    });
+
+    // Department-less shifts are shared by every department
+    return filters?.department
+      ? shifts.filter((shift: Shift) => !shift.department || shift.department === filters.department)
+      : shifts;
+  }
+
+  async createShift(data: z.infer<typeof insertShiftSchema>): Promise<Shift> {
+    const validatedData = insertShiftSchema.parse(data);
+    const doc = this.db.collection('shifts').doc();
+    const shiftData = {
+      ...Object.fromEntries(Object.entries(validatedData).filter(([_, value]) => value !== undefined)),
+      isOvernight: this.isOvernightShift(validatedData.startTime, validatedData.endTime),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    await doc.set(shiftData);
+    return { id: doc.id, ...shiftData } as Shift;
+  }
+
+  async updateShift(id: string, data: Partial<z.infer<typeof insertShiftSchema>>): Promise<Shift> {
+    const doc = this.db.collection('shifts').doc(id);
+    const existing = await doc.get();
+    if (!existing.exists) throw new Error("Shift not found");
+
+    const current = existing.data()!;
+    const startTime = data.startTime || current.startTime;
+    const endTime = data.endTime || current.endTime;
+
+    await doc.update({
+      ...Object.fromEntries(Object.entries(data).filter(([_, value]) => value !== undefined)),
+      isOvernight: this.isOvernightShift(startTime, endTime),
+      updatedAt: new Date(),
+    });
+
+    return (await this.getShift(id))!;
+  }
+
+  async deleteShift(id: string): Promise<boolean> {
+    // Soft delete - past rosters and attendance still reference the shift
+    await this.db.collection('shifts').doc(id).update({
+      isActive: false,
+      updatedAt: new Date(),
+    });
+    return true;
+  }
+
+  private isOvernightShift(startTime: string, endTime: string): boolean {
+    const toMinutes = (time: string) => {
+      const match = time.trim().match(/^(\d{1,2}):(\d{2})\s*(AM|PM)$/i);
+      if (!match) return 0;
+      let hours = parseInt(match[1]) % 12;
+      if (match[3].toUpperCase() === 'PM') hours += 12;
+      return hours * 60 + parseInt(match[2]);
+    };
+    return toMinutes(endTime) <= toMinutes(startTime);
+  }
+
+  // Weekly shift rosters
+  private getShiftRosterDocId(userId: string, weekStartDate: Date): string {
+    const weekStart = new Date(weekStartDate);
+    weekStart.setHours(0, 0, 0, 0);
+    const dateString = `${weekStart.getFullYear()}-${String(weekStart.getMonth() + 1).padStart(2, '0')}-${String(weekStart.getDate()).padStart(2, '0')}`;
+    return `${userId}_${dateString}`;
+  }
+
+  async getShiftRoster(userId: string, weekStartDate: Date): Promise<ShiftRoster | undefined> {
+    const doc = await this.db.collection('shiftRosters').doc(this.getShiftRosterDocId(userId, weekStartDate)).get();
+    if (!doc.exists) return undefined;
+
+    const data = doc.data()!;
+    return {
+      id: doc.id,
+      ...data,
+      weekStartDate: data.weekStartDate?.toDate() || new Date(),
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+    } as ShiftRoster;
+  }
+
+  async listShiftRosters(weekStartDate: Date): Promise<ShiftRoster[]> {
+    const weekStart = new Date(weekStartDate);
+    weekStart.setHours(0, 0, 0, 0);
+
+    const querySnapshot = await this.db.collection('shiftRosters')
+      .where('weekStartDate', '==', Timestamp.fromDate(weekStart))
       .get();
-    
+
     return querySnapshot.docs.map(doc => {
       const data = doc.data();
       return {
         id: doc.id,
         ...data,
+        weekStartDate: data.weekStartDate?.toDate() || new Date(),
         createdAt: data.createdAt?.toDate() || new Date(),
         updatedAt: data.updatedAt?.toDate() || new Date(),
-      } as AttendancePolicy;
+      } as ShiftRoster;
+    });
+  }
+
+  async upsertShiftRoster(data: z.infer<typeof insertShiftRosterSchema>): Promise<ShiftRoster> {
+    const validatedData = insertShiftRosterSchema.parse(data);
+    const weekStart = new Date(validatedData.weekStartDate);
+    weekStart.setHours(0, 0, 0, 0);
+
+    const doc = this.db.collection('shiftRosters').doc(this.getShiftRosterDocId(validatedData.userId, weekStart));
+    const existing = await doc.get();
+
+    await doc.set({
+      ...Object.fromEntries(Object.entries(validatedData).filter(([_, value]) => value !== undefined)),
+      weekStartDate: Timestamp.fromDate(weekStart),
+      createdAt: existing.exists ? existing.data()!.createdAt : Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    });
+
+    return (await this.getShiftRoster(validatedData.userId, weekStart))!;
+  }
+
+  // Holiday calendar
+  private mapHoliday(id: string, data: any): Holiday {
+    return {
+      id,
+      ...data,
+      date: data.date?.toDate() || new Date(),
+      officeLocationIds: data.officeLocationIds || [],
+      isPaid: data.isPaid !== false,
+      checkInPolicy: data.checkInPolicy || 'warn',
+      isActive: data.isActive !== false,
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+    } as Holiday;
+  }
+
+  async getHoliday(id: string): Promise<Holiday | undefined> {
+    const doc = await this.db.collection('holidays').doc(id).get();
+    if (!doc.exists) return undefined;
+    return this.mapHoliday(doc.id, doc.data());
+  }
+
+  async listHolidays(filters?: { startDate?: Date; endDate?: Date; type?: string; isActive?: boolean }): Promise<Holiday[]> {
+    let query = this.db.collection('holidays') as any;
+
+    if (filters?.startDate) {
+      const start = new Date(filters.startDate);
+      start.setHours(0, 0, 0, 0);
+      query = query.where('date', '>=', Timestamp.fromDate(start));
+    }
+    if (filters?.endDate) {
+      const end = new Date(filters.endDate);
+      end.setHours(23, 59, 59, 999);
+      query = query.where('date', '<=', Timestamp.fromDate(end));
+    }
+
+    const querySnapshot = await query.get();
+    let holidays: Holiday[] = querySnapshot.docs.map((doc: any) => this.mapHoliday(doc.id, doc.data()));
+
+    // Filter in memory to avoid composite indexes alongside the date range
+    if (filters?.type) {
+      holidays = holidays.filter(holiday => holiday.type === filters.type);
+    }
+    if (filters?.isActive !== undefined) {
+      holidays = holidays.filter(holiday => holiday.isActive === filters.isActive);
+    }
+
+    return holidays.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  async createHoliday(data: z.infer<typeof insertHolidaySchema>): Promise<Holiday> {
+    const validatedData = insertHolidaySchema.parse(data);
+    const date = new Date(validatedData.date);
+    date.setHours(0, 0, 0, 0);
+
+    const doc = this.db.collection('holidays').doc();
+    await doc.set({
+      ...Object.fromEntries(Object.entries(validatedData).filter(([_, value]) => value !== undefined)),
+      date: Timestamp.fromDate(date),
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
     });
+
+    return (await this.getHoliday(doc.id))!;
+  }
+
+  async updateHoliday(id: string, data: Partial<z.infer<typeof insertHolidaySchema>>): Promise<Holiday> {
+    const doc = this.db.collection('holidays').doc(id);
+    const updateData: any = {
+      ...Object.fromEntries(Object.entries(data).filter(([_, value]) => value !== undefined)),
+      updatedAt: Timestamp.now(),
+    };
+
+    if (data.date) {
+      const date = new Date(data.date);
+      date.setHours(0, 0, 0, 0);
+      updateData.date = Timestamp.fromDate(date);
+    }
+
+    await doc.update(updateData);
+    const updated = await this.getHoliday(id);
+    if (!updated) throw new Error("Holiday not found");
+    return updated;
+  }
+
+  async deleteHoliday(id: string): Promise<boolean> {
+    await this.db.collection('holidays').doc(id).delete();
+    return true;
   }
 
   // Department Timing Management
@@ -3222,6 +4485,273 @@ export class FirestoreStorage implements IStorage {
     });
   }
 
+  // Attendance Regularization
+  private mapAttendanceRegularization(id: string, data: any): AttendanceRegularization {
+    return {
+      id,
+      ...data,
+      requestedCheckInTime: data.requestedCheckInTime?.toDate() || null,
+      requestedCheckOutTime: data.requestedCheckOutTime?.toDate() || null,
+      originalCheckInTime: data.originalCheckInTime?.toDate() || null,
+      originalCheckOutTime: data.originalCheckOutTime?.toDate() || null,
+      reviewedAt: data.reviewedAt?.toDate() || null,
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+    } as AttendanceRegularization;
+  }
+
+  async getAttendanceRegularization(id: string): Promise<AttendanceRegularization | undefined> {
+    const doc = await this.db.collection('attendanceRegularizations').doc(id).get();
+    if (!doc.exists) return undefined;
+
+    return this.mapAttendanceRegularization(doc.id, doc.data()!);
+  }
+
+  async createAttendanceRegularization(data: z.infer<typeof insertAttendanceRegularizationSchema>): Promise<AttendanceRegularization> {
+    const validatedData = insertAttendanceRegularizationSchema.parse(data);
+    const doc = this.db.collection('attendanceRegularizations').doc();
+
+    // Filter out undefined values to prevent Firestore errors
+    const cleanData = Object.fromEntries(
+      Object.entries(validatedData).filter(([_, value]) => value !== undefined)
+    );
+
+    await doc.set({
+      ...cleanData,
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    });
+
+    const created = await doc.get();
+    return this.mapAttendanceRegularization(created.id, created.data()!);
+  }
+
+  async updateAttendanceRegularization(id: string, data: Partial<z.infer<typeof insertAttendanceRegularizationSchema>>): Promise<AttendanceRegularization> {
+    const doc = this.db.collection('attendanceRegularizations').doc(id);
+    const updateData: any = Object.fromEntries(
+      Object.entries(data).filter(([_, value]) => value !== undefined)
+    );
+    updateData.updatedAt = Timestamp.now();
+
+    await doc.update(updateData);
+
+    const updated = await doc.get();
+    if (!updated.exists) throw new Error("Attendance regularization not found");
+    return this.mapAttendanceRegularization(updated.id, updated.data()!);
+  }
+
+  async listAttendanceRegularizations(filters?: { userId?: string; approverId?: string; attendanceId?: string; status?: string }): Promise<AttendanceRegularization[]> {
+    let query = this.db.collection('attendanceRegularizations') as any;
+
+    if (filters?.userId) {
+      query = query.where('userId', '==', filters.userId);
+    }
+    if (filters?.approverId) {
+      query = query.where('approverId', '==', filters.approverId);
+    }
+    if (filters?.attendanceId) {
+      query = query.where('attendanceId', '==', filters.attendanceId);
+    }
+    if (filters?.status) {
+      query = query.where('status', '==', filters.status);
+    }
+
+    const querySnapshot = await query.get();
+
+    // Sort in memory to avoid composite index requirements
+    return querySnapshot.docs
+      .map((doc: any) => this.mapAttendanceRegularization(doc.id, doc.data()))
+      .sort((a: AttendanceRegularization, b: AttendanceRegularization) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  // Overtime requests
+  private mapOvertimeRequest(id: string, data: any): OvertimeRequest {
+    return {
+      id,
+      ...data,
+      workDate: data.workDate?.toDate() || new Date(),
+      reviewedAt: data.reviewedAt?.toDate() || null,
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+    } as OvertimeRequest;
+  }
+
+  async getOvertimeRequest(id: string): Promise<OvertimeRequest | undefined> {
+    const doc = await this.db.collection('overtimeRequests').doc(id).get();
+    if (!doc.exists) return undefined;
+
+    return this.mapOvertimeRequest(doc.id, doc.data()!);
+  }
+
+  async createOvertimeRequest(data: z.infer<typeof insertOvertimeRequestSchema>): Promise<OvertimeRequest> {
+    const validatedData = insertOvertimeRequestSchema.parse(data);
+    const doc = this.db.collection('overtimeRequests').doc();
+
+    // Filter out undefined values to prevent Firestore errors
+    const cleanData = Object.fromEntries(
+      Object.entries(validatedData).filter(([_, value]) => value !== undefined)
+    );
+
+    await doc.set({
+      ...cleanData,
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    });
+
+    const created = await doc.get();
+    return this.mapOvertimeRequest(created.id, created.data()!);
+  }
+
+  async updateOvertimeRequest(id: string, data: Partial<z.infer<typeof insertOvertimeRequestSchema>>): Promise<OvertimeRequest> {
+    const doc = this.db.collection('overtimeRequests').doc(id);
+    const updateData: any = Object.fromEntries(
+      Object.entries(data).filter(([_, value]) => value !== undefined)
+    );
+    updateData.updatedAt = Timestamp.now();
+
+    await doc.update(updateData);
+
+    const updated = await doc.get();
+    if (!updated.exists) throw new Error("Overtime request not found");
+    return this.mapOvertimeRequest(updated.id, updated.data()!);
+  }
+
+  async listOvertimeRequests(filters?: { userId?: string; approverId?: string; attendanceId?: string; status?: string; startDate?: Date; endDate?: Date }): Promise<OvertimeRequest[]> {
+    let query = this.db.collection('overtimeRequests') as any;
+
+    if (filters?.userId) {
+      query = query.where('userId', '==', filters.userId);
+    }
+    if (filters?.approverId) {
+      query = query.where('approverId', '==', filters.approverId);
+    }
+    if (filters?.attendanceId) {
+      query = query.where('attendanceId', '==', filters.attendanceId);
+    }
+    if (filters?.status) {
+      query = query.where('status', '==', filters.status);
+    }
+
+    const querySnapshot = await query.get();
+
+    // Date range and ordering in memory to avoid composite index requirements
+    return querySnapshot.docs
+      .map((doc: any) => this.mapOvertimeRequest(doc.id, doc.data()))
+      .filter((request: OvertimeRequest) =>
+        (!filters?.startDate || request.workDate >= filters.startDate) &&
+        (!filters?.endDate || request.workDate <= filters.endDate))
+      .sort((a: OvertimeRequest, b: OvertimeRequest) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  // Permission hours (short leave)
+  private mapPermissionRequest(id: string, data: any): PermissionRequest {
+    return {
+      id,
+      ...data,
+      date: data.date?.toDate() || new Date(),
+      reviewedAt: data.reviewedAt?.toDate() || null,
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+    } as PermissionRequest;
+  }
+
+  async getPermissionRequest(id: string): Promise<PermissionRequest | undefined> {
+    const doc = await this.db.collection('permissionRequests').doc(id).get();
+    if (!doc.exists) return undefined;
+
+    return this.mapPermissionRequest(doc.id, doc.data()!);
+  }
+
+  async createPermissionRequest(data: z.infer<typeof insertPermissionRequestSchema>): Promise<PermissionRequest> {
+    const validatedData = insertPermissionRequestSchema.parse(data);
+    const doc = this.db.collection('permissionRequests').doc();
+
+    // Filter out undefined values to prevent Firestore errors
+    const cleanData = Object.fromEntries(
+      Object.entries(validatedData).filter(([_, value]) => value !== undefined)
+    );
+
+    await doc.set({
+      ...cleanData,
+      createdAt: Timestamp.now(),
+      updatedAt: Timestamp.now(),
+    });
+
+    const created = await doc.get();
+    return this.mapPermissionRequest(created.id, created.data()!);
+  }
+
+  async updatePermissionRequest(id: string, data: Partial<z.infer<typeof insertPermissionRequestSchema>>): Promise<PermissionRequest> {
+    const doc = this.db.collection('permissionRequests').doc(id);
+    const updateData: any = Object.fromEntries(
+      Object.entries(data).filter(([_, value]) => value !== undefined)
+    );
+    updateData.updatedAt = Timestamp.now();
+
+    await doc.update(updateData);
+
+    const updated = await doc.get();
+    if (!updated.exists) throw new Error("Permission request not found");
+    return this.mapPermissionRequest(updated.id, updated.data()!);
+  }
+
+  async listPermissionRequests(filters?: { userId?: string; approverId?: string; status?: string; startDate?: Date; endDate?: Date }): Promise<PermissionRequest[]> {
+    let query = this.db.collection('permissionRequests') as any;
+
+    if (filters?.userId) {
+      query = query.where('userId', '==', filters.userId);
+    }
+    if (filters?.approverId) {
+      query = query.where('approverId', '==', filters.approverId);
+    }
+    if (filters?.status) {
+      query = query.where('status', '==', filters.status);
+    }
+
+    const querySnapshot = await query.get();
+
+    // Date range and ordering in memory to avoid composite index requirements
+    return querySnapshot.docs
+      .map((doc: any) => this.mapPermissionRequest(doc.id, doc.data()))
+      .filter((request: PermissionRequest) =>
+        (!filters?.startDate || request.date >= filters.startDate) &&
+        (!filters?.endDate || request.date <= filters.endDate))
+      .sort((a: PermissionRequest, b: PermissionRequest) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  private permissionUsageDocId(userId: string, month: Date): string {
+    return `${userId}_${month.getFullYear()}-${String(month.getMonth() + 1).padStart(2, '0')}`;
+  }
+
+  async getPermissionUsage(userId: string, month: Date): Promise<PermissionUsage | undefined> {
+    const doc = await this.db.collection('permissions').doc(this.permissionUsageDocId(userId, month)).get();
+    if (!doc.exists) return undefined;
+
+    const data = doc.data()!;
+    return {
+      id: doc.id,
+      ...data,
+      month: data.month?.toDate() || new Date(month.getFullYear(), month.getMonth(), 1),
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+    } as PermissionUsage;
+  }
+
+  async adjustPermissionUsage(userId: string, month: Date, deltaMinutes: number): Promise<PermissionUsage> {
+    const monthStart = new Date(month.getFullYear(), month.getMonth(), 1);
+    const validatedData = insertPermissionSchema.parse({ userId, month: monthStart });
+    const doc = this.db.collection('permissions').doc(this.permissionUsageDocId(userId, monthStart));
+
+    // Increment atomically so concurrent approvals cannot lose minutes
+    await doc.set({
+      userId: validatedData.userId,
+      month: Timestamp.fromDate(validatedData.month),
+      minutesUsed: FieldValue.increment(deltaMinutes),
+      updatedAt: Timestamp.now(),
+    }, { merge: true });
+
+    return (await this.getPermissionUsage(userId, monthStart))!;
+  }
+
   // Payroll Calculation Utilities
   async calculatePayroll(userId: string, month: number, year: number): Promise<z.infer<typeof insertPayrollSchema>> {
     // Get user's salary structure
@@ -4637,6 +6167,79 @@ export class FirestoreStorage implements IStorage {
     }
   }
 
+  // Late-arrival penalty rules
+  async getLatePenaltyRule(id: string): Promise<LatePenaltyRule | undefined> {
+    const doc = await this.db.collection('latePenaltyRules').doc(id).get();
+    if (!doc.exists) return undefined;
+
+    const data = doc.data()!;
+    return {
+      id: doc.id,
+      ...data,
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date(),
+    } as LatePenaltyRule;
+  }
+
+  async listLatePenaltyRules(filters?: { department?: string | null; isActive?: boolean }): Promise<LatePenaltyRule[]> {
+    let query = this.db.collection('latePenaltyRules') as any;
+
+    if (filters?.isActive !== undefined) {
+      query = query.where('isActive', '==', filters.isActive);
+    }
+
+    const querySnapshot = await query.get();
+    const rules = querySnapshot.docs.map((doc: any) => {
+      const data = doc.data();
+      return {
+        id: doc.id,
+        ...data,
+        createdAt: data.createdAt?.toDate() || new Date(),
+        updatedAt: data.updatedAt?.toDate() || new Date(),
+      } as LatePenaltyRule;
+    });
+
+    // Department-less rules apply to every department, and are all an employee without one gets
+    return filters?.department !== undefined
+      ? rules.filter((rule: LatePenaltyRule) => !rule.department || rule.department === filters.department)
+      : rules;
+  }
+
+  async createLatePenaltyRule(data: z.infer<typeof insertLatePenaltyRuleSchema>): Promise<LatePenaltyRule> {
+    const validatedData = insertLatePenaltyRuleSchema.parse(data);
+    const doc = this.db.collection('latePenaltyRules').doc();
+    const ruleData = {
+      ...Object.fromEntries(Object.entries(validatedData).filter(([_, value]) => value !== undefined)),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    await doc.set(ruleData);
+    return { id: doc.id, ...ruleData } as LatePenaltyRule;
+  }
+
+  async updateLatePenaltyRule(id: string, data: Partial<z.infer<typeof insertLatePenaltyRuleSchema>>): Promise<LatePenaltyRule> {
+    const doc = this.db.collection('latePenaltyRules').doc(id);
+    const existing = await doc.get();
+    if (!existing.exists) throw new Error("Late penalty rule not found");
+
+    await doc.update({
+      ...Object.fromEntries(Object.entries(data).filter(([_, value]) => value !== undefined)),
+      updatedAt: new Date(),
+    });
+
+    return (await this.getLatePenaltyRule(id))!;
+  }
+
+  async deleteLatePenaltyRule(id: string): Promise<boolean> {
+    // Soft delete - processed payrolls keep the rule id in their breakdown
+    await this.db.collection('latePenaltyRules').doc(id).update({
+      isActive: false,
+      updatedAt: new Date(),
+    });
+    return true;
+  }
+
   // Payroll Field Configuration
   async getPayrollFieldConfig(id: string): Promise<PayrollFieldConfig | undefined> {
     try {
@@ -0,0 +1,35 @@
+/**
+ * Test script to check which record an after-midnight check-out closes. Offline check-outs
+ * sync with their device time, so a punch queued on a night shift must still close the
+ * previous day's record however late it syncs.
+ */
+
+import { UnifiedAttendanceService } from './services/unified-attendance-service.ts';
+
+const at = (day: number, hours: number, minutes: number = 0) => new Date(2026, 0, day, hours, minutes);
+
+function testOvernightCheckOut(): void {
+  console.log('🧪 Testing after-midnight check-outs...\n');
+
+  const nightShift = { shiftStart: at(14, 22), shiftEnd: at(15, 6) };
+  const dayShift = { shiftStart: at(14, 9), shiftEnd: at(14, 18) };
+
+  const cases = [
+    { name: 'Night shift, check-out before shift end', checkOut: at(15, 5, 45), shift: nightShift, expected: true },
+    { name: 'Night shift, overtime check-out after shift end', checkOut: at(15, 7, 30), shift: nightShift, expected: true },
+    { name: 'Day shift, late check-in closed in the early hours', checkOut: at(15, 1, 15), shift: dayShift, expected: true },
+    { name: 'Day shift, next morning', checkOut: at(15, 9, 5), shift: dayShift, expected: false }
+  ];
+
+  for (const testCase of cases) {
+    const closesPreviousDay = UnifiedAttendanceService.closesPreviousDay(testCase.checkOut, testCase.shift);
+    console.log(`${closesPreviousDay === testCase.expected ? '✅' : '❌'} ${testCase.name}:`, {
+      checkOut: testCase.checkOut.toLocaleString('en-IN'),
+      closesPreviousDay,
+      expected: testCase.expected
+    });
+  }
+}
+
+// Run the test
+testOvernightCheckOut();
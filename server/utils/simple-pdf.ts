@@ -0,0 +1,82 @@
+// Minimal PDF writer for fixed-width text reports.
+// Uses the standard Courier font, which PDF viewers ship with, so nothing is embedded.
+
+export interface TextPdfOptions {
+  title?: string;
+  headerLines?: string[]; // Repeated at the top of every page
+  pageWidth?: number; // Points; defaults to A4 landscape
+  pageHeight?: number;
+  margin?: number;
+  fontSize?: number;
+}
+
+const escapePdfText = (text: string): string =>
+  text
+    .replace(/[^\x20-\x7e]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+
+export function renderTextPdf(lines: string[], options: TextPdfOptions = {}): Buffer {
+  const {
+    title,
+    headerLines = [],
+    pageWidth = 842,
+    pageHeight = 595,
+    margin = 28,
+    fontSize = 6.5
+  } = options;
+  const lineHeight = fontSize * 1.35;
+
+  // Header, a blank line, the body, a blank line and the page footer
+  const linesPerPage = Math.max(1, Math.floor((pageHeight - margin * 2) / lineHeight) - headerLines.length - 3);
+  const pages: string[][] = [];
+  for (let i = 0; i < lines.length; i += linesPerPage) {
+    pages.push(lines.slice(i, i + linesPerPage));
+  }
+  if (pages.length === 0) pages.push([]);
+
+  // Objects 1-3 are the catalog, page tree and font; each page then takes a page and a content object
+  const objects: string[] = [];
+  const pageObjectIds = pages.map((_, index) => 4 + index * 2);
+
+  objects[1] = `<< /Type /Catalog /Pages 2 0 R >>`;
+  objects[2] = `<< /Type /Pages /Kids [${pageObjectIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = `<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>`;
+
+  pages.forEach((pageLines, index) => {
+    const pageId = pageObjectIds[index];
+    const text = [...headerLines, '', ...pageLines, '', `Page ${index + 1} of ${pages.length}`];
+    const content = [
+      'BT',
+      `/F1 ${fontSize} Tf`,
+      `${lineHeight.toFixed(2)} TL`,
+      `${margin} ${pageHeight - margin} Td`,
+      ...text.map(line => `(${escapePdfText(line)}) '`),
+      'ET'
+    ].join('\n');
+
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] ` +
+      `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+  });
+
+  const infoId = objects.length;
+  objects[infoId] = `<< /Producer (Attendance Reports)${title ? ` /Title (${escapePdfText(title)})` : ''} >>`;
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(output, 'latin1');
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+}
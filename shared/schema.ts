@@ -360,6 +360,10 @@ export const insertSiteVisitSchema = z.object({
   // Status and metadata
   status: z.enum(["in_progress", "completed", "cancelled"]).default("in_progress"),
   notes: z.string().optional(),
+  // Site in/out captured offline; siteInTime/siteOutTime are the device's capture time
+  syncStatus: z.enum(["offline_synced"]).optional(),
+  siteInSyncedAt: z.date().optional(),
+  siteOutSyncedAt: z.date().optional(),
   createdAt: z.date().default(() => new Date()),
   updatedAt: z.date().default(() => new Date())
 });
@@ -607,6 +611,20 @@ export const insertPerformanceReviewSchema = z.object({
   nextReviewDate: z.date().optional(),
 });
 
+// How the end-of-day job closes records that were never checked out
+export const autoCheckOutPolicies = [
+  "cap_at_shift_end", "mark_half_day", "flag_for_regularization"
+] as const;
+
+// Anomaly checks run on every punch; records scoring at or above the review threshold are queued for admins
+export const attendanceAnomalyTypes = [
+  "impossible_travel", "reused_coordinates", "accuracy_jump",
+  "reused_photo", "far_from_customer_site", "device_change", "offline_synced", "face_mismatch"
+] as const;
+export const attendanceAnomalyReviewStatuses = ["pending", "cleared", "confirmed"] as const;
+// Outcome of comparing the check-in selfie with the employee's profile photo
+export const faceMatchStatuses = ["matched", "low_confidence", "no_face", "no_reference", "unavailable"] as const;
+
 export const insertAttendanceSchema = z.object({
   userId: z.string(),
   date: z.date().optional(),
@@ -629,22 +647,197 @@ export const insertAttendanceSchema = z.object({
   workingHours: z.number().optional(),
   breakHours: z.number().optional(),
   isLate: z.boolean().default(false),
-  lateMinutes: z.number().optional(),
+  lateMinutes: z.number().optional(), // Net of approved late-arrival permission
+  grossLateMinutes: z.number().optional(), // Lateness before permission was offset
+  permissionMinutesApplied: z.number().optional(), // Late minutes excused by late-arrival permission
   approvedBy: z.string().optional(),
   remarks: z.string().optional(),
   isWithinOfficeRadius: z.boolean().default(false),
   distanceFromOffice: z.number().optional(),
+  detectedOfficeId: z.string().optional(), // Office matched at check-in; drives office-specific holidays
+  // Break punches - several per day; a break without endTime is in progress
+  breaks: z.array(z.object({
+    startTime: z.date(),
+    endTime: z.date().optional(),
+    durationMinutes: z.number().optional(),
+    reason: z.string().optional()
+  })).optional(),
+  excessBreakMinutes: z.number().optional(), // Break time beyond the allowed breakDurationMinutes
+  // Overtime - overtimeHours only holds approved (payable) hours; the raw figure is kept separately
+  recordedOvertimeHours: z.number().optional(),
+  overtimeApproved: z.boolean().optional(),
+  overtimeRequestId: z.string().optional(),
+  // Punch capture for the anomaly analyzer (image hashes are computed server-side from the stored photo)
+  checkInAccuracy: z.number().optional(),
+  checkOutAccuracy: z.number().optional(),
+  checkInImageHash: z.string().optional(),
+  checkOutImageHash: z.string().optional(),
+  checkInDeviceFingerprint: z.string().optional(),
+  checkOutDeviceFingerprint: z.string().optional(),
+  anomalyScore: z.number().min(0).max(100).optional(),
+  anomalyFlags: z.array(z.object({
+    type: z.enum(attendanceAnomalyTypes),
+    punch: z.enum(["check_in", "check_out"]),
+    score: z.number(),
+    reason: z.string()
+  })).optional(),
+  anomalyReviewStatus: z.enum(attendanceAnomalyReviewStatuses).optional(),
+  anomalyReviewedBy: z.string().optional(),
+  anomalyReviewedAt: z.date().optional(),
+  anomalyReviewComment: z.string().optional(),
+  // End-of-day auto close-out metadata
+  autoClosed: z.boolean().optional(),
+  autoClosedAt: z.date().optional(),
+  autoClosePolicy: z.enum(autoCheckOutPolicies).optional(),
+  autoCloseReason: z.string().optional(),
+  requiresRegularization: z.boolean().optional(),
+  statusOverriddenBy: z.string().optional(), // Admin who set the status by hand; recalculation keeps it
+  // Punches made on a shared kiosk terminal; coordinates are the kiosk's office, not the employee's phone
+  checkInKioskId: z.string().optional(),
+  checkOutKioskId: z.string().optional(),
+  // Check-in location validation outcome, kept so admins can see why a punch was accepted
+  locationAccuracy: z.number().optional(),
+  locationValidationType: z.string().optional(),
+  locationConfidence: z.number().optional(),
+  locationConfidenceFactors: z.array(z.string()).optional(),
+  locationValidationMessage: z.string().optional(),
+  locationEffectiveRadius: z.number().optional(),
+  // Punches captured without signal and synced later; check-in/check-out times are the device's capture time
+  syncStatus: z.enum(["offline_synced"]).optional(),
+  checkInSyncedAt: z.date().optional(),
+  checkOutSyncedAt: z.date().optional(),
+  // Check-in selfie verified against the profile photo; score is 0-1 similarity, absent when no face was compared
+  checkInFaceMatchStatus: z.enum(faceMatchStatuses).optional(),
+  checkInFaceMatchScore: z.number().min(0).max(1).optional(),
+  // Approved leave on the day. Full-day leave creates the record with status "leave"; a check-in on
+  // such a day keeps the leave reference and sets leaveConflict for HR to reconcile.
+  leaveId: z.string().optional(),
+  leaveType: z.string().optional(),
+  leaveConflict: z.boolean().optional(),
 });
 
+// Outer ring of an office boundary polygon. Stored as objects because Firestore rejects nested arrays,
+// so GeoJSON [lng, lat] rings are converted before saving.
+export const geofencePointSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
+
+// Per-office overrides for EnterpriseLocationService thresholds; anything left out uses the service default
+export const locationValidationSettingsSchema = z.object({
+  precisionExcellent: z.number().positive().max(1000), // GPS accuracy (m) counted as excellent
+  precisionGood: z.number().positive().max(2000),
+  precisionFair: z.number().positive().max(5000),
+  precisionPoor: z.number().positive().max(10000),
+  indoorAccuracyThreshold: z.number().positive().max(5000), // Accuracy (m) at which indoor compensation kicks in
+  indoorDistanceMultiplier: z.number().min(1).max(50), // x office radius allowed indoors
+  poorGpsThreshold: z.number().positive().max(10000),
+  poorGpsMultiplier: z.number().min(1).max(50),
+  geofenceMaxAccuracyBuffer: z.number().min(0).max(1000), // Max GPS error (m) forgiven outside a polygon
+}).partial();
+
+export const defaultLocationValidationSettings: Required<z.infer<typeof locationValidationSettingsSchema>> = {
+  // Precision thresholds for enterprise-grade accuracy (more realistic for mobile devices)
+  precisionExcellent: 10,
+  precisionGood: 50,
+  precisionFair: 200,
+  precisionPoor: 500,
+  // Indoor GPS compensation - very aggressive for real-world usage
+  indoorAccuracyThreshold: 50,
+  indoorDistanceMultiplier: 20,
+  poorGpsThreshold: 200,
+  poorGpsMultiplier: 25,
+  // Polygon geofences are already drawn to the real boundary, so only the reported GPS error is forgiven
+  geofenceMaxAccuracyBuffer: 150,
+};
+
 export const insertOfficeLocationSchema = z.object({
   name: z.string(),
   latitude: z.string(),
   longitude: z.string(),
   radius: z.number().default(100), // Default 100 meters radius
+  geofence: z.array(geofencePointSchema).min(3).max(500).nullable().optional(), // When set, replaces the radius check
+  validationSettings: locationValidationSettingsSchema.nullable().optional(),
   address: z.string().optional(),
   isActive: z.boolean().default(true),
 });
 
+// Shared attendance terminal fixed at an office; it authenticates with a device token, not a user login
+export const insertAttendanceKioskSchema = z.object({
+  name: z.string().min(2),
+  officeLocationId: z.string(),
+  deviceTokenHash: z.string(),
+  isActive: z.boolean().default(true),
+  createdBy: z.string(),
+});
+
+// Signing key for an office's check-in QR codes; replacing it revokes every code issued with it
+export const insertOfficeQrKeySchema = z.object({
+  officeLocationId: z.string(),
+  secret: z.string(),
+  version: z.number().int().min(1),
+  rotatedBy: z.string(),
+});
+
+// One location validation at check-in, kept for the location accuracy dashboard
+export const insertLocationValidationMetricSchema = z.object({
+  userId: z.string(),
+  officeLocationId: z.string().nullable().optional(), // Matched office; null when no office matched
+  attendanceType: z.string(),
+  validationType: z.string(),
+  isValid: z.boolean(),
+  confidence: z.number(),
+  accuracy: z.number(), // Reported GPS accuracy in meters
+  distance: z.number(),
+  deviceType: z.string().optional(),
+  locationCapability: z.string().optional(),
+  confidenceFactors: z.array(z.string()).default([]),
+  responseTimeMs: z.number().optional(),
+});
+
+// Per-user key a device signs offline punches with; it is fetched while online and kept on the device
+export const insertOfflinePunchKeySchema = z.object({
+  userId: z.string(),
+  secret: z.string(),
+  expiresAt: z.date(),
+});
+
+export const offlinePunchKinds = [
+  "attendance_check_in", "attendance_check_out", "site_visit_start", "site_visit_checkout"
+] as const;
+
+// A punch captured offline, as uploaded on reconnect. payloadJson is signed exactly as it was stored.
+export const offlinePunchSchema = z.object({
+  clientId: z.string().min(8).max(64), // Generated on the device; makes re-uploads idempotent
+  kind: z.enum(offlinePunchKinds),
+  capturedAt: z.coerce.date(), // Device clock at capture
+  keyId: z.string(),
+  payloadJson: z.string().max(30 * 1024 * 1024),
+  signature: z.string(),
+});
+
+// Outcome of syncing one offline punch, keyed by user and clientId
+export const insertOfflinePunchSyncSchema = z.object({
+  userId: z.string(),
+  clientId: z.string(),
+  kind: z.enum(offlinePunchKinds),
+  capturedAt: z.date(),
+  status: z.enum(["processing", "applied", "rejected"]),
+  message: z.string().optional(),
+  entityId: z.string().optional(), // Attendance record or site visit the punch was applied to
+});
+
+// Per-employee kiosk sign-in - PIN (salted hash) and/or printed QR badge
+export const insertKioskCredentialSchema = z.object({
+  userId: z.string(),
+  pinHash: z.string().optional(),
+  pinSalt: z.string().optional(),
+  badgeCode: z.string().optional(),
+  failedAttempts: z.number().int().min(0).default(0),
+  lockedUntil: z.date().nullable().optional(),
+  updatedBy: z.string(),
+});
+
 // Department timing schema for attendance calculations
 export const insertDepartmentTimingSchema = z.object({
   departmentId: z.string(),
@@ -687,17 +880,203 @@ export const insertDepartmentTimingSchema = z.object({
   flexibleCheckInEnd: z.string().optional(),   // e.g., "10:00"
   breakDurationMinutes: z.number().min(0).default(60), // Lunch break duration
   weeklyOffDays: z.array(z.number().min(0).max(6)).default([0]), // 0=Sunday, 1=Monday, etc.
+  autoCheckOutGraceMinutes: z.number().min(0).default(120), // Wait after check-out time before auto-closing
+  autoCheckOutPolicy: z.enum(autoCheckOutPolicies).default("cap_at_shift_end"),
+  permissionMinutesPerMonth: z.number().min(0).default(120), // Short-leave allowance per employee per month
   isActive: z.boolean().default(true),
   createdBy: z.string(),
   updatedBy: z.string().optional(),
 });
 
+// Named shift definitions for rotating and night shifts (overrides department timing when rostered)
+export const insertShiftSchema = z.object({
+  name: z.string().min(2, "Shift name must be at least 2 characters"),
+  code: z.string().min(1).max(10), // Short label for rosters, e.g. "GEN", "NIGHT"
+  department: z.enum(departments).nullable().optional(), // null = available to all departments
+  startTime: z.string().regex(/^(\d{1,2}):(\d{2})\s*(AM|PM)$/i, "Time must be in 12-hour format (h:mm AM/PM)"),
+  endTime: z.string().regex(/^(\d{1,2}):(\d{2})\s*(AM|PM)$/i, "Time must be in 12-hour format (h:mm AM/PM)"), // Earlier than startTime = ends next day
+  breakDurationMinutes: z.number().min(0).default(60),
+  isActive: z.boolean().default(true),
+  createdBy: z.string()
+});
+
+// Weekly shift roster per user - one document per user per week (week starts Monday)
+export const insertShiftRosterSchema = z.object({
+  userId: z.string(),
+  weekStartDate: z.date(),
+  assignments: z.array(z.object({
+    dayOfWeek: z.number().min(0).max(6), // 0=Sunday, 1=Monday, etc.
+    shiftId: z.string().nullable() // null = weekly off
+  })).max(7),
+  notes: z.string().optional(),
+  createdBy: z.string()
+});
+
+// Holiday calendar - national, state (Tamil Nadu), company-specific and optional holidays
+export const holidayTypes = ["national", "state", "company", "optional"] as const;
+export const holidayCheckInPolicies = ["warn", "block"] as const;
+
+export const insertHolidaySchema = z.object({
+  name: z.string().min(2, "Holiday name must be at least 2 characters"),
+  date: z.date(),
+  type: z.enum(holidayTypes),
+  state: z.string().nullable().optional(), // Only meaningful for state holidays, e.g. "Tamil Nadu"
+  officeLocationIds: z.array(z.string()).default([]), // Empty = applies to every office
+  isPaid: z.boolean().default(true), // Optional holidays are never paid automatically
+  checkInPolicy: z.enum(holidayCheckInPolicies).default("warn"),
+  description: z.string().optional(),
+  isActive: z.boolean().default(true),
+  createdBy: z.string()
+});
+
+// Monthly permission-hour ledger - one document per user per month (month = first day of the month)
 export const insertPermissionSchema = z.object({
   userId: z.string(),
   month: z.date(),
   minutesUsed: z.number().default(0),
 });
 
+// Short "permission" absences drawn from the monthly allowance on the department timing
+export const permissionRequestTypes = ["late_arrival", "early_leave"] as const;
+
+export const insertPermissionRequestSchema = z.object({
+  userId: z.string(),
+  date: z.date(),
+  permissionType: z.enum(permissionRequestTypes),
+  minutes: z.number().int().min(15, "Permission must be at least 15 minutes").max(240, "Permission cannot exceed 4 hours"),
+  reason: z.string().min(10, "Reason must be at least 10 characters"),
+  status: z.enum(["pending", "approved", "rejected", "cancelled"]).default("pending"),
+  approverId: z.string().nullable().optional(), // Reporting manager at the time of request
+  reviewedBy: z.string().optional(),
+  reviewedAt: z.date().optional(),
+  reviewComment: z.string().optional(),
+  attendanceId: z.string().optional(), // Attendance record the permission was offset against
+  minutesApplied: z.number().optional(), // Late or early minutes actually excused on that record
+});
+
+// Leave types are a fixed set; each one's entitlements and year-end rules are configurable.
+// loss_of_pay has no balance - it is tracked in the ledger but never blocks a request.
+export const leaveTypeCodes = ["casual", "sick", "earned", "comp_off", "maternity", "loss_of_pay"] as const;
+export const leaveAccrualFrequencies = ["yearly", "monthly"] as const;
+// Half-day and hourly leaves cover part of a single working day
+export const leaveDurationTypes = ["full_day", "half_day", "hourly"] as const;
+export const leaveSessions = ["first_half", "second_half"] as const;
+export const leaveLedgerEntryTypes = [
+  "accrual", "carry_forward", "debit", "reversal", "adjustment", "encashment"
+] as const;
+
+// Days per calendar year for employees matching both fields; a null field matches anyone
+export const leaveEntitlementSchema = z.object({
+  employmentType: z.enum(employmentTypes).nullable().optional(),
+  payrollGrade: z.enum(payrollGrades).nullable().optional(),
+  daysPerYear: z.number().min(0).max(366),
+});
+
+export const insertLeaveTypeSchema = z.object({
+  code: z.enum(leaveTypeCodes),
+  name: z.string().min(2, "Name must be at least 2 characters"),
+  isPaid: z.boolean().default(true),
+  requiresBalance: z.boolean().default(true),
+  // yearly credits the whole entitlement on 1 January (pro-rated for joiners); monthly credits 1/12 each month
+  accrualFrequency: z.enum(leaveAccrualFrequencies).default("yearly"),
+  entitlements: z.array(leaveEntitlementSchema).default([]),
+  carryForwardCap: z.number().min(0).default(0), // Unused days taken into the next year; the rest lapse
+  encashmentCap: z.number().min(0).default(0), // Days that can be encashed per year
+  isActive: z.boolean().default(true),
+  updatedBy: z.string(),
+});
+
+export const insertLeaveLedgerEntrySchema = z.object({
+  userId: z.string(),
+  leaveType: z.enum(leaveTypeCodes),
+  year: z.number().int().min(2000).max(2100),
+  entryType: z.enum(leaveLedgerEntryTypes),
+  days: z.number(), // Credits are positive, debits negative
+  leaveId: z.string().optional(),
+  period: z.string().optional(), // Accrual month (YYYY-MM) or year the entry covers
+  note: z.string().optional(),
+  createdBy: z.string(), // User id, or 'system' for accruals and carry-forward
+});
+
+// Leave approval chain: reporting manager first, then the department head for longer leaves
+export const leaveApprovalLevels = ["reporting_manager", "department_head"] as const;
+
+export const leaveApprovalStepSchema = z.object({
+  level: z.enum(leaveApprovalLevels),
+  approverId: z.string().nullable(), // null: no eligible approver was found, HR or a department approver picks it up
+  status: z.enum(["pending", "approved", "rejected"]).default("pending"),
+  decidedBy: z.string().optional(),
+  decidedAt: z.coerce.date().optional(),
+  comment: z.string().optional(),
+});
+
+// Minimum headcount that has to stay at work in a department; leave that drops below it is flagged
+export const insertLeaveCoverageRuleSchema = z.object({
+  department: z.enum(departments),
+  designation: z.enum(designations).nullable().optional(), // null = everyone in the department
+  minimumPresent: z.number().int().min(1),
+  isActive: z.boolean().default(true),
+  createdBy: z.string(),
+});
+
+// A leave type with any stored settings applied over the built-in defaults
+export interface LeaveTypeConfig extends Omit<InsertLeaveType, "updatedBy"> {
+  isCustomized: boolean;
+  updatedBy?: string;
+  updatedAt?: Date;
+}
+
+// Balance of one leave type for an employee, as the leave pages show it
+export interface LeaveBalanceSummary {
+  leaveType: LeaveTypeCode;
+  name: string;
+  isPaid: boolean;
+  requiresBalance: boolean;
+  year: number;
+  entitlement: number; // Days per year for this employee
+  accrued: number;
+  carriedForward: number;
+  used: number; // Net of reversals for rejected leaves
+  adjusted: number;
+  encashed: number;
+  balance: number;
+}
+
+// A day a coverage rule is not met once the leaves on it are taken
+export interface LeaveCoverageWarning {
+  date: string; // YYYY-MM-DD
+  ruleId: string;
+  department: string;
+  designation?: string | null;
+  minimumPresent: number;
+  headcount: number;
+  available: number;
+  awayUserIds: string[];
+  atRisk: boolean; // Only short if the pending leaves that day are approved as well
+}
+
+// One leave on the team or department calendar
+export interface LeaveCalendarEntry {
+  leaveId: string;
+  userId: string;
+  displayName: string;
+  designation?: string | null;
+  leaveType?: string;
+  status: "pending" | "approved" | "rejected";
+  startDate: Date;
+  endDate: Date;
+  days?: number;
+  durationType?: LeaveDurationType;
+  session?: LeaveSession;
+  hours?: number;
+}
+
+export interface LeaveCalendar {
+  members: { id: string; displayName: string; department: string | null; designation: string | null }[];
+  entries: LeaveCalendarEntry[];
+  coverageWarnings: LeaveCoverageWarning[];
+}
+
 // Phase 2: Enterprise Permission Matrix Schemas
 export const insertRoleSchema = z.object({
   name: z.string().min(2, "Role name must be at least 2 characters"),
@@ -883,6 +1262,7 @@ export const insertAttendancePolicySchema = z.object({
   // Leave policies
   lateMarkAfterMinutes: z.number().min(0).default(15),
   halfDayMarkAfterMinutes: z.number().min(0).default(240), // 4 hours
+  absentMarkAfterMinutes: z.number().min(0).nullable().optional(), // Late arrival beyond this is absent; unset = never
   
   // Weekend and holiday policies
   weekendDays: z.array(z.number().min(0).max(6)).default([0, 6]), // 0=Sunday, 6=Saturday
@@ -892,6 +1272,46 @@ export const insertAttendancePolicySchema = z.object({
   createdBy: z.string()
 });
 
+// Attendance regularization - employee raised corrections reviewed by reporting manager
+export const regularizationRequestTypes = ["missed_punch", "wrong_time", "forgot_checkout"] as const;
+
+export const insertAttendanceRegularizationSchema = z.object({
+  attendanceId: z.string(),
+  userId: z.string(),
+  requestType: z.enum(regularizationRequestTypes),
+  requestedCheckInTime: z.date().optional(),
+  requestedCheckOutTime: z.date().optional(),
+  reason: z.string().min(10, "Reason must be at least 10 characters"),
+  status: z.enum(["pending", "approved", "rejected"]).default("pending"),
+  approverId: z.string().nullable().optional(), // Reporting manager at the time of request
+  reviewedBy: z.string().optional(),
+  reviewedAt: z.date().optional(),
+  reviewComment: z.string().optional(),
+  // Snapshot of the record before correction for audit purposes
+  originalCheckInTime: z.date().nullable().optional(),
+  originalCheckOutTime: z.date().nullable().optional(),
+  originalStatus: z.string().optional()
+});
+
+// Overtime requests - planned (raised before the work day) or post-facto (raised at check-out)
+export const overtimeRequestTypes = ["planned", "post_facto"] as const;
+
+export const insertOvertimeRequestSchema = z.object({
+  userId: z.string(),
+  attendanceId: z.string().nullable().optional(), // Linked once the employee checks out on the work date
+  requestType: z.enum(overtimeRequestTypes),
+  workDate: z.date(),
+  requestedHours: z.number().min(0.25).max(24),
+  approvedHours: z.number().min(0).optional(),
+  otReason: z.string().min(10, "Reason must be at least 10 characters"),
+  otImageUrl: z.string().optional(),
+  status: z.enum(["pending", "approved", "rejected"]).default("pending"),
+  approverId: z.string().nullable().optional(), // Reporting manager at the time of request
+  reviewedBy: z.string().optional(),
+  reviewedAt: z.date().optional(),
+  reviewComment: z.string().optional()
+});
+
 // Enhanced Payroll System Schemas
 export const insertPayrollFieldConfigSchema = z.object({
   name: z.string().min(1, "Field name is required"),
@@ -925,6 +1345,21 @@ export const insertEnhancedSalaryStructureSchema = z.object({
   isActive: z.boolean().default(true)
 });
 
+// Late-arrival penalties, evaluated per employee per month when payroll is processed
+export const latePenaltyTriggers = ["late_count", "late_minutes"] as const;
+
+export const insertLatePenaltyRuleSchema = z.object({
+  name: z.string().min(2, "Rule name must be at least 2 characters"),
+  trigger: z.enum(latePenaltyTriggers),
+  // late_count: late marks in the month; late_minutes: minutes late on a single day
+  threshold: z.number().int().min(1),
+  deductionDays: z.number().positive().max(31),
+  repeatEveryThreshold: z.boolean().default(true), // late_count only - deduct again for every further block of marks
+  department: z.enum(departments).nullable().optional(), // null = applies to all departments
+  isActive: z.boolean().default(true),
+  createdBy: z.string()
+});
+
 export const insertEnhancedPayrollSchema = z.object({
   userId: z.string(),
   employeeId: z.string(),
@@ -948,6 +1383,7 @@ export const insertEnhancedPayrollSchema = z.object({
       return presentDays <= monthDays;
     }, "Present days cannot exceed month days"),
   paidLeaveDays: z.number().min(0).default(0),
+  paidHolidayDays: z.number().min(0).default(0),
   overtimeHours: z.number().min(0).default(0),
   perDaySalary: z.number().min(0),
   earnedBasic: z.number().min(0),
@@ -959,6 +1395,15 @@ export const insertEnhancedPayrollSchema = z.object({
   grossSalary: z.number().min(0), // Gross before BETTA
   finalGross: z.number().min(0), // Final gross after BETTA
   dynamicDeductions: z.record(z.number()).default({}),
+  latePenaltyBreakdown: z.array(z.object({
+    ruleId: z.string(),
+    ruleName: z.string(),
+    trigger: z.enum(latePenaltyTriggers),
+    threshold: z.number(),
+    deductionDays: z.number(),
+    amount: z.number(),
+    dates: z.array(z.string()) // YYYY-MM-DD
+  })).optional(), // Which late days produced the "Late Penalty" deduction
   epfDeduction: z.number().min(0).default(0),
   esiDeduction: z.number().min(0).default(0),
   vptDeduction: z.number().min(0).default(0),
@@ -1002,6 +1447,7 @@ export const insertEnhancedPayrollSettingsSchema = z.object({
 export type Department = typeof departments[number];
 export type Designation = typeof designations[number];
 export type PayrollGrade = typeof payrollGrades[number];
+export type EmploymentType = typeof employmentTypes[number];
 export type SystemPermission = typeof systemPermissions[number];
 export type DesignationLevel = typeof designationLevels[keyof typeof designationLevels];
 
@@ -1011,7 +1457,37 @@ export type InsertDesignation = z.infer<typeof insertDesignationSchema>;
 export type InsertPermissionGroup = z.infer<typeof insertPermissionGroupSchema>;
 export type InsertAttendance = z.infer<typeof insertAttendanceSchema>;
 export type InsertOfficeLocation = z.infer<typeof insertOfficeLocationSchema>;
+export type GeofencePoint = z.infer<typeof geofencePointSchema>;
+export type LocationValidationSettings = z.infer<typeof locationValidationSettingsSchema>;
+export type InsertAttendanceKiosk = z.infer<typeof insertAttendanceKioskSchema>;
+export type InsertKioskCredential = z.infer<typeof insertKioskCredentialSchema>;
+export type InsertOfficeQrKey = z.infer<typeof insertOfficeQrKeySchema>;
+export type InsertLocationValidationMetric = z.infer<typeof insertLocationValidationMetricSchema>;
+export type InsertOfflinePunchKey = z.infer<typeof insertOfflinePunchKeySchema>;
+export type OfflinePunchKind = typeof offlinePunchKinds[number];
+export type OfflinePunch = z.infer<typeof offlinePunchSchema>;
+export type InsertOfflinePunchSync = z.infer<typeof insertOfflinePunchSyncSchema>;
 export type InsertPermission = z.infer<typeof insertPermissionSchema>;
+export type PermissionRequestType = typeof permissionRequestTypes[number];
+export type InsertPermissionRequest = z.infer<typeof insertPermissionRequestSchema>;
+export type AutoCheckOutPolicy = typeof autoCheckOutPolicies[number];
+export type InsertShift = z.infer<typeof insertShiftSchema>;
+export type InsertShiftRoster = z.infer<typeof insertShiftRosterSchema>;
+export type HolidayType = typeof holidayTypes[number];
+export type InsertHoliday = z.infer<typeof insertHolidaySchema>;
+export type LatePenaltyTrigger = typeof latePenaltyTriggers[number];
+export type InsertLatePenaltyRule = z.infer<typeof insertLatePenaltyRuleSchema>;
+export type LeaveTypeCode = typeof leaveTypeCodes[number];
+export type LeaveAccrualFrequency = typeof leaveAccrualFrequencies[number];
+export type LeaveDurationType = typeof leaveDurationTypes[number];
+export type LeaveSession = typeof leaveSessions[number];
+export type LeaveLedgerEntryType = typeof leaveLedgerEntryTypes[number];
+export type LeaveEntitlement = z.infer<typeof leaveEntitlementSchema>;
+export type InsertLeaveType = z.infer<typeof insertLeaveTypeSchema>;
+export type InsertLeaveLedgerEntry = z.infer<typeof insertLeaveLedgerEntrySchema>;
+export type LeaveApprovalLevel = typeof leaveApprovalLevels[number];
+export type LeaveApprovalStep = z.infer<typeof leaveApprovalStepSchema>;
+export type InsertLeaveCoverageRule = z.infer<typeof insertLeaveCoverageRuleSchema>;
 
 // Phase 2 types (enterprise RBAC)
 export type InsertRole = z.infer<typeof insertRoleSchema>;
@@ -1025,6 +1501,167 @@ export type InsertPayroll = z.infer<typeof insertPayrollSchema>;
 export type InsertPayrollSettings = z.infer<typeof insertPayrollSettingsSchema>;
 export type InsertSalaryAdvance = z.infer<typeof insertSalaryAdvanceSchema>;
 export type InsertAttendancePolicy = z.infer<typeof insertAttendancePolicySchema>;
+export type RegularizationRequestType = typeof regularizationRequestTypes[number];
+export type InsertAttendanceRegularization = z.infer<typeof insertAttendanceRegularizationSchema>;
+export type OvertimeRequestType = typeof overtimeRequestTypes[number];
+export type InsertOvertimeRequest = z.infer<typeof insertOvertimeRequestSchema>;
+export type AttendanceAnomalyType = typeof attendanceAnomalyTypes[number];
+export type FaceMatchStatus = typeof faceMatchStatuses[number];
+export type AttendanceAnomalyReviewStatus = typeof attendanceAnomalyReviewStatuses[number];
+
+// Per-record diff from an attendance recalculation preview or commit
+export interface AttendanceFieldChange {
+  field: string;
+  before: string | number | boolean | null;
+  after: string | number | boolean | null;
+}
+
+export interface RecalculationRecordDiff {
+  attendanceId: string;
+  userId: string;
+  userName: string;
+  department: string;
+  date: Date;
+  changes: AttendanceFieldChange[];
+}
+
+export interface RecalculationSummary {
+  startDate: Date;
+  endDate: Date;
+  department: string;
+  dryRun: boolean;
+  scanned: number;
+  changed: number;
+  skipped: Array<{ attendanceId: string; reason: string }>;
+  diffs: RecalculationRecordDiff[];
+}
+
+// Location accuracy dashboard built from persisted check-in validations
+export type AccuracyGrade = "excellent" | "good" | "fair" | "poor" | "very_poor";
+
+export interface AccuracyBreakdown {
+  key: string;
+  label: string;
+  total: number;
+  accepted: number;
+  acceptanceRate: number;
+  averageAccuracy: number;
+  medianAccuracy: number;
+  grades: Record<AccuracyGrade, number>;
+}
+
+export interface ValidationTypeBreakdown {
+  validationType: string;
+  total: number;
+  accepted: number;
+  acceptanceRate: number;
+  averageConfidence: number;
+}
+
+export interface IndoorCompensationUser {
+  userId: string;
+  displayName: string;
+  department: string | null;
+  total: number;
+  indoorCompensated: number;
+  share: number; // Fraction of the user's check-ins accepted under indoor compensation
+}
+
+export interface LocationAnalyticsDashboard {
+  startDate: Date;
+  endDate: Date;
+  totalValidations: number;
+  acceptanceRate: number;
+  byOffice: AccuracyBreakdown[];
+  byDeviceCapability: AccuracyBreakdown[];
+  byValidationType: ValidationTypeBreakdown[];
+  indoorCompensationUsers: IndoorCompensationUser[];
+}
+
+// List endpoints return the stored document: its insert shape plus the document id
+export type WithId<T> = T & { id: string };
+// Attendance documents always carry their date; the insert schema lets the server default it
+export type AttendanceRecord = WithId<InsertAttendance> & { date: Date };
+
+// Month totals per employee on the muster roll and the team summary
+export interface MusterRollTotals {
+  present: number;
+  absent: number;
+  leave: number;
+  halfDay: number;
+  holiday: number;
+  weeklyOff: number;
+  lateMarks: number;
+  overtimeHours: number;
+  daysWorked: number; // Half days count as 0.5
+  pendingRegularization: number; // Auto-closed without a verified check-out; not worked until corrected
+}
+
+// P present, A absent, L leave, HD half day, H holiday, WO weekly off; blank before joining or after today
+export type MusterRollCode = "P" | "A" | "L" | "HD" | "H" | "WO" | "R" | "";
+
+export interface MusterRollDay {
+  date: string; // YYYY-MM-DD
+  code: MusterRollCode;
+  late: boolean;
+  overtimeHours: number;
+}
+
+export interface MusterRollRow {
+  userId: string;
+  employeeId: string;
+  name: string;
+  department: string | null;
+  designation: string | null;
+  days: MusterRollDay[];
+  totals: MusterRollTotals;
+}
+
+export interface MusterRoll {
+  month: number; // 1-12
+  year: number;
+  department?: string;
+  officeLocationId?: string;
+  officeName?: string;
+  days: Array<{ date: string; day: number; weekday: string }>;
+  rows: MusterRollRow[];
+  generatedAt: Date;
+}
+
+// Team attendance view for reporting managers
+export type LiveAttendanceState =
+  | "checked_in"
+  | "on_break"
+  | "checked_out"
+  | "not_checked_in"
+  | "on_leave"
+  | "holiday"
+  | "weekly_off";
+
+export interface TeamMember {
+  userId: string;
+  name: string;
+  employeeId?: string;
+  department: string | null;
+  designation: string | null;
+  reportingManagerId?: string | null;
+  reportLevel: number; // 1 for direct reports, 2+ for indirect; 0 when viewing the whole company
+}
+
+export interface TeamLiveStatus extends TeamMember {
+  state: LiveAttendanceState;
+  attendanceId?: string;
+  attendanceType?: string;
+  checkInTime?: Date;
+  checkOutTime?: Date;
+  isLate: boolean;
+  lateMinutes: number;
+  currentWorkingHours: number;
+}
+
+export interface TeamMonthlySummary extends TeamMember {
+  totals: MusterRollTotals;
+}
 
 // Enterprise permission checking utilities
 export const getDesignationLevel = (designation: Designation): number => {